@@ -0,0 +1,278 @@
+/**
+ * Admin Handler
+ * Admin-only Telegram commands for smart wallet management, review of wallet discovery
+ * proposals and forced scans
+ * Every command, successful or not, is written to the admin audit log, including
+ * attempts by non-admins and rejected arguments
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { logger } from '@/utils/logger';
+import { getAdminRepository } from '@/services/admin';
+import { getSmartWalletRepository, getSmartWalletScanner, normalizeCategory } from '@/services/consensus';
+import { WalletChangeRecord, getDiscoveryRepository, getWalletDiscoveryService } from '@/services/wallet-discovery';
+import { escapeMarkdown, formatShortAddress } from '@/utils/format';
+
+const USAGE =
+  '*Smart Wallet Admin*\n\n' +
+  '`/sw_add 0x... Alias` - Add (or reactivate) a smart wallet\n' +
+  '`/sw_remove 0x...` - Deactivate a smart wallet\n' +
+  '`/sw_tag 0x... Politics [rank]` - Set specialty and category rank\n' +
+  '`/sw_pause 0x... [off]` - Skip a wallet in scans (or resume it)\n' +
+  '`/sw_proposals` - Changes proposed by wallet discovery\n' +
+  '`/sw_apply <id|all>` - Apply a proposed change\n' +
+  '`/sw_reject <id|all>` - Reject a proposed change\n' +
+  '`/scan_now` - Run a consensus scan immediately';
+
+const CATEGORIES = 'Politics, Sports, Crypto';
+
+// Proposals listed and resolved by /sw_proposals, /sw_apply and /sw_reject
+const MAX_PROPOSALS = 30;
+
+/**
+ * Register admin commands on the bot
+ */
+export function registerAdminCommands(bot: Telegraf<Context>): void {
+  const adminRepository = getAdminRepository();
+  const walletRepository = getSmartWalletRepository();
+  const discoveryRepository = getDiscoveryRepository();
+
+  /**
+   * Reply and return false unless the sender is an admin
+   */
+  async function requireAdmin(ctx: Context, command: string): Promise<boolean> {
+    const telegramId = ctx.from?.id;
+    if (!telegramId) return false;
+
+    if (await adminRepository.isAdmin(telegramId)) {
+      return true;
+    }
+
+    logger.warn('Non-admin attempted admin command', { telegramId, command });
+    await audit(ctx, command, { success: false, message: 'Not an admin' });
+    await ctx.reply('⛔ This command is restricted to admins.');
+    return false;
+  }
+
+  /**
+   * Audit and reply to a command with invalid arguments
+   */
+  async function rejectArguments(ctx: Context, command: string, reply: string = USAGE): Promise<void> {
+    const text = ctx.message && 'text' in ctx.message ? ctx.message.text : undefined;
+    await audit(ctx, command, { success: false, message: 'Invalid arguments' }, undefined, { text });
+    await ctx.reply(reply, { parse_mode: 'Markdown' });
+  }
+
+  async function audit(
+    ctx: Context,
+    action: string,
+    result: { success: boolean; message: string },
+    target?: string,
+    details?: Record<string, unknown>
+  ): Promise<void> {
+    await adminRepository.logAction({
+      adminTelegramId: ctx.from!.id,
+      action,
+      target,
+      details: { ...details, result: result.message },
+      success: result.success,
+    });
+  }
+
+  // /sw_add 0x... Alias
+  bot.command('sw_add', async (ctx) => {
+    if (!await requireAdmin(ctx, 'sw_add')) return;
+
+    const [address, ...aliasParts] = ctx.message.text.split(' ').slice(1).filter(Boolean);
+    const alias = aliasParts.join(' ').slice(0, 100);
+    if (!isAddress(address) || !alias) {
+      await rejectArguments(ctx, 'sw_add');
+      return;
+    }
+
+    const result = await walletRepository.addSmartWallet(address, alias);
+    await audit(ctx, 'sw_add', result, address.toLowerCase(), { alias });
+    await ctx.reply(`${result.success ? '✅' : '❌'} ${result.message}`);
+  });
+
+  // /sw_remove 0x...
+  bot.command('sw_remove', async (ctx) => {
+    if (!await requireAdmin(ctx, 'sw_remove')) return;
+
+    const address = ctx.message.text.split(' ')[1];
+    if (!isAddress(address)) {
+      await rejectArguments(ctx, 'sw_remove');
+      return;
+    }
+
+    const result = await walletRepository.removeSmartWallet(address);
+    await audit(ctx, 'sw_remove', result, address.toLowerCase());
+    await ctx.reply(`${result.success ? '✅' : '❌'} ${result.message}`);
+  });
+
+  // /sw_tag 0x... Category [rank]
+  bot.command('sw_tag', async (ctx) => {
+    if (!await requireAdmin(ctx, 'sw_tag')) return;
+
+    const [address, categoryArg, rankArg] = ctx.message.text.split(' ').slice(1).filter(Boolean);
+    const category = normalizeCategory(categoryArg);
+    const rank = rankArg !== undefined ? parseInt(rankArg, 10) : undefined;
+
+    if (!isAddress(address) || !categoryArg) {
+      await rejectArguments(ctx, 'sw_tag');
+      return;
+    }
+    if (!category) {
+      await rejectArguments(ctx, 'sw_tag', `Unknown category "${escapeMarkdown(categoryArg)}". Use one of: ${CATEGORIES}.`);
+      return;
+    }
+    if (rank !== undefined && (isNaN(rank) || rank < 1)) {
+      await rejectArguments(ctx, 'sw_tag', 'Rank must be a positive number.');
+      return;
+    }
+
+    const result = await walletRepository.tagSmartWallet(address, category, rank);
+    await audit(ctx, 'sw_tag', result, address.toLowerCase(), { category, rank });
+    await ctx.reply(`${result.success ? '✅' : '❌'} ${result.message}`);
+  });
+
+  // /sw_pause 0x... [off]
+  bot.command('sw_pause', async (ctx) => {
+    if (!await requireAdmin(ctx, 'sw_pause')) return;
+
+    const [address, mode] = ctx.message.text.split(' ').slice(1).filter(Boolean);
+    if (!isAddress(address) || (mode !== undefined && mode.toLowerCase() !== 'off')) {
+      await rejectArguments(ctx, 'sw_pause');
+      return;
+    }
+
+    const paused = mode === undefined;
+    const result = await walletRepository.setWalletPaused(address, paused);
+    await audit(ctx, 'sw_pause', result, address.toLowerCase(), { paused });
+    await ctx.reply(`${result.success ? '✅' : '❌'} ${result.message}`);
+  });
+
+  // /sw_proposals - Pending wallet discovery changes
+  bot.command('sw_proposals', async (ctx) => {
+    if (!await requireAdmin(ctx, 'sw_proposals')) return;
+
+    const proposals = await discoveryRepository.getRecentChanges(MAX_PROPOSALS, 'PROPOSED');
+    await audit(ctx, 'sw_proposals', { success: true, message: `${proposals.length} pending` });
+    await ctx.reply(formatProposals(proposals), { parse_mode: 'Markdown' });
+  });
+
+  /**
+   * Apply or reject one proposal (by ID prefix) or all of them
+   */
+  async function resolveProposals(ctx: Context, command: string, target: string | undefined, apply: boolean): Promise<void> {
+    if (!target || (target !== 'all' && !/^[0-9a-f-]{4,36}$/i.test(target))) {
+      await rejectArguments(ctx, command);
+      return;
+    }
+
+    const proposals = await discoveryRepository.getRecentChanges(MAX_PROPOSALS, 'PROPOSED');
+    const selected = target === 'all'
+      ? proposals
+      : proposals.filter(p => p.id.startsWith(target.toLowerCase()));
+
+    if (selected.length !== 1 && target !== 'all') {
+      const result = {
+        success: false,
+        message: selected.length === 0 ? 'No pending proposal with that ID.' : 'That ID matches several proposals; use more characters.',
+      };
+      await audit(ctx, command, result, target);
+      await ctx.reply(`❌ ${result.message} See /sw_proposals.`);
+      return;
+    }
+
+    let resolved = 0;
+    for (const proposal of selected) {
+      if (await discoveryRepository.resolveProposal(proposal.id, apply)) resolved++;
+    }
+
+    const verb = apply ? 'Applied' : 'Rejected';
+    const result = { success: resolved === selected.length, message: `${verb} ${resolved} of ${selected.length} proposal(s).` };
+    await audit(ctx, command, result, target, { changeIds: selected.map(p => p.id) });
+    await ctx.reply(`${result.success ? '✅' : '⚠️'} ${result.message}`);
+  }
+
+  // /sw_apply <id|all>
+  bot.command('sw_apply', async (ctx) => {
+    if (!await requireAdmin(ctx, 'sw_apply')) return;
+    await resolveProposals(ctx, 'sw_apply', ctx.message.text.split(' ').filter(Boolean)[1], true);
+  });
+
+  // /sw_reject <id|all>
+  bot.command('sw_reject', async (ctx) => {
+    if (!await requireAdmin(ctx, 'sw_reject')) return;
+    await resolveProposals(ctx, 'sw_reject', ctx.message.text.split(' ').filter(Boolean)[1], false);
+  });
+
+  // /scan_now - Force a consensus scan (reports back when it finishes)
+  bot.command('scan_now', async (ctx) => {
+    if (!await requireAdmin(ctx, 'scan_now')) return;
+
+    const scanner = getSmartWalletScanner();
+    if (!scanner) {
+      const result = { success: false, message: 'Consensus scanner is not initialized.' };
+      await audit(ctx, 'scan_now', result);
+      await ctx.reply(`❌ ${result.message}`);
+      return;
+    }
+
+    if (scanner.isScanInProgress()) {
+      const result = { success: false, message: 'A scan is already in progress.' };
+      await audit(ctx, 'scan_now', result);
+      await ctx.reply(`⏳ ${result.message}`);
+      return;
+    }
+
+    await audit(ctx, 'scan_now', { success: true, message: 'Scan started' });
+    await ctx.reply('🔍 Consensus scan started. I\'ll report back when it finishes.');
+
+    const startTime = Date.now();
+    scanner.scan()
+      .then(signals => ctx.reply(
+        `✅ Scan finished in ${Math.round((Date.now() - startTime) / 1000)}s: ${signals.length} consensus signal(s).`
+      ))
+      .catch(error => {
+        logger.error('Forced consensus scan failed', { error });
+        return ctx.reply('❌ Scan failed. Check the logs for details.');
+      });
+  });
+
+  logger.info('Admin commands registered');
+}
+
+/**
+ * Pending proposals with the last discovery run, if one ran since startup
+ */
+function formatProposals(proposals: WalletChangeRecord[]): string {
+  let message = '🔎 *Wallet Discovery Proposals*\n';
+
+  const lastRun = getWalletDiscoveryService()?.getLastRun();
+  if (lastRun) {
+    message += `_Last run ${lastRun.finishedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC: ` +
+      `${lastRun.plan.additions.length} addition(s), ${lastRun.plan.demotions.length} demotion(s) ` +
+      `${lastRun.applied ? 'applied' : 'proposed'}_\n`;
+  }
+  message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+  if (proposals.length === 0) {
+    return message + '_Nothing waiting for review._';
+  }
+
+  proposals.forEach(p => {
+    const icon = p.action === 'ADD' ? '➕' : '➖';
+    const score = p.score !== undefined ? ` • score ${p.score.toFixed(0)}` : '';
+    message += `${icon} *${p.action}* ${escapeMarkdown(p.alias)} (${formatShortAddress(p.walletAddress)})${score}\n`;
+    message += `   ${escapeMarkdown(p.reason)}\n`;
+    message += `   ID \`${p.id.slice(0, 8)}\`\n\n`;
+  });
+
+  return message + 'Apply or reject with /sw\\_apply <id|all> or /sw\\_reject <id|all>.';
+}
+
+function isAddress(value?: string): value is string {
+  return !!value && /^0x[a-fA-F0-9]{40}$/.test(value);
+}
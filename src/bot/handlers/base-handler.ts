@@ -75,7 +75,7 @@ export abstract class BaseCommandHandler {
   register(): void {
     this.bot.command(this.commandName, async (ctx: BaseCommandContext) => {
       try {
-        const { command, args } = this.parseCommand(ctx.message?.text);
+        const { command, args } = this.parseCommand(ctx.message && 'text' in ctx.message ? ctx.message.text : undefined);
         ctx.command = command;
         ctx.args = args;
 
@@ -0,0 +1,124 @@
+/**
+ * Book Watch Handler
+ * Telegram /bookwatch command - alerts on a market's order book changes
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { logger } from '@/utils/logger';
+import { BookWatch, getBookWatchService, summarizeBook } from '@/services/book-watch';
+import { escapeMarkdown, formatCents } from '@/utils/format';
+
+const USAGE =
+  '*Order Book Watch*\n\n' +
+  '*Usage:*\n' +
+  '`/bookwatch <market_id>` - Watch a market\'s order book\n' +
+  '`/bookwatch` - List watched books\n' +
+  '`/bookwatch off 2` - Stop watching book #2\n\n' +
+  'Alerts when the spread widens, liquidity near the mid dries up, or a large order ' +
+  'appears or is pulled. Use `/markets` to find market IDs.';
+
+/**
+ * Register order book watch commands on the bot
+ */
+export function registerBookWatchCommands(bot: Telegraf<Context>): void {
+  // /bookwatch [<market_id> | off <n|market_id>]
+  bot.command('bookwatch', async (ctx) => {
+    if (!ctx.chat?.id) return;
+    const chatId = ctx.chat.id;
+
+    const watchService = getBookWatchService();
+    if (!watchService) {
+      await ctx.reply('Order book watches are not available right now. Please try again later.');
+      return;
+    }
+
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+
+    try {
+      if (args.length === 0) {
+        await ctx.reply(formatWatchList(await watchService.getWatches(chatId)), { parse_mode: 'Markdown' });
+        return;
+      }
+
+      if (['off', 'stop', 'remove'].includes(args[0].toLowerCase())) {
+        if (!args[1]) {
+          await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+          return;
+        }
+
+        const watches = await watchService.getWatches(chatId);
+        const index = /^\d+$/.test(args[1]) ? parseInt(args[1], 10) : NaN;
+        const watch = isNaN(index) ? watches.find(w => w.conditionId === args[1]) : watches[index - 1];
+        if (!watch) {
+          await ctx.reply('That order book isn\'t being watched here. See /bookwatch.');
+          return;
+        }
+
+        const removed = await watchService.removeWatch(chatId, watch.conditionId);
+        await ctx.reply(
+          removed
+            ? `🗑️ Stopped watching ${escapeMarkdown(watch.marketTitle.slice(0, 60))}.`
+            : 'Failed to remove the watch. Please try again.',
+          { parse_mode: 'Markdown' }
+        );
+        return;
+      }
+
+      if (args.length !== 1) {
+        await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+        return;
+      }
+
+      const result = await watchService.addWatch(chatId, args[0]);
+      if (!result.success) {
+        await ctx.reply(`❌ ${result.message}`);
+        return;
+      }
+
+      const thresholds = watchService.getConfig();
+      let message = '📚 *Watching order book*\n\n';
+      message += `📊 ${escapeMarkdown(result.marketTitle || args[0])}\n`;
+
+      if (result.snapshot) {
+        const summary = summarizeBook(result.snapshot, thresholds.depthRange);
+        if (summary.bestBid !== undefined && summary.bestAsk !== undefined) {
+          message += `Now: bid ${formatCents(summary.bestBid)} / ask ${formatCents(summary.bestAsk)}`;
+          message += ` • $${summary.depth.toFixed(0)} within ${formatCents(thresholds.depthRange)} of mid\n`;
+        }
+      }
+
+      message += '\n*Alerts when:*\n';
+      message += `• Spread widens past ${formatCents(thresholds.maxSpread)}\n`;
+      message += `• Liquidity within ${formatCents(thresholds.depthRange)} of mid drops ${thresholds.liquidityDropPercent}%\n`;
+      message += `• A $${thresholds.wallNotional.toLocaleString()}+ order appears or is pulled\n\n`;
+      message += '_Stop with /bookwatch off <n>_';
+
+      await ctx.reply(message, { parse_mode: 'Markdown' });
+    } catch (error) {
+      logger.error('Error in bookwatch command', { error, chatId });
+      await ctx.reply('Failed to update order book watches. Please try again.');
+    }
+  });
+
+  logger.info('Order book watch commands registered');
+}
+
+/**
+ * Render a chat's watched books, numbered for /bookwatch off
+ */
+function formatWatchList(watches: BookWatch[]): string {
+  let message = '📚 *Order Book Watches*\n';
+  message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+  if (watches.length === 0) {
+    return message + '_No watched books yet._\n\n' + USAGE;
+  }
+
+  watches.forEach((watch, i) => {
+    message += `${i + 1}. ${escapeMarkdown(watch.marketTitle.slice(0, 60))}\n`;
+    message += `   \`${watch.conditionId}\`\n\n`;
+  });
+
+  message += '_Stop watching with /bookwatch off <n>_';
+  return message;
+}
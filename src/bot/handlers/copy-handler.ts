@@ -0,0 +1,286 @@
+/**
+ * Copy Handler
+ * Telegram /copy and /copylog commands - paper portfolios mirroring tracked wallets
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { logger } from '@/utils/logger';
+import { config } from '@/config';
+import { getWalletTrackerRepository } from '@/services/wallet-tracker';
+import {
+  CopyPortfolio,
+  CopyTradeRecord,
+  getCopyTradingService,
+  parseCopyRatio,
+} from '@/services/copy-trading';
+import { PositionPnl } from '@/services/pnl';
+import { escapeMarkdown, formatCompact, formatShortAddress, formatSignedUsd, formatUsd } from '@/utils/format';
+
+const USAGE =
+  '*Copy Trading (paper)*\n\n' +
+  '*Usage:*\n' +
+  '`/copy 0x... 10%` - Mirror a tracked wallet at 10% of its size\n' +
+  '`/copy 0x...` - Virtual positions and P&L vs the wallet\n' +
+  '`/copy stop 0x...` - Stop mirroring\n' +
+  '`/copy` - List your copy portfolios\n' +
+  '`/copylog 0x... [page]` - Simulated trade log\n\n' +
+  'Fills walk the live order book (slippage) and pay a simulated fee. No real orders are placed.';
+
+const TRADES_PER_PAGE = 10;
+
+/**
+ * Register copy trading commands on the bot
+ */
+export function registerCopyCommands(bot: Telegraf<Context>): void {
+  const trackerRepository = getWalletTrackerRepository();
+
+  // /copy [0x... [ratio%]] | [stop 0x...]
+  bot.command('copy', async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    const copyService = getCopyTradingService();
+    if (!copyService) {
+      await ctx.reply('Copy trading is not available right now. Please try again later.');
+      return;
+    }
+
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+
+    try {
+      if (args.length === 0) {
+        const portfolios = await copyService.getPortfolios(ctx.from.id);
+        await ctx.reply(formatPortfolioList(portfolios), { parse_mode: 'Markdown' });
+        return;
+      }
+
+      if (args[0].toLowerCase() === 'stop') {
+        const walletAddress = args[1]?.toLowerCase();
+        if (!walletAddress || !/^0x[a-f0-9]{40}$/.test(walletAddress)) {
+          await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+          return;
+        }
+
+        const stopped = await copyService.stopCopying(ctx.from.id, walletAddress);
+        await ctx.reply(
+          stopped
+            ? `⏹️ Stopped copying ${formatShortAddress(walletAddress)}. Its paper P&L stays available with /copy ${walletAddress}.`
+            : 'You are not copying this wallet.'
+        );
+        return;
+      }
+
+      const walletAddress = args[0].toLowerCase();
+      if (!/^0x[a-f0-9]{40}$/.test(walletAddress)) {
+        await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+        return;
+      }
+
+      if (args.length === 1) {
+        await ctx.reply(`📊 Valuing paper portfolio for ${formatShortAddress(walletAddress)}...`);
+        const message = await buildPortfolioReport(ctx.from.id, walletAddress);
+        await ctx.reply(message, {
+          parse_mode: 'Markdown',
+          link_preview_options: { is_disabled: true },
+        });
+        return;
+      }
+
+      const ratio = parseCopyRatio(args[1]);
+      if (ratio === null) {
+        await ctx.reply('Copy size must be a percentage of the wallet\'s size between 0 and 500, e.g. `10%`.', {
+          parse_mode: 'Markdown',
+        });
+        return;
+      }
+
+      // Fills are only seen for wallets the tracker follows
+      const isTracking = await trackerRepository.isUserTrackingWallet(ctx.from.id, walletAddress);
+      if (!isTracking) {
+        await ctx.reply(`Track the wallet first: /track ${walletAddress}`);
+        return;
+      }
+
+      const result = await copyService.startCopying(ctx.from.id, walletAddress, ratio);
+      if (!result.success) {
+        await ctx.reply(`❌ ${result.message}`);
+        return;
+      }
+
+      await ctx.reply(
+        `🪞 ${result.message}\n\n` +
+        'Every new fill of this wallet is mirrored into a paper portfolio ' +
+        `(order book slippage, ${config.copyTrading.feeBps} bps fee).\n` +
+        `Check it with /copy ${walletAddress}`
+      );
+    } catch (error) {
+      logger.error('Error in copy command', { error, telegramId: ctx.from.id });
+      await ctx.reply('Failed to update copy trading. Please try again.');
+    }
+  });
+
+  // /copylog 0x... [page] - Simulated fills, newest first
+  bot.command('copylog', async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+    const walletAddress = args[0]?.toLowerCase();
+
+    if (!walletAddress || !/^0x[a-f0-9]{40}$/.test(walletAddress)) {
+      await ctx.reply('*Usage:* `/copylog 0x... [page]`', { parse_mode: 'Markdown' });
+      return;
+    }
+
+    const copyService = getCopyTradingService();
+    if (!copyService) {
+      await ctx.reply('Copy trading is not available right now. Please try again later.');
+      return;
+    }
+
+    const page = Math.max(1, parseInt(args[1] || '1', 10) || 1);
+
+    try {
+      const log = await copyService.getTradeLog(
+        ctx.from.id,
+        walletAddress,
+        TRADES_PER_PAGE,
+        (page - 1) * TRADES_PER_PAGE
+      );
+
+      if (!log) {
+        await ctx.reply(`You have no copy portfolio for this wallet. Start one with /copy ${walletAddress} 10%`);
+        return;
+      }
+
+      let message = `📜 *Copy Log* \`${formatShortAddress(walletAddress)}\`\n`;
+      message += `_Page ${page} • ${log.portfolio.tradeCount} simulated fills_\n`;
+      message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+      if (log.trades.length === 0) {
+        message += '_No fills on this page yet._';
+      } else {
+        log.trades.forEach(trade => {
+          message += `${formatTradeLine(trade)}\n\n`;
+        });
+
+        if (page * TRADES_PER_PAGE < log.portfolio.tradeCount) {
+          message += `_Older: /copylog ${walletAddress} ${page + 1}_`;
+        }
+      }
+
+      await ctx.reply(message, { parse_mode: 'Markdown' });
+    } catch (error) {
+      logger.error('Error in copylog command', { error, telegramId: ctx.from.id });
+      await ctx.reply('Failed to load the copy log. Please try again.');
+    }
+  });
+
+  logger.info('Copy trading commands registered');
+}
+
+/**
+ * Render a paper portfolio's positions and P&L next to the source wallet
+ */
+async function buildPortfolioReport(telegramId: number, walletAddress: string): Promise<string> {
+  const result = await getCopyTradingService()!.getPortfolioReport(telegramId, walletAddress);
+  if (!result) {
+    return `You have no copy portfolio for this wallet. Start one with /copy ${walletAddress} 10%`;
+  }
+
+  const { portfolio, report, sourceReport } = result;
+
+  let message = `🪞 *Paper Copy* \`${formatShortAddress(walletAddress)}\`\n`;
+  message += `_${formatPercent(portfolio.ratio)} of size • ${formatPortfolioState(portfolio)} • since ${formatDate(portfolio.startedAt)}_\n`;
+  message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+  if (report.tradeCount === 0) {
+    message += '_No fills mirrored yet. New trades of this wallet will appear here._';
+    return message;
+  }
+
+  message += '*Your paper portfolio*\n';
+  message += `💰 Realized: ${formatSignedUsd(report.realizedPnl, 2)} • 📈 Unrealized: ${formatSignedUsd(report.unrealizedPnl, 2)}\n`;
+  message += `*Total: ${formatSignedUsd(report.totalPnl, 2)}* (ROI ${formatRoi(report.roi)})\n`;
+  message += `💼 Deployed: ${formatUsd(report.totalBought, 2)} • Open value: ${formatUsd(report.openMarketValue, 2)}\n\n`;
+
+  message += `*Source at ${formatPercent(portfolio.ratio)} size (same period)*\n`;
+  message += `*Total: ${formatSignedUsd(sourceReport.totalPnl, 2)}* (ROI ${formatRoi(sourceReport.roi)})\n`;
+  message += `📉 Copy gap: ${formatSignedUsd(report.totalPnl - sourceReport.totalPnl, 2)}\n`;
+  message += `_Slippage avg ${result.avgSlippageBps.toFixed(0)} bps • fees ${formatUsd(result.totalFees, 2)}_\n`;
+
+  const open = report.positions
+    .filter(p => p.status === 'OPEN')
+    .sort((a, b) => b.marketValue - a.marketValue)
+    .slice(0, 8);
+
+  if (open.length > 0) {
+    message += '\n*Virtual Positions*\n';
+    open.forEach(p => {
+      message += `${formatPositionLine(p)}\n`;
+    });
+  }
+
+  message += `\n_Trade log: /copylog ${walletAddress}_`;
+  return message;
+}
+
+/**
+ * List a user's copy portfolios
+ */
+function formatPortfolioList(portfolios: CopyPortfolio[]): string {
+  if (portfolios.length === 0) {
+    return USAGE;
+  }
+
+  let message = '🪞 *Your Copy Portfolios*\n';
+  message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+  portfolios.forEach(p => {
+    message += `\`${formatShortAddress(p.sourceWallet)}\` • ${formatPercent(p.ratio)} • ${formatPortfolioState(p)}\n`;
+    message += `   ${p.tradeCount} fills since ${formatDate(p.startedAt)}\n`;
+  });
+
+  message += '\n_Details: /copy 0x... • Stop: /copy stop 0x..._';
+  return message;
+}
+
+function formatPortfolioState(portfolio: CopyPortfolio): string {
+  if (!portfolio.isActive) return '⏹️ stopped';
+  return portfolio.isTracked ? '🟢 active' : '⏸️ paused (not tracked)';
+}
+
+/**
+ * Format a simulated fill for the log
+ */
+function formatTradeLine(trade: CopyTradeRecord): string {
+  const emoji = trade.side === 'BUY' ? '🟢' : '🔴';
+  const title = escapeMarkdown(trade.title.length > 40 ? trade.title.slice(0, 37) + '...' : trade.title);
+  const slippage = trade.priceSource === 'book'
+    ? `slip ${trade.slippageBps >= 0 ? '+' : ''}${trade.slippageBps.toFixed(0)} bps`
+    : 'no book, source price';
+
+  let line = `${emoji} ${trade.side} ${trade.outcome} | ${title}\n`;
+  line += `   ${formatCompact(trade.shares, 2)} @ $${trade.fillPrice.toFixed(3)} (source $${trade.sourcePrice.toFixed(3)})\n`;
+  line += `   ${slippage} • fee $${trade.fee.toFixed(2)} • ${formatDate(trade.occurredAt)}`;
+  return line;
+}
+
+/**
+ * Format a virtual position with its unrealized PnL
+ */
+function formatPositionLine(position: PositionPnl): string {
+  const emoji = position.unrealizedPnl >= 0 ? '🟢' : '🔴';
+  const title = escapeMarkdown(position.title.length > 40 ? position.title.slice(0, 37) + '...' : position.title);
+  return `${emoji} ${position.outcome} | ${title} | ${formatCompact(position.openShares, 2)} sh • ${formatSignedUsd(position.unrealizedPnl, 2)}`;
+}
+
+function formatPercent(ratio: number): string {
+  return `${+(ratio * 100).toFixed(2)}%`;
+}
+
+function formatRoi(roi: number): string {
+  return `${roi >= 0 ? '+' : ''}${roi.toFixed(1)}%`;
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 16).replace('T', ' ');
+}
@@ -0,0 +1,76 @@
+/**
+ * Digest Handler
+ * Telegram /digest command - instant (grouped) alerts or hourly/daily digests
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { logger } from '@/utils/logger';
+import { config } from '@/config';
+import { getWalletTrackerRepository, parseDigestMode, DigestMode } from '@/services/wallet-tracker';
+
+const MODE_LABELS: Record<DigestMode, string> = {
+  off: 'Instant (bursts grouped into one message)',
+  hourly: 'Hourly digest',
+  daily: 'Daily digest',
+};
+
+/**
+ * Register digest commands on the bot
+ */
+export function registerDigestCommands(bot: Telegraf<Context>): void {
+  const repository = getWalletTrackerRepository();
+
+  // /digest [off|hourly|daily]
+  bot.command('digest', async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+
+    try {
+      const preferences = await repository.getNotificationPreferences(ctx.from.id);
+      if (!preferences) {
+        await ctx.reply('You are not tracking any wallets yet. Start with /track.');
+        return;
+      }
+
+      if (args.length === 0) {
+        const current: DigestMode = preferences.digest_mode || 'off';
+        await ctx.reply(
+          '📬 *Alert Delivery*\n' +
+          '━━━━━━━━━━━━━━━━━━━━━━\n\n' +
+          `Current: *${MODE_LABELS[current]}*\n\n` +
+          '`/digest off` - Alerts as they happen\n' +
+          '`/digest hourly` - One summary per hour\n' +
+          `\`/digest daily\` - One summary per day (${config.notifications.digestHourUtc}:00 UTC)`,
+          { parse_mode: 'Markdown' }
+        );
+        return;
+      }
+
+      const mode = parseDigestMode(args[0]);
+      if (!mode) {
+        await ctx.reply('Usage: /digest off|hourly|daily');
+        return;
+      }
+
+      const updated = await repository.updateNotificationPreferences(ctx.from.id, { digest_mode: mode });
+      if (!updated) {
+        await ctx.reply('Failed to update delivery mode. Please try again.');
+        return;
+      }
+
+      await ctx.reply(
+        mode === 'off'
+          ? `✅ ${MODE_LABELS[mode]}. Anything already queued still arrives with your next digest.`
+          : `✅ ${MODE_LABELS[mode]} enabled. Wallet alerts will be collected and summarized.`
+      );
+
+      logger.info('User changed digest mode', { userId: ctx.from.id, mode });
+    } catch (error) {
+      logger.error('Error in digest command', { error, userId: ctx.from.id });
+      await ctx.reply('Failed to update delivery mode. Please try again.');
+    }
+  });
+
+  logger.info('Digest commands registered');
+}
@@ -0,0 +1,52 @@
+/**
+ * Inline Query Handler
+ * `@bot <query>` from any chat - market cards and the user's tracked-wallet cards.
+ * Inline mode must be enabled for the bot in BotFather (/setinline).
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { logger } from '@/utils/logger';
+import { getInlineQueryService } from '@/services/inline-query';
+
+/**
+ * Register the inline query handler on the bot
+ */
+export function registerInlineQueryHandlers(bot: Telegraf<Context>, cacheTimeSeconds: number): void {
+  bot.on('inline_query', async (ctx) => {
+    const inlineQueryService = getInlineQueryService();
+    if (!inlineQueryService) {
+      await ctx.answerInlineQuery([], { cache_time: 0 });
+      return;
+    }
+
+    try {
+      const answer = await inlineQueryService.answer(ctx.inlineQuery.from.id, ctx.inlineQuery.query);
+
+      if (answer.rateLimited) {
+        await ctx.answerInlineQuery([], {
+          cache_time: 0,
+          is_personal: true,
+          button: {
+            text: `⏳ Too many searches, try again in ${answer.retryAfterSeconds ?? 60}s`,
+            start_parameter: 'inline',
+          },
+        });
+        return;
+      }
+
+      // Results include the user's own wallets, so they are cached per user
+      await ctx.answerInlineQuery(answer.results, {
+        cache_time: cacheTimeSeconds,
+        is_personal: true,
+      });
+
+      logger.debug(`User ${ctx.inlineQuery.from.id} ran an inline query`, { results: answer.results.length });
+    } catch (error) {
+      // Stale queries (the user kept typing) can no longer be answered
+      if (error instanceof Error && error.message.includes('query is too old')) return;
+      logger.error('Error answering inline query', { error, userId: ctx.inlineQuery.from.id });
+    }
+  });
+
+  logger.info('Inline query handler registered');
+}
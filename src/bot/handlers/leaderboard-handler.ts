@@ -0,0 +1,151 @@
+/**
+ * Leaderboard Handler
+ * Telegram /leaderboard command - smart and tracked wallets ranked by performance
+ */
+
+import { Telegraf, Context, Markup } from 'telegraf';
+import { logger } from '@/utils/logger';
+import {
+  LEADERBOARD_METRICS,
+  MIN_CLOSED_FOR_WIN_RATE,
+  LeaderboardEntry,
+  LeaderboardMetric,
+  getLeaderboardService,
+  parseLeaderboardMetric,
+} from '@/services/leaderboard';
+import { escapeMarkdown, formatShortAddress, formatSignedUsd } from '@/utils/format';
+
+const PAGE_SIZE = 10;
+
+/**
+ * Register leaderboard commands on the bot
+ */
+export function registerLeaderboardCommands(bot: Telegraf<Context>): void {
+  /**
+   * Build one leaderboard page with metric and paging buttons
+   */
+  async function buildLeaderboardPage(
+    telegramId: number,
+    metric: LeaderboardMetric,
+    page: number
+  ): Promise<{ text: string; keyboard: ReturnType<typeof Markup.inlineKeyboard> }> {
+    const service = getLeaderboardService();
+    const leaderboard = service
+      ? await service.getLeaderboard(telegramId, metric)
+      : { metric, entries: [], pending: 0, updatedAt: null };
+
+    const totalPages = Math.max(1, Math.ceil(leaderboard.entries.length / PAGE_SIZE));
+    const currentPage = Math.min(page, totalPages - 1);
+    const pageEntries = leaderboard.entries.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+    let text = `🏆 *Leaderboard — ${LEADERBOARD_METRICS[metric]}*\n`;
+    text += `page ${currentPage + 1}/${totalPages} • 🧠 smart wallet • 👛 your wallet\n`;
+    text += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+    if (pageEntries.length === 0) {
+      text += leaderboard.pending > 0
+        ? '_Scoring wallets, check back in a minute..._'
+        : '_No wallets to rank yet. Track one with /track._';
+    }
+
+    pageEntries.forEach((entry, index) => {
+      text += formatEntry(entry, currentPage * PAGE_SIZE + index + 1, metric) + '\n\n';
+    });
+
+    if (leaderboard.pending > 0 && pageEntries.length > 0) {
+      text += `_${leaderboard.pending} wallet(s) still being scored_\n`;
+    }
+    if (metric === 'winRate') {
+      text += `_Wallets with fewer than ${MIN_CLOSED_FOR_WIN_RATE} closed positions rank last_\n`;
+    }
+    if (leaderboard.updatedAt) {
+      text += `_Updated ${leaderboard.updatedAt.toISOString().slice(11, 16)} UTC_`;
+    }
+
+    const metricButtons = (Object.keys(LEADERBOARD_METRICS) as LeaderboardMetric[]).map(m =>
+      Markup.button.callback(
+        `${m === metric ? '• ' : ''}${LEADERBOARD_METRICS[m]}`,
+        `leaderboard_page_${m}_0`
+      )
+    );
+
+    const pageButtons = [];
+    if (currentPage > 0) {
+      pageButtons.push(Markup.button.callback('⬅️ Prev', `leaderboard_page_${metric}_${currentPage - 1}`));
+    }
+    if (currentPage + 1 < totalPages) {
+      pageButtons.push(Markup.button.callback('Next ➡️', `leaderboard_page_${metric}_${currentPage + 1}`));
+    }
+
+    const rows = [metricButtons.slice(0, 3), metricButtons.slice(3)];
+    if (pageButtons.length > 0) rows.push(pageButtons);
+
+    return { text, keyboard: Markup.inlineKeyboard(rows) };
+  }
+
+  // /leaderboard [7d|30d|all|roi|winrate|sharpe]
+  bot.command(['leaderboard', 'lb'], async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+    const metric = parseLeaderboardMetric(args[0]);
+
+    try {
+      const { text, keyboard } = await buildLeaderboardPage(ctx.from.id, metric, 0);
+      await ctx.reply(text, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      logger.error('Error showing leaderboard', { error, userId: ctx.from.id });
+      await ctx.reply('Failed to load leaderboard. Please try again.');
+    }
+  });
+
+  // Metric switch and pagination buttons
+  bot.action(/^leaderboard_page_(pnl7d|pnl30d|pnlAll|roi|winRate|consistency)_(\d+)$/, async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    try {
+      const { text, keyboard } = await buildLeaderboardPage(
+        ctx.from.id,
+        ctx.match[1] as LeaderboardMetric,
+        parseInt(ctx.match[2])
+      );
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(text, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      // Tapping the active metric re-renders an identical message
+      if (error instanceof Error && error.message.includes('message is not modified')) return;
+      logger.error('Error paging leaderboard', { error, userId: ctx.from.id });
+      await ctx.answerCbQuery('Failed to load leaderboard').catch(() => undefined);
+    }
+  });
+
+  logger.info('Leaderboard commands registered');
+}
+
+/**
+ * Format a leaderboard row
+ */
+function formatEntry(entry: LeaderboardEntry, rank: number, metric: LeaderboardMetric): string {
+  const icon = entry.source === 'smart' ? '🧠' : '👛';
+  const medal = rank === 1 ? '🥇' : rank === 2 ? '🥈' : rank === 3 ? '🥉' : `${rank}.`;
+  const category = entry.category
+    ? ` • ${escapeMarkdown(entry.category)}${entry.categoryRank ? ` #${entry.categoryRank}` : ''}`
+    : '';
+
+  const stats = [
+    `${metric === 'pnl7d' ? '*7d*' : '7d'} ${formatSignedUsd(entry.pnl7d)}`,
+    `${metric === 'pnl30d' ? '*30d*' : '30d'} ${formatSignedUsd(entry.pnl30d)}`,
+    `${metric === 'pnlAll' ? '*All*' : 'All'} ${formatSignedUsd(entry.pnlAll)}`,
+  ];
+  const ratios = [
+    `ROI ${entry.roi >= 0 ? '+' : ''}${entry.roi.toFixed(1)}%`,
+    `WR ${entry.closedPositions > 0 ? (entry.winRate * 100).toFixed(0) + '%' : 'N/A'} (${entry.closedPositions})`,
+    `Cons ${entry.consistency.toFixed(2)}`,
+  ];
+
+  // Legacy Markdown can't escape inside entities, so the name stays unformatted
+  let line = `${medal} ${icon} ${escapeMarkdown(entry.name)}${category}\n`;
+  line += `   ${stats.join(' • ')}\n`;
+  line += `   ${ratios.join(' • ')} • \`${formatShortAddress(entry.address)}\``;
+  return line;
+}
@@ -0,0 +1,214 @@
+/**
+ * Market Discovery Handler
+ * Telegram /search, /trending and /closing commands - filtered market lists paged
+ * through inline keyboards
+ */
+
+import { Telegraf, Context, Markup } from 'telegraf';
+import { logger } from '@/utils/logger';
+import { formatTimeToEnd } from '@/services/consensus';
+import {
+  DiscoveryResult,
+  MarketFilters,
+  MarketListing,
+  describeMarketFilters,
+  getMarketDiscoveryService,
+  parseMarketFilters,
+} from '@/services/market-discovery';
+import { escapeMarkdown, formatUsd } from '@/utils/format';
+
+const PAGE_SIZE = 5;
+const DEFAULT_CLOSING_HOURS = 24;
+const MAX_CLOSING_HOURS = 24 * 7;
+
+const FILTER_USAGE =
+  '*Filters* (any command):\n' +
+  '`cat=politics` - Category\n' +
+  '`vol=100k` - Min volume\n' +
+  '`liq=10k` - Min liquidity\n' +
+  '`prob=20-80` - YES probability band (`70-` or `-30` for one side)';
+
+const USAGE =
+  '*Market Discovery*\n\n' +
+  '*Usage:*\n' +
+  '`/search election vol=1m` - Search markets\n' +
+  '`/trending crypto` - Most active markets (optionally one category)\n' +
+  '`/closing 12 prob=10-90` - Markets ending within 12 hours (default 24)\n\n' +
+  FILTER_USAGE;
+
+const KIND_HEADINGS: Record<DiscoveryResult['kind'], string> = {
+  search: '🔎 Search',
+  trending: '🔥 Trending',
+  closing: '⏰ Closing Soon',
+};
+
+/**
+ * Register market discovery commands on the bot
+ */
+export function registerMarketDiscoveryCommands(bot: Telegraf<Context>): void {
+  /**
+   * Run a discovery command and reply with its first page
+   */
+  async function replyWithResult(
+    ctx: Context,
+    command: string,
+    load: () => Promise<DiscoveryResult>
+  ): Promise<void> {
+    try {
+      await ctx.reply('🔍 Searching markets...');
+      const result = await load();
+
+      const firstPage = buildPage(result, 0);
+      let text = firstPage.text;
+
+      // An unknown category is the usual reason for no results
+      if (result.listings.length === 0 && result.filters.category) {
+        const categories = await getMarketDiscoveryService()?.getCategories();
+        if (categories && categories.length > 0) {
+          text += `\n\n_Categories: ${escapeMarkdown(categories.slice(0, 15).join(', '))}_`;
+        }
+      }
+
+      await ctx.reply(text, { parse_mode: 'Markdown', ...firstPage.keyboard });
+      logger.info(`User ${ctx.from?.id} ran /${command}`, { results: result.listings.length });
+    } catch (error) {
+      logger.error(`Error in ${command} command`, { error, userId: ctx.from?.id });
+      await ctx.reply('Failed to load markets. Please try again later.');
+    }
+  }
+
+  // /search <text> [filters]
+  bot.command('search', async (ctx) => {
+    const service = getMarketDiscoveryService();
+    if (!service) {
+      await ctx.reply('Market search is not available right now. Please try again later.');
+      return;
+    }
+
+    const parsed = parseMarketFilters(ctx.message.text.split(' ').slice(1).filter(Boolean));
+    if (!parsed || parsed.terms.length === 0) {
+      await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+      return;
+    }
+
+    const query = parsed.terms.join(' ');
+    await replyWithResult(ctx, 'search', () => service.search(query, parsed.filters));
+  });
+
+  // /trending [category] [filters]
+  bot.command('trending', async (ctx) => {
+    const service = getMarketDiscoveryService();
+    if (!service) {
+      await ctx.reply('Trending markets are not available right now. Please try again later.');
+      return;
+    }
+
+    const parsed = parseMarketFilters(ctx.message.text.split(' ').slice(1).filter(Boolean));
+    if (!parsed) {
+      await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+      return;
+    }
+
+    const filters: MarketFilters = parsed.terms.length > 0
+      ? { ...parsed.filters, category: parsed.terms.join(' ') }
+      : parsed.filters;
+    await replyWithResult(ctx, 'trending', () => service.getTrending(filters));
+  });
+
+  // /closing [hours] [filters]
+  bot.command('closing', async (ctx) => {
+    const service = getMarketDiscoveryService();
+    if (!service) {
+      await ctx.reply('Closing markets are not available right now. Please try again later.');
+      return;
+    }
+
+    const parsed = parseMarketFilters(ctx.message.text.split(' ').slice(1).filter(Boolean));
+    const hours = parsed?.terms[0] !== undefined ? parseInt(parsed.terms[0].replace(/h$/i, ''), 10) : DEFAULT_CLOSING_HOURS;
+    if (!parsed || parsed.terms.length > 1 || isNaN(hours) || hours < 1 || hours > MAX_CLOSING_HOURS) {
+      await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+      return;
+    }
+
+    await replyWithResult(ctx, 'closing', () => service.getClosing(hours, parsed.filters));
+  });
+
+  // Pagination buttons
+  bot.action(/^markets_page_([a-z0-9]+)_(\d+)$/, async (ctx) => {
+    const result = getMarketDiscoveryService()?.getResult(ctx.match[1]);
+    if (!result) {
+      await ctx.answerCbQuery('These results expired. Run the command again.', { show_alert: true });
+      return;
+    }
+
+    try {
+      const { text, keyboard } = buildPage(result, parseInt(ctx.match[2], 10));
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(text, { parse_mode: 'Markdown', ...keyboard });
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('message is not modified')) return;
+      logger.error('Error paging market results', { error, userId: ctx.from?.id });
+      await ctx.answerCbQuery('Failed to load markets').catch(() => undefined);
+    }
+  });
+
+  logger.info('Market discovery commands registered');
+}
+
+/**
+ * Build one page of a market list with paging buttons
+ */
+function buildPage(
+  result: DiscoveryResult,
+  page: number
+): { text: string; keyboard?: ReturnType<typeof Markup.inlineKeyboard> } {
+  const totalPages = Math.max(1, Math.ceil(result.listings.length / PAGE_SIZE));
+  const currentPage = Math.min(Math.max(page, 0), totalPages - 1);
+  const listings = result.listings.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  let text = `${KIND_HEADINGS[result.kind]} — *${escapeMarkdown(result.title)}*\n`;
+  const filters = describeMarketFilters(result.kind === 'trending' ? { ...result.filters, category: undefined } : result.filters);
+  if (filters) text += `${escapeMarkdown(filters)}\n`;
+  text += `${result.listings.length} market(s) • page ${currentPage + 1}/${totalPages}\n`;
+  text += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+  if (listings.length === 0) {
+    text += '_No markets match. Try fewer filters._';
+  }
+
+  listings.forEach((listing, index) => {
+    text += formatListing(listing, currentPage * PAGE_SIZE + index + 1) + '\n\n';
+  });
+
+  if (listings.length > 0) {
+    text += '_Details: /market <id> • Watch: /watch <id>_';
+  }
+
+  const pageButtons = [];
+  if (currentPage > 0) {
+    pageButtons.push(Markup.button.callback('⬅️ Prev', `markets_page_${result.id}_${currentPage - 1}`));
+  }
+  if (currentPage + 1 < totalPages) {
+    pageButtons.push(Markup.button.callback('Next ➡️', `markets_page_${result.id}_${currentPage + 1}`));
+  }
+
+  return { text, keyboard: pageButtons.length > 0 ? Markup.inlineKeyboard([pageButtons]) : undefined };
+}
+
+/**
+ * Format one market row
+ */
+function formatListing(listing: MarketListing, rank: number): string {
+  const stats: string[] = [];
+  if (listing.price !== undefined) stats.push(`YES ${+(listing.price * 100).toFixed(1)}%`);
+  if (listing.volume24h !== undefined) stats.push(`24h ${formatUsd(listing.volume24h)}`);
+  if (listing.volume !== undefined) stats.push(`vol ${formatUsd(listing.volume)}`);
+  if (listing.liquidity !== undefined) stats.push(`liq ${formatUsd(listing.liquidity)}`);
+  if (listing.endTime) stats.push(`ends in ${formatTimeToEnd(listing.endTime)}`);
+
+  let line = `${rank}. *${escapeMarkdown(listing.question.slice(0, 100))}*\n`;
+  if (listing.category) line += `   ${escapeMarkdown(listing.category)}\n`;
+  if (stats.length > 0) line += `   ${stats.join(' • ')}\n`;
+  line += `   \`${listing.conditionId}\``;
+  return line;
+}
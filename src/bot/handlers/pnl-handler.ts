@@ -0,0 +1,141 @@
+/**
+ * PnL Handler
+ * Telegram /pnl command - lot-based realized/unrealized PnL for a wallet
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { logger } from '@/utils/logger';
+import {
+  CostBasisMethod,
+  EquityPoint,
+  PositionPnl,
+  getEquityChange,
+  getWalletPnlService,
+} from '@/services/pnl';
+import { escapeMarkdown, formatCompact, formatShortAddress, formatSignedUsd, formatUsd } from '@/utils/format';
+
+const SPARK_CHARS = ['▁', '▂', '▃', '▄', '▅', '▆', '▇', '█'];
+
+/**
+ * Register PnL commands on the bot
+ */
+export function registerPnlCommands(bot: Telegraf<Context>): void {
+  // /pnl 0x... [fifo|avg] - Realized and unrealized PnL
+  bot.command('pnl', async (ctx) => {
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+    const walletAddress = args[0]?.toLowerCase();
+
+    if (!walletAddress || !/^0x[a-f0-9]{40}$/.test(walletAddress)) {
+      await ctx.reply(
+        '*Usage:* `/pnl 0x... [fifo|avg]`\n\n' +
+        'Replays the wallet\'s fills to compute realized and unrealized P&L.\n' +
+        '`fifo` (default) matches sells against the oldest lots, `avg` uses average cost.',
+        { parse_mode: 'Markdown' }
+      );
+      return;
+    }
+
+    const pnlService = getWalletPnlService();
+    if (!pnlService) {
+      await ctx.reply('P&L engine is not available right now. Please try again later.');
+      return;
+    }
+
+    const method: CostBasisMethod = args[1]?.toLowerCase().startsWith('avg') ? 'AVERAGE' : 'FIFO';
+
+    try {
+      await ctx.reply(`📊 Replaying trades for ${formatShortAddress(walletAddress)}...`);
+
+      const { report, equityCurve } = await pnlService.getWalletPnl(walletAddress, method);
+
+      if (report.tradeCount === 0) {
+        await ctx.reply(
+          `*P&L* \`${formatShortAddress(walletAddress)}\`\n\n` +
+          '_No trades found for this wallet._',
+          { parse_mode: 'Markdown' }
+        );
+        return;
+      }
+
+      let message = `*P&L* \`${formatShortAddress(walletAddress)}\`\n`;
+      message += `_${method === 'FIFO' ? 'FIFO lots' : 'Average cost'} • ${report.tradeCount} fills_\n`;
+      message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+      message += `💰 Realized: ${formatSignedUsd(report.realizedPnl, 2)}\n`;
+      message += `📈 Unrealized: ${formatSignedUsd(report.unrealizedPnl, 2)}\n`;
+      message += `*Total: ${formatSignedUsd(report.totalPnl, 2)}* (ROI ${report.roi >= 0 ? '+' : ''}${report.roi.toFixed(1)}%)\n\n`;
+
+      message += `💼 Open: ${formatUsd(report.openMarketValue, 2)} value / ${formatUsd(report.openCostBasis, 2)} cost\n`;
+      message += `🎯 Win rate: ${report.closedPositions > 0 ? (report.winRate * 100).toFixed(0) + '%' : 'N/A'}`;
+      message += ` (${report.winningPositions}/${report.closedPositions} closed)\n`;
+
+      if (equityCurve.length > 1) {
+        message += `\n📉 *Equity (${Math.min(equityCurve.length, 30)}d)*\n`;
+        message += `${formatSparkline(equityCurve.slice(-30))}\n`;
+        message += `7d: ${formatSignedUsd(getEquityChange(equityCurve, 7), 2)} • 30d: ${formatSignedUsd(getEquityChange(equityCurve, 30), 2)}\n`;
+      }
+
+      const open = report.positions
+        .filter(p => p.status === 'OPEN')
+        .sort((a, b) => Math.abs(b.unrealizedPnl) - Math.abs(a.unrealizedPnl))
+        .slice(0, 5);
+
+      if (open.length > 0) {
+        message += '\n*Largest Open Moves*\n';
+        open.forEach(p => {
+          message += `${formatPositionLine(p, p.unrealizedPnl)}\n`;
+        });
+      }
+
+      const closed = report.positions
+        .filter(p => p.status !== 'OPEN' && Math.abs(p.realizedPnl) > 0.01)
+        .sort((a, b) => Math.abs(b.realizedPnl) - Math.abs(a.realizedPnl))
+        .slice(0, 5);
+
+      if (closed.length > 0) {
+        message += '\n*Biggest Realized*\n';
+        closed.forEach(p => {
+          message += `${formatPositionLine(p, p.realizedPnl)}\n`;
+        });
+      }
+
+      if (report.unmatchedSellShares > 0) {
+        message += `\n_${formatCompact(report.unmatchedSellShares, 2)} sold shares predate the available trade history and are excluded._`;
+      }
+
+      await ctx.reply(message, {
+        parse_mode: 'Markdown',
+        link_preview_options: { is_disabled: true },
+      });
+    } catch (error) {
+      logger.error('Error calculating wallet PnL', { error, walletAddress });
+      await ctx.reply('Failed to calculate P&L. Please try again.');
+    }
+  });
+
+  logger.info('PnL commands registered');
+}
+
+/**
+ * Format a position line with its PnL
+ */
+function formatPositionLine(position: PositionPnl, pnl: number): string {
+  const emoji = pnl >= 0 ? '🟢' : '🔴';
+  const title = position.title.length > 40 ? position.title.slice(0, 37) + '...' : position.title;
+  const tag = position.status === 'RESOLVED' ? ' (resolved)' : '';
+  return `${emoji} ${escapeMarkdown(position.outcome)} | ${escapeMarkdown(title)}${tag} | ${formatSignedUsd(pnl, 2)}`;
+}
+
+/**
+ * Render an equity curve as a unicode sparkline
+ */
+function formatSparkline(points: EquityPoint[]): string {
+  const values = points.map(p => p.equity);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+
+  return values
+    .map(v => SPARK_CHARS[Math.round(((v - min) / range) * (SPARK_CHARS.length - 1))])
+    .join('');
+}
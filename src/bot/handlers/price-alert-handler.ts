@@ -0,0 +1,161 @@
+/**
+ * Price Alert Handler
+ * Telegram /alert and /alerts commands - alerts when a market's price crosses a threshold
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { logger } from '@/utils/logger';
+import {
+  PriceAlert,
+  getPriceAlertService,
+  parseDirection,
+  parsePriceThreshold,
+} from '@/services/price-alerts';
+import { escapeMarkdown, formatProbability } from '@/utils/format';
+
+const USAGE =
+  '*Price Alerts*\n\n' +
+  '*Usage:*\n' +
+  '`/alert <market_id> above 70%` - Alert when YES reaches 70%\n' +
+  '`/alert <market_id> below 0.25` - Alert when YES drops to 25%\n' +
+  '`/alerts` - List your alerts\n' +
+  '`/alerts delete 2` - Delete alert #2\n' +
+  '`/alerts rearm 2` - Re-arm alert #2 after it fired\n\n' +
+  'Each alert fires once. Use `/markets` to find market IDs.';
+
+const STATUS_LABELS: Record<PriceAlert['status'], string> = {
+  ARMED: '🟢 armed',
+  RESETTING: '⏳ waiting for the price to move back',
+  TRIGGERED: '✅ fired',
+};
+
+/**
+ * Register price alert commands on the bot
+ */
+export function registerPriceAlertCommands(bot: Telegraf<Context>): void {
+  // /alert <market_id> above|below <price>
+  bot.command('alert', async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    const alertService = getPriceAlertService();
+    if (!alertService) {
+      await ctx.reply('Price alerts are not available right now. Please try again later.');
+      return;
+    }
+
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+    const direction = args[1] ? parseDirection(args[1]) : null;
+    const threshold = args[2] ? parsePriceThreshold(args[2]) : null;
+
+    if (args.length !== 3 || !direction) {
+      await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+      return;
+    }
+    if (threshold === null) {
+      await ctx.reply('Price must be between 0 and 100%, e.g. `70%`, `70c` or `0.7`.', { parse_mode: 'Markdown' });
+      return;
+    }
+
+    try {
+      const result = await alertService.createAlert(ctx.from.id, args[0], direction, threshold);
+      if (!result.success || !result.alert) {
+        await ctx.reply(`❌ ${result.message}`);
+        return;
+      }
+
+      let message = '🔔 *Price alert set*\n\n';
+      message += `📊 ${escapeMarkdown(result.alert.marketTitle)}\n`;
+      message += `YES ${direction} *${formatProbability(threshold)}*`;
+      if (result.price !== undefined) {
+        message += ` (now ${formatProbability(result.price)})`;
+      }
+      if (result.alert.status === 'RESETTING') {
+        message += `\n\n_The price is already ${direction} the threshold. The alert arms once it moves back._`;
+      }
+
+      await ctx.reply(message, { parse_mode: 'Markdown' });
+    } catch (error) {
+      logger.error('Error in alert command', { error, telegramId: ctx.from.id });
+      await ctx.reply('Failed to create the alert. Please try again.');
+    }
+  });
+
+  // /alerts [delete|rearm <n>]
+  bot.command('alerts', async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    const alertService = getPriceAlertService();
+    if (!alertService) {
+      await ctx.reply('Price alerts are not available right now. Please try again later.');
+      return;
+    }
+
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+
+    try {
+      const alerts = await alertService.getAlerts(ctx.from.id);
+
+      if (args.length === 0) {
+        await ctx.reply(formatAlertList(alerts), { parse_mode: 'Markdown' });
+        return;
+      }
+
+      const action = args[0].toLowerCase();
+      const index = parseInt(args[1] || '', 10);
+      if (!['delete', 'del', 'remove', 'rearm'].includes(action) || isNaN(index)) {
+        await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+        return;
+      }
+
+      const alert = alerts[index - 1];
+      if (!alert) {
+        await ctx.reply(`You have no alert #${index}. See /alerts.`);
+        return;
+      }
+
+      if (action === 'rearm') {
+        const rearmed = await alertService.rearmAlert(alert);
+        await ctx.reply(
+          !rearmed
+            ? 'Failed to re-arm the alert. Please try again.'
+            : rearmed.status === 'ARMED'
+              ? `🔔 Alert #${index} re-armed.`
+              : `⏳ Alert #${index} re-armed. It arms once the price moves back from ${formatProbability(alert.threshold)}.`
+        );
+        return;
+      }
+
+      const deleted = await alertService.deleteAlert(ctx.from.id, alert);
+      await ctx.reply(deleted ? `🗑️ Deleted alert #${index}.` : 'Failed to delete the alert. Please try again.');
+    } catch (error) {
+      logger.error('Error in alerts command', { error, telegramId: ctx.from.id });
+      await ctx.reply('Failed to load your alerts. Please try again.');
+    }
+  });
+
+  logger.info('Price alert commands registered');
+}
+
+/**
+ * Render a user's alerts, numbered for /alerts delete|rearm
+ */
+function formatAlertList(alerts: PriceAlert[]): string {
+  let message = '🔔 *Price Alerts*\n';
+  message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+  if (alerts.length === 0) {
+    return message + '_No alerts yet._\n\n' + USAGE;
+  }
+
+  alerts.forEach((alert, i) => {
+    message += `${i + 1}. ${escapeMarkdown(alert.marketTitle.slice(0, 60))}\n`;
+    message += `   YES ${alert.direction} *${formatProbability(alert.threshold)}* • ${STATUS_LABELS[alert.status]}`;
+    if (alert.status === 'TRIGGERED' && alert.triggeredPrice !== undefined) {
+      message += ` at ${formatProbability(alert.triggeredPrice)}`;
+    }
+    message += '\n\n';
+  });
+
+  message += '_Delete with /alerts delete <n>, re-arm with /alerts rearm <n>_';
+  return message;
+}
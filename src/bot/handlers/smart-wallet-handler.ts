@@ -1,20 +1,46 @@
 /**
  * Smart Wallet Handler
  * Telegram commands for consensus notifications (user opt-in/opt-out only)
- * Smart wallets are managed by admin via database, not by users
+ * Smart wallets are managed by admins through admin-handler, not by users
  */
 
 import { Telegraf, Context } from 'telegraf';
 import { logger } from '@/utils/logger';
+import { escapeMarkdown } from '@/utils/format';
 import {
   getSmartWalletRepository,
   getSmartWalletScanner,
+  getSignalPerformanceTracker,
+  formatDivergenceNotification,
+  PerformanceGroup,
+  ConsensusFilter,
+  SmartWallet,
+  createEmptyFilter,
+  isEmptyFilter,
+  parseCategories,
+  parseConfidenceLevel,
+  parseUsdAmount,
 } from '@/services/consensus';
 
+const FILTER_USAGE =
+  '*Usage:*\n' +
+  '`/consensusfilter category Sports,Crypto` - Only these categories (Politics, Sports, Crypto, Other)\n' +
+  '`/consensusfilter confidence high` - Minimum confidence (low, medium, high, very\\_high)\n' +
+  '`/consensusfilter value 10k` - Minimum total value\n' +
+  '`/consensusfilter wallets Alias1,0x...` - Only consensus involving these smart wallets\n' +
+  '`/consensusfilter clear [category|confidence|value|wallets]` - Remove one or all criteria';
+
+const STATS_PERIODS: Record<string, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  all: 0,
+};
+
 /**
  * Register smart wallet commands on the bot
  * Users can only view signals and opt-out of notifications
- * Smart wallet management is admin-only (direct database access)
+ * Smart wallet management is admin-only (see registerAdminCommands)
  */
 export function registerSmartWalletCommands(bot: Telegraf<Context>): void {
   const repository = getSmartWalletRepository();
@@ -37,7 +63,7 @@ export function registerSmartWalletCommands(bot: Telegraf<Context>): void {
 
       wallets.forEach((wallet, index) => {
         const shortAddr = `${wallet.address.slice(0, 6)}...${wallet.address.slice(-4)}`;
-        message += `${index + 1}. *${wallet.alias}*\n`;
+        message += `${index + 1}. *${escapeMarkdown(wallet.alias)}*${wallet.isPaused ? ' ⏸️' : ''}\n`;
         message += `   \`${shortAddr}\`\n\n`;
       });
 
@@ -92,6 +118,207 @@ export function registerSmartWalletCommands(bot: Telegraf<Context>): void {
     }
   });
 
+  // /divergence [n] - Markets where smart wallets are split (n = details of one)
+  bot.command('divergence', async (ctx) => {
+    try {
+      const divergences = await repository.getRecentDivergences(7);
+
+      if (divergences.length === 0) {
+        await ctx.reply(
+          '*Smart Money Divergence*\n\n' +
+          '_No split markets detected in the last 7 days._\n\n' +
+          'A divergence is a market where smart wallets hold significant capital on both sides.',
+          { parse_mode: 'Markdown' }
+        );
+        return;
+      }
+
+      const index = parseInt(ctx.message.text.split(' ')[1] || '', 10);
+      if (!isNaN(index)) {
+        const divergence = divergences[index - 1];
+        if (!divergence) {
+          await ctx.reply(`Pick a divergence between 1 and ${Math.min(divergences.length, 10)}.`);
+          return;
+        }
+
+        await ctx.reply(formatDivergenceNotification(divergence), {
+          parse_mode: 'Markdown',
+          link_preview_options: { is_disabled: true },
+        });
+        return;
+      }
+
+      let message = '⚔️ *Smart Money Divergence*\n\n';
+
+      divergences.slice(0, 10).forEach((divergence, i) => {
+        const yesShare = (divergence.yes.capitalShare * 100).toFixed(0);
+        const noShare = (divergence.no.capitalShare * 100).toFixed(0);
+        const record = divergence.strongerRecord ? ` • 🏆 ${divergence.strongerRecord}` : '';
+
+        message += `${i + 1}. *${escapeMarkdown(divergence.marketTitle.slice(0, 40))}*\n`;
+        message += `   🟢 ${divergence.yes.walletCount} (${yesShare}%) vs 🔴 ${divergence.no.walletCount} (${noShare}%)`;
+        message += ` • ${divergence.capitalRatio.toFixed(1)}:1${record}\n\n`;
+      });
+
+      message += '_Details: /divergence <number>_';
+
+      await ctx.reply(message, { parse_mode: 'Markdown' });
+    } catch (error) {
+      logger.error('Error fetching divergences', { error });
+      await ctx.reply('Failed to fetch divergences. Please try again.');
+    }
+  });
+
+  // /signalstats [7d|30d|90d|all] - Track record of consensus signals
+  bot.command('signalstats', async (ctx) => {
+    const tracker = getSignalPerformanceTracker();
+    if (!tracker) {
+      await ctx.reply('Consensus tracking is not available right now.');
+      return;
+    }
+
+    const periodArg = (ctx.message.text.split(' ')[1] || 'all').toLowerCase();
+    const days = STATS_PERIODS[periodArg];
+    if (days === undefined) {
+      await ctx.reply('*Usage:* `/signalstats [7d|30d|90d|all]`', { parse_mode: 'Markdown' });
+      return;
+    }
+
+    try {
+      const { summary, thresholds, calibrated } = await tracker.getStats(days);
+      const { overall } = summary;
+
+      let message = '📈 *Consensus Track Record*\n';
+      message += `_${days > 0 ? `Last ${days} days` : 'All time'} • ${overall.signals} signals • ${overall.resolved} resolved_\n`;
+      message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+      if (overall.signals === 0) {
+        message += '_No priced signals yet. Signals are followed from detection until their market resolves._';
+        await ctx.reply(message, { parse_mode: 'Markdown' });
+        return;
+      }
+
+      message += `*Overall:* ${formatGroupStats(overall)}\n\n`;
+
+      message += '*By confidence*\n';
+      summary.byConfidence.forEach(group => {
+        message += `${group.label.replace('_', '\\_')}: ${formatGroupStats(group)}\n`;
+      });
+
+      message += '\n*By wallets agreeing*\n';
+      summary.byWalletCount.forEach(group => {
+        message += `${group.label} wallets: ${formatGroupStats(group)}\n`;
+      });
+
+      message += '\n*By category*\n';
+      summary.byCategory.forEach(group => {
+        message += `${group.label}: ${formatGroupStats(group)}\n`;
+      });
+
+      message += `\n🎚️ *Confidence levels* (${calibrated ? 'calibrated' : 'default'}): `;
+      message += `VERY\\_HIGH ≥${thresholds.veryHigh} • HIGH ≥${thresholds.high} • MEDIUM ≥${thresholds.medium}\n`;
+      message += '_ROI assumes an equal stake per signal bought at the detection price._';
+
+      await ctx.reply(message, { parse_mode: 'Markdown' });
+    } catch (error) {
+      logger.error('Error fetching signal stats', { error });
+      await ctx.reply('Failed to fetch signal stats. Please try again.');
+    }
+  });
+
+  // /consensusfilter [field value] | [clear [field]] - Choose which consensus signals this chat receives
+  bot.command('consensusfilter', async (ctx) => {
+    const chatId = ctx.chat?.id;
+    if (!chatId) {
+      await ctx.reply('Unable to identify chat.');
+      return;
+    }
+
+    const [field, ...rest] = ctx.message.text.split(' ').slice(1).filter(Boolean);
+    const value = rest.join(' ');
+
+    try {
+      const filter = await repository.getConsensusFilter(chatId) || createEmptyFilter();
+
+      if (!field) {
+        const wallets = await repository.getActiveWallets();
+        await ctx.reply(formatFilter(filter, wallets) + '\n\n' + FILTER_USAGE, { parse_mode: 'Markdown' });
+        return;
+      }
+
+      switch (field.toLowerCase()) {
+        case 'category':
+        case 'categories': {
+          const categories = parseCategories(value);
+          if (!categories) {
+            await ctx.reply('Pick categories from: Politics, Sports, Crypto, Other (comma-separated).');
+            return;
+          }
+          filter.categories = categories;
+          break;
+        }
+        case 'confidence': {
+          const level = parseConfidenceLevel(value);
+          if (!level) {
+            await ctx.reply('Confidence must be one of: low, medium, high, very_high.');
+            return;
+          }
+          filter.minConfidence = level;
+          break;
+        }
+        case 'value': {
+          const amount = parseUsdAmount(value);
+          if (amount === null || amount <= 0) {
+            await ctx.reply('Value must be a dollar amount, e.g. 10000 or 10k.');
+            return;
+          }
+          filter.minTotalValue = amount;
+          break;
+        }
+        case 'wallet':
+        case 'wallets': {
+          const resolved = resolveSmartWallets(value, await repository.getActiveWallets());
+          if (resolved.unknown.length > 0 || resolved.addresses.length === 0) {
+            await ctx.reply(
+              `Unknown smart wallet(s): ${resolved.unknown.join(', ') || '(none given)'}\n` +
+              'Use aliases or addresses from /smartwallets (comma-separated).'
+            );
+            return;
+          }
+          filter.wallets = resolved.addresses;
+          break;
+        }
+        case 'clear': {
+          const cleared = clearFilterField(filter, value.toLowerCase());
+          if (!cleared) {
+            await ctx.reply(FILTER_USAGE, { parse_mode: 'Markdown' });
+            return;
+          }
+          break;
+        }
+        default:
+          await ctx.reply(FILTER_USAGE, { parse_mode: 'Markdown' });
+          return;
+      }
+
+      const saved = isEmptyFilter(filter)
+        ? await repository.clearConsensusFilter(chatId)
+        : await repository.saveConsensusFilter(chatId, filter);
+
+      if (!saved) {
+        await ctx.reply('Failed to save your consensus filter. Please try again.');
+        return;
+      }
+
+      const wallets = filter.wallets.length > 0 ? await repository.getActiveWallets() : [];
+      await ctx.reply('✅ Filter updated.\n\n' + formatFilter(filter, wallets), { parse_mode: 'Markdown' });
+      logger.info('Consensus filter updated', { chatId, filter });
+    } catch (error) {
+      logger.error('Error updating consensus filter', { chatId, error });
+      await ctx.reply('Failed to update your consensus filter. Please try again.');
+    }
+  });
+
   // /muteconensus - Opt-out of consensus notifications
   bot.command('muteconsensus', async (ctx) => {
     const chatId = ctx.chat?.id;
@@ -154,3 +381,102 @@ export function registerSmartWalletCommands(bot: Telegraf<Context>): void {
 
   logger.info('Smart wallet commands registered (user: view + opt-out only)');
 }
+
+/**
+ * Describe a chat's consensus filter
+ */
+function formatFilter(filter: ConsensusFilter, smartWallets: SmartWallet[]): string {
+  let message = '🎛️ *Consensus Filter*\n';
+  message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+  if (isEmptyFilter(filter)) {
+    return message + '_No filter set: you receive every consensus signal._';
+  }
+
+  const aliases = new Map(smartWallets.map(w => [w.address.toLowerCase(), w.alias]));
+  const walletNames = filter.wallets.map(address =>
+    escapeMarkdown(aliases.get(address) || `${address.slice(0, 6)}...${address.slice(-4)}`)
+  );
+
+  message += `Categories: ${filter.categories.length > 0 ? filter.categories.join(', ') : 'all'}\n`;
+  message += `Min confidence: ${filter.minConfidence ? filter.minConfidence.replace('_', '\\_') : 'any'}\n`;
+  message += `Min value: ${filter.minTotalValue ? `$${filter.minTotalValue.toLocaleString()}` : 'any'}\n`;
+  message += `Wallets: ${walletNames.length > 0 ? walletNames.join(', ') : 'any'}`;
+
+  return message;
+}
+
+/**
+ * Match comma-separated aliases/addresses against the active smart wallets
+ */
+function resolveSmartWallets(
+  input: string,
+  smartWallets: SmartWallet[]
+): { addresses: string[]; unknown: string[] } {
+  const addresses: string[] = [];
+  const unknown: string[] = [];
+
+  for (const entry of input.split(',').map(e => e.trim()).filter(Boolean)) {
+    const wallet = smartWallets.find(w =>
+      w.address.toLowerCase() === entry.toLowerCase() || w.alias.toLowerCase() === entry.toLowerCase()
+    );
+
+    if (!wallet) {
+      unknown.push(entry);
+    } else if (!addresses.includes(wallet.address.toLowerCase())) {
+      addresses.push(wallet.address.toLowerCase());
+    }
+  }
+
+  return { addresses, unknown };
+}
+
+/**
+ * Reset one criterion (or all with no field); false if the field is unknown
+ */
+function clearFilterField(filter: ConsensusFilter, field: string): boolean {
+  switch (field) {
+    case '':
+      filter.categories = [];
+      filter.minConfidence = undefined;
+      filter.minTotalValue = undefined;
+      filter.wallets = [];
+      return true;
+    case 'category':
+    case 'categories':
+      filter.categories = [];
+      return true;
+    case 'confidence':
+      filter.minConfidence = undefined;
+      return true;
+    case 'value':
+      filter.minTotalValue = undefined;
+      return true;
+    case 'wallet':
+    case 'wallets':
+      filter.wallets = [];
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Format hit rate and ROI of a group of signals
+ */
+function formatGroupStats(group: PerformanceGroup): string {
+  let text = group.resolved > 0
+    ? `${group.wins}/${group.resolved} won (${(group.hitRate * 100).toFixed(0)}%) • ROI ${formatRoi(group.avgRoi)}`
+    : 'none resolved';
+
+  const open = group.signals - group.resolved;
+  if (open > 0) {
+    text += ` • ${open} open ${formatRoi(group.openRoi)}`;
+  }
+
+  return text;
+}
+
+function formatRoi(roi: number): string {
+  return `${roi >= 0 ? '+' : ''}${roi.toFixed(1)}%`;
+}
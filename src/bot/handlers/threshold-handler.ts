@@ -0,0 +1,198 @@
+/**
+ * Threshold Handler
+ * Telegram /thresholds command - per-user and per-wallet alert significance thresholds
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { logger } from '@/utils/logger';
+import { config } from '@/config';
+import {
+  getWalletTrackerRepository,
+  parseThresholdTokens,
+  resolveThresholds,
+  NotificationPreferences,
+  WalletThresholdOverride,
+} from '@/services/wallet-tracker';
+import { DEFAULT_PRICE_CHANGE_THRESHOLD } from '@/services/watchlist';
+import { escapeMarkdown, formatShortAddress, formatUsd } from '@/utils/format';
+
+const USAGE =
+  '*Alert Thresholds*\n\n' +
+  '*Usage:*\n' +
+  '`/thresholds` - Show your thresholds\n' +
+  '`/thresholds order 250` - Min USD for buys/sells\n' +
+  '`/thresholds position 1000` - Min USD for opened/closed positions\n' +
+  '`/thresholds percent 1.5` - Min % of the wallet\'s portfolio\n' +
+  '`/thresholds move 5` - Watchlist alert on a 5% price change\n' +
+  '`/thresholds 0x... min=250 pct=1` - Override for one wallet\n' +
+  '`/thresholds 0x... reset` - Remove a wallet override\n\n' +
+  'A change alerts you if it meets the USD threshold *or* the portfolio %.';
+
+const PREFERENCE_KEYS: Record<string, keyof NotificationPreferences> = {
+  order: 'min_transaction_amount',
+  trade: 'min_transaction_amount',
+  position: 'min_position_size',
+  percent: 'min_portfolio_percent',
+  pct: 'min_portfolio_percent',
+  move: 'price_change_threshold',
+};
+
+/**
+ * Register threshold commands on the bot
+ */
+export function registerThresholdCommands(bot: Telegraf<Context>): void {
+  const repository = getWalletTrackerRepository();
+
+  /**
+   * Render a user's effective thresholds and per-wallet overrides
+   */
+  async function buildThresholdSummary(telegramId: number): Promise<string> {
+    const preferences = await repository.getNotificationPreferences(telegramId);
+    const wallets = await repository.getUserTrackedWallets(telegramId);
+    const thresholds = resolveThresholds(getDefaults(), preferences);
+
+    let text = '🎚️ *Alert Thresholds*\n';
+    text += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+    if (!thresholds.enabled) {
+      text += '🔕 _Notifications are turned off._\n\n';
+    }
+
+    text += `Buys/sells: ${formatUsd(thresholds.minOrderValue)}+${thresholds.notifyTrades ? '' : ' (off)'}\n`;
+    text += `Opened/closed: ${formatUsd(thresholds.minPositionValue)}+${thresholds.notifyPositions ? '' : ' (off)'}\n`;
+    text += `Or ${thresholds.minPortfolioPercent}%+ of the wallet's portfolio\n`;
+    text += `Watchlist moves: ${preferences?.price_change_threshold ?? DEFAULT_PRICE_CHANGE_THRESHOLD}%+ price change\n`;
+
+    const overrides = wallets.filter(w => w.thresholdOverride);
+    if (overrides.length > 0) {
+      text += '\n*Wallet overrides:*\n';
+      overrides.forEach(w => {
+        text += `• ${escapeMarkdown(w.alias || formatShortAddress(w.address))} — ${formatOverride(w.thresholdOverride!)}\n`;
+      });
+    }
+
+    text += '\n_Change with /thresholds order|position|percent|move <value>_';
+    return text;
+  }
+
+  // /thresholds [order|position|percent <value>] | [0x... min=<usd> pct=<n> | reset]
+  bot.command('thresholds', async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+
+    try {
+      if (args.length === 0) {
+        const preferences = await repository.getNotificationPreferences(ctx.from.id);
+        if (!preferences) {
+          await ctx.reply('You are not tracking any wallets yet. Start with /track.');
+          return;
+        }
+        await ctx.reply(await buildThresholdSummary(ctx.from.id), { parse_mode: 'Markdown' });
+        return;
+      }
+
+      // Per-wallet override
+      if (/^0x[a-fA-F0-9]{40}$/.test(args[0])) {
+        const walletAddress = args[0].toLowerCase();
+        const tracked = (await repository.getUserTrackedWallets(ctx.from.id))
+          .find(w => w.address.toLowerCase() === walletAddress);
+
+        if (!tracked) {
+          await ctx.reply('You are not tracking this wallet. Use /track first.');
+          return;
+        }
+
+        let override: WalletThresholdOverride | null;
+        if (args[1]?.toLowerCase() === 'reset') {
+          override = null;
+        } else {
+          // Accept both `min=250` and `min 250`
+          const { override: parsed } = parseThresholdTokens(joinKeyValuePairs(args.slice(1)));
+          if (!parsed) {
+            await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+            return;
+          }
+          override = { ...tracked.thresholdOverride, ...parsed };
+        }
+
+        const updated = await repository.setWalletThresholds(ctx.from.id, walletAddress, override);
+        if (!updated) {
+          await ctx.reply('Failed to update wallet thresholds. Please try again.');
+          return;
+        }
+
+        const name = escapeMarkdown(tracked.alias || formatShortAddress(walletAddress));
+        await ctx.reply(
+          override
+            ? `✅ Alerts for ${name}: ${formatOverride(override)}`
+            : `✅ ${name} now uses your default thresholds`,
+          { parse_mode: 'Markdown' }
+        );
+        return;
+      }
+
+      // User-wide preference
+      const key = PREFERENCE_KEYS[args[0].toLowerCase()];
+      const value = parseFloat((args[1] || '').replace(/[$%,]/g, ''));
+
+      const isPercent = key === 'min_portfolio_percent' || key === 'price_change_threshold';
+      if (!key || isNaN(value) || value < 0 || (isPercent && value > 100)) {
+        await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+        return;
+      }
+
+      const updated = await repository.updateNotificationPreferences(ctx.from.id, { [key]: value });
+      if (!updated) {
+        await ctx.reply('You are not tracking any wallets yet. Start with /track.');
+        return;
+      }
+
+      await ctx.reply(await buildThresholdSummary(ctx.from.id), { parse_mode: 'Markdown' });
+
+      logger.info('User updated alert threshold', { userId: ctx.from.id, key, value });
+    } catch (error) {
+      logger.error('Error in thresholds command', { error, userId: ctx.from.id });
+      await ctx.reply('Failed to update thresholds. Please try again.');
+    }
+  });
+
+  logger.info('Threshold commands registered');
+}
+
+/**
+ * Global defaults from config
+ */
+function getDefaults(): { minOrderValue: number; minPortfolioPercent: number } {
+  return {
+    minOrderValue: config.notifications.minOrderValue || 500,
+    minPortfolioPercent: config.notifications.minPortfolioPercent || 2,
+  };
+}
+
+/**
+ * Turn ['min', '250', 'pct', '1'] into ['min=250', 'pct=1'] (already-joined tokens pass through)
+ */
+function joinKeyValuePairs(args: string[]): string[] {
+  const tokens: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const key = args[i].toLowerCase();
+    if ((key === 'min' || key === 'pct') && args[i + 1] !== undefined) {
+      tokens.push(`${key}=${args[i + 1]}`);
+      i++;
+    } else {
+      tokens.push(args[i]);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Describe a per-wallet override
+ */
+function formatOverride(override: WalletThresholdOverride): string {
+  const parts: string[] = [];
+  if (override.minOrderValue !== undefined) parts.push(`${formatUsd(override.minOrderValue)}+`);
+  if (override.minPortfolioPercent !== undefined) parts.push(`${override.minPortfolioPercent}%+ of portfolio`);
+  return parts.join(' or ');
+}
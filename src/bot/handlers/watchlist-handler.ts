@@ -0,0 +1,131 @@
+/**
+ * Watchlist Handler
+ * Telegram /watch, /unwatch and /watchlist commands - markets a user follows
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { logger } from '@/utils/logger';
+import { formatWatchlistSummary, getWatchlistService } from '@/services/watchlist';
+import { escapeMarkdown } from '@/utils/format';
+
+const USAGE =
+  '*Market Watchlist*\n\n' +
+  '*Usage:*\n' +
+  '`/watch <market_id>` - Add a market\n' +
+  '`/unwatch 2` - Remove market #2 (or pass the market ID)\n' +
+  '`/watchlist` - Price, 24h change, volume and wallet holders\n\n' +
+  'You get a daily summary and an alert when a watched market moves by your ' +
+  'price change threshold (`/thresholds move 5` for a 5% change). Use `/markets` to find market IDs.';
+
+/**
+ * Register watchlist commands on the bot
+ */
+export function registerWatchlistCommands(bot: Telegraf<Context>): void {
+  // /watch <market_id>
+  bot.command('watch', async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    const watchlistService = getWatchlistService();
+    if (!watchlistService) {
+      await ctx.reply('Watchlists are not available right now. Please try again later.');
+      return;
+    }
+
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+    if (args.length !== 1) {
+      await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+      return;
+    }
+
+    try {
+      const result = await watchlistService.addMarket(ctx.from.id, args[0]);
+      if (!result.success) {
+        await ctx.reply(`❌ ${result.message}`);
+        return;
+      }
+
+      let message = '👀 *Added to your watchlist*\n\n';
+      message += `📊 ${escapeMarkdown(result.marketTitle || args[0])}\n`;
+      if (result.price !== undefined) {
+        message += `YES now ${+(result.price * 100).toFixed(1)}%\n`;
+      }
+      message += '\n_See it with /watchlist, remove with /unwatch._';
+
+      await ctx.reply(message, { parse_mode: 'Markdown' });
+    } catch (error) {
+      logger.error('Error in watch command', { error, telegramId: ctx.from.id });
+      await ctx.reply('Failed to update your watchlist. Please try again.');
+    }
+  });
+
+  // /unwatch <n|market_id>
+  bot.command('unwatch', async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    const watchlistService = getWatchlistService();
+    if (!watchlistService) {
+      await ctx.reply('Watchlists are not available right now. Please try again later.');
+      return;
+    }
+
+    const args = ctx.message.text.split(' ').slice(1).filter(Boolean);
+    if (args.length !== 1) {
+      await ctx.reply(USAGE, { parse_mode: 'Markdown' });
+      return;
+    }
+
+    try {
+      const watchlist = await watchlistService.getWatchlist(ctx.from.id);
+      const entry = /^\d+$/.test(args[0])
+        ? watchlist[parseInt(args[0], 10) - 1]
+        : watchlist.find(e => e.conditionId === args[0]);
+
+      if (!entry) {
+        await ctx.reply('That market isn\'t on your watchlist. See /watchlist.');
+        return;
+      }
+
+      const removed = await watchlistService.removeMarket(ctx.from.id, entry.conditionId);
+      await ctx.reply(
+        removed
+          ? `🗑️ Removed ${escapeMarkdown(entry.marketTitle.slice(0, 60))} from your watchlist.`
+          : 'Failed to update your watchlist. Please try again.',
+        { parse_mode: 'Markdown' }
+      );
+    } catch (error) {
+      logger.error('Error in unwatch command', { error, telegramId: ctx.from.id });
+      await ctx.reply('Failed to update your watchlist. Please try again.');
+    }
+  });
+
+  // /watchlist
+  bot.command('watchlist', async (ctx) => {
+    if (!ctx.from?.id) return;
+
+    const watchlistService = getWatchlistService();
+    if (!watchlistService) {
+      await ctx.reply('Watchlists are not available right now. Please try again later.');
+      return;
+    }
+
+    try {
+      const watchlist = await watchlistService.getWatchlist(ctx.from.id);
+      if (watchlist.length === 0) {
+        await ctx.reply('👀 *Watchlist*\n\n_No markets yet._\n\n' + USAGE, { parse_mode: 'Markdown' });
+        return;
+      }
+
+      await ctx.reply('🔍 Loading your watchlist...');
+      const summaries = await watchlistService.getSummary(ctx.from.id, watchlist);
+      await ctx.reply(
+        formatWatchlistSummary(summaries) + '\n\n_👤 your tracked wallets • 🧠 smart wallets_',
+        { parse_mode: 'Markdown' }
+      );
+    } catch (error) {
+      logger.error('Error in watchlist command', { error, telegramId: ctx.from.id });
+      await ctx.reply('Failed to load your watchlist. Please try again.');
+    }
+  });
+
+  logger.info('Watchlist commands registered');
+}
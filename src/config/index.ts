@@ -36,6 +36,8 @@ interface Config {
     delayMs: number;
     minOrderValue: number;
     minPortfolioPercent: number;
+    batchWindowMs: number;
+    digestHourUtc: number;
   };
   health: {
     checkIntervalMs: number;
@@ -49,6 +51,75 @@ interface Config {
     minOrderValue: number;
     minPortfolioPercent: number;
     scanDelayMs: number;
+    trackingIntervalMinutes: number;
+    recalibrationMinSignals: number;
+    valueChangePercent: number;
+    divergenceMinWallets: number;
+    divergenceMinSharePercent: number;
+    entryHalfLifeDays: number;
+    entryWindowDays: number;
+    incrementalEnabled: boolean;
+    incrementalIntervalMinutes: number;
+  };
+  walletTracker: {
+    requestBudgetPerMinute: number;
+    minPollIntervalMs: number;
+    maxPollIntervalMs: number;
+  };
+  leaderboard: {
+    traderLookupPath: string;
+    cacheTtlMinutes: number;
+    concurrency: number;
+  };
+  copyTrading: {
+    feeBps: number;
+    maxPortfoliosPerUser: number;
+  };
+  discovery: {
+    enabled: boolean;
+    autoApply: boolean;
+    intervalHours: number;
+    sourceUrl: string;
+    categories: string[];
+    candidatesPerCategory: number;
+    minPnl: number;
+    minWinRate: number;
+    minPositions: number;
+    maxInactiveDays: number;
+    maxWallets: number;
+  };
+  admin: {
+    telegramIds: number[];
+  };
+  priceAlerts: {
+    pollIntervalMinutes: number;
+    hysteresis: number;
+    maxAlertsPerUser: number;
+  };
+  marketDiscovery: {
+    fetchLimit: number;
+    resultTtlMinutes: number;
+    searchCacheSeconds: number;
+  };
+  inlineQuery: {
+    maxResults: number;
+    rateLimitPerMinute: number;
+    walletCacheSeconds: number;
+    cacheTimeSeconds: number;
+  };
+  watchlist: {
+    moveCheckIntervalMinutes: number;
+    summaryHourUtc: number;
+    maxMarketsPerUser: number;
+  };
+  bookWatch: {
+    pollIntervalSeconds: number;
+    maxSpread: number;
+    depthRange: number;
+    liquidityDropPercent: number;
+    wallNotional: number;
+    alertCooldownMinutes: number;
+    maxWatchesPerChat: number;
   };
 }
 
@@ -93,6 +164,8 @@ const config: Config = {
     delayMs: parseInt(process.env['NOTIFICATION_DELAY_MS'] || '1000', 10),
     minOrderValue: parseInt(process.env['NOTIFICATION_MIN_ORDER_VALUE'] || '500', 10),
     minPortfolioPercent: parseFloat(process.env['NOTIFICATION_MIN_PORTFOLIO_PERCENT'] || '2'),
+    batchWindowMs: parseInt(process.env['NOTIFICATION_BATCH_WINDOW_MS'] || '30000', 10),
+    digestHourUtc: parseInt(process.env['NOTIFICATION_DIGEST_HOUR_UTC'] || '8', 10),
   },
   health: {
     checkIntervalMs: parseInt(process.env['HEALTH_CHECK_INTERVAL_MS'] || '30000', 10),
@@ -106,6 +179,94 @@ const config: Config = {
     minOrderValue: parseInt(process.env['CONSENSUS_MIN_ORDER_VALUE'] || '2000', 10),
     minPortfolioPercent: parseFloat(process.env['CONSENSUS_MIN_PORTFOLIO_PERCENT'] || '2'),
     scanDelayMs: parseInt(process.env['CONSENSUS_SCAN_DELAY_MS'] || '1000', 10),
+    trackingIntervalMinutes: parseInt(process.env['CONSENSUS_TRACKING_INTERVAL_MINUTES'] || '60', 10),
+    recalibrationMinSignals: parseInt(process.env['CONSENSUS_RECALIBRATION_MIN_SIGNALS'] || '10', 10),
+    valueChangePercent: parseFloat(process.env['CONSENSUS_VALUE_CHANGE_PERCENT'] || '25'),
+    divergenceMinWallets: parseInt(process.env['DIVERGENCE_MIN_WALLETS'] || '2', 10),
+    divergenceMinSharePercent: parseFloat(process.env['DIVERGENCE_MIN_SHARE_PERCENT'] || '25'),
+    // Entry timing: freshness halves every N days; entries within the window count as fresh
+    entryHalfLifeDays: parseFloat(process.env['CONSENSUS_ENTRY_HALF_LIFE_DAYS'] || '14'),
+    entryWindowDays: parseInt(process.env['CONSENSUS_ENTRY_WINDOW_DAYS'] || '7', 10),
+    // Incremental scans re-check only wallets that traded since their last fetch
+    incrementalEnabled: process.env['CONSENSUS_INCREMENTAL_ENABLED'] === 'true',
+    incrementalIntervalMinutes: parseInt(process.env['CONSENSUS_INCREMENTAL_INTERVAL_MINUTES'] || '1', 10),
+  },
+  walletTracker: {
+    // Shared with every other caller of the Polymarket REST client
+    requestBudgetPerMinute: parseInt(process.env['WALLET_TRACKER_REQUEST_BUDGET'] || '120', 10),
+    minPollIntervalMs: parseInt(process.env['WALLET_TRACKER_MIN_POLL_MS'] || '15000', 10),
+    maxPollIntervalMs: parseInt(process.env['WALLET_TRACKER_MAX_POLL_MS'] || '900000', 10), // 15 minutes
+  },
+  leaderboard: {
+    traderLookupPath: process.env['TRADER_LOOKUP_PATH'] || 'scripts/traders-category-lookup.json',
+    cacheTtlMinutes: parseInt(process.env['LEADERBOARD_CACHE_TTL_MINUTES'] || '30', 10),
+    concurrency: parseInt(process.env['LEADERBOARD_CONCURRENCY'] || '3', 10),
+  },
+  copyTrading: {
+    // Simulated taker fee on notional, in basis points
+    feeBps: parseFloat(process.env['COPY_TRADING_FEE_BPS'] || '10'),
+    maxPortfoliosPerUser: parseInt(process.env['COPY_TRADING_MAX_PORTFOLIOS'] || '5', 10),
+  },
+  discovery: {
+    // Opt-in: the leaderboard source is a third-party site
+    enabled: process.env['DISCOVERY_ENABLED'] === 'true',
+    // Unless true, additions/demotions are only proposed for admins to review (/sw_proposals)
+    autoApply: process.env['DISCOVERY_AUTO_APPLY'] === 'true',
+    intervalHours: parseInt(process.env['DISCOVERY_INTERVAL_HOURS'] || '24', 10),
+    // Leaderboard source; point at a local fixture server for testing
+    sourceUrl: process.env['DISCOVERY_SOURCE_URL'] || 'https://polymarketanalytics.com',
+    categories: (process.env['DISCOVERY_CATEGORIES'] || 'Politics,Sports,Crypto').split(',').map(c => c.trim()).filter(Boolean),
+    candidatesPerCategory: parseInt(process.env['DISCOVERY_CANDIDATES_PER_CATEGORY'] || '100', 10),
+    minPnl: parseFloat(process.env['DISCOVERY_MIN_PNL'] || '50000'),
+    minWinRate: parseFloat(process.env['DISCOVERY_MIN_WIN_RATE'] || '0.55'),
+    minPositions: parseInt(process.env['DISCOVERY_MIN_POSITIONS'] || '100', 10),
+    maxInactiveDays: parseInt(process.env['DISCOVERY_MAX_INACTIVE_DAYS'] || '30', 10),
+    maxWallets: parseInt(process.env['DISCOVERY_MAX_WALLETS'] || '100', 10),
+  },
+  admin: {
+    // Synced into bot_admins on startup (IDs removed here lose admin rights); comma-separated Telegram user IDs
+    telegramIds: (process.env['ADMIN_TELEGRAM_IDS'] || '')
+      .split(',')
+      .map(id => parseInt(id.trim(), 10))
+      .filter(id => !isNaN(id)),
+  },
+  priceAlerts: {
+    pollIntervalMinutes: parseInt(process.env['PRICE_ALERT_POLL_INTERVAL_MINUTES'] || '1', 10),
+    // A re-armed alert arms once the price is this far back past the threshold (probability points)
+    hysteresis: parseFloat(process.env['PRICE_ALERT_HYSTERESIS'] || '0.02'),
+    maxAlertsPerUser: parseInt(process.env['PRICE_ALERT_MAX_PER_USER'] || '20', 10),
+  },
+  marketDiscovery: {
+    // Markets fetched per /search or /trending (and per /closing page) before filters apply
+    fetchLimit: parseInt(process.env['MARKET_DISCOVERY_FETCH_LIMIT'] || '100', 10),
+    // How long result pages stay available to the inline keyboard
+    resultTtlMinutes: parseInt(process.env['MARKET_DISCOVERY_RESULT_TTL_MINUTES'] || '30', 10),
+    // Search responses are reused this long by /search and inline queries
+    searchCacheSeconds: parseInt(process.env['MARKET_DISCOVERY_SEARCH_CACHE_SECONDS'] || '60', 10),
+  },
+  inlineQuery: {
+    maxResults: parseInt(process.env['INLINE_QUERY_MAX_RESULTS'] || '10', 10),
+    rateLimitPerMinute: parseInt(process.env['INLINE_QUERY_RATE_LIMIT_PER_MINUTE'] || '20', 10),
+    walletCacheSeconds: parseInt(process.env['INLINE_QUERY_WALLET_CACHE_SECONDS'] || '60', 10),
+    // How long Telegram may reuse an answer for the same user and query
+    cacheTimeSeconds: parseInt(process.env['INLINE_QUERY_CACHE_TIME_SECONDS'] || '30', 10),
+  },
+  watchlist: {
+    moveCheckIntervalMinutes: parseInt(process.env['WATCHLIST_MOVE_CHECK_INTERVAL_MINUTES'] || '5', 10),
+    // Daily watchlist summary goes out at this hour
+    summaryHourUtc: parseInt(process.env['WATCHLIST_SUMMARY_HOUR_UTC'] || '8', 10),
+    maxMarketsPerUser: parseInt(process.env['WATCHLIST_MAX_MARKETS_PER_USER'] || '25', 10),
+  },
+  bookWatch: {
+    // REST fallback for watched books the market_data stream hasn't updated
+    pollIntervalSeconds: parseInt(process.env['BOOK_WATCH_POLL_INTERVAL_SECONDS'] || '30', 10),
+    // Spread and near-mid range are probabilities (0.05 = 5 cents)
+    maxSpread: parseFloat(process.env['BOOK_WATCH_MAX_SPREAD'] || '0.05'),
+    depthRange: parseFloat(process.env['BOOK_WATCH_DEPTH_RANGE'] || '0.05'),
+    liquidityDropPercent: parseFloat(process.env['BOOK_WATCH_LIQUIDITY_DROP_PERCENT'] || '50'),
+    wallNotional: parseFloat(process.env['BOOK_WATCH_WALL_NOTIONAL'] || '10000'),
+    alertCooldownMinutes: parseInt(process.env['BOOK_WATCH_ALERT_COOLDOWN_MINUTES'] || '15', 10),
+    maxWatchesPerChat: parseInt(process.env['BOOK_WATCH_MAX_PER_CHAT'] || '10', 10),
   },
 };
 
@@ -226,6 +226,11 @@ export const polymarketCacheConfig = {
     maxSize: 1000,
     tags: ['transactions', 'historical'],
   },
+  userTrades: {
+    ttl: 15, // 15 seconds - polled by the wallet activity tracker
+    maxSize: 500,
+    tags: ['transactions', 'user-data'],
+  },
   resolutions: {
     ttl: 86400, // 24 hours
     maxSize: 100,
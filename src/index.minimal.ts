@@ -1,16 +1,50 @@
 // Register module aliases for production runtime
 import 'module-alias/register';
 
-import { Telegraf } from 'telegraf';
+import { Telegraf, Context } from 'telegraf';
 import { config, validateConfig } from './config';
 import { logger } from './utils/logger';
 import { UserService } from './services/database/user-service';
 import databasePool from './services/database/connection-pool';
 import { PolymarketService, createPolymarketService } from './services/polymarket';
 import { simpleRedisClient } from './services/redis';
-import { WalletActivityTracker, createWalletActivityTracker } from './services/wallet-tracker';
-import { SmartWalletScanner, createSmartWalletScanner } from './services/consensus';
+import {
+  WalletActivityTracker,
+  createWalletActivityTracker,
+  getWalletTrackerRepository,
+  parseThresholdTokens,
+} from './services/wallet-tracker';
+import {
+  SmartWalletScanner,
+  createSmartWalletScanner,
+  createSignalPerformanceTracker,
+  getSignalPerformanceTracker,
+  getSmartWalletRepository,
+  formatConsensusPriceChart,
+} from './services/consensus';
 import { registerSmartWalletCommands } from './bot/handlers/smart-wallet-handler';
+import { HistoryHandler } from './bot/handlers/history-handler';
+import { createWalletPnlService, getWalletPnlService, getEquityChange, PositionPnl } from './services/pnl';
+import { registerPnlCommands } from './bot/handlers/pnl-handler';
+import { createLeaderboardService, getLeaderboardService } from './services/leaderboard';
+import { registerLeaderboardCommands } from './bot/handlers/leaderboard-handler';
+import { HttpCandidateSource, createWalletDiscoveryService, getWalletDiscoveryService } from './services/wallet-discovery';
+import { registerThresholdCommands } from './bot/handlers/threshold-handler';
+import { registerDigestCommands } from './bot/handlers/digest-handler';
+import { createCopyTradingService } from './services/copy-trading';
+import { registerCopyCommands } from './bot/handlers/copy-handler';
+import { getAdminRepository } from './services/admin';
+import { registerAdminCommands } from './bot/handlers/admin-handler';
+import { createPriceAlertService, getPriceAlertService } from './services/price-alerts';
+import { registerPriceAlertCommands } from './bot/handlers/price-alert-handler';
+import { createBookWatchService, getBookWatchService } from './services/book-watch';
+import { registerBookWatchCommands } from './bot/handlers/book-watch-handler';
+import { createWatchlistService, getWatchlistService } from './services/watchlist';
+import { registerWatchlistCommands } from './bot/handlers/watchlist-handler';
+import { createMarketDiscoveryService } from './services/market-discovery';
+import { registerMarketDiscoveryCommands } from './bot/handlers/market-discovery-handler';
+import { createInlineQueryService } from './services/inline-query';
+import { registerInlineQueryHandlers } from './bot/handlers/inline-query-handler';
 
 // Helper function to escape MarkdownV2 special characters
 function escapeMarkdownV2(text: string): string {
@@ -57,10 +91,27 @@ polymarketService.on('realtime:event', (event) => {
   logger.debug('Received real-time event:', event.type);
 });
 
+// Streamed prices feed the price threshold alerts and order book watches (both also polled)
+polymarketService.on('price:changed', (data) => {
+  if (!data?.marketData) return;
+  getPriceAlertService()?.handleMarketData(data.marketData).catch((error) => {
+    logger.error('Failed to check price alerts', { error });
+  });
+  getBookWatchService()?.handleMarketData(data.marketData).catch((error) => {
+    logger.error('Failed to check order book watches', { error });
+  });
+});
+
 // Setup graceful shutdown
 process.on('SIGINT', async () => {
   logger.info('Received SIGINT, shutting down gracefully...');
   if (consensusScanner) consensusScanner.stop();
+  getSignalPerformanceTracker()?.stop();
+  getLeaderboardService()?.stop();
+  getWalletDiscoveryService()?.stop();
+  getPriceAlertService()?.stop();
+  getBookWatchService()?.stop();
+  getWatchlistService()?.stop();
   if (walletTracker) await walletTracker.shutdown();
   await polymarketService.shutdown();
   await bot.stop();
@@ -70,6 +121,12 @@ process.on('SIGINT', async () => {
 process.on('SIGTERM', async () => {
   logger.info('Received SIGTERM, shutting down gracefully...');
   if (consensusScanner) consensusScanner.stop();
+  getSignalPerformanceTracker()?.stop();
+  getLeaderboardService()?.stop();
+  getWalletDiscoveryService()?.stop();
+  getPriceAlertService()?.stop();
+  getBookWatchService()?.stop();
+  getWatchlistService()?.stop();
   if (walletTracker) await walletTracker.shutdown();
   await polymarketService.shutdown();
   await bot.stop();
@@ -149,15 +206,32 @@ bot.help((ctx) => {
     '├ `/untrack 0x...` \\- Stop tracking\n' +
     '├ `/rename 0x... NewName` \\- Rename wallet\n' +
     '├ `/list` \\- Show all wallets\n' +
+    '├ `/history [0x...]` \\- Recorded trades\n' +
+    '├ `/copy 0x... 10%` \\- Paper\\-trade a wallet\n' +
     '└ `/manage` \\- Wallet manager\n\n' +
     '📊 *Market Data*\n' +
-    '├ `/markets` \\- Trending markets\n' +
+    '├ `/markets` \\- Latest markets\n' +
+    '├ `/search text` \\- Search markets \\(filters: `cat= vol= liq= prob=`\\)\n' +
+    '├ `/trending [category]` \\- Most active markets\n' +
+    '├ `/closing [hours]` \\- Markets ending soon\n' +
+    '├ `@bot text` \\- Share market or wallet cards in any chat\n' +
     '├ `/market id` \\- Market details\n' +
     '├ `/positions 0x...` \\- Wallet positions\n' +
     '├ `/orderbook id` \\- Order book\n' +
-    '└ `/analytics 0x...` \\- Wallet stats\n\n' +
+    '├ `/bookwatch id` \\- Alerts on order book changes\n' +
+    '├ `/analytics 0x...` \\- Wallet stats\n' +
+    '├ `/pnl 0x... [fifo|avg]` \\- Realized/unrealized P&L\n' +
+    '├ `/leaderboard [7d|30d|all|roi]` \\- Top wallets\n' +
+    '├ `/signalstats [30d]` \\- Consensus track record\n' +
+    '└ `/divergence` \\- Markets where smart money is split\n\n' +
     '🔔 *Notifications*\n' +
-    '├ `/alerts` \\- Manage alerts\n' +
+    '├ `/alert id above 70%` \\- Price alert on a market\n' +
+    '├ `/alerts` \\- Your price alerts\n' +
+    '├ `/watch id` \\- Add a market to your watchlist\n' +
+    '├ `/watchlist` \\- Watched markets and who holds them\n' +
+    '├ `/thresholds` \\- Alert size thresholds\n' +
+    '├ `/digest off|hourly|daily` \\- Alert delivery\n' +
+    '├ `/consensusfilter` \\- Which consensus signals you get\n' +
     '├ `/mute` \\- Pause notifications\n' +
     '└ `/unmute` \\- Resume notifications\n\n' +
     '⚙️ *System*\n' +
@@ -202,6 +276,22 @@ bot.command('status', async (ctx) => {
     const trackerEmoji = trackerStatus?.enabled ? '🟢' : '🔴';
     const trackerConnected = trackerStatus?.enabled ? '✅ Active' : '❌ Disabled';
 
+    // Adaptive polling: request budget and the next few wallets due
+    let trackerSchedule = '';
+    if (trackerStatus?.enabled && trackerStatus.wallets.length > 0) {
+      const { budget } = trackerStatus;
+      trackerSchedule = '⏱️ **Polling Schedule:**\n' +
+        `• API budget: ${budget.requestsLastMinute}/${budget.requestBudgetPerMinute} req/min` +
+        (budget.pausedUntil ? ` (paused until ${budget.pausedUntil.toISOString().slice(11, 19)} UTC)` : '') + '\n';
+      trackerSchedule += `• Live stream: ${trackerStatus.stream.connected ? 'connected' : 'offline (polling only)'}` +
+        ` • ${trackerStatus.stream.tradesReceived} fills streamed, ${trackerStatus.stream.missedByStream} caught by polling\n`;
+      trackerStatus.wallets.slice(0, 5).forEach(w => {
+        const dueIn = Math.max(0, Math.round((w.nextPollAt.getTime() - Date.now()) / 1000));
+        trackerSchedule += `• \`${w.wallet.slice(0, 6)}...${w.wallet.slice(-4)}\` every ${Math.round(w.intervalMs / 1000)}s, next in ${dueIn}s\n`;
+      });
+      trackerSchedule += '\n';
+    }
+
     const statusMessage =
       `${polymarketEmoji} **Enhanced Bot Status**\n\n` +
       '🔗 **Connections:**\n' +
@@ -210,6 +300,7 @@ bot.command('status', async (ctx) => {
       `• ${wsEmoji} WebSocket: ${wsStatus}\n` +
       `• ${trackerEmoji} Activity Tracker: ${trackerConnected}` + (trackerStatus ? ` (${trackerStatus.trackedWallets} wallets)` : '') + '\n' +
       '• 💾 Database: Ready (In-memory)\n\n' +
+      trackerSchedule +
       '📊 **Performance Metrics:**\n' +
       `• 📈 Success Rate: ${successRate}%\n` +
       `• ⚡ Avg Response: ${avgResponseTime}\n` +
@@ -271,7 +362,8 @@ bot.command(['track', 't'], async (ctx) => {
       '━━━━━━━━━━━━━━━━━━━━━━\n\n' +
       '*Usage:*\n' +
       '`/track <address>` \\- Basic tracking\n' +
-      '`/track <address> <name>` \\- With custom name\n\n' +
+      '`/track <address> <name>` \\- With custom name\n' +
+      '`/track <address> <name> min=250 pct=1` \\- Custom alert thresholds\n\n' +
       '*Examples:*\n' +
       '`/track 0x7845bc5E15bC9c41Be5aC0725E68a16Ec02B51B5`\n' +
       '`/track 0x7845bc...B51B5 Whale1`\n\n' +
@@ -282,8 +374,10 @@ bot.command(['track', 't'], async (ctx) => {
   }
 
   const walletAddress = args[1];
+  // min=<usd> / pct=<percent> tokens set per-wallet alert thresholds
+  const { rest, override: thresholdOverride } = parseThresholdTokens(args.slice(2));
   // Join remaining args as alias (supports multi-word names)
-  const alias = args.slice(2).join(' ') || undefined;
+  const alias = rest.join(' ') || undefined;
 
   // Basic validation
   const isEthereumAddress = /^0x[a-fA-F0-9]{40}$/.test(walletAddress);
@@ -346,7 +440,8 @@ bot.command(['track', 't'], async (ctx) => {
           walletAddress,
           ctx.from.id,
           ctx.chat.id,
-          alias
+          alias,
+          thresholdOverride
         );
         activityTrackingStatus = trackResult.success
           ? '\n🔔 **Activity Notifications:** Enabled'
@@ -359,7 +454,13 @@ bot.command(['track', 't'], async (ctx) => {
         `📍 Address: \`${shortAddress}\`\n` +
         `🔗 Network: ${addressType}\n` +
         `📊 Status: Active` +
-        activityTrackingStatus + `\n\n` +
+        activityTrackingStatus +
+        (thresholdOverride
+          ? '\n🎚️ Alert thresholds: ' + [
+            thresholdOverride.minOrderValue !== undefined ? `$${thresholdOverride.minOrderValue}+` : '',
+            thresholdOverride.minPortfolioPercent !== undefined ? `${thresholdOverride.minPortfolioPercent}%+ of portfolio` : '',
+          ].filter(Boolean).join(' or ')
+          : '') + `\n\n` +
         `🔔 You'll get notified on:\n` +
         `• Position changes (buy/sell)\n` +
         `• New positions opened\n` +
@@ -632,7 +733,7 @@ bot.command('manage', async (ctx) => {
   }
 });
 
-bot.command(['alerts', 'notifications'], (ctx) => {
+bot.command('notifications', (ctx) => {
   ctx.reply(
     '🔔 **Notification Management**\n\n' +
     'Advanced alert system coming in Phase 2!\n\n' +
@@ -685,7 +786,8 @@ bot.command('markets', async (ctx) => {
       marketMessage += `   🔗 ID: \`${market.id}\`\n\n`;
     });
 
-    marketMessage += '💡 Use `/market <id>` for detailed market info';
+    marketMessage += '💡 Use `/market <id>` for detailed market info\n';
+    marketMessage += '🔎 Filter by category, volume and probability with /search, /trending and /closing';
 
     ctx.reply(marketMessage, { parse_mode: 'Markdown' });
 
@@ -757,29 +859,11 @@ bot.command('market', async (ctx) => {
   }
 });
 
-bot.command(['positions', 'p', 'pos'], async (ctx) => {
-  const messageText = ctx.message.text;
-  const args = messageText.split(' ');
-
-  if (!ctx.from?.id) {
-    ctx.reply('❌ Unable to identify user. Please try again.');
-    return;
-  }
-
-  if (args.length < 2) {
-    ctx.reply(
-      '📝 **Wallet Positions Usage**\n\n' +
-      'Please provide a wallet address:\n' +
-      '`/positions 0x1234...` - Check wallet positions\n\n' +
-      '💡 Example:\n' +
-      '`/positions 0x7845bc5E15bC9c41Be5aC0725E68a16Ec02B51B5`'
-    );
-    return;
-  }
-
+/**
+ * Reply with a wallet's open positions (/positions and consensus wallet buttons)
+ */
+async function replyWithWalletPositions(ctx: Context, walletAddress: string): Promise<void> {
   try {
-    const walletAddress = args[1];
-
     // Basic validation
     const isEthereumAddress = /^0x[a-fA-F0-9]{40}$/.test(walletAddress);
     if (!isEthereumAddress) {
@@ -793,7 +877,16 @@ bot.command(['positions', 'p', 'pos'], async (ctx) => {
 
     await ctx.reply('🔍 Fetching wallet positions and market data...');
 
-    const allPositions = await polymarketService.getWalletPositionsWithMarketData(walletAddress);
+    const [allPositions, pnlResult] = await Promise.all([
+      polymarketService.getWalletPositionsWithMarketData(walletAddress),
+      getWalletPnlService()?.getWalletPnl(walletAddress).catch((error) => {
+        logger.warn('PnL engine unavailable for positions', { walletAddress, error });
+        return null;
+      }) ?? Promise.resolve(null)
+    ]);
+    const lotPnl = new Map<string, PositionPnl>(
+      (pnlResult?.report.positions || []).map(p => [`${p.conditionId}:${p.outcome}`, p] as [string, PositionPnl])
+    );
 
     // Filter to only show active (non-resolved) markets
     const positions = allPositions.filter(position => !position.marketData?.resolved);
@@ -841,9 +934,11 @@ bot.command(['positions', 'p', 'pos'], async (ctx) => {
       const displayMarket = position.market || `Market ${position.marketId.substring(0, 8)}`;
       const displayPosition = position.position || '?';
       const displayShares = isNaN(position.shares) ? 0 : position.shares;
-      const displayValue = isNaN(position.value) ? 0 : position.value;
-      const displayPnL = isNaN(position.pnl) ? 0 : position.pnl;
-      const entryPrice = position.entryPrice || 0;
+      // Prefer lot-based figures from the PnL engine (marked to curPrice)
+      const lots = lotPnl.get(`${position.marketId}:${position.position}`);
+      const displayValue = lots ? lots.marketValue : isNaN(position.value) ? 0 : position.value;
+      const displayPnL = lots ? lots.unrealizedPnl : isNaN(position.pnl) ? 0 : position.pnl;
+      const entryPrice = lots && lots.avgCost > 0 ? lots.avgCost : position.entryPrice || 0;
 
       // Build market URL using eventSlug from Data API
       const marketUrl = position.eventSlug
@@ -878,14 +973,19 @@ bot.command(['positions', 'p', 'pos'], async (ctx) => {
 
     positionsMessage += `💼 ${positions.length} positions | Value: $${totalValue.toFixed(2)} | ${totalPnLEmoji} ${totalPnLSign}$${totalPnL.toFixed(2)}`;
 
+    if (pnlResult) {
+      const realized = pnlResult.report.realizedPnl;
+      positionsMessage += ` | Realized: ${realized >= 0 ? '+' : '-'}$${Math.abs(realized).toFixed(2)}`;
+    }
+
     if (positions.length > 10) {
       positionsMessage += ` | _Showing top 10_`;
     }
 
     ctx.reply(positionsMessage, { parse_mode: 'Markdown' });
 
-    logger.info(`User ${ctx.from.id} fetched positions for wallet ${walletAddress}`, {
-      userId: ctx.from.id,
+    logger.info(`User ${ctx.from?.id} fetched positions for wallet ${walletAddress}`, {
+      userId: ctx.from?.id,
       walletAddress,
       positionCount: positions.length
     });
@@ -893,10 +993,9 @@ bot.command(['positions', 'p', 'pos'], async (ctx) => {
     logger.error('Error in positions command:', error);
     ctx.reply('❌ An error occurred while fetching wallet positions. Please try again later.');
   }
-});
+}
 
-// Enhanced Commands - Order Book
-bot.command('orderbook', async (ctx) => {
+bot.command(['positions', 'p', 'pos'], async (ctx) => {
   const messageText = ctx.message.text;
   const args = messageText.split(' ');
 
@@ -907,19 +1006,23 @@ bot.command('orderbook', async (ctx) => {
 
   if (args.length < 2) {
     ctx.reply(
-      '📊 **Order Book Usage**\n\n' +
-      'Get real-time order book data for a market:\n' +
-      '`/orderbook <market_id>`\n\n' +
+      '📝 **Wallet Positions Usage**\n\n' +
+      'Please provide a wallet address:\n' +
+      '`/positions 0x1234...` - Check wallet positions\n\n' +
       '💡 Example:\n' +
-      '`/orderbook 0x1234...abcd`\n\n' +
-      'Use `/markets` to find market IDs.',
-      { parse_mode: 'Markdown' }
+      '`/positions 0x7845bc5E15bC9c41Be5aC0725E68a16Ec02B51B5`'
     );
     return;
   }
 
-  const marketId = args[1];
+  await replyWithWalletPositions(ctx, args[1]);
+});
 
+// Enhanced Commands - Order Book
+/**
+ * Reply with the top of a market's order book (/orderbook and consensus buttons)
+ */
+async function replyWithOrderBook(ctx: Context, marketId: string): Promise<void> {
   try {
     await ctx.reply(`🔍 Fetching order book for market ${marketId.slice(0, 8)}...`);
 
@@ -973,11 +1076,12 @@ bot.command('orderbook', async (ctx) => {
     }
 
     orderBookMessage += `\n🔗 Market ID: \`${marketId}\``;
+    orderBookMessage += `\n👀 Watch for changes: /bookwatch ${marketId}`;
 
     ctx.reply(orderBookMessage, { parse_mode: 'Markdown' });
 
-    logger.info(`User ${ctx.from.id} fetched order book for market ${marketId}`, {
-      userId: ctx.from.id,
+    logger.info(`User ${ctx.from?.id} fetched order book for market ${marketId}`, {
+      userId: ctx.from?.id,
       marketId
     });
 
@@ -992,6 +1096,72 @@ bot.command('orderbook', async (ctx) => {
       'Please try again in a few moments.'
     );
   }
+}
+
+bot.command('orderbook', async (ctx) => {
+  const messageText = ctx.message.text;
+  const args = messageText.split(' ');
+
+  if (!ctx.from?.id) {
+    ctx.reply('❌ Unable to identify user. Please try again.');
+    return;
+  }
+
+  if (args.length < 2) {
+    ctx.reply(
+      '📊 **Order Book Usage**\n\n' +
+      'Get real-time order book data for a market:\n' +
+      '`/orderbook <market_id>`\n\n' +
+      '💡 Example:\n' +
+      '`/orderbook 0x1234...abcd`\n\n' +
+      'Use `/markets` to find market IDs.',
+      { parse_mode: 'Markdown' }
+    );
+    return;
+  }
+
+  await replyWithOrderBook(ctx, args[1]);
+});
+
+// Consensus notification buttons (markets are referenced by signal id)
+bot.action(/^consensus_book_([0-9a-f-]{36})$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const signal = await getSmartWalletRepository().getSignalById(ctx.match[1]);
+  if (!signal) {
+    await ctx.reply('❌ This consensus signal is no longer available.');
+    return;
+  }
+  await replyWithOrderBook(ctx, signal.conditionId);
+});
+
+bot.action(/^consensus_chart_([0-9a-f-]{36})$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  const signal = await getSmartWalletRepository().getSignalById(ctx.match[1]);
+  if (!signal) {
+    await ctx.reply('❌ This consensus signal is no longer available.');
+    return;
+  }
+
+  try {
+    const now = new Date();
+    const history = await polymarketService.getRestClient().getPriceHistory(signal.conditionId, {
+      interval: '4h',
+      startTime: new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString(),
+      endTime: now.toISOString(),
+    });
+    await ctx.reply(
+      formatConsensusPriceChart(signal.marketTitle, signal.side, history?.data || [], 'last 7 days'),
+      { parse_mode: 'Markdown' }
+    );
+  } catch (error) {
+    logger.error('Error showing consensus price chart', { signalId: ctx.match[1], error });
+    await ctx.reply('❌ Failed to load price history. Please try again later.');
+  }
+});
+
+bot.action(/^consensus_positions_(0x[a-fA-F0-9]{40})$/, async (ctx) => {
+  await ctx.answerCbQuery();
+  await replyWithWalletPositions(ctx, ctx.match[1]);
 });
 
 // Enhanced Commands - User Analytics
@@ -1033,12 +1203,19 @@ bot.command('analytics', async (ctx) => {
   try {
     await ctx.reply(`📊 Analyzing wallet ${walletAddress.slice(0, 6)}...${walletAddress.slice(-4)}...`);
 
-    // Get user profile and positions in parallel
-    const [userProfile, positions, transactions] = await Promise.all([
+    // Get user profile, positions and recorded history in parallel
+    const historySince = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const [userProfile, positions, transactions, historyStats, recentHistory] = await Promise.all([
       polymarketService.getUserProfile(walletAddress),
       polymarketService.getWalletPositionsWithMarketData(walletAddress),
-      polymarketService.getUserTransactions(walletAddress, 20)
+      polymarketService.getUserTransactions(walletAddress, 20),
+      getWalletTrackerRepository().getPositionHistoryStats(walletAddress, historySince),
+      getWalletTrackerRepository().getPositionHistory(walletAddress, { limit: 5 })
     ]);
+    const pnlResult = await (getWalletPnlService()?.getWalletPnl(walletAddress).catch((error) => {
+      logger.warn('PnL engine unavailable for analytics', { walletAddress, error });
+      return null;
+    }) ?? Promise.resolve(null));
 
     let analyticsMessage = `📈 **Wallet Analytics**\n\n`;
     analyticsMessage += `👤 **Address:** \`${walletAddress.slice(0, 8)}...${walletAddress.slice(-8)}\`\n\n`;
@@ -1061,11 +1238,26 @@ bot.command('analytics', async (ctx) => {
 
       analyticsMessage += `💼 **Portfolio Summary:**\n`;
       analyticsMessage += `• Current Value: $${totalValue.toFixed(2)}\n`;
-      analyticsMessage += `• Unrealized P&L: ${totalPnL >= 0 ? '+' : ''}$${totalPnL.toFixed(2)}\n`;
+      const unrealizedPnL = pnlResult ? pnlResult.report.unrealizedPnl : totalPnL;
+      analyticsMessage += `• Unrealized P&L: ${unrealizedPnL >= 0 ? '+' : ''}$${unrealizedPnL.toFixed(2)}\n`;
       analyticsMessage += `• Total Positions: ${positions.length}\n`;
       analyticsMessage += `• Active Markets: ${activeMarkets}\n\n`;
     }
 
+    // Lot-based performance
+    if (pnlResult && pnlResult.report.tradeCount > 0) {
+      const report = pnlResult.report;
+      const curve = pnlResult.equityCurve;
+      const signed = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+
+      analyticsMessage += '🏆 **Performance (FIFO):**\n';
+      analyticsMessage += `• Realized P&L: ${signed(report.realizedPnl)}\n`;
+      analyticsMessage += `• Total P&L: ${signed(report.totalPnl)} (ROI ${report.roi.toFixed(1)}%)\n`;
+      analyticsMessage += `• Win Rate: ${report.closedPositions > 0 ? (report.winRate * 100).toFixed(1) + '%' : 'N/A'} (${report.closedPositions} closed)\n`;
+      analyticsMessage += `• 7d Equity: ${signed(getEquityChange(curve, 7))}\n`;
+      analyticsMessage += `• 30d Equity: ${signed(getEquityChange(curve, 30))}\n\n`;
+    }
+
     // Trading activity
     if (transactions.length > 0) {
       const recentTrades = transactions.slice(0, 5);
@@ -1086,6 +1278,22 @@ bot.command('analytics', async (ctx) => {
       });
     }
 
+    // Recorded history (only available for tracked wallets)
+    if (historyStats.changes > 0) {
+      analyticsMessage += '\n🗂 **Recorded Activity (30d):**\n';
+      analyticsMessage += `• Position Changes: ${historyStats.changes}\n`;
+      analyticsMessage += `• Markets Traded: ${historyStats.markets}\n`;
+      analyticsMessage += `• Bought: $${historyStats.buyVolume.toFixed(2)}\n`;
+      analyticsMessage += `• Sold: $${historyStats.sellVolume.toFixed(2)}\n\n`;
+
+      analyticsMessage += '📜 **Latest Recorded Changes:**\n';
+      recentHistory.forEach((entry, index) => {
+        const type = entry.type === 'BUY' || entry.type === 'NEW' ? '💚 Buy' : '💔 Sell';
+        const date = entry.occurredAt.toLocaleDateString();
+        analyticsMessage += `${index + 1}. ${type} ${entry.outcome} $${entry.totalValue.toFixed(2)} - ${date}\n`;
+      });
+    }
+
     analyticsMessage += `\n⏰ **Last Updated:** ${new Date().toLocaleString()}`;
 
     ctx.reply(analyticsMessage, { parse_mode: 'Markdown' });
@@ -1110,15 +1318,6 @@ bot.command('analytics', async (ctx) => {
   }
 });
 
-// Default handler
-bot.on('message', (ctx) => {
-  if (ctx.message && 'text' in ctx.message) {
-    ctx.reply(
-      '❓ Unknown command. Use /help to see available commands.'
-    );
-  }
-});
-
 // Start the bot
 async function startBot() {
   try {
@@ -1159,6 +1358,13 @@ async function startBot() {
         minOrderValue: config.consensus.minOrderValue,
         minPortfolioPercent: config.consensus.minPortfolioPercent,
         scanDelayMs: config.consensus.scanDelayMs,
+        valueChangePercent: config.consensus.valueChangePercent,
+        divergenceMinWallets: config.consensus.divergenceMinWallets,
+        divergenceMinSharePercent: config.consensus.divergenceMinSharePercent,
+        entryHalfLifeDays: config.consensus.entryHalfLifeDays,
+        entryWindowDays: config.consensus.entryWindowDays,
+        incrementalEnabled: config.consensus.incrementalEnabled,
+        incrementalIntervalMinutes: config.consensus.incrementalIntervalMinutes,
       });
 
       // Set up broadcast provider - all active users receive notifications by default
@@ -1168,13 +1374,114 @@ async function startBot() {
 
       consensusScanner.start();
       logger.info('✅ Consensus Scanner initialized (broadcast mode)');
+
+      // Follow each saved signal until its market resolves (feeds /signalstats)
+      createSignalPerformanceTracker(polymarketService.getRestClient(), {
+        intervalMinutes: config.consensus.trackingIntervalMinutes,
+        recalibrationMinSignals: config.consensus.recalibrationMinSignals,
+      }).start();
     } else {
       logger.info('ℹ️ Consensus Scanner disabled');
     }
 
+    // Initialize PnL engine and leaderboard (smart wallets are scored in the background)
+    const pnlService = createWalletPnlService(polymarketService.getRestClient());
+    const leaderboardService = createLeaderboardService(pnlService);
+    leaderboardService.start();
+
+    // Rotate smart wallets from leaderboard data (changes are audited in smart_wallet_changes)
+    if (config.discovery.enabled) {
+      const { sourceUrl, ...discoveryConfig } = config.discovery;
+      createWalletDiscoveryService(
+        polymarketService.getRestClient(),
+        new HttpCandidateSource(sourceUrl),
+        discoveryConfig
+      ).start();
+    } else {
+      logger.info('ℹ️ Wallet discovery disabled');
+    }
+
+    // Initialize paper copy trading (mirrors every change the tracker detects)
+    const copyTradingService = createCopyTradingService(polymarketService.getRestClient());
+    walletTracker?.onPositionChanges((wallet, changes) => copyTradingService.handleChanges(wallet, changes));
+
     // Register smart wallet commands
     registerSmartWalletCommands(bot);
 
+    // Register PnL and leaderboard commands
+    registerPnlCommands(bot);
+    registerLeaderboardCommands(bot);
+
+    // Register the /history command (recorded position changes)
+    new HistoryHandler(bot).register();
+
+    // Register alert threshold and delivery commands
+    registerThresholdCommands(bot);
+    registerDigestCommands(bot);
+
+    // Register copy trading commands
+    registerCopyCommands(bot);
+
+    // Initialize price alerts (streamed PRICE_UPDATE events plus a poll of market data)
+    const priceAlertService = createPriceAlertService(bot, polymarketService.getRestClient(), {
+      pollIntervalMinutes: config.priceAlerts.pollIntervalMinutes,
+      hysteresis: config.priceAlerts.hysteresis,
+      maxAlertsPerUser: config.priceAlerts.maxAlertsPerUser,
+    });
+    await priceAlertService.start();
+    registerPriceAlertCommands(bot);
+
+    // Initialize order book watches (market_data stream, REST poll as fallback)
+    const bookWatchService = createBookWatchService(bot, polymarketService.getRestClient(), polymarketService, {
+      pollIntervalSeconds: config.bookWatch.pollIntervalSeconds,
+      maxSpread: config.bookWatch.maxSpread,
+      depthRange: config.bookWatch.depthRange,
+      liquidityDropPercent: config.bookWatch.liquidityDropPercent,
+      wallNotional: config.bookWatch.wallNotional,
+      alertCooldownMinutes: config.bookWatch.alertCooldownMinutes,
+      maxWatchesPerChat: config.bookWatch.maxWatchesPerChat,
+    });
+    await bookWatchService.start();
+    registerBookWatchCommands(bot);
+
+    // Initialize market watchlists (daily summary, big-move alerts)
+    const watchlistService = createWatchlistService(bot, polymarketService.getRestClient(), {
+      moveCheckIntervalMinutes: config.watchlist.moveCheckIntervalMinutes,
+      summaryHourUtc: config.watchlist.summaryHourUtc,
+      maxMarketsPerUser: config.watchlist.maxMarketsPerUser,
+    });
+    watchlistService.start();
+    registerWatchlistCommands(bot);
+
+    // Register market search and discovery commands
+    createMarketDiscoveryService(polymarketService.getRestClient(), {
+      fetchLimit: config.marketDiscovery.fetchLimit,
+      resultTtlMinutes: config.marketDiscovery.resultTtlMinutes,
+      searchCacheSeconds: config.marketDiscovery.searchCacheSeconds,
+    });
+    registerMarketDiscoveryCommands(bot);
+
+    // Register inline mode (@bot <query>) for market and tracked-wallet cards
+    createInlineQueryService(polymarketService.getRestClient(), {
+      maxResults: config.inlineQuery.maxResults,
+      rateLimitPerMinute: config.inlineQuery.rateLimitPerMinute,
+      walletCacheSeconds: config.inlineQuery.walletCacheSeconds,
+    });
+    registerInlineQueryHandlers(bot, config.inlineQuery.cacheTimeSeconds);
+
+    // Register admin commands (bot_admins is synced with ADMIN_TELEGRAM_IDS)
+    await getAdminRepository().syncAdmins(config.admin.telegramIds);
+    registerAdminCommands(bot);
+
+    // Default handler (registered last so it doesn't swallow the commands above)
+    bot.on('message', (ctx) => {
+      if (ctx.message && 'text' in ctx.message) {
+        ctx.reply(
+          '❓ Unknown command. Use /help to see available commands.'
+        );
+      }
+    });
+
     // Launch Telegram bot
     await bot.launch();
     logger.info('🤖 Polymarket Telegram Bot started successfully');
@@ -0,0 +1,151 @@
+/**
+ * Admin Repository
+ * PostgreSQL persistence for bot admins (bot_admins) and their audit log (admin_audit_log)
+ */
+
+import { query, transaction } from '@/services/database/connection-pool';
+import { logger } from '@/utils/logger';
+
+export interface AdminAction {
+  adminTelegramId: number;
+  action: string;
+  target?: string;
+  details?: Record<string, unknown>;
+  success: boolean;
+}
+
+export interface AdminActionRecord extends AdminAction {
+  id: string;
+  createdAt: Date;
+}
+
+/**
+ * AdminRepository
+ * Admin checks fail closed: a database error means no admin rights
+ */
+export class AdminRepository {
+  /**
+   * Make the configured Telegram IDs the admins: missing ones are added and admins
+   * no longer configured lose their rights
+   */
+  async syncAdmins(telegramIds: number[]): Promise<void> {
+    try {
+      const removed = await transaction(async (client) => {
+        for (const telegramId of telegramIds) {
+          await client.query(
+            `INSERT INTO bot_admins (telegram_id, role)
+             VALUES ($1, 'ADMIN')
+             ON CONFLICT (telegram_id) DO NOTHING`,
+            [telegramId]
+          );
+        }
+
+        const result = await client.query<{ telegram_id: string }>(
+          `DELETE FROM bot_admins
+           WHERE NOT (telegram_id = ANY($1::bigint[]))
+           RETURNING telegram_id`,
+          [telegramIds]
+        );
+        return result.rows.map(r => parseInt(r.telegram_id, 10));
+      });
+
+      if (removed.length > 0) {
+        logger.warn('Revoked admins no longer in ADMIN_TELEGRAM_IDS', { telegramIds: removed });
+      }
+    } catch (error) {
+      logger.error('Failed to sync admins', {
+        telegramIds,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  async isAdmin(telegramId: number): Promise<boolean> {
+    try {
+      const results = await query<{ telegram_id: string }>(
+        'SELECT telegram_id FROM bot_admins WHERE telegram_id = $1',
+        [telegramId]
+      );
+      return results.length > 0;
+    } catch (error) {
+      logger.error('Failed to check admin role', {
+        telegramId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Append an action to the audit log
+   */
+  async logAction(action: AdminAction): Promise<void> {
+    try {
+      await query(
+        `INSERT INTO admin_audit_log (admin_telegram_id, action, target, details, success)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [
+          action.adminTelegramId,
+          action.action,
+          action.target || null,
+          action.details ? JSON.stringify(action.details) : null,
+          action.success,
+        ]
+      );
+    } catch (error) {
+      // Keep the action in the application log even if the audit row is lost
+      logger.error('Failed to write admin audit log', {
+        ...action,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Most recent admin actions, newest first
+   */
+  async getRecentActions(limit: number = 20): Promise<AdminActionRecord[]> {
+    try {
+      const results = await query<{
+        id: string;
+        admin_telegram_id: string;
+        action: string;
+        target: string | null;
+        details: Record<string, unknown> | null;
+        success: boolean;
+        created_at: Date;
+      }>(
+        `SELECT id, admin_telegram_id, action, target, details, success, created_at
+         FROM admin_audit_log
+         ORDER BY created_at DESC
+         LIMIT $1`,
+        [limit]
+      );
+
+      return results.map(r => ({
+        id: r.id,
+        adminTelegramId: parseInt(r.admin_telegram_id, 10),
+        action: r.action,
+        target: r.target || undefined,
+        details: r.details || undefined,
+        success: r.success,
+        createdAt: r.created_at,
+      }));
+    } catch (error) {
+      logger.error('Failed to get admin audit log', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+}
+
+// Singleton
+let repositoryInstance: AdminRepository | null = null;
+
+export function getAdminRepository(): AdminRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new AdminRepository();
+  }
+  return repositoryInstance;
+}
@@ -0,0 +1,12 @@
+/**
+ * Admin Module Exports
+ * Bot admin roles and the audit log of admin actions
+ */
+
+// Repository
+export {
+  AdminRepository,
+  getAdminRepository,
+  type AdminAction,
+  type AdminActionRecord,
+} from './admin-repository';
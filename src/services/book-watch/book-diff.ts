@@ -0,0 +1,160 @@
+/**
+ * Book Diff
+ * Summaries of order book snapshots and the changes between them that are worth an
+ * alert: the spread widening, liquidity near the mid drying up, and large resting
+ * orders (walls) appearing or being pulled
+ */
+
+export interface BookLevel {
+  price: number;
+  size: number;   // Shares
+}
+
+export interface BookSnapshot {
+  bids: BookLevel[];
+  asks: BookLevel[];
+  takenAt: Date;
+}
+
+export interface BookSummary {
+  bestBid?: number;
+  bestAsk?: number;
+  mid?: number;
+  spread?: number;
+  depth: number;    // USD resting within depthRange of the mid, both sides
+}
+
+export interface BookWall {
+  side: 'BID' | 'ASK';
+  price: number;
+  size: number;
+  notional: number;
+}
+
+export interface BookDiffConfig {
+  maxSpread: number;             // Spread (probability) above which the book counts as wide (default: 0.05)
+  depthRange: number;            // Distance from mid counted as near liquidity (default: 0.05)
+  liquidityDropPercent: number;  // Drop from the recent high that counts as evaporating (default: 50)
+  minDepth: number;              // Ignore books with less near liquidity than this, in USD (default: 1000)
+  wallNotional: number;          // Single resting order size that counts as a wall, in USD (default: 10000)
+}
+
+export type BookAlertType = 'SPREAD_WIDENED' | 'LIQUIDITY_DROPPED' | 'WALL_ADDED' | 'WALL_PULLED';
+
+export interface BookAlert {
+  type: BookAlertType;
+  previous?: number;    // Spread or depth before
+  current?: number;     // Spread or depth now
+  wall?: BookWall;
+}
+
+export const DEFAULT_BOOK_DIFF_CONFIG: BookDiffConfig = {
+  maxSpread: 0.05,
+  depthRange: 0.05,
+  liquidityDropPercent: 50,
+  minDepth: 1000,
+  wallNotional: 10000,
+};
+
+/**
+ * Best prices, spread and near-mid depth of a snapshot
+ */
+export function summarizeBook(snapshot: BookSnapshot, depthRange: number): BookSummary {
+  const bestBid = snapshot.bids.length > 0 ? Math.max(...snapshot.bids.map(l => l.price)) : undefined;
+  const bestAsk = snapshot.asks.length > 0 ? Math.min(...snapshot.asks.map(l => l.price)) : undefined;
+
+  if (bestBid === undefined || bestAsk === undefined) {
+    return { bestBid, bestAsk, depth: 0 };
+  }
+
+  const mid = (bestBid + bestAsk) / 2;
+  const depth =
+    snapshot.bids.filter(l => l.price >= mid - depthRange).reduce((sum, l) => sum + l.price * l.size, 0) +
+    snapshot.asks.filter(l => l.price <= mid + depthRange).reduce((sum, l) => sum + l.price * l.size, 0);
+
+  return { bestBid, bestAsk, mid, spread: bestAsk - bestBid, depth };
+}
+
+/**
+ * Resting orders at or above the wall size
+ */
+export function findWalls(snapshot: BookSnapshot, wallNotional: number): BookWall[] {
+  const toWalls = (levels: BookLevel[], side: BookWall['side']): BookWall[] =>
+    levels
+      .map(l => ({ side, price: l.price, size: l.size, notional: l.price * l.size }))
+      .filter(w => w.notional >= wallNotional);
+
+  return [...toWalls(snapshot.bids, 'BID'), ...toWalls(snapshot.asks, 'ASK')];
+}
+
+/**
+ * Alerts between two snapshots of the same book
+ * @param baselineDepth Highest near-mid depth since the last liquidity alert
+ */
+export function diffBooks(
+  previous: BookSnapshot,
+  current: BookSnapshot,
+  baselineDepth: number,
+  config: BookDiffConfig = DEFAULT_BOOK_DIFF_CONFIG
+): BookAlert[] {
+  const alerts: BookAlert[] = [];
+  const before = summarizeBook(previous, config.depthRange);
+  const after = summarizeBook(current, config.depthRange);
+
+  // Only the crossing into a wide book alerts, not every snapshot while it stays wide
+  if (before.spread !== undefined && after.spread !== undefined &&
+      before.spread <= config.maxSpread && after.spread > config.maxSpread) {
+    alerts.push({ type: 'SPREAD_WIDENED', previous: before.spread, current: after.spread });
+  }
+
+  if (baselineDepth >= config.minDepth &&
+      after.depth <= baselineDepth * (1 - config.liquidityDropPercent / 100)) {
+    alerts.push({ type: 'LIQUIDITY_DROPPED', previous: baselineDepth, current: after.depth });
+  }
+
+  const wallsBefore = new Map(findWalls(previous, config.wallNotional).map(w => [getWallKey(w), w]));
+  const wallsAfter = new Map(findWalls(current, config.wallNotional).map(w => [getWallKey(w), w]));
+
+  wallsAfter.forEach((wall, k) => {
+    if (!wallsBefore.has(k)) alerts.push({ type: 'WALL_ADDED', wall });
+  });
+  wallsBefore.forEach((wall, k) => {
+    if (!wallsAfter.has(k)) alerts.push({ type: 'WALL_PULLED', wall });
+  });
+
+  return alerts;
+}
+
+/**
+ * Key an alert's cooldown runs under: the alert type, and for walls also the side and
+ * price, so one wall's alert doesn't hold back another's
+ */
+export function getAlertCooldownKey(alert: BookAlert): string {
+  return alert.wall ? `${alert.type}:${getWallKey(alert.wall)}` : alert.type;
+}
+
+/**
+ * Next liquidity baseline: the recent high, restarting from the current depth after an alert
+ */
+export function nextBaselineDepth(baselineDepth: number, currentDepth: number, alerted: boolean): number {
+  return alerted ? currentDepth : Math.max(baselineDepth, currentDepth);
+}
+
+/**
+ * Normalize a REST or streamed book (prices and sizes may arrive as strings)
+ */
+export function toBookSnapshot(
+  book: { bids?: Array<{ price: number | string; size: number | string }>; asks?: Array<{ price: number | string; size: number | string }> },
+  takenAt: Date = new Date()
+): BookSnapshot {
+  const toLevels = (levels?: Array<{ price: number | string; size: number | string }>): BookLevel[] =>
+    (levels || [])
+      .map(l => ({ price: Number(l.price), size: Number(l.size) }))
+      .filter(l => l.price > 0 && l.size > 0);
+
+  return { bids: toLevels(book.bids), asks: toLevels(book.asks), takenAt };
+}
+
+function getWallKey(wall: BookWall): string {
+  return `${wall.side}:${wall.price}`;
+}
@@ -0,0 +1,149 @@
+/**
+ * Book Watch Repository
+ * PostgreSQL persistence for chats' order book watches
+ */
+
+import { query } from '@/services/database/connection-pool';
+import { logger } from '@/utils/logger';
+
+export interface BookWatch {
+  chatId: number;
+  conditionId: string;
+  marketTitle: string;
+  createdAt: Date;
+}
+
+interface BookWatchRow {
+  chat_id: string;
+  condition_id: string;
+  market_title: string | null;
+  created_at: Date;
+}
+
+/**
+ * BookWatchRepository
+ * Handles PostgreSQL persistence for order book watches
+ */
+export class BookWatchRepository {
+  /**
+   * Add a watch for a chat (re-watching a market is a no-op)
+   */
+  async addWatch(
+    chatId: number,
+    conditionId: string,
+    marketTitle: string,
+    maxWatches: number
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const countResult = await query<{ count: string }>(
+        `SELECT COUNT(*) as count FROM order_book_watches
+         WHERE chat_id = $1 AND condition_id <> $2`,
+        [chatId, conditionId]
+      );
+      if (parseInt(countResult[0].count) >= maxWatches) {
+        return { success: false, message: `Maximum ${maxWatches} order book watches per chat. Remove one first.` };
+      }
+
+      await query(
+        `INSERT INTO order_book_watches (chat_id, condition_id, market_title)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (chat_id, condition_id) DO UPDATE SET market_title = EXCLUDED.market_title`,
+        [chatId, conditionId, marketTitle]
+      );
+
+      logger.info('Added order book watch', { chatId, conditionId });
+      return { success: true, message: 'Watching the order book.' };
+    } catch (error) {
+      logger.error('Failed to add order book watch', {
+        chatId,
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { success: false, message: 'Failed to watch the order book. Please try again.' };
+    }
+  }
+
+  /**
+   * Remove a chat's watch on a market
+   */
+  async removeWatch(chatId: number, conditionId: string): Promise<boolean> {
+    try {
+      const deleted = await query<{ condition_id: string }>(
+        `DELETE FROM order_book_watches
+         WHERE chat_id = $1 AND condition_id = $2
+         RETURNING condition_id`,
+        [chatId, conditionId]
+      );
+
+      return deleted.length > 0;
+    } catch (error) {
+      logger.error('Failed to remove order book watch', {
+        chatId,
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get a chat's watches, oldest first
+   */
+  async getChatWatches(chatId: number): Promise<BookWatch[]> {
+    try {
+      const results = await query<BookWatchRow>(
+        `SELECT chat_id, condition_id, market_title, created_at
+         FROM order_book_watches
+         WHERE chat_id = $1
+         ORDER BY created_at ASC`,
+        [chatId]
+      );
+
+      return results.map(r => this.mapWatch(r));
+    } catch (error) {
+      logger.error('Failed to get order book watches', {
+        chatId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get every watch
+   */
+  async getAllWatches(): Promise<BookWatch[]> {
+    try {
+      const results = await query<BookWatchRow>(
+        `SELECT chat_id, condition_id, market_title, created_at
+         FROM order_book_watches`
+      );
+
+      return results.map(r => this.mapWatch(r));
+    } catch (error) {
+      logger.error('Failed to get order book watches', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  private mapWatch(r: BookWatchRow): BookWatch {
+    return {
+      chatId: parseInt(r.chat_id, 10),
+      conditionId: r.condition_id,
+      marketTitle: r.market_title || r.condition_id,
+      createdAt: r.created_at,
+    };
+  }
+}
+
+// Singleton instance
+let repositoryInstance: BookWatchRepository | null = null;
+
+export function getBookWatchRepository(): BookWatchRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new BookWatchRepository();
+  }
+  return repositoryInstance;
+}
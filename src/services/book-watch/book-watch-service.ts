@@ -0,0 +1,398 @@
+/**
+ * Book Watch Service
+ * Diffs snapshots of watched order books over time and alerts the watching chats when
+ * the spread widens, liquidity near the mid evaporates, or a large order appears or is
+ * pulled. Books arrive from the market_data stream; markets the stream hasn't updated
+ * recently are fetched over REST.
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+import { PolymarketMarketData } from '@/types/polymarket';
+import { logger } from '@/utils/logger';
+import {
+  BookAlert,
+  BookDiffConfig,
+  BookSnapshot,
+  BookWall,
+  DEFAULT_BOOK_DIFF_CONFIG,
+  diffBooks,
+  getAlertCooldownKey,
+  nextBaselineDepth,
+  summarizeBook,
+  toBookSnapshot,
+} from './book-diff';
+import { BookWatch, BookWatchRepository, getBookWatchRepository } from './book-watch-repository';
+import { escapeMarkdown, formatCents, formatUsd } from '@/utils/format';
+
+export interface BookWatchServiceConfig extends BookDiffConfig {
+  pollIntervalSeconds: number;    // REST fallback for books the stream hasn't updated (default: 30)
+  minRefreshSeconds: number;      // Minimum gap between REST fetches of one book (default: 5)
+  alertCooldownMinutes: number;   // Per market and alert type, walls also per side and price (default: 15)
+  maxWatchesPerChat: number;      // default: 10
+}
+
+/**
+ * Market subscriptions on the real-time stream (PolymarketService)
+ */
+export interface BookStream {
+  subscribeToMarket(conditionId: string): Promise<void>;
+  unsubscribeFromMarket(conditionId: string): Promise<void>;
+}
+
+const DEFAULT_CONFIG: BookWatchServiceConfig = {
+  ...DEFAULT_BOOK_DIFF_CONFIG,
+  pollIntervalSeconds: 30,
+  minRefreshSeconds: 5,
+  alertCooldownMinutes: 15,
+  maxWatchesPerChat: 10,
+};
+
+interface WatchedBook {
+  marketTitle: string;
+  chatIds: Set<number>;
+  snapshot?: BookSnapshot;
+  baselineDepth: number;
+  lastFetchAt: number;
+  lastAlertAt: Map<string, number>;    // By cooldown key (see getAlertCooldownKey)
+}
+
+/**
+ * Streamed market_data payloads carry book levels when the channel sends them
+ */
+type StreamedBook = PolymarketMarketData & {
+  bids?: Array<{ price: number | string; size: number | string }>;
+  asks?: Array<{ price: number | string; size: number | string }>;
+};
+
+/**
+ * BookWatchService
+ * Keeps the last snapshot of each watched book in memory, shared by every watching chat
+ */
+export class BookWatchService {
+  private bot: Telegraf<Context>;
+  private restClient: PolymarketRestClient;
+  private stream: BookStream | null;
+  private repository: BookWatchRepository;
+  private config: BookWatchServiceConfig;
+  private books: Map<string, WatchedBook> = new Map();   // By conditionId
+  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private isPolling = false;
+
+  constructor(
+    bot: Telegraf<Context>,
+    restClient: PolymarketRestClient,
+    stream: BookStream | null,
+    config?: Partial<BookWatchServiceConfig>
+  ) {
+    this.bot = bot;
+    this.restClient = restClient;
+    this.stream = stream;
+    this.repository = getBookWatchRepository();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Load watches, subscribe their markets and start the REST fallback
+   */
+  async start(): Promise<void> {
+    if (this.pollInterval) return;
+
+    const watches = await this.repository.getAllWatches();
+    for (const watch of watches) {
+      await this.track(watch.chatId, watch.conditionId, watch.marketTitle);
+    }
+
+    this.pollInterval = setInterval(() => {
+      this.poll().catch(error => logger.error('Order book watch poll failed', { error }));
+    }, this.config.pollIntervalSeconds * 1000);
+
+    logger.info('Order book watch service started', {
+      pollIntervalSeconds: this.config.pollIntervalSeconds,
+      watchedMarkets: this.books.size,
+    });
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  /**
+   * Watch a market's book from a chat; the first snapshot becomes the baseline
+   */
+  async addWatch(
+    chatId: number,
+    conditionId: string
+  ): Promise<{ success: boolean; message: string; marketTitle?: string; snapshot?: BookSnapshot }> {
+    let marketTitle: string;
+    try {
+      const condition = await this.restClient.getCondition(conditionId);
+      if (condition.status !== 'ACTIVE') {
+        return { success: false, message: 'This market is no longer active.' };
+      }
+      marketTitle = condition.question || condition.title || conditionId;
+    } catch (error) {
+      logger.debug('Market lookup failed for order book watch', {
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { success: false, message: 'Market not found. Check the market ID with /market.' };
+    }
+
+    const result = await this.repository.addWatch(chatId, conditionId, marketTitle, this.config.maxWatchesPerChat);
+    if (!result.success) return result;
+
+    await this.track(chatId, conditionId, marketTitle);
+    return { ...result, marketTitle, snapshot: this.books.get(conditionId)?.snapshot };
+  }
+
+  async removeWatch(chatId: number, conditionId: string): Promise<boolean> {
+    const removed = await this.repository.removeWatch(chatId, conditionId);
+    if (removed) await this.untrack(chatId, conditionId);
+    return removed;
+  }
+
+  async getWatches(chatId: number): Promise<BookWatch[]> {
+    return this.repository.getChatWatches(chatId);
+  }
+
+  /**
+   * Check a streamed market_data update (PRICE_UPDATE event)
+   * Updates carrying book levels are diffed directly; others only mean the book
+   * may have moved, so it is refetched over REST (throttled)
+   */
+  async handleMarketData(marketData: StreamedBook): Promise<void> {
+    const book = marketData.conditionId ? this.books.get(marketData.conditionId) : undefined;
+    if (!book) return;
+
+    if (Array.isArray(marketData.bids) && Array.isArray(marketData.asks)) {
+      await this.applySnapshot(marketData.conditionId, toBookSnapshot(marketData));
+      return;
+    }
+
+    if (Date.now() - book.lastFetchAt >= this.config.minRefreshSeconds * 1000) {
+      await this.refreshBook(marketData.conditionId);
+    }
+  }
+
+  /**
+   * Current near-mid depth range and alert thresholds, for the watch confirmation
+   */
+  getConfig(): BookDiffConfig {
+    return {
+      maxSpread: this.config.maxSpread,
+      depthRange: this.config.depthRange,
+      liquidityDropPercent: this.config.liquidityDropPercent,
+      minDepth: this.config.minDepth,
+      wallNotional: this.config.wallNotional,
+    };
+  }
+
+  /**
+   * Fetch books the stream hasn't updated within the poll interval
+   */
+  private async poll(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      // Half an interval so timer drift doesn't push a book to the next poll
+      const staleBefore = Date.now() - this.config.pollIntervalSeconds * 500;
+      for (const [conditionId, book] of Array.from(this.books.entries())) {
+        if (book.lastFetchAt <= staleBefore) {
+          await this.refreshBook(conditionId);
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async refreshBook(conditionId: string): Promise<void> {
+    const book = this.books.get(conditionId);
+    if (!book) return;
+    book.lastFetchAt = Date.now();
+
+    try {
+      // The cached book can be up to a minute old, longer than the refresh intervals
+      const orderBook = await this.restClient.getOrderBook(conditionId, { skipCache: true });
+      await this.applySnapshot(conditionId, toBookSnapshot(orderBook));
+    } catch (error) {
+      logger.debug('Failed to fetch watched order book', {
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Diff a new snapshot against the last one and notify the watching chats
+   */
+  private async applySnapshot(conditionId: string, snapshot: BookSnapshot): Promise<void> {
+    const book = this.books.get(conditionId);
+    if (!book) return;
+    book.lastFetchAt = Math.max(book.lastFetchAt, snapshot.takenAt.getTime());
+
+    const previous = book.snapshot;
+    const depth = summarizeBook(snapshot, this.config.depthRange).depth;
+    book.snapshot = snapshot;
+
+    if (!previous) {
+      book.baselineDepth = depth;
+      return;
+    }
+
+    const alerts = diffBooks(previous, snapshot, book.baselineDepth, this.config);
+    book.baselineDepth = nextBaselineDepth(
+      book.baselineDepth,
+      depth,
+      alerts.some(a => a.type === 'LIQUIDITY_DROPPED')
+    );
+
+    const now = Date.now();
+    const cooldownMs = this.config.alertCooldownMinutes * 60 * 1000;
+    const due = alerts.filter(a => now - (book.lastAlertAt.get(getAlertCooldownKey(a)) || 0) >= cooldownMs);
+    if (due.length === 0) return;
+
+    due.forEach(a => book.lastAlertAt.set(getAlertCooldownKey(a), now));
+    await this.notify(conditionId, book, due, snapshot);
+  }
+
+  private async notify(
+    conditionId: string,
+    book: WatchedBook,
+    alerts: BookAlert[],
+    snapshot: BookSnapshot
+  ): Promise<void> {
+    const message = formatBookAlertNotification(book.marketTitle, conditionId, alerts, snapshot, this.config);
+
+    for (const chatId of Array.from(book.chatIds)) {
+      try {
+        await this.bot.telegram.sendMessage(chatId, message, { parse_mode: 'Markdown' });
+      } catch (error) {
+        logger.error('Failed to send order book alert', {
+          chatId,
+          conditionId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    logger.info('Sent order book alerts', {
+      conditionId,
+      alerts: alerts.map(a => a.type),
+      chats: book.chatIds.size,
+    });
+  }
+
+  private async track(chatId: number, conditionId: string, marketTitle: string): Promise<void> {
+    const existing = this.books.get(conditionId);
+    if (existing) {
+      existing.chatIds.add(chatId);
+      return;
+    }
+
+    this.books.set(conditionId, {
+      marketTitle,
+      chatIds: new Set([chatId]),
+      baselineDepth: 0,
+      lastFetchAt: 0,
+      lastAlertAt: new Map(),
+    });
+
+    await this.subscribe(conditionId);
+    await this.refreshBook(conditionId);
+  }
+
+  private async untrack(chatId: number, conditionId: string): Promise<void> {
+    const book = this.books.get(conditionId);
+    if (!book) return;
+
+    book.chatIds.delete(chatId);
+    if (book.chatIds.size === 0) {
+      this.books.delete(conditionId);
+      await this.stream?.unsubscribeFromMarket(conditionId).catch(error => {
+        logger.debug('Failed to unsubscribe from market', { conditionId, error });
+      });
+    }
+  }
+
+  private async subscribe(conditionId: string): Promise<void> {
+    try {
+      await this.stream?.subscribeToMarket(conditionId);
+    } catch (error) {
+      // The REST poll still covers the book
+      logger.debug('Failed to subscribe to market', {
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+/**
+ * Format the alerts from one book update
+ */
+export function formatBookAlertNotification(
+  marketTitle: string,
+  conditionId: string,
+  alerts: BookAlert[],
+  snapshot: BookSnapshot,
+  config: BookDiffConfig
+): string {
+  const summary = summarizeBook(snapshot, config.depthRange);
+
+  let message = '📚 *ORDER BOOK ALERT*\n\n';
+  message += `📊 *${escapeMarkdown(marketTitle)}*\n\n`;
+
+  alerts.forEach(alert => {
+    switch (alert.type) {
+      case 'SPREAD_WIDENED':
+        message += `↔️ Spread widened: ${formatCents(alert.previous || 0)} → *${formatCents(alert.current || 0)}*\n`;
+        break;
+      case 'LIQUIDITY_DROPPED':
+        message += `💧 Liquidity within ${formatCents(config.depthRange)} of mid fell: ` +
+          `${formatUsd(alert.previous || 0)} → *${formatUsd(alert.current || 0)}*\n`;
+        break;
+      case 'WALL_ADDED':
+        if (alert.wall) message += `🧱 New ${formatWall(alert.wall)}\n`;
+        break;
+      case 'WALL_PULLED':
+        if (alert.wall) message += `💨 ${formatWall(alert.wall)} pulled or filled\n`;
+        break;
+    }
+  });
+
+  if (summary.bestBid !== undefined && summary.bestAsk !== undefined) {
+    message += `\nNow: bid ${formatCents(summary.bestBid)} / ask ${formatCents(summary.bestAsk)}`;
+    message += ` • ${formatUsd(summary.depth)} near mid\n`;
+  }
+  message += `\n/orderbook ${conditionId}`;
+  return message;
+}
+
+function formatWall(wall: BookWall): string {
+  return `${wall.side === 'BID' ? 'bid' : 'ask'} wall: ${formatUsd(wall.notional)} at ${formatCents(wall.price)}`;
+}
+
+// Singleton instance
+let serviceInstance: BookWatchService | null = null;
+
+export function createBookWatchService(
+  bot: Telegraf<Context>,
+  restClient: PolymarketRestClient,
+  stream: BookStream | null,
+  config?: Partial<BookWatchServiceConfig>
+): BookWatchService {
+  if (!serviceInstance) {
+    serviceInstance = new BookWatchService(bot, restClient, stream, config);
+  }
+  return serviceInstance;
+}
+
+export function getBookWatchService(): BookWatchService | null {
+  return serviceInstance;
+}
@@ -0,0 +1,39 @@
+/**
+ * Book Watch Module Exports
+ * Order book watches alerting on spread, near-mid liquidity and large resting orders
+ */
+
+// Diffing
+export {
+  DEFAULT_BOOK_DIFF_CONFIG,
+  diffBooks,
+  findWalls,
+  getAlertCooldownKey,
+  nextBaselineDepth,
+  summarizeBook,
+  toBookSnapshot,
+  type BookAlert,
+  type BookAlertType,
+  type BookDiffConfig,
+  type BookLevel,
+  type BookSnapshot,
+  type BookSummary,
+  type BookWall,
+} from './book-diff';
+
+// Repository
+export {
+  BookWatchRepository,
+  getBookWatchRepository,
+  type BookWatch,
+} from './book-watch-repository';
+
+// Service
+export {
+  BookWatchService,
+  createBookWatchService,
+  getBookWatchService,
+  formatBookAlertNotification,
+  type BookStream,
+  type BookWatchServiceConfig,
+} from './book-watch-service';
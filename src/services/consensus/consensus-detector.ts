@@ -5,6 +5,15 @@
  */
 
 import { logger } from '@/utils/logger';
+import { normalizeCategory } from './market-category';
+import {
+  DEFAULT_ENTRY_TIMING_CONFIG,
+  EntryTiming,
+  EntryTimingConfig,
+  PositionEntry,
+  calculateCoordinationBonus,
+  calculateEntryTiming,
+} from './entry-timing';
 
 // Types
 export interface WalletPosition {
@@ -23,6 +32,21 @@ export interface WalletPosition {
   portfolioValue: number;
   portfolioPercent: number;
   side: 'YES' | 'NO' | 'NEUTRAL';
+  expertise?: WalletExpertise;
+  entry?: PositionEntry;        // When and at what price the side was entered
+}
+
+// Smart wallet specialty (smart_wallets.category / category_rank / pnl)
+export interface WalletExpertise {
+  category?: string;
+  categoryRank?: number;
+  pnl?: number;
+}
+
+export interface WalletWeight {
+  weight: number;               // 1 = neutral
+  specialty?: string;           // e.g. "Politics #2"
+  categoryMatch: boolean | null; // null when the market or wallet category is unknown
 }
 
 export interface ConsensusSignal {
@@ -35,19 +59,22 @@ export interface ConsensusSignal {
   avgValue: number;
   confidenceScore: number;
   confidenceLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'VERY_HIGH';
+  marketCategory?: string;
+  freshEntries?: number;        // Wallets that entered within the entry window near the current price
   wallets: Array<{
     alias: string;
     address: string;
     value: number;
     shares: number;
     portfolioPercent: number;
-  }>;
+  } & WalletWeight & Partial<EntryTiming>>;
 }
 
 export interface DetectorConfig {
   minWallets: number;          // Minimum wallets for consensus (default: 3)
   minOrderValue: number;       // Minimum order value in USD (default: 2000)
   minPortfolioPercent: number; // Minimum % of portfolio (default: 2)
+  entryTiming?: EntryTimingConfig; // Freshness decay and window (default: 14-day half-life, 7-day window)
 }
 
 const DEFAULT_CONFIG: DetectorConfig = {
@@ -56,6 +83,46 @@ const DEFAULT_CONFIG: DetectorConfig = {
   minPortfolioPercent: 2,
 };
 
+// One side of a split market
+export interface DivergenceCamp {
+  side: 'YES' | 'NO';
+  walletCount: number;
+  totalValue: number;
+  capitalShare: number;     // Share of the market's smart capital (0-1)
+  totalPnl: number;         // Sum of the camp's all-time PnL (wallets with a known PnL)
+  specialists: number;      // Wallets specialized in the market's category
+  avgWeight: number;        // Mean expertise weight (see calculateWalletWeight)
+  wallets: Array<{
+    alias: string;
+    address: string;
+    value: number;
+    pnl?: number;
+  } & WalletWeight>;
+}
+
+// Significant smart capital on both sides of a market
+export interface DivergenceSignal {
+  conditionId: string;
+  marketTitle: string;
+  marketSlug?: string;
+  marketCategory?: string;
+  yes: DivergenceCamp;
+  no: DivergenceCamp;
+  capitalRatio: number;               // Larger camp / smaller camp
+  strongerRecord: 'YES' | 'NO' | null; // Camp with the better expertise-weighted track record
+}
+
+export interface DivergenceConfig extends DetectorConfig {
+  minWalletsPerSide: number;   // Minimum wallets on each side (default: 2)
+  minMinorityShare: number;    // Minimum share of capital on the smaller side, 0-1 (default: 0.25)
+}
+
+const DEFAULT_DIVERGENCE_CONFIG: DivergenceConfig = {
+  ...DEFAULT_CONFIG,
+  minWalletsPerSide: 2,
+  minMinorityShare: 0.25,
+};
+
 /**
  * Calculate side from net position
  */
@@ -87,24 +154,66 @@ export function isSignificantPosition(
   return false;
 }
 
+/**
+ * Weight of a wallet's vote on a market
+ * Specialists in the market's category count more (top-ranked ones most),
+ * specialists in another category count less, large all-time PnL adds a little
+ */
+export function calculateWalletWeight(
+  expertise: WalletExpertise | undefined,
+  marketCategory: string | null | undefined
+): WalletWeight {
+  const category = normalizeCategory(expertise?.category);
+  const specialty = category
+    ? `${category}${expertise?.categoryRank ? ` #${expertise.categoryRank}` : ''}`
+    : undefined;
+
+  let weight = 1;
+  let categoryMatch: boolean | null = null;
+
+  if (category && marketCategory) {
+    categoryMatch = category === marketCategory;
+
+    if (categoryMatch) {
+      // Top 10 = 2x, top 25 = 1.75x, top 50 = 1.5x, ranked below that = 1.25x
+      const rank = expertise?.categoryRank || Number.MAX_SAFE_INTEGER;
+      weight = rank <= 10 ? 2 : rank <= 25 ? 1.75 : rank <= 50 ? 1.5 : 1.25;
+    } else {
+      weight = 0.75;
+    }
+  }
+
+  const pnl = expertise?.pnl || 0;
+  if (pnl >= 1000000) weight += 0.25;
+  else if (pnl >= 500000) weight += 0.1;
+
+  return { weight, specialty, categoryMatch };
+}
+
 /**
  * Calculate confidence score (0-100) based on multiple factors
  *
  * Factors:
- * - Wallet count (more wallets = higher confidence)
+ * - Wallet count (more wallets = higher confidence), counted by expertise weight
  * - Total value (more money = higher confidence)
- * - Average conviction (avg % of portfolio = higher confidence)
+ * - Average conviction (avg % of portfolio = higher confidence), weighted the same way
  * - Value concentration (evenly distributed = higher confidence)
+ * - Coordinated fresh entries (bonus when several wallets entered recently near the price)
+ *
+ * Callers fold entry timing into each wallet's weight, so stale positions count for less.
  */
 export function calculateConfidenceScore(
-  wallets: Array<{ value: number; portfolioPercent: number }>,
+  wallets: Array<{ value: number; portfolioPercent: number; weight?: number; freshEntry?: boolean }>,
   minWallets: number
 ): number {
   if (wallets.length < minWallets) return 0;
 
-  // Factor 1: Wallet count (0-30 points)
-  // 3 wallets = 10, 5 wallets = 20, 7+ wallets = 30
-  const walletScore = Math.min(30, (wallets.length - 2) * 10);
+  const weights = wallets.map(w => w.weight ?? 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+
+  // Factor 1: Weighted wallet count (0-30 points)
+  // Sum of wallet weights: 3 = 10, 4 = 20, 5+ = 30
+  const walletScore = Math.max(0, Math.min(30, Math.round((totalWeight - 2) * 10)));
 
   // Factor 2: Total value (0-30 points)
   // $5K = 10, $15K = 20, $30K+ = 30
@@ -113,7 +222,9 @@ export function calculateConfidenceScore(
 
   // Factor 3: Average conviction (0-25 points)
   // 2% = 5, 5% = 15, 10%+ = 25
-  const avgConviction = wallets.reduce((sum, w) => sum + w.portfolioPercent, 0) / wallets.length;
+  const avgConviction = totalWeight > 0
+    ? wallets.reduce((sum, w, i) => sum + w.portfolioPercent * weights[i], 0) / totalWeight
+    : 0;
   const convictionScore = Math.min(25, Math.floor(avgConviction * 2.5));
 
   // Factor 4: Distribution evenness (0-15 points)
@@ -122,49 +233,130 @@ export function calculateConfidenceScore(
   const maxPercent = maxValue / totalValue;
   const distributionScore = maxPercent > 0.7 ? 5 : maxPercent > 0.5 ? 10 : 15;
 
-  const totalScore = walletScore + valueScore + convictionScore + distributionScore;
+  // Factor 5: Coordinated fresh entries (0-10 bonus points)
+  const coordinationBonus = calculateCoordinationBonus(wallets);
+
+  const totalScore = walletScore + valueScore + convictionScore + distributionScore + coordinationBonus;
 
   return Math.min(100, totalScore);
 }
 
+// Minimum score for each confidence level
+export interface ConfidenceThresholds {
+  veryHigh: number;
+  high: number;
+  medium: number;
+}
+
+export const DEFAULT_CONFIDENCE_THRESHOLDS: ConfidenceThresholds = {
+  veryHigh: 80,
+  high: 60,
+  medium: 40,
+};
+
+let confidenceThresholds: ConfidenceThresholds = { ...DEFAULT_CONFIDENCE_THRESHOLDS };
+
+/**
+ * Replace the confidence level thresholds (recalibrated from the signal track record)
+ */
+export function setConfidenceThresholds(thresholds: ConfidenceThresholds): void {
+  confidenceThresholds = { ...thresholds };
+}
+
+export function getConfidenceThresholds(): ConfidenceThresholds {
+  return { ...confidenceThresholds };
+}
+
 /**
  * Get confidence level from score
  */
 export function getConfidenceLevel(score: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'VERY_HIGH' {
-  if (score >= 80) return 'VERY_HIGH';
-  if (score >= 60) return 'HIGH';
-  if (score >= 40) return 'MEDIUM';
+  if (score >= confidenceThresholds.veryHigh) return 'VERY_HIGH';
+  if (score >= confidenceThresholds.high) return 'HIGH';
+  if (score >= confidenceThresholds.medium) return 'MEDIUM';
   return 'LOW';
 }
 
+/**
+ * Group significant (non-neutral) positions by market
+ */
+function groupSignificantPositions(
+  positions: WalletPosition[],
+  config: DetectorConfig
+): Map<string, WalletPosition[]> {
+  const byMarket = new Map<string, WalletPosition[]>();
+
+  for (const pos of positions) {
+    if (pos.side === 'NEUTRAL' || !isSignificantPosition(pos, config)) continue;
+    const existing = byMarket.get(pos.conditionId) || [];
+    existing.push(pos);
+    byMarket.set(pos.conditionId, existing);
+  }
+
+  return byMarket;
+}
+
+/**
+ * Confidence score input of a consensus wallet: expertise weight scaled by entry timing
+ */
+function toScoredWallet(wallet: {
+  value: number;
+  portfolioPercent: number;
+  weight: number;
+} & EntryTiming): { value: number; portfolioPercent: number; weight: number; freshEntry: boolean } {
+  return {
+    value: wallet.value,
+    portfolioPercent: wallet.portfolioPercent,
+    weight: wallet.weight * wallet.timingMultiplier,
+    freshEntry: wallet.freshEntry,
+  };
+}
+
+/**
+ * Markets where enough wallets agree on one side (e.g. to look up their categories before scoring)
+ */
+export function findConsensusMarkets(
+  positions: WalletPosition[],
+  config: DetectorConfig = DEFAULT_CONFIG
+): string[] {
+  const markets: string[] = [];
+
+  for (const [conditionId, marketPositions] of groupSignificantPositions(positions, config)) {
+    const yes = marketPositions.filter(p => p.side === 'YES').length;
+    const no = marketPositions.filter(p => p.side === 'NO').length;
+    if (yes >= config.minWallets || no >= config.minWallets) {
+      markets.push(conditionId);
+    }
+  }
+
+  return markets;
+}
+
 /**
  * Detect consensus signals from wallet positions
+ * @param marketCategories Specialty per market (conditionId), used to weight each wallet's expertise
+ * @param now Reference time for entry freshness
  */
 export function detectConsensus(
   positions: WalletPosition[],
-  config: DetectorConfig = DEFAULT_CONFIG
+  config: DetectorConfig = DEFAULT_CONFIG,
+  marketCategories: Map<string, string | null> = new Map(),
+  now: Date = new Date()
 ): ConsensusSignal[] {
   const signals: ConsensusSignal[] = [];
+  const timingConfig = config.entryTiming || DEFAULT_ENTRY_TIMING_CONFIG;
 
-  // Filter to significant positions only (exclude NEUTRAL)
-  const significantPositions = positions.filter(
-    p => p.side !== 'NEUTRAL' && isSignificantPosition(p, config)
-  );
+  const byMarket = groupSignificantPositions(positions, config);
+  const significantPositions = Array.from(byMarket.values()).reduce((sum, p) => sum + p.length, 0);
 
-  if (significantPositions.length === 0) {
+  if (significantPositions === 0) {
     return signals;
   }
 
-  // Group by market (conditionId)
-  const byMarket = new Map<string, WalletPosition[]>();
-  for (const pos of significantPositions) {
-    const existing = byMarket.get(pos.conditionId) || [];
-    existing.push(pos);
-    byMarket.set(pos.conditionId, existing);
-  }
-
   // Check each market for consensus
   for (const [conditionId, marketPositions] of byMarket) {
+    const marketCategory = marketCategories.get(conditionId) || null;
+
     // Separate by side
     const yesSide = marketPositions.filter(p => p.side === 'YES');
     const noSide = marketPositions.filter(p => p.side === 'NO');
@@ -177,11 +369,13 @@ export function detectConsensus(
         value: p.netValue,
         shares: p.netShares,
         portfolioPercent: p.portfolioPercent,
+        ...calculateWalletWeight(p.expertise, marketCategory),
+        ...calculateEntryTiming(p.entry, timingConfig, now),
       }));
 
       const totalValue = walletData.reduce((sum, w) => sum + w.value, 0);
       const confidenceScore = calculateConfidenceScore(
-        walletData.map(w => ({ value: w.value, portfolioPercent: w.portfolioPercent })),
+        walletData.map(toScoredWallet),
         config.minWallets
       );
 
@@ -195,6 +389,8 @@ export function detectConsensus(
         avgValue: totalValue / yesSide.length,
         confidenceScore,
         confidenceLevel: getConfidenceLevel(confidenceScore),
+        marketCategory: marketCategory || undefined,
+        freshEntries: walletData.filter(w => w.freshEntry).length,
         wallets: walletData.sort((a, b) => b.value - a.value), // Sort by value desc
       });
     }
@@ -207,11 +403,13 @@ export function detectConsensus(
         value: Math.abs(p.netValue),
         shares: Math.abs(p.netShares),
         portfolioPercent: p.portfolioPercent,
+        ...calculateWalletWeight(p.expertise, marketCategory),
+        ...calculateEntryTiming(p.entry, timingConfig, now),
       }));
 
       const totalValue = walletData.reduce((sum, w) => sum + w.value, 0);
       const confidenceScore = calculateConfidenceScore(
-        walletData.map(w => ({ value: w.value, portfolioPercent: w.portfolioPercent })),
+        walletData.map(toScoredWallet),
         config.minWallets
       );
 
@@ -225,6 +423,8 @@ export function detectConsensus(
         avgValue: totalValue / noSide.length,
         confidenceScore,
         confidenceLevel: getConfidenceLevel(confidenceScore),
+        marketCategory: marketCategory || undefined,
+        freshEntries: walletData.filter(w => w.freshEntry).length,
         wallets: walletData.sort((a, b) => b.value - a.value),
       });
     }
@@ -235,10 +435,99 @@ export function detectConsensus(
 
   logger.info('Consensus detection complete', {
     totalPositions: positions.length,
-    significantPositions: significantPositions.length,
+    significantPositions,
     marketsAnalyzed: byMarket.size,
     signalsDetected: signals.length,
   });
 
   return signals;
 }
+
+/**
+ * Detect markets where smart wallets are split, with significant capital on both sides
+ * @param marketCategories Specialty per market (conditionId), used to weight each camp's expertise
+ */
+export function detectDivergence(
+  positions: WalletPosition[],
+  config: DivergenceConfig = DEFAULT_DIVERGENCE_CONFIG,
+  marketCategories: Map<string, string | null> = new Map()
+): DivergenceSignal[] {
+  const signals: DivergenceSignal[] = [];
+
+  for (const [conditionId, marketPositions] of groupSignificantPositions(positions, config)) {
+    const yesSide = marketPositions.filter(p => p.side === 'YES');
+    const noSide = marketPositions.filter(p => p.side === 'NO');
+
+    if (yesSide.length < config.minWalletsPerSide || noSide.length < config.minWalletsPerSide) {
+      continue;
+    }
+
+    const marketCategory = marketCategories.get(conditionId) || null;
+    const yesValue = yesSide.reduce((sum, p) => sum + Math.abs(p.netValue), 0);
+    const noValue = noSide.reduce((sum, p) => sum + Math.abs(p.netValue), 0);
+    const totalValue = yesValue + noValue;
+
+    if (totalValue <= 0 || Math.min(yesValue, noValue) / totalValue < config.minMinorityShare) {
+      continue;
+    }
+
+    const yes = buildCamp('YES', yesSide, totalValue, marketCategory);
+    const no = buildCamp('NO', noSide, totalValue, marketCategory);
+
+    // Expertise-weighted PnL decides which camp has the better record
+    const yesRecord = yes.totalPnl * yes.avgWeight;
+    const noRecord = no.totalPnl * no.avgWeight;
+
+    signals.push({
+      conditionId,
+      marketTitle: marketPositions[0].marketTitle,
+      marketSlug: marketPositions[0].marketSlug,
+      marketCategory: marketCategory || undefined,
+      yes,
+      no,
+      capitalRatio: Math.max(yesValue, noValue) / Math.min(yesValue, noValue),
+      strongerRecord: yesRecord > noRecord ? 'YES' : noRecord > yesRecord ? 'NO' : null,
+    });
+  }
+
+  // Most evenly split (and then largest) first
+  signals.sort((a, b) => a.capitalRatio - b.capitalRatio ||
+    (b.yes.totalValue + b.no.totalValue) - (a.yes.totalValue + a.no.totalValue));
+
+  logger.info('Divergence detection complete', {
+    totalPositions: positions.length,
+    signalsDetected: signals.length,
+  });
+
+  return signals;
+}
+
+function buildCamp(
+  side: 'YES' | 'NO',
+  positions: WalletPosition[],
+  marketValue: number,
+  marketCategory: string | null
+): DivergenceCamp {
+  const wallets = positions
+    .map(p => ({
+      alias: p.walletAlias,
+      address: p.walletAddress,
+      value: Math.abs(p.netValue),
+      pnl: p.expertise?.pnl,
+      ...calculateWalletWeight(p.expertise, marketCategory),
+    }))
+    .sort((a, b) => b.value - a.value);
+
+  const totalValue = wallets.reduce((sum, w) => sum + w.value, 0);
+
+  return {
+    side,
+    walletCount: wallets.length,
+    totalValue,
+    capitalShare: totalValue / marketValue,
+    totalPnl: wallets.reduce((sum, w) => sum + (w.pnl || 0), 0),
+    specialists: wallets.filter(w => w.categoryMatch === true).length,
+    avgWeight: wallets.reduce((sum, w) => sum + w.weight, 0) / wallets.length,
+    wallets,
+  };
+}
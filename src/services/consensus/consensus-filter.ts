@@ -0,0 +1,130 @@
+/**
+ * Consensus Filter
+ * Per-chat subscription filters applied to consensus broadcasts
+ */
+
+import { ConsensusSignal, DivergenceSignal } from './consensus-detector';
+import type { ConsensusEvent } from './consensus-lifecycle';
+import { normalizeCategory } from './market-category';
+
+export type ConfidenceLevel = ConsensusSignal['confidenceLevel'];
+
+export const CONFIDENCE_LEVELS: ConfidenceLevel[] = ['LOW', 'MEDIUM', 'HIGH', 'VERY_HIGH'];
+
+// Category filter value for signals whose market has no known specialty
+export const UNCATEGORIZED = 'Other';
+
+export interface ConsensusFilter {
+  categories: string[];            // Empty = all categories
+  minConfidence?: ConfidenceLevel;
+  minTotalValue?: number;          // USD across the agreeing wallets
+  wallets: string[];               // Lowercase addresses; empty = any smart wallet
+}
+
+export function createEmptyFilter(): ConsensusFilter {
+  return { categories: [], wallets: [] };
+}
+
+export function isEmptyFilter(filter: ConsensusFilter): boolean {
+  return filter.categories.length === 0 &&
+    !filter.minConfidence &&
+    !filter.minTotalValue &&
+    filter.wallets.length === 0;
+}
+
+/**
+ * Whether a signal passes every criterion set in the filter
+ * The wallet criterion passes when any of the chosen wallets is part of the consensus
+ */
+export function matchesConsensusFilter(signal: ConsensusSignal, filter: ConsensusFilter): boolean {
+  if (!matchesCategory(signal.marketCategory, filter)) return false;
+
+  if (filter.minConfidence &&
+      CONFIDENCE_LEVELS.indexOf(signal.confidenceLevel) < CONFIDENCE_LEVELS.indexOf(filter.minConfidence)) {
+    return false;
+  }
+
+  if (filter.minTotalValue && signal.totalValue < filter.minTotalValue) return false;
+
+  return matchesWallets(signal.wallets, filter);
+}
+
+/**
+ * Whether a consensus update passes the filter
+ * Value passes on either side of the change and wallets on anyone in the consensus before
+ * or after it; confidence is only checked while the consensus still stands.
+ */
+export function matchesConsensusEventFilter(event: ConsensusEvent, filter: ConsensusFilter): boolean {
+  if (!matchesCategory(event.marketCategory, filter)) return false;
+
+  if (filter.minConfidence && event.confidenceLevel &&
+      CONFIDENCE_LEVELS.indexOf(event.confidenceLevel) < CONFIDENCE_LEVELS.indexOf(filter.minConfidence)) {
+    return false;
+  }
+
+  if (filter.minTotalValue && Math.max(event.previousValue, event.totalValue) < filter.minTotalValue) {
+    return false;
+  }
+
+  return matchesWallets([...event.previousWallets, ...event.joined], filter);
+}
+
+/**
+ * Whether a split market passes the filter (no confidence level, so that criterion is skipped)
+ * Value is the smart capital on both sides; wallets match in either camp.
+ */
+export function matchesDivergenceFilter(divergence: DivergenceSignal, filter: ConsensusFilter): boolean {
+  if (!matchesCategory(divergence.marketCategory, filter)) return false;
+
+  if (filter.minTotalValue && divergence.yes.totalValue + divergence.no.totalValue < filter.minTotalValue) {
+    return false;
+  }
+
+  return matchesWallets([...divergence.yes.wallets, ...divergence.no.wallets], filter);
+}
+
+function matchesCategory(marketCategory: string | undefined, filter: ConsensusFilter): boolean {
+  return filter.categories.length === 0 || filter.categories.includes(marketCategory || UNCATEGORIZED);
+}
+
+function matchesWallets(candidates: Array<{ address: string }>, filter: ConsensusFilter): boolean {
+  if (filter.wallets.length === 0) return true;
+  const wallets = new Set(filter.wallets);
+  return candidates.some(w => wallets.has(w.address.toLowerCase()));
+}
+
+/**
+ * Parse a confidence level ("high", "very_high", "very-high", "veryhigh")
+ */
+export function parseConfidenceLevel(input: string): ConfidenceLevel | null {
+  const normalized = input.trim().toUpperCase().replace(/[-\s]/g, '_').replace(/^VERYHIGH$/, 'VERY_HIGH');
+  return CONFIDENCE_LEVELS.find(level => level === normalized) || null;
+}
+
+/**
+ * Parse a comma-separated category list; null if any entry is unknown
+ */
+export function parseCategories(input: string): string[] | null {
+  const categories: string[] = [];
+
+  for (const entry of input.split(',').map(c => c.trim()).filter(Boolean)) {
+    const category = entry.toLowerCase() === UNCATEGORIZED.toLowerCase()
+      ? UNCATEGORIZED
+      : normalizeCategory(entry);
+    if (!category) return null;
+    if (!categories.includes(category)) categories.push(category);
+  }
+
+  return categories.length > 0 ? categories : null;
+}
+
+/**
+ * Parse a USD amount ("5000", "$5,000", "10k", "1.5m")
+ */
+export function parseUsdAmount(input: string): number | null {
+  const match = input.trim().replace(/,/g, '').match(/^\$?(\d+(?:\.\d+)?)([km])?$/i);
+  if (!match) return null;
+
+  const multiplier = match[2]?.toLowerCase() === 'm' ? 1000000 : match[2]?.toLowerCase() === 'k' ? 1000 : 1;
+  return parseFloat(match[1]) * multiplier;
+}
@@ -0,0 +1,173 @@
+/**
+ * Consensus Lifecycle
+ * Diffs the consensus detected by a scan against the persisted state of the previous
+ * scan to find consensus that strengthened, weakened or dissolved
+ */
+
+import { ConsensusSignal, WalletPosition } from './consensus-detector';
+import type { ConsensusState } from './smart-wallet-repository';
+
+export type ConsensusEventType = 'STRENGTHENED' | 'WEAKENED' | 'DISSOLVED';
+
+export interface ConsensusWalletRef {
+  alias: string;
+  address: string;
+  value: number;
+}
+
+export interface ConsensusEvent {
+  type: ConsensusEventType;
+  conditionId: string;
+  marketTitle: string;
+  marketSlug?: string;
+  marketCategory?: string;
+  confidenceLevel?: ConsensusSignal['confidenceLevel'];  // Unknown once dissolved
+  side: 'YES' | 'NO';
+  previousWalletCount: number;
+  walletCount: number;
+  previousValue: number;
+  totalValue: number;
+  valueChangePercent: number;
+  previousWallets: ConsensusWalletRef[];
+  joined: ConsensusWalletRef[];
+  exited: ConsensusWalletRef[];
+}
+
+export interface LifecycleOptions {
+  valueChangePercent: number;     // Total value move (%) that counts as material (default: 25)
+  failedWallets: Set<string>;     // Wallets whose positions this scan failed to fetch
+}
+
+/**
+ * Compare the previous active consensus with this scan's signals
+ * Joins/exits decide strengthening vs weakening; with no net change in wallets a
+ * material value move does. A consensus with a wallet whose fetch failed this run is
+ * left alone, so a failed fetch isn't reported as smart money leaving; wallets that are
+ * no longer scanned (removed, paused, demoted) count as exited.
+ * @param positions All wallet positions of this scan (to tell who still holds a dissolved side)
+ */
+export function diffConsensus(
+  previous: ConsensusState[],
+  signals: ConsensusSignal[],
+  positions: WalletPosition[],
+  options: LifecycleOptions
+): ConsensusEvent[] {
+  const events: ConsensusEvent[] = [];
+  const current = new Map(signals.map(s => [getConsensusKey(s), s]));
+
+  for (const state of previous) {
+    if (hasFailedWallet(state, options.failedWallets)) continue;
+
+    const signal = current.get(getConsensusKey(state));
+    const previousAddresses = new Set(state.wallets.map(w => w.address.toLowerCase()));
+
+    if (!signal) {
+      const remaining = state.wallets.filter(w => positions.some(p =>
+        p.conditionId === state.conditionId &&
+        p.side === state.side &&
+        p.walletAddress.toLowerCase() === w.address.toLowerCase()
+      ));
+      const remainingAddresses = new Set(remaining.map(w => w.address.toLowerCase()));
+      const remainingValue = positions
+        .filter(p => p.conditionId === state.conditionId && p.side === state.side &&
+          remainingAddresses.has(p.walletAddress.toLowerCase()))
+        .reduce((sum, p) => sum + Math.abs(p.netValue), 0);
+
+      events.push(buildEvent('DISSOLVED', state, {
+        walletCount: remaining.length,
+        totalValue: remainingValue,
+        joined: [],
+        exited: state.wallets.filter(w => !remainingAddresses.has(w.address.toLowerCase())),
+      }));
+      continue;
+    }
+
+    const currentAddresses = new Set(signal.wallets.map(w => w.address.toLowerCase()));
+    const joined = signal.wallets
+      .filter(w => !previousAddresses.has(w.address.toLowerCase()))
+      .map(w => ({ alias: w.alias, address: w.address, value: w.value }));
+    const exited = state.wallets.filter(w => !currentAddresses.has(w.address.toLowerCase()));
+
+    const netWallets = signal.walletCount - state.walletCount;
+    const valueChange = getValueChangePercent(state.totalValue, signal.totalValue);
+    const materialValueChange = Math.abs(valueChange) >= options.valueChangePercent;
+
+    let type: ConsensusEventType | null = null;
+    if (netWallets > 0) type = 'STRENGTHENED';
+    else if (netWallets < 0) type = 'WEAKENED';
+    else if (materialValueChange) type = valueChange > 0 ? 'STRENGTHENED' : 'WEAKENED';
+
+    if (type) {
+      events.push(buildEvent(type, state, {
+        signal,
+        walletCount: signal.walletCount,
+        totalValue: signal.totalValue,
+        joined,
+        exited,
+      }));
+    }
+  }
+
+  return events;
+}
+
+/**
+ * State to persist for a detected signal
+ */
+export function toConsensusState(signal: ConsensusSignal): ConsensusState {
+  return {
+    conditionId: signal.conditionId,
+    marketTitle: signal.marketTitle,
+    marketSlug: signal.marketSlug,
+    side: signal.side,
+    walletCount: signal.walletCount,
+    totalValue: signal.totalValue,
+    wallets: signal.wallets.map(w => ({ alias: w.alias, address: w.address, value: w.value })),
+  };
+}
+
+/**
+ * Whether any wallet behind a consensus failed to fetch this run
+ */
+export function hasFailedWallet(state: ConsensusState, failedWallets: Set<string>): boolean {
+  return state.wallets.some(w => failedWallets.has(w.address.toLowerCase()));
+}
+
+function getConsensusKey(consensus: { conditionId: string; side: string }): string {
+  return `${consensus.conditionId}:${consensus.side}`;
+}
+
+function getValueChangePercent(previous: number, current: number): number {
+  if (previous <= 0) return current > 0 ? 100 : 0;
+  return ((current - previous) / previous) * 100;
+}
+
+function buildEvent(
+  type: ConsensusEventType,
+  state: ConsensusState,
+  now: {
+    signal?: ConsensusSignal;
+    walletCount: number;
+    totalValue: number;
+    joined: ConsensusWalletRef[];
+    exited: ConsensusWalletRef[];
+  }
+): ConsensusEvent {
+  return {
+    type,
+    conditionId: state.conditionId,
+    marketTitle: state.marketTitle,
+    marketSlug: state.marketSlug,
+    marketCategory: now.signal?.marketCategory,
+    confidenceLevel: now.signal?.confidenceLevel,
+    side: state.side,
+    previousWalletCount: state.walletCount,
+    walletCount: now.walletCount,
+    previousValue: state.totalValue,
+    totalValue: now.totalValue,
+    valueChangePercent: getValueChangePercent(state.totalValue, now.totalValue),
+    previousWallets: state.wallets,
+    joined: now.joined,
+    exited: now.exited,
+  };
+}
@@ -3,7 +3,13 @@
  * Formats consensus signals for Telegram notifications
  */
 
-import { ConsensusSignal } from './consensus-detector';
+import { InlineKeyboardMarkup } from 'telegraf/types';
+import { PolymarketPricePoint } from '@/types/polymarket';
+import { ConsensusSignal, DivergenceCamp, DivergenceSignal } from './consensus-detector';
+import { ConsensusEvent, ConsensusWalletRef } from './consensus-lifecycle';
+import { MarketContext, formatTimeToEnd, renderSparkline } from './market-context';
+import { getSidePrice } from './signal-performance';
+import { formatCents, formatSignedUsd, formatUsd } from '@/utils/format';
 
 /**
  * Get emoji for confidence level
@@ -18,19 +24,6 @@ function getConfidenceEmoji(level: string): string {
   }
 }
 
-/**
- * Format currency value
- */
-function formatValue(value: number): string {
-  if (value >= 1000000) {
-    return `$${(value / 1000000).toFixed(2)}M`;
-  }
-  if (value >= 1000) {
-    return `$${(value / 1000).toFixed(1)}K`;
-  }
-  return `$${value.toFixed(0)}`;
-}
-
 /**
  * Format short wallet address
  */
@@ -45,10 +38,64 @@ function escapeMarkdown(text: string): string {
   return text.replace(/[_*[\]()~`>#+\-=|{}.!]/g, '\\$&');
 }
 
+/**
+ * Format a wallet's expertise weight, e.g. "×2.00 🎯 Politics #3"
+ * 🎯 = specialist in this market's category, ↘️ = specialist elsewhere
+ */
+function formatWeight(wallet: ConsensusSignal['wallets'][number]): string {
+  const marker = wallet.categoryMatch === true ? ' 🎯' : wallet.categoryMatch === false ? ' ↘️' : '';
+  const specialty = wallet.specialty ? `${marker} ${wallet.specialty}` : '';
+  return `×${wallet.weight.toFixed(2)}${specialty}`;
+}
+
+/**
+ * Format when and at what price a wallet entered, e.g. " • 🆕 2d ago @ 62¢"
+ */
+function formatEntry(wallet: ConsensusSignal['wallets'][number], now: Date = new Date()): string {
+  if (!wallet.enteredAt) return '';
+
+  const days = Math.max(0, Math.floor((now.getTime() - wallet.enteredAt.getTime()) / (24 * 60 * 60 * 1000)));
+  const age = days === 0 ? 'today' : `${days}d ago`;
+  const price = wallet.entryPrice !== undefined ? ` @ ${(wallet.entryPrice * 100).toFixed(0)}¢` : '';
+  return ` • ${wallet.freshEntry ? '🆕 ' : ''}${age}${price}`;
+}
+
+/**
+ * Format where the market trades now and what the consensus paid
+ */
+function formatMarketContext(context: MarketContext, now: Date = new Date()): string {
+  const lines: string[] = [];
+
+  if (context.sidePrice !== undefined) {
+    const change = context.priceChange24h !== undefined
+      ? ` (${context.priceChange24h >= 0 ? '+' : ''}${(context.priceChange24h * 100).toFixed(1)}¢ 24h)`
+      : '';
+    lines.push(`💵 Price: *${formatCents(context.sidePrice)}*${change}`);
+  }
+  if (context.avgEntryPrice !== undefined) {
+    const vsNow = context.sidePrice !== undefined
+      ? ` vs ${formatCents(context.sidePrice)} now`
+      : '';
+    lines.push(`🎟️ Avg entry: ${formatCents(context.avgEntryPrice)}${vsNow}`);
+  }
+
+  const book: string[] = [];
+  if (context.liquidity !== undefined) book.push(`Liquidity ${formatUsd(context.liquidity)}`);
+  if (context.spread !== undefined) book.push(`Spread ${(context.spread * 100).toFixed(1)}¢`);
+  if (book.length > 0) lines.push(`💧 ${book.join(' • ')}`);
+
+  if (context.endTime) {
+    lines.push(`⏳ Closes in: ${formatTimeToEnd(context.endTime, now)}`);
+  }
+
+  return lines.length > 0 ? `*Market:*\n${lines.join('\n')}\n\n` : '';
+}
+
 /**
  * Format consensus signal for Telegram notification
+ * @param context Current market data, when it could be fetched
  */
-export function formatConsensusNotification(signal: ConsensusSignal): string {
+export function formatConsensusNotification(signal: ConsensusSignal, context?: MarketContext): string {
   const emoji = getConfidenceEmoji(signal.confidenceLevel);
   const sideEmoji = signal.side === 'YES' ? '🟢' : '🔴';
 
@@ -58,14 +105,25 @@ export function formatConsensusNotification(signal: ConsensusSignal): string {
   message += `📊 *${escapeMarkdown(signal.marketTitle)}*\n`;
   message += `${sideEmoji} Side: *${signal.side}*\n`;
   message += `👥 ${signal.walletCount} smart wallets agree\n`;
-  message += `💰 Total: *${formatValue(signal.totalValue)}*\n`;
-  message += `📈 Confidence: *${signal.confidenceScore}%* (${signal.confidenceLevel})\n\n`;
+  message += `💰 Total: *${formatUsd(signal.totalValue)}*\n`;
+  message += `📈 Confidence: *${signal.confidenceScore}%* (${signal.confidenceLevel})\n`;
+  if (signal.marketCategory) {
+    message += `🏷️ Category: ${signal.marketCategory}\n`;
+  }
+  if (signal.freshEntries) {
+    message += `🆕 Fresh entries: ${signal.freshEntries}/${signal.walletCount} wallets entered recently near the current price\n`;
+  }
+  message += '\n';
+
+  if (context) {
+    message += formatMarketContext(context);
+  }
 
   // Wallet breakdown
   message += `*Wallets:*\n`;
   for (const wallet of signal.wallets.slice(0, 5)) { // Show top 5
     const pct = wallet.portfolioPercent.toFixed(1);
-    message += `• ${escapeMarkdown(wallet.alias)}: ${formatValue(wallet.value)} (${pct}%)\n`;
+    message += `• ${escapeMarkdown(wallet.alias)}: ${formatUsd(wallet.value)} (${pct}%) ${formatWeight(wallet)}${formatEntry(wallet)}\n`;
   }
 
   if (signal.wallets.length > 5) {
@@ -80,6 +138,142 @@ export function formatConsensusNotification(signal: ConsensusSignal): string {
   return message;
 }
 
+/**
+ * Buttons under a consensus notification: order book, price chart, and the
+ * /positions view of each listed wallet
+ * Callback data is capped at 64 bytes, so markets are referenced by signal id.
+ */
+export function buildConsensusKeyboard(signalId: string, signal: ConsensusSignal): InlineKeyboardMarkup {
+  const walletButtons = signal.wallets.slice(0, 5).map(wallet => ({
+    text: `👛 ${wallet.alias}`,
+    callback_data: `consensus_positions_${wallet.address}`,
+  }));
+
+  const rows = [
+    [
+      { text: '📖 Order Book', callback_data: `consensus_book_${signalId}` },
+      { text: '📈 Price Chart', callback_data: `consensus_chart_${signalId}` },
+    ],
+  ];
+  for (let i = 0; i < walletButtons.length; i += 2) {
+    rows.push(walletButtons.slice(i, i + 2));
+  }
+
+  return { inline_keyboard: rows };
+}
+
+/**
+ * Format the price chart of a consensus market (prices of the consensus side)
+ * @param points YES prices, oldest first
+ */
+export function formatConsensusPriceChart(
+  marketTitle: string,
+  side: 'YES' | 'NO',
+  points: PolymarketPricePoint[],
+  periodLabel: string
+): string {
+  let message = `📈 *${escapeMarkdown(marketTitle)}*\n`;
+  message += `${side === 'YES' ? '🟢' : '🔴'} ${side} price, ${periodLabel}\n\n`;
+
+  if (points.length === 0) {
+    return message + '_No price history available._';
+  }
+
+  const prices = points.map(p => getSidePrice(p.price, side));
+  const first = prices[0];
+  const last = prices[prices.length - 1];
+  const change = last - first;
+
+  message += `\`${renderSparkline(prices)}\`\n\n`;
+  message += `Now: *${formatCents(last)}* (${change >= 0 ? '+' : ''}${(change * 100).toFixed(1)}¢)\n`;
+  message += `Low ${formatCents(Math.min(...prices))} • High ${formatCents(Math.max(...prices))}`;
+
+  return message;
+}
+
+/**
+ * Format a follow-up on an existing consensus (strengthening, weakening, dissolution)
+ */
+export function formatConsensusLifecycleNotification(event: ConsensusEvent): string {
+  const sideEmoji = event.side === 'YES' ? '🟢' : '🔴';
+  const change = `${event.valueChangePercent >= 0 ? '+' : ''}${event.valueChangePercent.toFixed(0)}%`;
+
+  let message: string;
+  switch (event.type) {
+    case 'STRENGTHENED':
+      message = '📈 *CONSENSUS STRENGTHENING*\n\n';
+      break;
+    case 'WEAKENED':
+      message = '📉 *CONSENSUS WEAKENING*\n\n';
+      break;
+    default:
+      message = '💨 *CONSENSUS DISSOLVED*\n_Smart money is leaving this market_\n\n';
+  }
+
+  message += `📊 *${escapeMarkdown(event.marketTitle)}*\n`;
+  message += `${sideEmoji} Side: *${event.side}*\n`;
+  message += `👥 Wallets: ${event.previousWalletCount} → *${event.walletCount}*\n`;
+  message += `💰 Total: ${formatUsd(event.previousValue)} → *${formatUsd(event.totalValue)}* (${change})\n`;
+
+  if (event.joined.length > 0) {
+    message += `\n➕ *Joined:* ${formatWalletRefs(event.joined)}\n`;
+  }
+  if (event.exited.length > 0) {
+    message += `${event.joined.length > 0 ? '' : '\n'}➖ *Exited:* ${formatWalletRefs(event.exited)}\n`;
+  }
+
+  if (event.marketSlug) {
+    message += `\n🔗 [View on Polymarket](https://polymarket.com/event/${event.marketSlug})`;
+  }
+
+  return message;
+}
+
+function formatWalletRefs(wallets: ConsensusWalletRef[]): string {
+  return wallets.map(w => `${escapeMarkdown(w.alias)} (${formatUsd(w.value)})`).join(', ');
+}
+
+/**
+ * Format a smart money divergence (significant capital on both sides)
+ */
+export function formatDivergenceNotification(signal: DivergenceSignal): string {
+  let message = '⚔️ *SMART MONEY DIVERGENCE*\n\n';
+
+  message += `📊 *${escapeMarkdown(signal.marketTitle)}*\n`;
+  if (signal.marketCategory) {
+    message += `🏷️ Category: ${signal.marketCategory}\n`;
+  }
+  message += `⚖️ ${formatCampShare(signal.yes)} vs ${formatCampShare(signal.no)}\n`;
+  message += `📐 Capital ratio: *${signal.capitalRatio.toFixed(1)} : 1*\n\n`;
+
+  for (const camp of [signal.yes, signal.no]) {
+    const sideEmoji = camp.side === 'YES' ? '🟢' : '🔴';
+    message += `${sideEmoji} *${camp.side} camp* (${camp.walletCount} wallets)\n`;
+    message += `   Track record: ${formatSignedUsd(camp.totalPnl)} PnL • ${camp.specialists} specialist(s) • ×${camp.avgWeight.toFixed(2)}\n`;
+    for (const wallet of camp.wallets.slice(0, 3)) {
+      message += `   • ${escapeMarkdown(wallet.alias)}: ${formatUsd(wallet.value)}\n`;
+    }
+    if (camp.wallets.length > 3) {
+      message += `   _...and ${camp.wallets.length - 3} more_\n`;
+    }
+  }
+
+  message += signal.strongerRecord
+    ? `\n🏆 Stronger track record: *${signal.strongerRecord}* camp\n`
+    : '\n🤝 Track records are even\n';
+
+  if (signal.marketSlug) {
+    message += `\n🔗 [View on Polymarket](https://polymarket.com/event/${signal.marketSlug})`;
+  }
+
+  return message;
+}
+
+function formatCampShare(camp: DivergenceCamp): string {
+  const sideEmoji = camp.side === 'YES' ? '🟢' : '🔴';
+  return `${sideEmoji} ${camp.side} ${formatUsd(camp.totalValue)} (${(camp.capitalShare * 100).toFixed(0)}%)`;
+}
+
 /**
  * Format multiple consensus signals as a digest
  */
@@ -97,7 +291,7 @@ export function formatConsensusDigest(signals: ConsensusSignal[]): string {
     const sideEmoji = signal.side === 'YES' ? '🟢' : '🔴';
 
     message += `${i + 1}. ${emoji} ${sideEmoji} *${escapeMarkdown(signal.marketTitle.slice(0, 50))}*\n`;
-    message += `   ${signal.walletCount} wallets • ${formatValue(signal.totalValue)} • ${signal.confidenceScore}%\n\n`;
+    message += `   ${signal.walletCount} wallets • ${formatUsd(signal.totalValue)} • ${signal.confidenceScore}%\n\n`;
   }
 
   if (signals.length > 5) {
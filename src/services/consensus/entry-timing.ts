@@ -0,0 +1,124 @@
+/**
+ * Entry Timing
+ * When and at what price each wallet entered its side, from the dated position
+ * snapshots (smart_wallet_positions). Fresh entries close to the current price
+ * count for more than old positions bought far from where the market trades now.
+ */
+
+export interface PositionEntry {
+  enteredAt?: Date;       // First snapshot of the current holding (unknown if held since tracking began)
+  entryPrice?: number;    // Average price paid for the side
+  currentPrice?: number;  // Current price of the side
+}
+
+export interface EntryTimingConfig {
+  halfLifeDays: number;   // Age at which an entry counts half as fresh (default: 14)
+  windowDays: number;     // Entries within this many days count as fresh (default: 7)
+}
+
+export interface EntryTiming {
+  timingMultiplier: number;  // 0.5 (stale, far from price) to 1.5 (fresh, at price); 1 when unknown
+  freshEntry: boolean;       // Entered within the window near the current price
+  enteredAt?: Date;
+  entryPrice?: number;
+}
+
+export interface SnapshotPoint {
+  date: Date;
+  netShares: number;
+}
+
+export const DEFAULT_ENTRY_TIMING_CONFIG: EntryTimingConfig = {
+  halfLifeDays: 14,
+  windowDays: 7,
+};
+
+// Price gap (in probability) at which an entry no longer counts as near the current price
+const MAX_PRICE_GAP = 0.5;
+
+// Largest price gap for a fresh entry
+const FRESH_PRICE_GAP = 0.15;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * First snapshot of the unbroken run of daily snapshots holding the side, up to the latest
+ * A missing day ends the run, since the position may have been closed in between.
+ * Returns undefined when the run reaches back to the wallet's first snapshot, since the
+ * position was then already held when tracking began.
+ * @param trackedSince Date of the wallet's first snapshot in any market
+ */
+export function findEntryDate(
+  history: SnapshotPoint[],
+  side: 'YES' | 'NO',
+  trackedSince?: Date
+): Date | undefined {
+  const sorted = [...history].sort((a, b) => b.date.getTime() - a.date.getTime());
+  let enteredAt: Date | undefined;
+
+  for (const point of sorted) {
+    const holdsSide = side === 'YES' ? point.netShares > 0 : point.netShares < 0;
+    if (!holdsSide) break;
+    if (enteredAt && toDay(enteredAt) - toDay(point.date) > DAY_MS) break;
+    enteredAt = point.date;
+  }
+
+  if (!enteredAt || (trackedSince && toDay(enteredAt) <= toDay(trackedSince))) {
+    return undefined;
+  }
+
+  return enteredAt;
+}
+
+/**
+ * Score how fresh and well-priced an entry is
+ * Freshness halves every halfLifeDays; price proximity falls linearly to 0 at a 0.5 gap.
+ * The multiplier is 0.5 plus the mean of whichever of the two is known.
+ */
+export function calculateEntryTiming(
+  entry: PositionEntry | undefined,
+  config: EntryTimingConfig = DEFAULT_ENTRY_TIMING_CONFIG,
+  now: Date = new Date()
+): EntryTiming {
+  const components: number[] = [];
+
+  const ageDays = entry?.enteredAt
+    ? Math.max(0, (toDay(now) - toDay(entry.enteredAt)) / DAY_MS)
+    : undefined;
+  if (ageDays !== undefined) {
+    components.push(Math.pow(0.5, ageDays / config.halfLifeDays));
+  }
+
+  const priceGap = entry?.entryPrice !== undefined && entry.currentPrice !== undefined
+    ? Math.abs(entry.currentPrice - entry.entryPrice)
+    : undefined;
+  if (priceGap !== undefined) {
+    components.push(Math.max(0, 1 - priceGap / MAX_PRICE_GAP));
+  }
+
+  const timingScore = components.length > 0
+    ? components.reduce((sum, c) => sum + c, 0) / components.length
+    : 0.5;
+
+  return {
+    timingMultiplier: Math.round((0.5 + timingScore) * 100) / 100,
+    freshEntry: ageDays !== undefined && ageDays <= config.windowDays &&
+      (priceGap === undefined || priceGap <= FRESH_PRICE_GAP),
+    enteredAt: entry?.enteredAt,
+    entryPrice: entry?.entryPrice,
+  };
+}
+
+/**
+ * Bonus (0-10 points) when several wallets entered in the same recent window,
+ * scaled by the share of the consensus that did
+ */
+export function calculateCoordinationBonus(wallets: Array<{ freshEntry?: boolean }>): number {
+  const fresh = wallets.filter(w => w.freshEntry).length;
+  if (fresh < 2 || wallets.length === 0) return 0;
+  return Math.round((10 * fresh) / wallets.length);
+}
+
+function toDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
@@ -10,20 +10,84 @@ export {
   type SmartWallet,
   type PositionSnapshot,
   type ConsensusSignal as RepoConsensusSignal,
+  type ConsensusState,
+  type DivergenceRecord,
 } from './smart-wallet-repository';
 
 // Detector
 export {
   detectConsensus,
+  detectDivergence,
+  findConsensusMarkets,
   calculateSide,
   isSignificantPosition,
   calculateConfidenceScore,
+  calculateWalletWeight,
   getConfidenceLevel,
+  getConfidenceThresholds,
+  setConfidenceThresholds,
+  DEFAULT_CONFIDENCE_THRESHOLDS,
+  type ConfidenceThresholds,
   type WalletPosition,
+  type WalletExpertise,
+  type WalletWeight,
   type ConsensusSignal,
   type DetectorConfig,
+  type DivergenceCamp,
+  type DivergenceSignal,
+  type DivergenceConfig,
 } from './consensus-detector';
 
+// Entry timing
+export {
+  findEntryDate,
+  calculateEntryTiming,
+  calculateCoordinationBonus,
+  DEFAULT_ENTRY_TIMING_CONFIG,
+  type PositionEntry,
+  type EntryTiming,
+  type EntryTimingConfig,
+  type SnapshotPoint,
+} from './entry-timing';
+
+// Market context
+export {
+  buildMarketContext,
+  calculateAverageEntryPrice,
+  formatTimeToEnd,
+  renderSparkline,
+  type MarketContext,
+  type MarketContextSources,
+} from './market-context';
+
+// Incremental scanning
+export {
+  PositionIndex,
+  fingerprintPosition,
+} from './position-index';
+
+// Market categories
+export {
+  getMarketCategory,
+  normalizeCategory,
+} from './market-category';
+
+// Subscription filters
+export {
+  matchesConsensusFilter,
+  matchesConsensusEventFilter,
+  matchesDivergenceFilter,
+  createEmptyFilter,
+  isEmptyFilter,
+  parseConfidenceLevel,
+  parseCategories,
+  parseUsdAmount,
+  CONFIDENCE_LEVELS,
+  UNCATEGORIZED,
+  type ConsensusFilter,
+  type ConfidenceLevel,
+} from './consensus-filter';
+
 // Scanner
 export {
   SmartWalletScanner,
@@ -32,9 +96,42 @@ export {
   type ScannerConfig,
 } from './smart-wallet-scanner';
 
+// Signal performance
+export {
+  summarizePerformance,
+  recalibrateThresholds,
+  type TrackedSignal,
+  type PerformanceGroup,
+  type PerformanceSummary,
+} from './signal-performance';
+
+export {
+  SignalPerformanceRepository,
+  getSignalPerformanceRepository,
+} from './signal-performance-repository';
+
+export {
+  SignalPerformanceTracker,
+  createSignalPerformanceTracker,
+  getSignalPerformanceTracker,
+  type SignalTrackerConfig,
+} from './signal-performance-tracker';
+
+// Lifecycle
+export {
+  diffConsensus,
+  toConsensusState,
+  type ConsensusEvent,
+  type ConsensusEventType,
+} from './consensus-lifecycle';
+
 // Notifications
 export {
   formatConsensusNotification,
+  buildConsensusKeyboard,
+  formatConsensusPriceChart,
+  formatConsensusLifecycleNotification,
+  formatDivergenceNotification,
   formatConsensusDigest,
   formatScanStatus,
 } from './consensus-notification';
@@ -0,0 +1,65 @@
+/**
+ * Market Category
+ * Maps a market's category, tags and title onto the smart wallet specialties
+ * (Politics, Sports, Crypto) used by smart_wallets.category
+ */
+
+// Whole words that identify a specialty; matched case-insensitively
+const CATEGORY_KEYWORDS: Record<string, string[]> = {
+  Politics: [
+    'politics', 'political', 'election', 'elections', 'president', 'presidential', 'congress',
+    'senate', 'governor', 'parliament', 'primary', 'primaries', 'geopolitics', 'trump', 'biden',
+  ],
+  Sports: [
+    'sports', 'sport', 'nba', 'nfl', 'mlb', 'nhl', 'ncaa', 'epl', 'soccer', 'football', 'basketball',
+    'baseball', 'hockey', 'tennis', 'golf', 'ufc', 'mma', 'boxing', 'cricket', 'f1', 'olympics',
+  ],
+  Crypto: [
+    'crypto', 'cryptocurrency', 'bitcoin', 'btc', 'ethereum', 'eth', 'solana', 'xrp', 'dogecoin',
+    'defi', 'memecoin', 'airdrop', 'stablecoin',
+  ],
+};
+
+/**
+ * Specialty of a market, or null if it can't be told
+ * The explicit category wins, then tags, then the title
+ */
+export function getMarketCategory(market: {
+  category?: string;
+  tags?: string[];
+  title?: string;
+}): string | null {
+  const sources = [market.category, (market.tags || []).join(' '), market.title];
+
+  for (const source of sources) {
+    const category = matchCategory(source);
+    if (category) return category;
+  }
+
+  return null;
+}
+
+/**
+ * Canonical specialty name (case-insensitive match against the known ones)
+ */
+export function normalizeCategory(category?: string): string | null {
+  if (!category) return null;
+  const known = Object.keys(CATEGORY_KEYWORDS).find(c => c.toLowerCase() === category.trim().toLowerCase());
+  return known || null;
+}
+
+function matchCategory(text?: string): string | null {
+  if (!text) return null;
+
+  const words = new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+  let best: { category: string; hits: number } | null = null;
+
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    const hits = keywords.filter(k => words.has(k)).length;
+    if (hits > 0 && (!best || hits > best.hits)) {
+      best = { category, hits };
+    }
+  }
+
+  return best ? best.category : null;
+}
@@ -0,0 +1,108 @@
+/**
+ * Market Context
+ * Where the market of a consensus signal trades now: price of the consensus side,
+ * 24h move, liquidity, spread, time to close, and what the consensus wallets paid
+ */
+
+import { PolymarketCondition, PolymarketOrderBook, PolymarketPricePoint } from '@/types/polymarket';
+import { ConsensusSignal } from './consensus-detector';
+import { getSidePrice } from './signal-performance';
+
+export interface MarketContext {
+  sidePrice?: number;        // Mid price of the consensus side (last trade without a book)
+  priceChange24h?: number;   // Change of the side price over 24h, in probability points
+  liquidity?: number;
+  spread?: number;           // Best ask minus best bid
+  endTime?: Date;
+  avgEntryPrice?: number;    // Share-weighted entry price of the consensus wallets
+}
+
+export interface MarketContextSources {
+  condition?: PolymarketCondition | null;
+  orderBook?: PolymarketOrderBook | null;
+  history?: PolymarketPricePoint[];     // YES prices over the last 24h, oldest first
+}
+
+const SPARKLINE_BLOCKS = '▁▂▃▄▅▆▇█';
+
+/**
+ * Combine whatever market data could be fetched into the context of a signal
+ */
+export function buildMarketContext(
+  signal: Pick<ConsensusSignal, 'side' | 'wallets'>,
+  sources: MarketContextSources
+): MarketContext {
+  const context: MarketContext = {
+    avgEntryPrice: calculateAverageEntryPrice(signal.wallets),
+  };
+
+  const bids = sources.orderBook?.bids || [];
+  const asks = sources.orderBook?.asks || [];
+  const points = sources.history || [];
+  const lastPrice = points.length > 0 ? points[points.length - 1].price : undefined;
+
+  let yesPrice = lastPrice;
+  if (bids.length > 0 && asks.length > 0) {
+    const bestBid = Math.max(...bids.map(b => b.price));
+    const bestAsk = Math.min(...asks.map(a => a.price));
+    context.spread = bestAsk - bestBid;
+    yesPrice = (bestBid + bestAsk) / 2;
+  }
+
+  if (yesPrice !== undefined) {
+    context.sidePrice = getSidePrice(yesPrice, signal.side);
+  }
+  if (points.length > 1 && lastPrice !== undefined) {
+    context.priceChange24h = getSidePrice(lastPrice, signal.side) - getSidePrice(points[0].price, signal.side);
+  }
+
+  if (sources.condition?.liquidity !== undefined) {
+    context.liquidity = Number(sources.condition.liquidity);
+  }
+  if (sources.condition?.endTime) {
+    const endTime = new Date(sources.condition.endTime);
+    if (!isNaN(endTime.getTime())) context.endTime = endTime;
+  }
+
+  return context;
+}
+
+/**
+ * Share-weighted entry price of the wallets whose entry price is known
+ */
+export function calculateAverageEntryPrice(
+  wallets: Array<{ shares: number; entryPrice?: number }>
+): number | undefined {
+  const priced = wallets.filter(w => w.entryPrice !== undefined && w.shares > 0);
+  const shares = priced.reduce((sum, w) => sum + w.shares, 0);
+  if (shares === 0) return undefined;
+  return priced.reduce((sum, w) => sum + (w.entryPrice as number) * w.shares, 0) / shares;
+}
+
+/**
+ * Time left until the market closes, e.g. "3d 4h", "5h 20m" or "closed"
+ */
+export function formatTimeToEnd(endTime: Date, now: Date = new Date()): string {
+  const minutes = Math.floor((endTime.getTime() - now.getTime()) / 60000);
+  if (minutes <= 0) return 'closed';
+
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+/**
+ * One-line chart of a price series, scaled between its own low and high
+ */
+export function renderSparkline(prices: number[]): string {
+  if (prices.length === 0) return '';
+
+  const low = Math.min(...prices);
+  const range = Math.max(...prices) - low;
+  const top = SPARKLINE_BLOCKS.length - 1;
+
+  return prices
+    .map(p => SPARKLINE_BLOCKS[range > 0 ? Math.round(((p - low) / range) * top) : Math.floor(top / 2)])
+    .join('');
+}
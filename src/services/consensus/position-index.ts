@@ -0,0 +1,122 @@
+/**
+ * Position Index
+ * In-memory index of the latest smart wallet positions, by wallet and by market, so an
+ * incremental scan can refresh only the wallets that traded and re-evaluate only the
+ * markets whose positions changed
+ */
+
+import { WalletPosition } from './consensus-detector';
+
+interface IndexedWallet {
+  marker?: string;                              // Latest activity seen when the positions were fetched
+  positions: Map<string, WalletPosition>;       // By conditionId
+}
+
+export class PositionIndex {
+  private wallets: Map<string, IndexedWallet> = new Map();
+  private markets: Map<string, Set<string>> = new Map();
+
+  has(walletAddress: string): boolean {
+    return this.wallets.has(walletAddress.toLowerCase());
+  }
+
+  getMarker(walletAddress: string): string | undefined {
+    return this.wallets.get(walletAddress.toLowerCase())?.marker;
+  }
+
+  getWalletAddresses(): string[] {
+    return Array.from(this.wallets.keys());
+  }
+
+  get size(): number {
+    return this.wallets.size;
+  }
+
+  /**
+   * Replace a wallet's positions
+   * @returns Markets where the wallet's position changed (opened, closed, resized or reweighted)
+   */
+  update(walletAddress: string, positions: WalletPosition[], marker?: string): string[] {
+    const address = walletAddress.toLowerCase();
+    const previous = this.wallets.get(address)?.positions || new Map<string, WalletPosition>();
+    const current = new Map(positions.map(p => [p.conditionId, p]));
+    const affected: string[] = [];
+
+    for (const conditionId of new Set([...previous.keys(), ...current.keys()])) {
+      const before = previous.get(conditionId);
+      const after = current.get(conditionId);
+
+      if (!before || !after || fingerprintPosition(before) !== fingerprintPosition(after)) {
+        affected.push(conditionId);
+      }
+
+      if (after) {
+        this.addToMarket(conditionId, address);
+      } else {
+        this.removeFromMarket(conditionId, address);
+      }
+    }
+
+    this.wallets.set(address, { marker, positions: current });
+    return affected;
+  }
+
+  /**
+   * Drop a wallet (deactivated or paused)
+   * @returns Markets it held positions in
+   */
+  removeWallet(walletAddress: string): string[] {
+    const address = walletAddress.toLowerCase();
+    const indexed = this.wallets.get(address);
+    if (!indexed) return [];
+
+    const markets = Array.from(indexed.positions.keys());
+    markets.forEach(conditionId => this.removeFromMarket(conditionId, address));
+    this.wallets.delete(address);
+    return markets;
+  }
+
+  /**
+   * Positions of every indexed wallet, optionally limited to some markets
+   */
+  getPositions(conditionIds?: Iterable<string>): WalletPosition[] {
+    if (!conditionIds) {
+      return Array.from(this.wallets.values()).flatMap(w => Array.from(w.positions.values()));
+    }
+
+    const positions: WalletPosition[] = [];
+    for (const conditionId of new Set(conditionIds)) {
+      for (const address of this.markets.get(conditionId) || []) {
+        const position = this.wallets.get(address)?.positions.get(conditionId);
+        if (position) positions.push(position);
+      }
+    }
+    return positions;
+  }
+
+  clear(): void {
+    this.wallets.clear();
+    this.markets.clear();
+  }
+
+  private addToMarket(conditionId: string, address: string): void {
+    const holders = this.markets.get(conditionId) || new Set<string>();
+    holders.add(address);
+    this.markets.set(conditionId, holders);
+  }
+
+  private removeFromMarket(conditionId: string, address: string): void {
+    const holders = this.markets.get(conditionId);
+    if (!holders) return;
+    holders.delete(address);
+    if (holders.size === 0) this.markets.delete(conditionId);
+  }
+}
+
+/**
+ * What counts as a change: side, size, and share of the portfolio (which moves
+ * significance when the wallet trades elsewhere)
+ */
+export function fingerprintPosition(position: WalletPosition): string {
+  return `${position.side}:${position.netShares.toFixed(2)}:${position.portfolioPercent.toFixed(1)}`;
+}
@@ -0,0 +1,187 @@
+/**
+ * Signal Performance Repository
+ * PostgreSQL persistence for the consensus signal track record (consensus_signal_performance)
+ */
+
+import { query } from '@/services/database/connection-pool';
+import { logger } from '@/utils/logger';
+import { SignalStatus, TrackedSignal } from './signal-performance';
+
+interface TrackedSignalRow {
+  signal_id: string;
+  condition_id: string;
+  market_title: string;
+  consensus_side: string;
+  wallet_count: number;
+  confidence_score: number;
+  confidence_level: string;
+  market_category: string | null;
+  entry_price: string | null;
+  last_price: string | null;
+  status: string;
+  detected_at: Date;
+  resolved_at: Date | null;
+}
+
+const TRACKED_SIGNAL_COLUMNS =
+  `p.signal_id, s.condition_id, s.market_title, s.consensus_side, s.wallet_count,
+   p.confidence_score, p.confidence_level, p.market_category, p.entry_price, p.last_price,
+   p.status, s.detected_at, p.resolved_at`;
+
+/**
+ * SignalPerformanceRepository
+ * Handles PostgreSQL persistence for consensus signal outcomes
+ */
+export class SignalPerformanceRepository {
+  /**
+   * Start tracking a saved signal (no-op if already tracked)
+   * @param entryPrice Price of the consensus side at detection, null to fill in later
+   */
+  async recordEntry(entry: {
+    signalId: string;
+    confidenceScore: number;
+    confidenceLevel: string;
+    marketCategory?: string;
+    entryPrice: number | null;
+  }): Promise<void> {
+    try {
+      await query(
+        `INSERT INTO consensus_signal_performance
+           (signal_id, confidence_score, confidence_level, market_category, entry_price, last_price)
+         VALUES ($1, $2, $3, $4, $5, $5)
+         ON CONFLICT (signal_id) DO NOTHING`,
+        [
+          entry.signalId,
+          entry.confidenceScore,
+          entry.confidenceLevel,
+          entry.marketCategory || null,
+          entry.entryPrice,
+        ]
+      );
+    } catch (error) {
+      logger.error('Failed to record signal entry', {
+        signalId: entry.signalId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Open signals, least recently checked first
+   */
+  async getOpenSignals(limit: number): Promise<TrackedSignal[]> {
+    try {
+      const results = await query<TrackedSignalRow>(
+        `SELECT ${TRACKED_SIGNAL_COLUMNS}
+         FROM consensus_signal_performance p
+         JOIN consensus_signals s ON s.id = p.signal_id
+         WHERE p.status = 'OPEN'
+         ORDER BY p.last_checked_at ASC NULLS FIRST
+         LIMIT $1`,
+        [limit]
+      );
+
+      return results.map(mapTrackedSignal);
+    } catch (error) {
+      logger.error('Failed to get open signals', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Save the latest price and outcome of a signal
+   */
+  async updateSignal(
+    signalId: string,
+    update: { entryPrice?: number; lastPrice: number; status: SignalStatus }
+  ): Promise<void> {
+    try {
+      await query(
+        `UPDATE consensus_signal_performance
+         SET entry_price = COALESCE(entry_price, $2),
+             last_price = $3,
+             status = $4,
+             last_checked_at = NOW(),
+             resolved_at = CASE WHEN $4 <> 'OPEN' THEN NOW() ELSE NULL END
+         WHERE signal_id = $1`,
+        [signalId, update.entryPrice ?? null, update.lastPrice, update.status]
+      );
+    } catch (error) {
+      logger.error('Failed to update signal performance', {
+        signalId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Mark a signal as checked without a new price (e.g. price history unavailable)
+   */
+  async touchSignal(signalId: string): Promise<void> {
+    try {
+      await query(
+        'UPDATE consensus_signal_performance SET last_checked_at = NOW() WHERE signal_id = $1',
+        [signalId]
+      );
+    } catch (error) {
+      logger.error('Failed to touch signal performance', {
+        signalId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * All tracked signals detected in the last N days (0 = all time)
+   */
+  async getTrackedSignals(days: number = 0): Promise<TrackedSignal[]> {
+    try {
+      const results = await query<TrackedSignalRow>(
+        `SELECT ${TRACKED_SIGNAL_COLUMNS}
+         FROM consensus_signal_performance p
+         JOIN consensus_signals s ON s.id = p.signal_id
+         WHERE $1 = 0 OR s.detected_at >= NOW() - make_interval(days => $1)
+         ORDER BY s.detected_at DESC`,
+        [days]
+      );
+
+      return results.map(mapTrackedSignal);
+    } catch (error) {
+      logger.error('Failed to get tracked signals', {
+        days,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+}
+
+function mapTrackedSignal(r: TrackedSignalRow): TrackedSignal {
+  return {
+    signalId: r.signal_id,
+    conditionId: r.condition_id,
+    marketTitle: r.market_title,
+    side: r.consensus_side as 'YES' | 'NO',
+    walletCount: r.wallet_count,
+    confidenceScore: r.confidence_score,
+    confidenceLevel: r.confidence_level,
+    marketCategory: r.market_category || undefined,
+    entryPrice: r.entry_price !== null ? parseFloat(r.entry_price) : undefined,
+    lastPrice: r.last_price !== null ? parseFloat(r.last_price) : undefined,
+    status: r.status as SignalStatus,
+    detectedAt: r.detected_at,
+    resolvedAt: r.resolved_at || undefined,
+  };
+}
+
+// Singleton instance
+let repositoryInstance: SignalPerformanceRepository | null = null;
+
+export function getSignalPerformanceRepository(): SignalPerformanceRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new SignalPerformanceRepository();
+  }
+  return repositoryInstance;
+}
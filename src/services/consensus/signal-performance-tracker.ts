@@ -0,0 +1,242 @@
+/**
+ * Signal Performance Tracker
+ * Records the entry price of each saved consensus signal, follows its market through
+ * the price history until resolution, and recalibrates the confidence thresholds
+ * from the resulting track record
+ */
+
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+import { getMarketResolutionRepository } from '@/services/pnl';
+import { logger } from '@/utils/logger';
+import {
+  ConsensusSignal,
+  ConfidenceThresholds,
+  DEFAULT_CONFIDENCE_THRESHOLDS,
+  getConfidenceThresholds,
+  setConfidenceThresholds,
+} from './consensus-detector';
+import {
+  PerformanceSummary,
+  evaluateSignal,
+  findEntryPrice,
+  getSidePrice,
+  recalibrateThresholds,
+  summarizePerformance,
+} from './signal-performance';
+import {
+  SignalPerformanceRepository,
+  getSignalPerformanceRepository,
+} from './signal-performance-repository';
+
+export interface SignalTrackerConfig {
+  intervalMinutes: number;     // How often open signals are re-priced (default: 60)
+  recalibrationMinSignals: number; // Resolved signals needed before a threshold moves (default: 10)
+}
+
+const DEFAULT_CONFIG: SignalTrackerConfig = {
+  intervalMinutes: 60,
+  recalibrationMinSignals: 10,
+};
+
+// Open signals re-priced per run
+const SIGNALS_PER_RUN = 50;
+
+// A side price this close to 0 or 1 is checked for resolution
+const SETTLED_PRICE_MARGIN = 0.01;
+
+export class SignalPerformanceTracker {
+  private repository: SignalPerformanceRepository;
+  private polymarketClient: PolymarketRestClient;
+  private config: SignalTrackerConfig;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private isUpdating = false;
+
+  constructor(polymarketClient: PolymarketRestClient, trackerConfig?: Partial<SignalTrackerConfig>) {
+    this.polymarketClient = polymarketClient;
+    this.repository = getSignalPerformanceRepository();
+    this.config = { ...DEFAULT_CONFIG, ...trackerConfig };
+  }
+
+  /**
+   * Start following open signals; the first run also restores calibrated thresholds
+   */
+  start(): void {
+    this.interval = setInterval(() => {
+      this.update().catch(error => logger.error('Signal performance update failed', { error }));
+    }, this.config.intervalMinutes * 60 * 1000);
+
+    this.update().catch(error => logger.error('Signal performance update failed', { error }));
+
+    logger.info('Signal performance tracker started', { intervalMinutes: this.config.intervalMinutes });
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    logger.info('Signal performance tracker stopped');
+  }
+
+  /**
+   * Start tracking a saved signal at the current price of its side
+   */
+  async recordEntry(signalId: string, signal: ConsensusSignal): Promise<void> {
+    const now = new Date();
+    let entryPrice: number | null = null;
+
+    try {
+      const history = await this.polymarketClient.getPriceHistory(signal.conditionId, {
+        interval: '5m',
+        startTime: new Date(now.getTime() - 2 * 60 * 60 * 1000).toISOString(),
+        endTime: now.toISOString(),
+      });
+      const points = history?.data || [];
+      const yesPrice = points.length > 0 ? points[points.length - 1].price : undefined;
+      entryPrice = yesPrice !== undefined ? getSidePrice(yesPrice, signal.side) : null;
+    } catch (error) {
+      // Filled in from the price history on the next update
+      logger.debug('Failed to fetch entry price for signal', {
+        signalId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    await this.repository.recordEntry({
+      signalId,
+      confidenceScore: signal.confidenceScore,
+      confidenceLevel: signal.confidenceLevel,
+      marketCategory: signal.marketCategory,
+      entryPrice,
+    });
+  }
+
+  /**
+   * Re-price open signals, settle resolved ones and recalibrate the thresholds
+   */
+  async update(): Promise<void> {
+    if (this.isUpdating) return;
+    this.isUpdating = true;
+
+    try {
+      const open = await this.repository.getOpenSignals(SIGNALS_PER_RUN);
+      const resolutions = await getMarketResolutionRepository().getResolutions(
+        Array.from(new Set(open.map(s => s.conditionId)))
+      );
+      const winners = new Map(resolutions.map(r => [r.conditionId, r.winningOutcome]));
+      let settled = 0;
+
+      for (const signal of open) {
+        try {
+          const history = await this.polymarketClient.getPriceHistory(signal.conditionId, {
+            interval: '1h',
+            startTime: signal.detectedAt.toISOString(),
+            endTime: new Date().toISOString(),
+          });
+          const points = history?.data || [];
+          const winningOutcome = winners.get(signal.conditionId);
+
+          if (points.length === 0 && !winningOutcome) {
+            await this.repository.touchSignal(signal.signalId);
+            continue;
+          }
+
+          const entryYesPrice = signal.entryPrice ? undefined : findEntryPrice(points, signal.detectedAt);
+          const entryPrice = entryYesPrice !== undefined ? getSidePrice(entryYesPrice, signal.side) : undefined;
+          const sidePrice = points.length > 0
+            ? getSidePrice(points[points.length - 1].price, signal.side)
+            : signal.lastPrice ?? 0.5;
+
+          const nearSettled = sidePrice >= 1 - SETTLED_PRICE_MARGIN || sidePrice <= SETTLED_PRICE_MARGIN;
+          const resolved = !winningOutcome && nearSettled && await this.isResolved(signal.conditionId);
+          const result = evaluateSignal(signal.side, sidePrice, resolved, winningOutcome);
+
+          await this.repository.updateSignal(signal.signalId, { entryPrice, ...result });
+          if (result.status !== 'OPEN') settled++;
+        } catch (error) {
+          logger.debug('Failed to update signal performance', {
+            signalId: signal.signalId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          await this.repository.touchSignal(signal.signalId);
+        }
+      }
+
+      logger.info('Signal performance updated', { checked: open.length, settled });
+
+      await this.recalibrate();
+    } finally {
+      this.isUpdating = false;
+    }
+  }
+
+  /**
+   * Track record of signals detected in the last N days (0 = all time)
+   */
+  async getStats(days: number = 0): Promise<{
+    summary: PerformanceSummary;
+    thresholds: ConfidenceThresholds;
+    calibrated: boolean;
+  }> {
+    const signals = await this.repository.getTrackedSignals(days);
+    const thresholds = getConfidenceThresholds();
+
+    return {
+      summary: summarizePerformance(signals),
+      thresholds,
+      calibrated: !isSameThresholds(thresholds, DEFAULT_CONFIDENCE_THRESHOLDS),
+    };
+  }
+
+  /**
+   * Feed the all-time track record back into getConfidenceLevel
+   */
+  private async recalibrate(): Promise<void> {
+    const signals = await this.repository.getTrackedSignals();
+    const previous = getConfidenceThresholds();
+    const thresholds = recalibrateThresholds(
+      signals,
+      DEFAULT_CONFIDENCE_THRESHOLDS,
+      this.config.recalibrationMinSignals
+    );
+
+    if (!isSameThresholds(previous, thresholds)) {
+      setConfidenceThresholds(thresholds);
+      logger.info('Recalibrated consensus confidence thresholds', { previous, thresholds });
+    }
+  }
+
+  private async isResolved(conditionId: string): Promise<boolean> {
+    try {
+      const condition = await this.polymarketClient.getCondition(conditionId);
+      return condition.status === 'RESOLVED';
+    } catch (error) {
+      logger.debug('Failed to check market resolution', {
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+}
+
+function isSameThresholds(a: ConfidenceThresholds, b: ConfidenceThresholds): boolean {
+  return a.veryHigh === b.veryHigh && a.high === b.high && a.medium === b.medium;
+}
+
+// Singleton
+let trackerInstance: SignalPerformanceTracker | null = null;
+
+export function createSignalPerformanceTracker(
+  polymarketClient: PolymarketRestClient,
+  config?: Partial<SignalTrackerConfig>
+): SignalPerformanceTracker {
+  if (!trackerInstance) {
+    trackerInstance = new SignalPerformanceTracker(polymarketClient, config);
+  }
+  return trackerInstance;
+}
+
+export function getSignalPerformanceTracker(): SignalPerformanceTracker | null {
+  return trackerInstance;
+}
@@ -0,0 +1,188 @@
+/**
+ * Signal Performance
+ * Entry/exit pricing of consensus signals, their track record by confidence level,
+ * wallet count and category, and recalibration of the confidence thresholds
+ */
+
+import { ConfidenceThresholds } from './consensus-detector';
+
+export type SignalStatus = 'OPEN' | 'WON' | 'LOST';
+
+export interface TrackedSignal {
+  signalId: string;
+  conditionId: string;
+  marketTitle: string;
+  side: 'YES' | 'NO';
+  walletCount: number;
+  confidenceScore: number;
+  confidenceLevel: string;
+  marketCategory?: string;
+  entryPrice?: number;
+  lastPrice?: number;
+  status: SignalStatus;
+  detectedAt: Date;
+  resolvedAt?: Date;
+}
+
+export interface PerformanceGroup {
+  label: string;
+  signals: number;
+  resolved: number;
+  wins: number;
+  hitRate: number;   // wins / resolved (0-1)
+  avgRoi: number;    // Mean ROI of resolved signals, equal stake per signal (%)
+  openRoi: number;   // Mean mark-to-market ROI of open signals (%)
+}
+
+export interface PerformanceSummary {
+  overall: PerformanceGroup;
+  byConfidence: PerformanceGroup[];
+  byWalletCount: PerformanceGroup[];
+  byCategory: PerformanceGroup[];
+}
+
+// A side trading at or beyond these is treated as settled
+const WIN_PRICE = 0.99;
+const LOSS_PRICE = 0.01;
+
+const CONFIDENCE_ORDER = ['VERY_HIGH', 'HIGH', 'MEDIUM', 'LOW'];
+
+// Hit rate a score range must reach to earn each level
+const TARGET_HIT_RATES: ConfidenceThresholds = {
+  veryHigh: 0.75,
+  high: 0.65,
+  medium: 0.55,
+};
+
+/**
+ * Price of the consensus side from the market (YES) price
+ */
+export function getSidePrice(yesPrice: number, side: 'YES' | 'NO'): number {
+  return side === 'YES' ? yesPrice : 1 - yesPrice;
+}
+
+/**
+ * YES price closest to the detection time, preferring the first point at or after it
+ */
+export function findEntryPrice(
+  points: Array<{ timestamp: string | number; price: number }>,
+  detectedAt: Date
+): number | undefined {
+  const sorted = points
+    .map(p => ({ time: new Date(p.timestamp).getTime(), price: p.price }))
+    .filter(p => !isNaN(p.time) && typeof p.price === 'number')
+    .sort((a, b) => a.time - b.time);
+
+  if (sorted.length === 0) return undefined;
+
+  const after = sorted.find(p => p.time >= detectedAt.getTime());
+  return (after || sorted[sorted.length - 1]).price;
+}
+
+/**
+ * Outcome of a signal from the side's latest price and whether its market has resolved
+ * @param winningOutcome Resolved outcome if known (e.g. "Yes"), otherwise the price decides once resolved
+ */
+export function evaluateSignal(
+  side: 'YES' | 'NO',
+  sidePrice: number,
+  resolved: boolean,
+  winningOutcome?: string
+): { status: SignalStatus; lastPrice: number } {
+  if (winningOutcome) {
+    const won = winningOutcome.toUpperCase() === side;
+    return { status: won ? 'WON' : 'LOST', lastPrice: won ? 1 : 0 };
+  }
+
+  if (resolved && sidePrice >= WIN_PRICE) return { status: 'WON', lastPrice: 1 };
+  if (resolved && sidePrice <= LOSS_PRICE) return { status: 'LOST', lastPrice: 0 };
+
+  return { status: 'OPEN', lastPrice: sidePrice };
+}
+
+/**
+ * ROI (%) of buying the consensus side at entry and holding to the last price
+ */
+export function calculateSignalRoi(signal: Pick<TrackedSignal, 'entryPrice' | 'lastPrice'>): number | null {
+  if (!signal.entryPrice || signal.lastPrice === undefined) return null;
+  return ((signal.lastPrice - signal.entryPrice) / signal.entryPrice) * 100;
+}
+
+/**
+ * Hit rate and ROI overall and by confidence level, wallet count and category
+ * Signals without an entry price are left out
+ */
+export function summarizePerformance(signals: TrackedSignal[]): PerformanceSummary {
+  const priced = signals.filter(s => s.entryPrice);
+
+  return {
+    overall: buildGroup('All signals', priced),
+    byConfidence: groupBy(priced, s => s.confidenceLevel)
+      .sort((a, b) => CONFIDENCE_ORDER.indexOf(a.label) - CONFIDENCE_ORDER.indexOf(b.label)),
+    byWalletCount: groupBy(priced, s => (s.walletCount >= 6 ? '6+' : `${s.walletCount}`))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    byCategory: groupBy(priced, s => s.marketCategory || 'Other')
+      .sort((a, b) => b.signals - a.signals),
+  };
+}
+
+/**
+ * Recalibrate the confidence thresholds from resolved signals
+ * Each level gets the lowest score (in steps of 5) from which signals reached its
+ * target hit rate over at least minSamples signals. Levels without enough data
+ * keep their current threshold.
+ */
+export function recalibrateThresholds(
+  signals: Array<{ confidenceScore: number; status: SignalStatus }>,
+  current: ConfidenceThresholds,
+  minSamples: number
+): ConfidenceThresholds {
+  const resolved = signals.filter(s => s.status !== 'OPEN');
+
+  const findThreshold = (targetHitRate: number, fallback: number): number => {
+    for (let score = 20; score <= 95; score += 5) {
+      const above = resolved.filter(s => s.confidenceScore >= score);
+      if (above.length < minSamples) break;
+
+      const hitRate = above.filter(s => s.status === 'WON').length / above.length;
+      if (hitRate >= targetHitRate) return score;
+    }
+    return fallback;
+  };
+
+  const veryHigh = findThreshold(TARGET_HIT_RATES.veryHigh, current.veryHigh);
+  const high = Math.min(findThreshold(TARGET_HIT_RATES.high, current.high), veryHigh);
+  const medium = Math.min(findThreshold(TARGET_HIT_RATES.medium, current.medium), high);
+
+  return { veryHigh, high, medium };
+}
+
+function groupBy(signals: TrackedSignal[], key: (signal: TrackedSignal) => string): PerformanceGroup[] {
+  const groups = new Map<string, TrackedSignal[]>();
+  for (const signal of signals) {
+    const label = key(signal);
+    groups.set(label, [...(groups.get(label) || []), signal]);
+  }
+  return Array.from(groups.entries()).map(([label, group]) => buildGroup(label, group));
+}
+
+function buildGroup(label: string, signals: TrackedSignal[]): PerformanceGroup {
+  const resolved = signals.filter(s => s.status !== 'OPEN');
+  const open = signals.filter(s => s.status === 'OPEN');
+  const wins = resolved.filter(s => s.status === 'WON').length;
+
+  return {
+    label,
+    signals: signals.length,
+    resolved: resolved.length,
+    wins,
+    hitRate: resolved.length > 0 ? wins / resolved.length : 0,
+    avgRoi: averageRoi(resolved),
+    openRoi: averageRoi(open),
+  };
+}
+
+function averageRoi(signals: TrackedSignal[]): number {
+  const rois = signals.map(calculateSignalRoi).filter((roi): roi is number => roi !== null);
+  return rois.length > 0 ? rois.reduce((sum, roi) => sum + roi, 0) / rois.length : 0;
+}
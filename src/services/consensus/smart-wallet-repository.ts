@@ -5,13 +5,41 @@
 
 import { query } from '@/services/database/connection-pool';
 import { logger } from '@/utils/logger';
+import type { DivergenceSignal } from './consensus-detector';
+import type { ConfidenceLevel, ConsensusFilter } from './consensus-filter';
+import type { SnapshotPoint } from './entry-timing';
+
+interface ConsensusFilterRow {
+  chat_id: string;
+  categories: string[] | null;
+  min_confidence: string | null;
+  min_total_value: string | null;
+  wallet_addresses: string[] | null;
+}
+
+interface ConsensusSignalRow {
+  id: string;
+  condition_id: string;
+  market_title: string;
+  market_slug: string | null;
+  consensus_side: string;
+  wallet_count: number;
+  total_value: string;
+  wallets: string;
+  detected_at: Date;
+  notified_at: Date | null;
+}
 
 // Types
 export interface SmartWallet {
   id: string;
   address: string;
   alias: string;
+  category?: string;
+  categoryRank?: number;
+  pnl?: number;
   isActive: boolean;
+  isPaused: boolean;            // Active but skipped by the consensus scan
   createdAt: Date;
 }
 
@@ -42,11 +70,34 @@ export interface ConsensusSignal {
     address: string;
     value: number;
     shares: number;
+    weight?: number;            // Expertise weight at detection time
   }>;
   detectedAt?: Date;
   notifiedAt?: Date;
 }
 
+// Last scanned state of a consensus (consensus_signal_state)
+export interface ConsensusState {
+  conditionId: string;
+  marketTitle: string;
+  marketSlug?: string;
+  side: 'YES' | 'NO';
+  walletCount: number;
+  totalValue: number;
+  wallets: Array<{
+    alias: string;
+    address: string;
+    value: number;
+  }>;
+  firstDetectedAt?: Date;
+  updatedAt?: Date;
+}
+
+export interface DivergenceRecord extends DivergenceSignal {
+  id: string;
+  detectedAt: Date;
+}
+
 /**
  * SmartWalletRepository
  * Handles PostgreSQL persistence for smart wallet consensus tracking
@@ -61,10 +112,14 @@ export class SmartWalletRepository {
         id: string;
         address: string;
         alias: string;
+        category: string | null;
+        category_rank: number | null;
+        pnl: string | null;
         is_active: boolean;
+        is_paused: boolean | null;
         created_at: Date;
       }>(
-        `SELECT id, address, alias, is_active, created_at
+        `SELECT id, address, alias, category, category_rank, pnl, is_active, is_paused, created_at
          FROM smart_wallets
          WHERE is_active = true
          ORDER BY created_at ASC`
@@ -74,7 +129,11 @@ export class SmartWalletRepository {
         id: r.id,
         address: r.address,
         alias: r.alias,
+        category: r.category || undefined,
+        categoryRank: r.category_rank ?? undefined,
+        pnl: r.pnl !== null ? parseFloat(r.pnl) : undefined,
         isActive: r.is_active,
+        isPaused: r.is_paused === true,
         createdAt: r.created_at,
       }));
     } catch (error) {
@@ -138,14 +197,15 @@ export class SmartWalletRepository {
     const normalizedAddress = address.toLowerCase();
 
     try {
-      const result = await query(
+      const result = await query<{ id: string }>(
         `UPDATE smart_wallets
          SET is_active = false, updated_at = NOW()
-         WHERE address = $1 AND is_active = true`,
+         WHERE address = $1 AND is_active = true
+         RETURNING id`,
         [normalizedAddress]
       );
 
-      if ((result as any).rowCount === 0) {
+      if (result.length === 0) {
         return { success: false, message: 'Smart wallet not found.' };
       }
 
@@ -160,6 +220,72 @@ export class SmartWalletRepository {
     }
   }
 
+  /**
+   * Set the expertise category (and optionally the rank within it) of an active smart wallet
+   */
+  async tagSmartWallet(
+    address: string,
+    category: string,
+    categoryRank?: number
+  ): Promise<{ success: boolean; message: string }> {
+    const normalizedAddress = address.toLowerCase();
+
+    try {
+      const result = await query<{ id: string }>(
+        `UPDATE smart_wallets
+         SET category = $2, category_rank = $3, updated_at = NOW()
+         WHERE address = $1 AND is_active = true
+         RETURNING id`,
+        [normalizedAddress, category, categoryRank ?? null]
+      );
+
+      if (result.length === 0) {
+        return { success: false, message: 'Smart wallet not found.' };
+      }
+
+      logger.info('Tagged smart wallet', { address: normalizedAddress, category, categoryRank });
+      return { success: true, message: 'Smart wallet tagged.' };
+    } catch (error) {
+      logger.error('Failed to tag smart wallet', {
+        address: normalizedAddress,
+        category,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { success: false, message: 'Failed to tag smart wallet.' };
+    }
+  }
+
+  /**
+   * Pause or resume an active smart wallet (paused wallets are skipped by the scan)
+   */
+  async setWalletPaused(address: string, paused: boolean): Promise<{ success: boolean; message: string }> {
+    const normalizedAddress = address.toLowerCase();
+
+    try {
+      const result = await query<{ id: string }>(
+        `UPDATE smart_wallets
+         SET is_paused = $2, updated_at = NOW()
+         WHERE address = $1 AND is_active = true
+         RETURNING id`,
+        [normalizedAddress, paused]
+      );
+
+      if (result.length === 0) {
+        return { success: false, message: 'Smart wallet not found.' };
+      }
+
+      logger.info(paused ? 'Paused smart wallet' : 'Resumed smart wallet', { address: normalizedAddress });
+      return { success: true, message: paused ? 'Smart wallet paused.' : 'Smart wallet resumed.' };
+    } catch (error) {
+      logger.error('Failed to update smart wallet pause state', {
+        address: normalizedAddress,
+        paused,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { success: false, message: 'Failed to update smart wallet.' };
+    }
+  }
+
   /**
    * Save position snapshot for a wallet
    */
@@ -200,6 +326,61 @@ export class SmartWalletRepository {
     }
   }
 
+  /**
+   * Daily net positions in the given markets over the last N days, keyed by walletId:conditionId,
+   * plus the date each wallet was first snapshotted (in any market)
+   */
+  async getSnapshotHistory(
+    conditionIds: string[],
+    days: number
+  ): Promise<{ history: Map<string, SnapshotPoint[]>; trackedSince: Map<string, Date> }> {
+    const history = new Map<string, SnapshotPoint[]>();
+    const trackedSince = new Map<string, Date>();
+    if (conditionIds.length === 0) return { history, trackedSince };
+
+    try {
+      const snapshots = await query<{
+        wallet_id: string;
+        condition_id: string;
+        snapshot_date: Date;
+        net_shares: string;
+      }>(
+        `SELECT wallet_id, condition_id, snapshot_date, net_shares
+         FROM smart_wallet_positions
+         WHERE condition_id = ANY($1)
+           AND snapshot_date >= CURRENT_DATE - $2::int
+         ORDER BY snapshot_date ASC`,
+        [conditionIds, days]
+      );
+
+      for (const r of snapshots) {
+        const key = `${r.wallet_id}:${r.condition_id}`;
+        const points = history.get(key) || [];
+        points.push({ date: new Date(r.snapshot_date), netShares: parseFloat(r.net_shares) });
+        history.set(key, points);
+      }
+
+      const firstSnapshots = await query<{ wallet_id: string; first_date: Date }>(
+        `SELECT wallet_id, MIN(snapshot_date) AS first_date
+         FROM smart_wallet_positions
+         WHERE wallet_id = ANY($1)
+         GROUP BY wallet_id`,
+        [Array.from(new Set(snapshots.map(r => r.wallet_id)))]
+      );
+
+      for (const r of firstSnapshots) {
+        trackedSince.set(r.wallet_id, new Date(r.first_date));
+      }
+    } catch (error) {
+      logger.error('Failed to get snapshot history', {
+        markets: conditionIds.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return { history, trackedSince };
+  }
+
   /**
    * Get today's positions for all smart wallets
    */
@@ -361,9 +542,69 @@ export class SmartWalletRepository {
    * Get recent consensus signals
    */
   async getRecentSignals(days: number = 7): Promise<ConsensusSignal[]> {
+    try {
+      const results = await query<ConsensusSignalRow>(
+        `SELECT id, condition_id, market_title, market_slug, consensus_side,
+                wallet_count, total_value, wallets, detected_at, notified_at
+         FROM consensus_signals
+         WHERE detected_at >= NOW() - INTERVAL '${days} days'
+         ORDER BY detected_at DESC`
+      );
+
+      return results.map(r => this.mapConsensusSignal(r));
+    } catch (error) {
+      logger.error('Failed to get recent signals', {
+        days,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get a consensus signal by id (e.g. from a notification button)
+   */
+  async getSignalById(signalId: string): Promise<ConsensusSignal | null> {
+    try {
+      const results = await query<ConsensusSignalRow>(
+        `SELECT id, condition_id, market_title, market_slug, consensus_side,
+                wallet_count, total_value, wallets, detected_at, notified_at
+         FROM consensus_signals
+         WHERE id = $1`,
+        [signalId]
+      );
+
+      return results.length > 0 ? this.mapConsensusSignal(results[0]) : null;
+    } catch (error) {
+      logger.error('Failed to get signal', {
+        signalId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  private mapConsensusSignal(r: ConsensusSignalRow): ConsensusSignal {
+    return {
+      id: r.id,
+      conditionId: r.condition_id,
+      marketTitle: r.market_title,
+      marketSlug: r.market_slug || undefined,
+      side: r.consensus_side as 'YES' | 'NO',
+      walletCount: r.wallet_count,
+      totalValue: parseFloat(r.total_value),
+      wallets: typeof r.wallets === 'string' ? JSON.parse(r.wallets) : r.wallets,
+      detectedAt: r.detected_at,
+      notifiedAt: r.notified_at || undefined,
+    };
+  }
+
+  /**
+   * Get the last scanned state of every active consensus
+   */
+  async getActiveConsensusStates(): Promise<ConsensusState[]> {
     try {
       const results = await query<{
-        id: string;
         condition_id: string;
         market_title: string;
         market_slug: string | null;
@@ -371,18 +612,16 @@ export class SmartWalletRepository {
         wallet_count: number;
         total_value: string;
         wallets: string;
-        detected_at: Date;
-        notified_at: Date | null;
+        first_detected_at: Date;
+        updated_at: Date;
       }>(
-        `SELECT id, condition_id, market_title, market_slug, consensus_side,
-                wallet_count, total_value, wallets, detected_at, notified_at
-         FROM consensus_signals
-         WHERE detected_at >= NOW() - INTERVAL '${days} days'
-         ORDER BY detected_at DESC`
+        `SELECT condition_id, market_title, market_slug, consensus_side, wallet_count,
+                total_value, wallets, first_detected_at, updated_at
+         FROM consensus_signal_state
+         WHERE status = 'ACTIVE'`
       );
 
       return results.map(r => ({
-        id: r.id,
         conditionId: r.condition_id,
         marketTitle: r.market_title,
         marketSlug: r.market_slug || undefined,
@@ -390,11 +629,174 @@ export class SmartWalletRepository {
         walletCount: r.wallet_count,
         totalValue: parseFloat(r.total_value),
         wallets: typeof r.wallets === 'string' ? JSON.parse(r.wallets) : r.wallets,
-        detectedAt: r.detected_at,
-        notifiedAt: r.notified_at || undefined,
+        firstDetectedAt: r.first_detected_at,
+        updatedAt: r.updated_at,
       }));
     } catch (error) {
-      logger.error('Failed to get recent signals', {
+      logger.error('Failed to get consensus states', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Save the current state of a consensus (re-activates a dissolved one)
+   */
+  async saveConsensusState(state: ConsensusState): Promise<void> {
+    try {
+      await query(
+        `INSERT INTO consensus_signal_state
+           (condition_id, consensus_side, market_title, market_slug, wallet_count, total_value, wallets)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (condition_id, consensus_side)
+         DO UPDATE SET market_title = EXCLUDED.market_title,
+                       market_slug = EXCLUDED.market_slug,
+                       wallet_count = EXCLUDED.wallet_count,
+                       total_value = EXCLUDED.total_value,
+                       wallets = EXCLUDED.wallets,
+                       first_detected_at = CASE WHEN consensus_signal_state.status = 'DISSOLVED'
+                                                THEN NOW() ELSE consensus_signal_state.first_detected_at END,
+                       status = 'ACTIVE',
+                       dissolved_at = NULL,
+                       updated_at = NOW()`,
+        [
+          state.conditionId,
+          state.side,
+          state.marketTitle,
+          state.marketSlug || null,
+          state.walletCount,
+          state.totalValue,
+          JSON.stringify(state.wallets),
+        ]
+      );
+    } catch (error) {
+      logger.error('Failed to save consensus state', {
+        conditionId: state.conditionId,
+        side: state.side,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Mark a consensus as dissolved (fewer than minWallets left)
+   */
+  async dissolveConsensusState(conditionId: string, side: string): Promise<void> {
+    try {
+      await query(
+        `UPDATE consensus_signal_state
+         SET status = 'DISSOLVED', dissolved_at = NOW(), updated_at = NOW()
+         WHERE condition_id = $1 AND consensus_side = $2`,
+        [conditionId, side]
+      );
+    } catch (error) {
+      logger.error('Failed to dissolve consensus state', {
+        conditionId,
+        side,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Save a detected divergence (null if already saved today)
+   */
+  async saveDivergenceSignal(signal: DivergenceSignal): Promise<string | null> {
+    try {
+      const results = await query<{ id: string }>(
+        `INSERT INTO divergence_signals
+           (condition_id, market_title, market_slug, market_category, yes_wallet_count, no_wallet_count,
+            yes_value, no_value, capital_ratio, stronger_record, camps)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+         ON CONFLICT (condition_id, detected_date) DO NOTHING
+         RETURNING id`,
+        [
+          signal.conditionId,
+          signal.marketTitle,
+          signal.marketSlug || null,
+          signal.marketCategory || null,
+          signal.yes.walletCount,
+          signal.no.walletCount,
+          signal.yes.totalValue,
+          signal.no.totalValue,
+          signal.capitalRatio,
+          signal.strongerRecord,
+          JSON.stringify({ yes: signal.yes, no: signal.no }),
+        ]
+      );
+
+      return results.length > 0 ? results[0].id : null;
+    } catch (error) {
+      logger.error('Failed to save divergence signal', {
+        conditionId: signal.conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Mark divergence as notified
+   */
+  async markDivergenceNotified(signalId: string): Promise<void> {
+    try {
+      await query(
+        'UPDATE divergence_signals SET notified_at = NOW() WHERE id = $1',
+        [signalId]
+      );
+    } catch (error) {
+      logger.error('Failed to mark divergence as notified', {
+        signalId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Get recent divergences, latest detection per market
+   */
+  async getRecentDivergences(days: number = 7): Promise<DivergenceRecord[]> {
+    try {
+      const results = await query<{
+        id: string;
+        condition_id: string;
+        market_title: string;
+        market_slug: string | null;
+        market_category: string | null;
+        capital_ratio: string;
+        stronger_record: string | null;
+        camps: string | { yes: DivergenceSignal['yes']; no: DivergenceSignal['no'] };
+        detected_at: Date;
+      }>(
+        `SELECT * FROM (
+           SELECT DISTINCT ON (condition_id) id, condition_id, market_title, market_slug, market_category,
+                  capital_ratio, stronger_record, camps, detected_at
+           FROM divergence_signals
+           WHERE detected_at >= NOW() - make_interval(days => $1)
+           ORDER BY condition_id, detected_at DESC
+         ) latest
+         ORDER BY detected_at DESC`,
+        [days]
+      );
+
+      return results.map(r => {
+        const camps = typeof r.camps === 'string' ? JSON.parse(r.camps) : r.camps;
+        return {
+          id: r.id,
+          conditionId: r.condition_id,
+          marketTitle: r.market_title,
+          marketSlug: r.market_slug || undefined,
+          marketCategory: r.market_category || undefined,
+          yes: camps.yes,
+          no: camps.no,
+          capitalRatio: parseFloat(r.capital_ratio),
+          strongerRecord: (r.stronger_record as 'YES' | 'NO' | null) || null,
+          detectedAt: r.detected_at,
+        };
+      });
+    } catch (error) {
+      logger.error('Failed to get recent divergences', {
         days,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
@@ -402,6 +804,105 @@ export class SmartWalletRepository {
     }
   }
 
+  /**
+   * Consensus subscription filters of every chat that set one
+   */
+  async getConsensusFilters(): Promise<Map<number, ConsensusFilter>> {
+    try {
+      const results = await query<ConsensusFilterRow>(
+        `SELECT chat_id, categories, min_confidence, min_total_value, wallet_addresses
+         FROM consensus_subscription_filters`
+      );
+
+      return new Map(results.map(r => [parseInt(r.chat_id, 10), this.mapConsensusFilter(r)]));
+    } catch (error) {
+      logger.error('Failed to get consensus filters', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return new Map();
+    }
+  }
+
+  /**
+   * Consensus subscription filter of a chat (null if it has none)
+   */
+  async getConsensusFilter(chatId: number): Promise<ConsensusFilter | null> {
+    try {
+      const results = await query<ConsensusFilterRow>(
+        `SELECT chat_id, categories, min_confidence, min_total_value, wallet_addresses
+         FROM consensus_subscription_filters
+         WHERE chat_id = $1`,
+        [chatId]
+      );
+
+      return results.length > 0 ? this.mapConsensusFilter(results[0]) : null;
+    } catch (error) {
+      logger.error('Failed to get consensus filter', {
+        chatId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Save a chat's consensus subscription filter
+   */
+  async saveConsensusFilter(chatId: number, filter: ConsensusFilter): Promise<boolean> {
+    try {
+      await query(
+        `INSERT INTO consensus_subscription_filters
+           (chat_id, categories, min_confidence, min_total_value, wallet_addresses, updated_at)
+         VALUES ($1, $2, $3, $4, $5, NOW())
+         ON CONFLICT (chat_id) DO UPDATE SET
+           categories = EXCLUDED.categories,
+           min_confidence = EXCLUDED.min_confidence,
+           min_total_value = EXCLUDED.min_total_value,
+           wallet_addresses = EXCLUDED.wallet_addresses,
+           updated_at = NOW()`,
+        [
+          chatId,
+          filter.categories,
+          filter.minConfidence || null,
+          filter.minTotalValue ?? null,
+          filter.wallets.map(w => w.toLowerCase()),
+        ]
+      );
+      return true;
+    } catch (error) {
+      logger.error('Failed to save consensus filter', {
+        chatId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Remove a chat's filter (it receives every signal again)
+   */
+  async clearConsensusFilter(chatId: number): Promise<boolean> {
+    try {
+      await query('DELETE FROM consensus_subscription_filters WHERE chat_id = $1', [chatId]);
+      return true;
+    } catch (error) {
+      logger.error('Failed to clear consensus filter', {
+        chatId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  private mapConsensusFilter(r: ConsensusFilterRow): ConsensusFilter {
+    return {
+      categories: r.categories || [],
+      minConfidence: (r.min_confidence as ConfidenceLevel | null) || undefined,
+      minTotalValue: r.min_total_value !== null ? parseFloat(r.min_total_value) : undefined,
+      wallets: r.wallet_addresses || [],
+    };
+  }
+
   /**
    * Clean up old position snapshots (keep last N days)
    */
@@ -17,11 +17,25 @@ import {
   WalletPosition,
   ConsensusSignal,
   DetectorConfig,
+  DivergenceConfig,
+  DivergenceSignal,
   detectConsensus,
+  detectDivergence,
+  findConsensusMarkets,
   calculateSide,
 } from './consensus-detector';
+import { getMarketCategory } from './market-category';
+import { diffConsensus, hasFailedWallet, toConsensusState } from './consensus-lifecycle';
+import { matchesConsensusEventFilter, matchesConsensusFilter, matchesDivergenceFilter } from './consensus-filter';
+import { findEntryDate } from './entry-timing';
+import { PositionIndex } from './position-index';
+import { MarketContext, buildMarketContext } from './market-context';
+import { getSignalPerformanceTracker } from './signal-performance-tracker';
 import {
   formatConsensusNotification,
+  buildConsensusKeyboard,
+  formatConsensusLifecycleNotification,
+  formatDivergenceNotification,
   formatScanStatus,
 } from './consensus-notification';
 
@@ -32,9 +46,19 @@ export interface ScannerConfig {
   minOrderValue: number;      // Minimum order value in USD (default: 2000)
   minPortfolioPercent: number; // Minimum % of portfolio (default: 2)
   scanDelayMs: number;        // Delay between wallet fetches (default: 1000)
+  valueChangePercent: number; // Total value move (%) that triggers a follow-up alert (default: 25)
+  divergenceMinWallets: number;  // Minimum wallets on each side of a divergence (default: 2)
+  divergenceMinSharePercent: number; // Minimum % of capital on the smaller side (default: 25)
+  entryHalfLifeDays: number;  // Days for an entry's freshness to halve (default: 14)
+  entryWindowDays: number;    // Entries within this many days count as fresh (default: 7)
+  incrementalEnabled: boolean;        // Re-check changed wallets between full scans (default: false)
+  incrementalIntervalMinutes: number; // Minutes between incremental passes (default: 1)
   notifyChat?: number;        // Chat ID for notifications (optional, broadcasts to all users if not set)
 }
 
+// Days of snapshots searched for the start of a holding (cleanupOldSnapshots keeps 30 by default)
+const ENTRY_LOOKBACK_DAYS = 30;
+
 const DEFAULT_CONFIG: ScannerConfig = {
   enabled: true,
   cronSchedule: '0 6 * * *',
@@ -42,16 +66,30 @@ const DEFAULT_CONFIG: ScannerConfig = {
   minOrderValue: 2000,
   minPortfolioPercent: 2,
   scanDelayMs: 1000,
+  valueChangePercent: 25,
+  divergenceMinWallets: 2,
+  divergenceMinSharePercent: 25,
+  entryHalfLifeDays: 14,
+  entryWindowDays: 7,
+  incrementalEnabled: false,
+  incrementalIntervalMinutes: 1,
 };
 
+// Delay between activity checks of an incremental pass (position fetches use scanDelayMs)
+const ACTIVITY_CHECK_DELAY_MS = 100;
+
 export class SmartWalletScanner {
   private repository: SmartWalletRepository;
   private polymarketClient: PolymarketRestClient;
   private bot: Telegraf<Context>;
   private config: ScannerConfig;
   private cronInterval: NodeJS.Timeout | null = null;
+  private incrementalInterval: ReturnType<typeof setInterval> | null = null;
   private isScanning = false;
   private lastScanTime: Date | null = null;
+  private lastIncrementalScanTime: Date | null = null;
+  // Latest positions per wallet, kept current by full and incremental scans
+  private positionIndex = new PositionIndex();
   // Muted chats (opt-out list) - default behavior is broadcast to all
   private mutedChats: Set<number> = new Set();
   // Callback to get all active chat IDs for broadcast
@@ -130,9 +168,16 @@ export class SmartWalletScanner {
       }
     }, checkInterval);
 
+    if (this.config.incrementalEnabled) {
+      this.incrementalInterval = setInterval(() => {
+        this.scanIncremental().catch(error => logger.error('Incremental consensus scan failed', { error }));
+      }, this.config.incrementalIntervalMinutes * 60 * 1000);
+    }
+
     logger.info('Smart Wallet Scanner started', {
       cronSchedule: this.config.cronSchedule,
       minWallets: this.config.minWallets,
+      incrementalIntervalMinutes: this.config.incrementalEnabled ? this.config.incrementalIntervalMinutes : null,
     });
   }
 
@@ -144,6 +189,10 @@ export class SmartWalletScanner {
       clearInterval(this.cronInterval);
       this.cronInterval = null;
     }
+    if (this.incrementalInterval) {
+      clearInterval(this.incrementalInterval);
+      this.incrementalInterval = null;
+    }
     logger.info('Smart Wallet Scanner stopped');
   }
 
@@ -171,6 +220,10 @@ export class SmartWalletScanner {
     return false;
   }
 
+  isScanInProgress(): boolean {
+    return this.isScanning;
+  }
+
   /**
    * Manually trigger a scan
    */
@@ -186,8 +239,8 @@ export class SmartWalletScanner {
     try {
       logger.info('Starting smart wallet consensus scan...');
 
-      // 1. Load smart wallets
-      const wallets = await this.repository.getActiveWallets();
+      // 1. Load smart wallets (paused wallets sit out the scan)
+      const wallets = (await this.repository.getActiveWallets()).filter(w => !w.isPaused);
       if (wallets.length === 0) {
         logger.info('No smart wallets configured');
         return [];
@@ -195,20 +248,13 @@ export class SmartWalletScanner {
 
       logger.info(`Scanning ${wallets.length} smart wallets`);
 
-      // 2. Fetch positions for each wallet
-      const allPositions = await this.fetchAllWalletPositions(wallets);
-
-      // 3. Detect consensus signals
-      const detectorConfig: DetectorConfig = {
-        minWallets: this.config.minWallets,
-        minOrderValue: this.config.minOrderValue,
-        minPortfolioPercent: this.config.minPortfolioPercent,
-      };
+      // 2. Fetch positions for each wallet (and reseed the position index)
+      const failedWallets = new Set<string>();
+      const allPositions = await this.fetchAllWalletPositions(wallets, failedWallets);
+      this.pruneIndex(wallets);
 
-      const signals = detectConsensus(allPositions, detectorConfig);
-
-      // 4. Notify for new signals
-      await this.notifySignals(signals);
+      // 3-4. Detect consensus and divergence, then notify
+      const signals = await this.evaluateMarkets(allPositions, failedWallets);
 
       // 5. Update last scan time
       this.lastScanTime = new Date();
@@ -252,16 +298,169 @@ export class SmartWalletScanner {
     }
   }
 
+  /**
+   * Refresh only the wallets that traded since their last fetch and re-evaluate the
+   * markets whose positions changed. A wallet's latest trade is the change marker; the
+   * full scan on the cron schedule still rebuilds everything (and catches redemptions).
+   */
+  async scanIncremental(): Promise<ConsensusSignal[]> {
+    if (this.isScanning) return [];
+
+    this.isScanning = true;
+    const startTime = Date.now();
+
+    try {
+      const wallets = (await this.repository.getActiveWallets()).filter(w => !w.isPaused);
+      const affectedMarkets = new Set(this.pruneIndex(wallets));
+      let refreshed = 0;
+
+      for (const wallet of wallets) {
+        const marker = await this.getActivityMarker(wallet.address);
+        await this.delay(ACTIVITY_CHECK_DELAY_MS);
+
+        // Unchanged since the last fetch (an unknown marker always refetches)
+        if (marker !== undefined && this.positionIndex.has(wallet.address) &&
+            this.positionIndex.getMarker(wallet.address) === marker) {
+          continue;
+        }
+
+        try {
+          const positions = await this.fetchWalletPositions(wallet);
+          const changed = new Set(this.positionIndex.update(wallet.address, positions, marker));
+          changed.forEach(m => affectedMarkets.add(m));
+          // The full scan snapshots everything; here only positions that changed are written
+          await this.savePositionSnapshots(wallet, positions.filter(p => changed.has(p.conditionId)));
+          refreshed++;
+          await this.delay(this.config.scanDelayMs);
+        } catch (error) {
+          // Keeps the wallet's last indexed positions
+          logger.error('Failed to refresh positions for wallet', {
+            wallet: wallet.address,
+            alias: wallet.alias,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      this.lastIncrementalScanTime = new Date();
+      if (affectedMarkets.size === 0) return [];
+
+      // Indexed wallets have current (or last known) positions; the rest never fetched
+      const failedWallets = new Set(wallets
+        .filter(w => !this.positionIndex.has(w.address))
+        .map(w => w.address.toLowerCase()));
+      const signals = await this.evaluateMarkets(
+        this.positionIndex.getPositions(affectedMarkets),
+        failedWallets,
+        affectedMarkets
+      );
+
+      logger.info('Incremental consensus scan complete', {
+        walletsChecked: wallets.length,
+        walletsRefreshed: refreshed,
+        marketsAffected: affectedMarkets.size,
+        signalsDetected: signals.length,
+        durationMs: Date.now() - startTime,
+      });
+
+      return signals;
+    } catch (error) {
+      logger.error('Incremental consensus scan failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    } finally {
+      this.isScanning = false;
+    }
+  }
+
+  /**
+   * Detect consensus and divergence in the given positions and send every notification
+   * @param markets Limit lifecycle follow-ups to these markets (all when omitted)
+   */
+  private async evaluateMarkets(
+    positions: WalletPosition[],
+    failedWallets: Set<string>,
+    markets?: Set<string>
+  ): Promise<ConsensusSignal[]> {
+    const detectorConfig: DetectorConfig = {
+      minWallets: this.config.minWallets,
+      minOrderValue: this.config.minOrderValue,
+      minPortfolioPercent: this.config.minPortfolioPercent,
+      entryTiming: {
+        halfLifeDays: this.config.entryHalfLifeDays,
+        windowDays: this.config.entryWindowDays,
+      },
+    };
+
+    const divergenceConfig: DivergenceConfig = {
+      ...detectorConfig,
+      minWalletsPerSide: this.config.divergenceMinWallets,
+      minMinorityShare: this.config.divergenceMinSharePercent / 100,
+    };
+
+    const candidateMarkets = new Set([
+      ...findConsensusMarkets(positions, detectorConfig),
+      ...detectDivergence(positions, divergenceConfig).map(d => d.conditionId),
+    ]);
+    const marketCategories = await this.getMarketCategories(Array.from(candidateMarkets), positions);
+    await this.attachEntryDates(Array.from(candidateMarkets), positions);
+
+    const signals = detectConsensus(positions, detectorConfig, marketCategories);
+    const divergences = detectDivergence(positions, divergenceConfig, marketCategories);
+
+    // Notify for new signals, then follow-ups on existing ones and split markets
+    await this.notifySignals(signals);
+    await this.notifyLifecycleEvents(signals, positions, failedWallets, markets);
+    await this.notifyDivergences(divergences);
+
+    return signals;
+  }
+
+  /**
+   * Drop wallets that are no longer scanned from the position index
+   * @returns Markets they held positions in
+   */
+  private pruneIndex(wallets: SmartWallet[]): string[] {
+    const current = new Set(wallets.map(w => w.address.toLowerCase()));
+    return this.positionIndex.getWalletAddresses()
+      .filter(address => !current.has(address))
+      .flatMap(address => this.positionIndex.removeWallet(address));
+  }
+
+  /**
+   * Latest trade of a wallet as a change marker (undefined if it can't be fetched)
+   */
+  private async getActivityMarker(address: string): Promise<string | undefined> {
+    try {
+      const [latest] = await this.polymarketClient.getTradesFromDataAPI({ user: address, limit: 1 });
+      return latest ? `${latest.id || latest.hash}:${latest.timestamp}` : 'none';
+    } catch (error) {
+      logger.debug('Failed to fetch wallet activity', {
+        address,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
   /**
    * Fetch positions for all wallets
+   * @param failedWallets Filled with the (lowercase) addresses that failed to fetch
    */
-  private async fetchAllWalletPositions(wallets: SmartWallet[]): Promise<WalletPosition[]> {
+  private async fetchAllWalletPositions(
+    wallets: SmartWallet[],
+    failedWallets: Set<string>
+  ): Promise<WalletPosition[]> {
     const allPositions: WalletPosition[] = [];
 
     for (const wallet of wallets) {
       try {
         const positions = await this.fetchWalletPositions(wallet);
         allPositions.push(...positions);
+        await this.savePositionSnapshots(wallet, positions);
+        // Positions are at least as new as the last marker, so it still holds
+        this.positionIndex.update(wallet.address, positions, this.positionIndex.getMarker(wallet.address));
 
         // Delay between API calls to respect rate limits
         await this.delay(this.config.scanDelayMs);
@@ -271,6 +470,7 @@ export class SmartWalletScanner {
           alias: wallet.alias,
           error: error instanceof Error ? error.message : 'Unknown error',
         });
+        failedWallets.add(wallet.address.toLowerCase());
         // Continue with other wallets
       }
     }
@@ -304,6 +504,8 @@ export class SmartWalletScanner {
       noShares: number;
       yesValue: number;
       noValue: number;
+      yesPrice?: number;
+      noPrice?: number;
       marketTitle: string;
       marketSlug?: string;
     }>();
@@ -329,9 +531,11 @@ export class SmartWalletScanner {
       if (outcome === 'YES' || outcome === 'Y' || outcome === '1') {
         existing.yesShares += shares;
         existing.yesValue += value;
+        existing.yesPrice = pos.curPrice ?? existing.yesPrice;
       } else if (outcome === 'NO' || outcome === 'N' || outcome === '0') {
         existing.noShares += shares;
         existing.noValue += value;
+        existing.noPrice = pos.curPrice ?? existing.noPrice;
       }
 
       byCondition.set(conditionId, existing);
@@ -351,6 +555,10 @@ export class SmartWalletScanner {
       const absValue = Math.abs(netValue);
       const portfolioPercent = portfolioValue > 0 ? (absValue / portfolioValue) * 100 : 0;
 
+      // Values are at cost, so value / shares is the average entry price of the side
+      const sideShares = side === 'YES' ? data.yesShares : data.noShares;
+      const sideValue = side === 'YES' ? data.yesValue : data.noValue;
+
       positions.push({
         walletId: wallet.id,
         walletAddress: wallet.address,
@@ -367,30 +575,137 @@ export class SmartWalletScanner {
         portfolioValue,
         portfolioPercent,
         side,
+        expertise: {
+          category: wallet.category,
+          categoryRank: wallet.categoryRank,
+          pnl: wallet.pnl,
+        },
+        entry: {
+          entryPrice: sideShares > 0 ? sideValue / sideShares : undefined,
+          currentPrice: side === 'YES' ? data.yesPrice : data.noPrice,
+        },
       });
+    }
 
-      // Save snapshot to database (optional, for historical tracking)
+    return positions;
+  }
+
+  /**
+   * Save today's snapshot of positions (for historical tracking and entry dates)
+   */
+  private async savePositionSnapshots(wallet: SmartWallet, positions: WalletPosition[]): Promise<void> {
+    for (const position of positions) {
       try {
         await this.repository.savePositionSnapshot({
           walletId: wallet.id,
           walletAddress: wallet.address,
           walletAlias: wallet.alias,
-          conditionId,
-          marketTitle: data.marketTitle,
-          marketSlug: data.marketSlug,
-          yesShares: data.yesShares,
-          noShares: data.noShares,
-          yesValue: data.yesValue,
-          noValue: data.noValue,
+          conditionId: position.conditionId,
+          marketTitle: position.marketTitle,
+          marketSlug: position.marketSlug,
+          yesShares: position.yesShares,
+          noShares: position.noShares,
+          yesValue: position.yesValue,
+          noValue: position.noValue,
           snapshotDate: new Date(),
         });
       } catch (error) {
         // Non-critical, continue
-        logger.debug('Failed to save position snapshot', { conditionId, error });
+        logger.debug('Failed to save position snapshot', { conditionId: position.conditionId, error });
       }
     }
+  }
 
-    return positions;
+  /**
+   * Look up the category of each candidate market so wallet expertise can be weighted
+   * Falls back to the market title when the condition can't be fetched
+   */
+  private async getMarketCategories(
+    conditionIds: string[],
+    positions: WalletPosition[]
+  ): Promise<Map<string, string | null>> {
+    const categories = new Map<string, string | null>();
+
+    for (const conditionId of conditionIds) {
+      const title = positions.find(p => p.conditionId === conditionId)?.marketTitle;
+
+      try {
+        const condition = await this.polymarketClient.getCondition(conditionId);
+        categories.set(conditionId, getMarketCategory({
+          category: condition.category,
+          tags: condition.tags,
+          title: condition.question || title,
+        }));
+      } catch (error) {
+        logger.debug('Failed to fetch market category, using title', {
+          conditionId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        categories.set(conditionId, getMarketCategory({ title }));
+      }
+    }
+
+    return categories;
+  }
+
+  /**
+   * Date each position in the candidate markets was entered, from the daily snapshots
+   * A holding that reaches back past the lookback counts as entered at its start; one that
+   * reaches back to the wallet's first snapshot inside the lookback is left unknown.
+   */
+  private async attachEntryDates(conditionIds: string[], positions: WalletPosition[]): Promise<void> {
+    const { history, trackedSince } = await this.repository.getSnapshotHistory(conditionIds, ENTRY_LOOKBACK_DAYS);
+    const lookbackStart = new Date(Date.now() - ENTRY_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const markets = new Set(conditionIds);
+
+    for (const position of positions) {
+      if (!markets.has(position.conditionId) || position.side === 'NEUTRAL') continue;
+
+      const points = history.get(`${position.walletId}:${position.conditionId}`);
+      if (!points) continue;
+
+      const firstSnapshot = trackedSince.get(position.walletId);
+      position.entry = {
+        ...position.entry,
+        enteredAt: findEntryDate(
+          points,
+          position.side,
+          firstSnapshot && firstSnapshot > lookbackStart ? firstSnapshot : undefined
+        ),
+      };
+    }
+  }
+
+  /**
+   * Fetch the current market data shown on a consensus notification
+   * Each source is optional; the card shows whatever could be fetched.
+   */
+  private async getMarketContext(signal: ConsensusSignal): Promise<MarketContext> {
+    const now = new Date();
+    const [condition, orderBook, history] = await Promise.allSettled([
+      this.polymarketClient.getCondition(signal.conditionId),
+      this.polymarketClient.getOrderBook(signal.conditionId),
+      this.polymarketClient.getPriceHistory(signal.conditionId, {
+        interval: '1h',
+        startTime: new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString(),
+        endTime: now.toISOString(),
+      }),
+    ]);
+
+    if ([condition, orderBook, history].some(r => r.status === 'rejected')) {
+      logger.debug('Some market data unavailable for consensus notification', {
+        conditionId: signal.conditionId,
+        condition: condition.status,
+        orderBook: orderBook.status,
+        history: history.status,
+      });
+    }
+
+    return buildMarketContext(signal, {
+      condition: condition.status === 'fulfilled' ? condition.value : null,
+      orderBook: orderBook.status === 'fulfilled' ? orderBook.value : null,
+      history: history.status === 'fulfilled' ? history.value?.data : undefined,
+    });
   }
 
   /**
@@ -406,6 +721,9 @@ export class SmartWalletScanner {
       return;
     }
 
+    // Chats without a filter receive every signal
+    const filters = await this.repository.getConsensusFilters();
+
     for (const signal of signals) {
       // Check if already notified today
       const alreadyNotified = await this.repository.isAlreadyNotified(
@@ -434,6 +752,7 @@ export class SmartWalletScanner {
           address: w.address,
           value: w.value,
           shares: w.shares,
+          weight: w.weight,
         })),
       });
 
@@ -442,14 +761,23 @@ export class SmartWalletScanner {
         continue;
       }
 
-      // Format and broadcast notification to all non-muted users
-      const message = formatConsensusNotification(signal);
+      // Start the signal's track record at the current price
+      await getSignalPerformanceTracker()?.recordEntry(signalId, signal);
+
+      // Format and broadcast notification to all non-muted users whose filter it passes
+      const context = await this.getMarketContext(signal);
+      const message = formatConsensusNotification(signal, context);
+      const keyboard = buildConsensusKeyboard(signalId, signal);
 
       for (const chatId of broadcastChats) {
+        const filter = filters.get(chatId);
+        if (filter && !matchesConsensusFilter(signal, filter)) continue;
+
         try {
           await this.bot.telegram.sendMessage(chatId, message, {
             parse_mode: 'Markdown',
             link_preview_options: { is_disabled: true },
+            reply_markup: keyboard,
           });
 
           logger.info('Sent consensus notification', {
@@ -471,6 +799,130 @@ export class SmartWalletScanner {
     }
   }
 
+  /**
+   * Broadcast markets where smart money is split (once per market per day) to the chats
+   * whose filter they pass
+   */
+  private async notifyDivergences(divergences: DivergenceSignal[]): Promise<void> {
+    if (divergences.length === 0) return;
+
+    const broadcastChats = await this.getBroadcastChatIds();
+    const filters = await this.repository.getConsensusFilters();
+
+    for (const divergence of divergences) {
+      const signalId = await this.repository.saveDivergenceSignal(divergence);
+      if (!signalId) {
+        // Already notified today or failed to save
+        continue;
+      }
+
+      const message = formatDivergenceNotification(divergence);
+      let sent = 0;
+
+      for (const chatId of broadcastChats) {
+        const filter = filters.get(chatId);
+        if (filter && !matchesDivergenceFilter(divergence, filter)) continue;
+
+        try {
+          await this.bot.telegram.sendMessage(chatId, message, {
+            parse_mode: 'Markdown',
+            link_preview_options: { is_disabled: true },
+          });
+          sent++;
+        } catch (error) {
+          logger.error('Failed to send divergence notification', {
+            chatId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      logger.info('Sent divergence notification', {
+        conditionId: divergence.conditionId,
+        capitalRatio: divergence.capitalRatio,
+        chats: sent,
+      });
+
+      await this.repository.markDivergenceNotified(signalId);
+    }
+  }
+
+  /**
+   * Diff this scan against the previous one, persist the new state and broadcast
+   * strengthening, weakening and dissolution of existing consensus to the chats whose
+   * filter they pass
+   */
+  private async notifyLifecycleEvents(
+    signals: ConsensusSignal[],
+    positions: WalletPosition[],
+    failedWallets: Set<string>,
+    markets?: Set<string>
+  ): Promise<void> {
+    const previous = (await this.repository.getActiveConsensusStates())
+      .filter(state => !markets || markets.has(state.conditionId));
+    const events = diffConsensus(previous, signals, positions, {
+      valueChangePercent: this.config.valueChangePercent,
+      failedWallets,
+    });
+
+    // Consensus with wallets that failed to fetch keeps its previous state
+    const previousByKey = new Map(previous.map(s => [`${s.conditionId}:${s.side}`, s]));
+    for (const signal of signals) {
+      const state = previousByKey.get(`${signal.conditionId}:${signal.side}`);
+      if (state && hasFailedWallet(state, failedWallets)) continue;
+      await this.repository.saveConsensusState(toConsensusState(signal));
+    }
+
+    for (const event of events) {
+      if (event.type === 'DISSOLVED') {
+        await this.repository.dissolveConsensusState(event.conditionId, event.side);
+      }
+    }
+
+    if (events.length === 0) return;
+
+    // A dissolved consensus has no signal to take its category from
+    const dissolved = events.filter(e => e.type === 'DISSOLVED').map(e => e.conditionId);
+    const categories = await this.getMarketCategories(Array.from(new Set(dissolved)), positions);
+    for (const event of events) {
+      if (event.type === 'DISSOLVED') event.marketCategory = categories.get(event.conditionId) || undefined;
+    }
+
+    const broadcastChats = await this.getBroadcastChatIds();
+    const filters = await this.repository.getConsensusFilters();
+
+    for (const event of events) {
+      const message = formatConsensusLifecycleNotification(event);
+      let sent = 0;
+
+      for (const chatId of broadcastChats) {
+        const filter = filters.get(chatId);
+        if (filter && !matchesConsensusEventFilter(event, filter)) continue;
+
+        try {
+          await this.bot.telegram.sendMessage(chatId, message, {
+            parse_mode: 'Markdown',
+            link_preview_options: { is_disabled: true },
+          });
+          sent++;
+        } catch (error) {
+          logger.error('Failed to send consensus update', {
+            chatId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      logger.info('Sent consensus update', {
+        type: event.type,
+        conditionId: event.conditionId,
+        side: event.side,
+        walletCount: event.walletCount,
+        chats: sent,
+      });
+    }
+  }
+
   /**
    * Get scanner status
    */
@@ -478,6 +930,8 @@ export class SmartWalletScanner {
     enabled: boolean;
     isScanning: boolean;
     lastScanTime: Date | null;
+    lastIncrementalScanTime: Date | null;
+    indexedWallets: number;
     mutedChats: number;
     config: ScannerConfig;
   } {
@@ -485,6 +939,8 @@ export class SmartWalletScanner {
       enabled: this.config.enabled,
       isScanning: this.isScanning,
       lastScanTime: this.lastScanTime,
+      lastIncrementalScanTime: this.lastIncrementalScanTime,
+      indexedWallets: this.positionIndex.size,
       mutedChats: this.mutedChats.size,
       config: this.config,
     };
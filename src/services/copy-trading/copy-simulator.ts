@@ -0,0 +1,126 @@
+/**
+ * Copy Simulator
+ * Sizes mirrored orders and fills them against order book depth (slippage + fees)
+ */
+
+import { PositionChange } from '@/services/wallet-tracker/position-diff-detector';
+
+export interface BookLevel {
+  price: number | string; // CLOB returns decimal strings
+  size: number | string;
+}
+
+export interface OrderBookDepth {
+  bids: BookLevel[];
+  asks: BookLevel[];
+}
+
+export interface MirrorOrder {
+  side: 'BUY' | 'SELL';
+  shares: number;
+}
+
+export interface SimulatedFill {
+  side: 'BUY' | 'SELL';
+  shares: number;
+  price: number;        // volume-weighted fill price before fees
+  slippageBps: number;  // vs the source's fill price, positive = worse
+  fee: number;
+  priceSource: 'book' | 'source';
+}
+
+// Orders below this many shares are skipped (dust from small ratios)
+export const MIN_MIRROR_SHARES = 0.01;
+
+/**
+ * Size the order that mirrors a source change
+ * Buys scale by the copy ratio; sells scale too but never exceed what the paper
+ * portfolio holds, and a full close sells everything held
+ * @returns null when there is nothing to mirror
+ */
+export function getMirrorOrder(change: PositionChange, ratio: number, heldShares: number): MirrorOrder | null {
+  let order: MirrorOrder;
+
+  if (change.type === 'BUY' || change.type === 'NEW') {
+    order = { side: 'BUY', shares: Math.abs(change.deltaShares) * ratio };
+  } else if (change.type === 'CLOSED') {
+    order = { side: 'SELL', shares: heldShares };
+  } else {
+    order = { side: 'SELL', shares: Math.min(heldShares, Math.abs(change.deltaShares) * ratio) };
+  }
+
+  return order.shares >= MIN_MIRROR_SHARES ? order : null;
+}
+
+/**
+ * Fill an order by walking the book (buys lift asks, sells hit bids)
+ * Fills only as much as the book holds; with no usable book the order fills at
+ * the source's price without slippage
+ * @param referencePrice The source wallet's fill price
+ * @param feeBps Fee on notional, in basis points
+ */
+export function simulateFill(
+  order: MirrorOrder,
+  book: OrderBookDepth | null,
+  referencePrice: number,
+  feeBps: number
+): SimulatedFill {
+  const levels = getLevels(order.side, book);
+
+  let filled = 0;
+  let notional = 0;
+  for (const level of levels) {
+    if (filled >= order.shares) break;
+    const take = Math.min(level.size, order.shares - filled);
+    filled += take;
+    notional += take * level.price;
+  }
+
+  if (filled < MIN_MIRROR_SHARES) {
+    return {
+      side: order.side,
+      shares: order.shares,
+      price: referencePrice,
+      slippageBps: 0,
+      fee: (order.shares * referencePrice * feeBps) / 10000,
+      priceSource: 'source',
+    };
+  }
+
+  const price = notional / filled;
+  const slippage = order.side === 'BUY' ? price - referencePrice : referencePrice - price;
+
+  return {
+    side: order.side,
+    shares: filled,
+    price,
+    slippageBps: referencePrice > 0 ? (slippage / referencePrice) * 10000 : 0,
+    fee: (notional * feeBps) / 10000,
+    priceSource: 'book',
+  };
+}
+
+/**
+ * Parse a copy ratio such as "10%" or "10" (percent of the source's size)
+ * @returns Ratio as a fraction, or null if invalid
+ */
+export function parseCopyRatio(input?: string): number | null {
+  const match = (input || '').trim().match(/^(\d+(?:\.\d+)?)%?$/);
+  if (!match) return null;
+
+  const percent = parseFloat(match[1]);
+  if (!(percent > 0) || percent > 500) return null;
+  return percent / 100;
+}
+
+/**
+ * Book side an order consumes, best price first, ignoring malformed levels
+ */
+function getLevels(side: MirrorOrder['side'], book: OrderBookDepth | null): Array<{ price: number; size: number }> {
+  const raw = side === 'BUY' ? book?.asks : book?.bids;
+
+  return (Array.isArray(raw) ? raw : [])
+    .map(level => ({ price: Number(level.price), size: Number(level.size) }))
+    .filter(level => level.price > 0 && level.price < 1 && level.size > 0)
+    .sort((a, b) => (side === 'BUY' ? a.price - b.price : b.price - a.price));
+}
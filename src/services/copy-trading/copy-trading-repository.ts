@@ -0,0 +1,400 @@
+/**
+ * Copy Trading Repository
+ * PostgreSQL persistence for paper copy portfolios and their simulated fills
+ */
+
+import { query } from '@/services/database/connection-pool';
+import { logger } from '@/utils/logger';
+
+export interface CopyPortfolio {
+  id: string;
+  telegramId: number;
+  sourceWallet: string;
+  ratio: number; // fraction of the source's size
+  isActive: boolean;
+  isTracked: boolean; // fills are only mirrored while the user tracks the source
+  startedAt: Date;
+  stoppedAt?: Date;
+  tradeCount: number;
+}
+
+export interface CopyTradeRecord {
+  portfolioId: string;
+  sourceTradeId?: string;
+  conditionId: string;
+  outcome: string;
+  asset?: string;
+  title: string;
+  eventSlug: string;
+  side: 'BUY' | 'SELL';
+  sourceShares: number;
+  sourcePrice: number;
+  shares: number;
+  fillPrice: number;
+  slippageBps: number;
+  fee: number;
+  priceSource: 'book' | 'source';
+  occurredAt: Date;
+}
+
+interface CopyPortfolioRow {
+  id: string;
+  telegram_id: string;
+  source_wallet: string;
+  copy_ratio: string;
+  is_active: boolean;
+  is_tracked: boolean;
+  started_at: Date;
+  stopped_at: Date | null;
+  trade_count: string;
+}
+
+interface CopyTradeRow {
+  portfolio_id: string;
+  source_trade_id: string | null;
+  condition_id: string;
+  outcome: string;
+  asset: string | null;
+  market_title: string | null;
+  event_slug: string | null;
+  side: 'BUY' | 'SELL';
+  source_shares: string;
+  source_price: string;
+  shares: string;
+  fill_price: string;
+  slippage_bps: string;
+  fee: string;
+  price_source: 'book' | 'source';
+  occurred_at: Date;
+}
+
+// Shared SELECT for portfolios with tracking state and fill count
+const PORTFOLIO_SELECT = `
+  SELECT cp.id, u.telegram_id, cp.source_wallet, cp.copy_ratio, cp.is_active,
+         cp.started_at, cp.stopped_at,
+         EXISTS (
+           SELECT 1 FROM tracked_wallets tw
+           WHERE tw.user_id = cp.user_id AND tw.wallet_address = cp.source_wallet AND tw.is_active = true
+         ) AS is_tracked,
+         (SELECT COUNT(*) FROM copy_trades ct WHERE ct.portfolio_id = cp.id) AS trade_count
+  FROM copy_portfolios cp
+  JOIN users u ON cp.user_id = u.id`;
+
+/**
+ * CopyTradingRepository
+ * Handles PostgreSQL persistence for copy trading
+ */
+export class CopyTradingRepository {
+  /**
+   * Start mirroring a wallet, or change the ratio of an active portfolio
+   */
+  async startPortfolio(
+    telegramId: number,
+    sourceWallet: string,
+    ratio: number,
+    maxPortfolios: number
+  ): Promise<{ success: boolean; message: string; portfolio?: CopyPortfolio }> {
+    const normalizedWallet = sourceWallet.toLowerCase();
+    const shortAddr = `${normalizedWallet.slice(0, 6)}...${normalizedWallet.slice(-4)}`;
+
+    try {
+      const users = await query<{ id: string }>(
+        'SELECT id FROM users WHERE telegram_id = $1',
+        [telegramId]
+      );
+      if (users.length === 0) {
+        return { success: false, message: 'Track the wallet with /track first.' };
+      }
+      const userId = users[0].id;
+
+      const updated = await query<{ id: string }>(
+        `UPDATE copy_portfolios SET copy_ratio = $3, updated_at = NOW()
+         WHERE user_id = $1 AND source_wallet = $2 AND is_active = true
+         RETURNING id`,
+        [userId, normalizedWallet, ratio]
+      );
+
+      if (updated.length === 0) {
+        const countResult = await query<{ count: string }>(
+          'SELECT COUNT(*) as count FROM copy_portfolios WHERE user_id = $1 AND is_active = true',
+          [userId]
+        );
+
+        if (parseInt(countResult[0].count) >= maxPortfolios) {
+          return {
+            success: false,
+            message: `Maximum ${maxPortfolios} copy portfolios per user. Stop one first.`,
+          };
+        }
+
+        await query(
+          `INSERT INTO copy_portfolios (user_id, source_wallet, copy_ratio, is_active, started_at, updated_at)
+           VALUES ($1, $2, $3, true, NOW(), NOW())`,
+          [userId, normalizedWallet, ratio]
+        );
+      }
+
+      logger.info('Started copy portfolio', { telegramId, wallet: normalizedWallet, ratio });
+
+      const portfolio = await this.getPortfolio(telegramId, normalizedWallet);
+      const percent = +(ratio * 100).toFixed(2);
+      return {
+        success: true,
+        message: updated.length > 0
+          ? `Now copying ${shortAddr} at ${percent}%.`
+          : `Started copying ${shortAddr} at ${percent}%.`,
+        portfolio: portfolio || undefined,
+      };
+    } catch (error) {
+      logger.error('Failed to start copy portfolio', {
+        telegramId,
+        wallet: normalizedWallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { success: false, message: 'Failed to start copying. Please try again.' };
+    }
+  }
+
+  /**
+   * Stop mirroring a wallet (the portfolio and its log are kept)
+   */
+  async stopPortfolio(telegramId: number, sourceWallet: string): Promise<boolean> {
+    const normalizedWallet = sourceWallet.toLowerCase();
+
+    try {
+      const result = await query<{ id: string }>(
+        `UPDATE copy_portfolios cp
+         SET is_active = false, stopped_at = NOW(), updated_at = NOW()
+         FROM users u
+         WHERE cp.user_id = u.id
+           AND u.telegram_id = $1
+           AND cp.source_wallet = $2
+           AND cp.is_active = true
+         RETURNING cp.id`,
+        [telegramId, normalizedWallet]
+      );
+
+      if (result.length === 0) {
+        return false;
+      }
+
+      logger.info('Stopped copy portfolio', { telegramId, wallet: normalizedWallet });
+      return true;
+    } catch (error) {
+      logger.error('Failed to stop copy portfolio', {
+        telegramId,
+        wallet: normalizedWallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get a user's portfolios: active ones plus the latest stopped one per wallet
+   */
+  async getUserPortfolios(telegramId: number): Promise<CopyPortfolio[]> {
+    try {
+      const results = await query<CopyPortfolioRow>(
+        `SELECT * FROM (
+           SELECT DISTINCT ON (p.source_wallet) p.* FROM (${PORTFOLIO_SELECT}
+             WHERE u.telegram_id = $1
+           ) p
+           ORDER BY p.source_wallet, p.is_active DESC, p.started_at DESC
+         ) latest
+         ORDER BY latest.is_active DESC, latest.started_at DESC`,
+        [telegramId]
+      );
+
+      return results.map(r => this.mapPortfolio(r));
+    } catch (error) {
+      logger.error('Failed to get copy portfolios', {
+        telegramId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get a user's portfolio for a wallet (the active one, else the latest stopped one)
+   */
+  async getPortfolio(telegramId: number, sourceWallet: string): Promise<CopyPortfolio | null> {
+    try {
+      const results = await query<CopyPortfolioRow>(
+        `${PORTFOLIO_SELECT}
+         WHERE u.telegram_id = $1 AND cp.source_wallet = $2
+         ORDER BY cp.is_active DESC, cp.started_at DESC
+         LIMIT 1`,
+        [telegramId, sourceWallet.toLowerCase()]
+      );
+
+      return results.length > 0 ? this.mapPortfolio(results[0]) : null;
+    } catch (error) {
+      logger.error('Failed to get copy portfolio', {
+        telegramId,
+        wallet: sourceWallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Get active portfolios mirroring a wallet whose owners still track it
+   */
+  async getActivePortfoliosForWallet(sourceWallet: string): Promise<CopyPortfolio[]> {
+    try {
+      const results = await query<CopyPortfolioRow>(
+        `SELECT * FROM (${PORTFOLIO_SELECT}
+           WHERE cp.source_wallet = $1 AND cp.is_active = true
+         ) p
+         WHERE p.is_tracked`,
+        [sourceWallet.toLowerCase()]
+      );
+
+      return results.map(r => this.mapPortfolio(r));
+    } catch (error) {
+      logger.error('Failed to get copy portfolios for wallet', {
+        wallet: sourceWallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Shares a portfolio currently holds in a position
+   */
+  async getHeldShares(portfolioId: string, conditionId: string, outcome: string): Promise<number> {
+    try {
+      const results = await query<{ held: string | null }>(
+        `SELECT SUM(CASE WHEN side = 'BUY' THEN shares ELSE -shares END) AS held
+         FROM copy_trades
+         WHERE portfolio_id = $1 AND condition_id = $2 AND outcome = $3`,
+        [portfolioId, conditionId, outcome]
+      );
+
+      return Math.max(0, parseFloat(results[0]?.held || '0'));
+    } catch (error) {
+      logger.error('Failed to get copy position', {
+        portfolioId,
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Record a simulated fill (no-op if the source fill was already mirrored)
+   */
+  async recordTrade(trade: CopyTradeRecord): Promise<boolean> {
+    try {
+      const results = await query<{ id: string }>(
+        `INSERT INTO copy_trades
+           (portfolio_id, source_trade_id, condition_id, outcome, asset, market_title, event_slug,
+            side, source_shares, source_price, shares, fill_price, slippage_bps, fee, price_source, occurred_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+         ON CONFLICT (portfolio_id, source_trade_id) WHERE source_trade_id IS NOT NULL DO NOTHING
+         RETURNING id`,
+        [
+          trade.portfolioId,
+          trade.sourceTradeId || null,
+          trade.conditionId,
+          trade.outcome,
+          trade.asset || null,
+          trade.title,
+          trade.eventSlug,
+          trade.side,
+          trade.sourceShares,
+          trade.sourcePrice,
+          trade.shares,
+          trade.fillPrice,
+          trade.slippageBps,
+          trade.fee,
+          trade.priceSource,
+          trade.occurredAt,
+        ]
+      );
+
+      return results.length > 0;
+    } catch (error) {
+      logger.error('Failed to record copy trade', {
+        portfolioId: trade.portfolioId,
+        sourceTradeId: trade.sourceTradeId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get a portfolio's simulated fills, oldest first (or newest first with a limit)
+   */
+  async getTrades(portfolioId: string, options: { limit?: number; offset?: number } = {}): Promise<CopyTradeRecord[]> {
+    try {
+      const results = options.limit
+        ? await query<CopyTradeRow>(
+          `SELECT * FROM copy_trades WHERE portfolio_id = $1
+           ORDER BY occurred_at DESC, created_at DESC
+           LIMIT $2 OFFSET $3`,
+          [portfolioId, options.limit, options.offset || 0]
+        )
+        : await query<CopyTradeRow>(
+          `SELECT * FROM copy_trades WHERE portfolio_id = $1
+           ORDER BY occurred_at ASC, created_at ASC`,
+          [portfolioId]
+        );
+
+      return results.map(r => ({
+        portfolioId: r.portfolio_id,
+        sourceTradeId: r.source_trade_id || undefined,
+        conditionId: r.condition_id,
+        outcome: r.outcome,
+        asset: r.asset || undefined,
+        title: r.market_title || r.condition_id,
+        eventSlug: r.event_slug || '',
+        side: r.side,
+        sourceShares: parseFloat(r.source_shares),
+        sourcePrice: parseFloat(r.source_price),
+        shares: parseFloat(r.shares),
+        fillPrice: parseFloat(r.fill_price),
+        slippageBps: parseFloat(r.slippage_bps),
+        fee: parseFloat(r.fee),
+        priceSource: r.price_source,
+        occurredAt: new Date(r.occurred_at),
+      }));
+    } catch (error) {
+      logger.error('Failed to get copy trades', {
+        portfolioId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  private mapPortfolio(row: CopyPortfolioRow): CopyPortfolio {
+    return {
+      id: row.id,
+      telegramId: Number(row.telegram_id),
+      sourceWallet: row.source_wallet,
+      ratio: parseFloat(row.copy_ratio),
+      isActive: row.is_active,
+      isTracked: row.is_tracked,
+      startedAt: new Date(row.started_at),
+      stoppedAt: row.stopped_at ? new Date(row.stopped_at) : undefined,
+      tradeCount: parseInt(row.trade_count),
+    };
+  }
+}
+
+// Singleton instance
+let repositoryInstance: CopyTradingRepository | null = null;
+
+export function getCopyTradingRepository(): CopyTradingRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new CopyTradingRepository();
+  }
+  return repositoryInstance;
+}
@@ -0,0 +1,280 @@
+/**
+ * Copy Trading Service
+ * Mirrors tracked wallets' position changes into paper portfolios and reports
+ * their PnL against the source wallet
+ */
+
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+import { PositionChange } from '@/services/wallet-tracker/position-diff-detector';
+import {
+  MarketResolutionRepository,
+  PnlResolution,
+  PnlTrade,
+  WalletPnlReport,
+  calculateWalletPnl,
+  getMarketResolutionRepository,
+  resolutionFromPosition,
+  toPnlTrades,
+} from '@/services/pnl';
+import { PolymarketTransaction } from '@/types/polymarket';
+import { logger } from '@/utils/logger';
+import { config } from '@/config';
+import { OrderBookDepth, getMirrorOrder, simulateFill } from './copy-simulator';
+import {
+  CopyPortfolio,
+  CopyTradeRecord,
+  CopyTradingRepository,
+  getCopyTradingRepository,
+} from './copy-trading-repository';
+
+export interface CopyPortfolioReport {
+  portfolio: CopyPortfolio;
+  report: WalletPnlReport;        // paper portfolio
+  sourceReport: WalletPnlReport;  // source fills since the start, scaled by the ratio
+  totalFees: number;
+  avgSlippageBps: number;         // weighted by notional
+  calculatedAt: Date;
+}
+
+// Source history paging for the comparison report
+const SOURCE_TRADE_PAGE_SIZE = 500;
+const MAX_SOURCE_TRADE_PAGES = 4;
+
+/**
+ * CopyTradingService
+ * Paper-trades tracked wallets at a fixed ratio of their size
+ */
+export class CopyTradingService {
+  private restClient: PolymarketRestClient;
+  private repository: CopyTradingRepository;
+  private resolutionRepository: MarketResolutionRepository;
+
+  constructor(restClient: PolymarketRestClient) {
+    this.restClient = restClient;
+    this.repository = getCopyTradingRepository();
+    this.resolutionRepository = getMarketResolutionRepository();
+  }
+
+  async startCopying(
+    telegramId: number,
+    sourceWallet: string,
+    ratio: number
+  ): Promise<{ success: boolean; message: string; portfolio?: CopyPortfolio }> {
+    return this.repository.startPortfolio(
+      telegramId,
+      sourceWallet,
+      ratio,
+      config.copyTrading.maxPortfoliosPerUser
+    );
+  }
+
+  async stopCopying(telegramId: number, sourceWallet: string): Promise<boolean> {
+    return this.repository.stopPortfolio(telegramId, sourceWallet);
+  }
+
+  async getPortfolios(telegramId: number): Promise<CopyPortfolio[]> {
+    return this.repository.getUserPortfolios(telegramId);
+  }
+
+  async getTradeLog(
+    telegramId: number,
+    sourceWallet: string,
+    limit: number,
+    offset = 0
+  ): Promise<{ portfolio: CopyPortfolio; trades: CopyTradeRecord[] } | null> {
+    const portfolio = await this.repository.getPortfolio(telegramId, sourceWallet);
+    if (!portfolio) return null;
+
+    const trades = await this.repository.getTrades(portfolio.id, { limit, offset });
+    return { portfolio, trades };
+  }
+
+  /**
+   * Mirror a wallet's new position changes into every portfolio copying it
+   * Called once per change (the tracker dedupes streamed and polled fills)
+   */
+  async handleChanges(sourceWallet: string, changes: PositionChange[]): Promise<void> {
+    const portfolios = await this.repository.getActivePortfoliosForWallet(sourceWallet);
+    if (portfolios.length === 0 || changes.length === 0) return;
+
+    for (const change of changes) {
+      // One book read per change, shared by every portfolio
+      const book = await this.fetchOrderBook(change);
+
+      for (const portfolio of portfolios) {
+        try {
+          await this.mirrorChange(portfolio, change, book);
+        } catch (error) {
+          logger.error('Failed to mirror position change', {
+            portfolioId: portfolio.id,
+            wallet: sourceWallet,
+            tradeId: change.tradeId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * PnL of a paper portfolio next to the source wallet's PnL over the same period
+   */
+  async getPortfolioReport(telegramId: number, sourceWallet: string): Promise<CopyPortfolioReport | null> {
+    const portfolio = await this.repository.getPortfolio(telegramId, sourceWallet);
+    if (!portfolio) return null;
+
+    const [copyTrades, sourceTransactions, positions] = await Promise.all([
+      this.repository.getTrades(portfolio.id),
+      this.fetchSourceTrades(portfolio),
+      this.restClient.getPositionsFromDataAPI({ user: portfolio.sourceWallet, limit: 500, sizeThreshold: 0 }),
+    ]);
+
+    // Copying stops at stoppedAt; compare against the source over the same window
+    const windowEnd = portfolio.stoppedAt ? portfolio.stoppedAt.getTime() : Infinity;
+    const sourceTrades = toPnlTrades(sourceTransactions)
+      .filter(t => t.timestamp >= portfolio.startedAt.getTime() && t.timestamp <= windowEnd)
+      .map(t => ({ ...t, size: t.size * portfolio.ratio, fee: (t.fee || 0) * portfolio.ratio }))
+      .reverse();
+
+    const paperTrades: PnlTrade[] = copyTrades.map(t => ({
+      conditionId: t.conditionId,
+      outcome: t.outcome,
+      side: t.side,
+      size: t.shares,
+      price: t.fillPrice,
+      timestamp: t.occurredAt.getTime(),
+      fee: t.fee,
+      title: t.title,
+      eventSlug: t.eventSlug,
+    }));
+
+    const marks = new Map<string, number>();
+    const observedResolutions: PnlResolution[] = [];
+    for (const position of Array.isArray(positions) ? positions : []) {
+      if (position.curPrice !== undefined) {
+        marks.set(`${position.conditionId}:${position.outcome}`, position.curPrice);
+      }
+      const resolution = resolutionFromPosition(position);
+      if (resolution) observedResolutions.push(resolution);
+    }
+
+    const conditionIds = Array.from(new Set([...paperTrades, ...sourceTrades].map(t => t.conditionId)));
+    const storedResolutions = await this.resolutionRepository.getResolutions(conditionIds);
+    const resolutions = [
+      ...storedResolutions,
+      ...observedResolutions.filter(r => !storedResolutions.some(s => s.conditionId === r.conditionId)),
+    ];
+
+    const notional = copyTrades.reduce((sum, t) => sum + t.shares * t.fillPrice, 0);
+    const weightedSlippage = copyTrades.reduce((sum, t) => sum + t.slippageBps * t.shares * t.fillPrice, 0);
+
+    return {
+      portfolio,
+      report: calculateWalletPnl(paperTrades, { marks, resolutions }),
+      sourceReport: calculateWalletPnl(sourceTrades, { marks, resolutions }),
+      totalFees: copyTrades.reduce((sum, t) => sum + t.fee, 0),
+      avgSlippageBps: notional > 0 ? weightedSlippage / notional : 0,
+      calculatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Size, fill and record one change for one portfolio
+   */
+  private async mirrorChange(
+    portfolio: CopyPortfolio,
+    change: PositionChange,
+    book: OrderBookDepth | null
+  ): Promise<void> {
+    const held = change.type === 'BUY' || change.type === 'NEW'
+      ? 0
+      : await this.repository.getHeldShares(portfolio.id, change.conditionId, change.outcome);
+
+    const order = getMirrorOrder(change, portfolio.ratio, held);
+    if (!order) return;
+
+    const fill = simulateFill(order, book, change.price, config.copyTrading.feeBps);
+
+    const recorded = await this.repository.recordTrade({
+      portfolioId: portfolio.id,
+      sourceTradeId: change.tradeId,
+      conditionId: change.conditionId,
+      outcome: change.outcome,
+      asset: change.asset,
+      title: change.title,
+      eventSlug: change.eventSlug,
+      side: fill.side,
+      sourceShares: Math.abs(change.deltaShares),
+      sourcePrice: change.price,
+      shares: fill.shares,
+      fillPrice: fill.price,
+      slippageBps: fill.slippageBps,
+      fee: fill.fee,
+      priceSource: fill.priceSource,
+      occurredAt: new Date(change.timestamp || Date.now()),
+    });
+
+    if (recorded) {
+      logger.debug('Mirrored position change', {
+        portfolioId: portfolio.id,
+        side: fill.side,
+        shares: fill.shares,
+        price: fill.price,
+        slippageBps: Math.round(fill.slippageBps),
+      });
+    }
+  }
+
+  /**
+   * Current book for the traded outcome token, or null to fill at the source's price
+   */
+  private async fetchOrderBook(change: PositionChange): Promise<OrderBookDepth | null> {
+    try {
+      // Books are per outcome token, not per market
+      return await this.restClient.getOrderBook(change.asset || change.conditionId);
+    } catch (error) {
+      logger.warn('Order book unavailable for copy fill', {
+        conditionId: change.conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Page through the source's fills (newest first) back to the portfolio's start
+   */
+  private async fetchSourceTrades(portfolio: CopyPortfolio): Promise<PolymarketTransaction[]> {
+    const all: PolymarketTransaction[] = [];
+
+    for (let page = 0; page < MAX_SOURCE_TRADE_PAGES; page++) {
+      const trades = await this.restClient.getTradesFromDataAPI({
+        user: portfolio.sourceWallet,
+        limit: SOURCE_TRADE_PAGE_SIZE,
+        offset: page * SOURCE_TRADE_PAGE_SIZE,
+      });
+
+      all.push(...trades);
+
+      const oldest = trades[trades.length - 1];
+      if (trades.length < SOURCE_TRADE_PAGE_SIZE || !oldest) break;
+      if (new Date(oldest.timestamp).getTime() < portfolio.startedAt.getTime()) break;
+    }
+
+    return all;
+  }
+}
+
+// Singleton instance
+let serviceInstance: CopyTradingService | null = null;
+
+export function createCopyTradingService(restClient: PolymarketRestClient): CopyTradingService {
+  if (!serviceInstance) {
+    serviceInstance = new CopyTradingService(restClient);
+  }
+  return serviceInstance;
+}
+
+export function getCopyTradingService(): CopyTradingService | null {
+  return serviceInstance;
+}
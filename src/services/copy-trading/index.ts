@@ -0,0 +1,32 @@
+/**
+ * Copy Trading Module Exports
+ * Paper portfolios that mirror tracked wallets with simulated slippage and fees
+ */
+
+// Simulator
+export {
+  MIN_MIRROR_SHARES,
+  getMirrorOrder,
+  simulateFill,
+  parseCopyRatio,
+  type BookLevel,
+  type OrderBookDepth,
+  type MirrorOrder,
+  type SimulatedFill,
+} from './copy-simulator';
+
+// Repository
+export {
+  CopyTradingRepository,
+  getCopyTradingRepository,
+  type CopyPortfolio,
+  type CopyTradeRecord,
+} from './copy-trading-repository';
+
+// Service
+export {
+  CopyTradingService,
+  createCopyTradingService,
+  getCopyTradingService,
+  type CopyPortfolioReport,
+} from './copy-trading-service';
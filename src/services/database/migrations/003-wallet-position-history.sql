@@ -0,0 +1,48 @@
+-- Wallet Position History - Database Schema
+-- Migration: 003_wallet_position_history
+-- Created: 2026-10-19
+-- Description: Durable history of tracked wallet position changes and periodic snapshots
+
+-- Position changes (one row per detected fill or reconciled snapshot change)
+CREATE TABLE IF NOT EXISTS wallet_position_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    wallet_address VARCHAR(42) NOT NULL,
+    condition_id VARCHAR(100) NOT NULL,
+    outcome VARCHAR(50) NOT NULL,
+    asset VARCHAR(100),
+    market_title TEXT,
+    event_slug TEXT,
+    change_type VARCHAR(10) NOT NULL CHECK (change_type IN ('BUY', 'SELL', 'NEW', 'CLOSED')),
+    delta_shares NUMERIC(20,6) NOT NULL,
+    price NUMERIC(10,6) NOT NULL,
+    total_value NUMERIC(20,2) NOT NULL,
+    trade_id TEXT,
+    source VARCHAR(10) NOT NULL DEFAULT 'snapshot' CHECK (source IN ('trade', 'snapshot')),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Position snapshots (periodic full view of each tracked wallet)
+CREATE TABLE IF NOT EXISTS wallet_position_snapshots (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    wallet_address VARCHAR(42) NOT NULL,
+    condition_id VARCHAR(100) NOT NULL,
+    outcome VARCHAR(50) NOT NULL,
+    asset VARCHAR(100),
+    market_title TEXT,
+    event_slug TEXT,
+    size NUMERIC(20,6) NOT NULL,
+    avg_price NUMERIC(10,6) NOT NULL,
+    snapshot_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- A fill is only recorded once per wallet
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wallet_position_changes_trade
+    ON wallet_position_changes(wallet_address, trade_id) WHERE trade_id IS NOT NULL;
+
+-- Indexes for query performance
+CREATE INDEX IF NOT EXISTS idx_wallet_position_changes_wallet_time ON wallet_position_changes(wallet_address, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wallet_position_changes_condition ON wallet_position_changes(condition_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wallet_position_changes_occurred ON wallet_position_changes(occurred_at);
+CREATE INDEX IF NOT EXISTS idx_wallet_position_snapshots_wallet_time ON wallet_position_snapshots(wallet_address, snapshot_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wallet_position_snapshots_condition ON wallet_position_snapshots(condition_id, snapshot_at DESC);
@@ -0,0 +1,8 @@
+-- Wallet Alert Thresholds - Database Schema
+-- Migration: 004_wallet_alert_thresholds
+-- Created: 2026-10-19
+-- Description: Per-wallet significance overrides for tracked wallet notifications
+
+-- NULL means "use the subscriber's notification_preferences"
+ALTER TABLE tracked_wallets ADD COLUMN IF NOT EXISTS min_order_value NUMERIC(20,2);
+ALTER TABLE tracked_wallets ADD COLUMN IF NOT EXISTS min_portfolio_percent NUMERIC(6,2);
@@ -0,0 +1,51 @@
+-- Copy Trading - Database Schema
+-- Migration: 005_copy_trading
+-- Created: 2026-10-19
+-- Description: Paper portfolios that mirror a tracked wallet's fills, and their simulated trade log
+
+-- One row per user and source wallet being mirrored
+CREATE TABLE IF NOT EXISTS copy_portfolios (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id),
+    source_wallet VARCHAR(42) NOT NULL,
+    copy_ratio NUMERIC(10,4) NOT NULL CHECK (copy_ratio > 0),
+    is_active BOOLEAN DEFAULT true,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    stopped_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Simulated fills (one per mirrored source change)
+CREATE TABLE IF NOT EXISTS copy_trades (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    portfolio_id UUID NOT NULL REFERENCES copy_portfolios(id) ON DELETE CASCADE,
+    source_trade_id TEXT,
+    condition_id VARCHAR(100) NOT NULL,
+    outcome VARCHAR(50) NOT NULL,
+    asset VARCHAR(100),
+    market_title TEXT,
+    event_slug TEXT,
+    side VARCHAR(4) NOT NULL CHECK (side IN ('BUY', 'SELL')),
+    source_shares NUMERIC(20,6) NOT NULL,
+    source_price NUMERIC(10,6) NOT NULL,
+    shares NUMERIC(20,6) NOT NULL,
+    fill_price NUMERIC(10,6) NOT NULL,
+    slippage_bps NUMERIC(10,2) NOT NULL DEFAULT 0,
+    fee NUMERIC(20,6) NOT NULL DEFAULT 0,
+    price_source VARCHAR(10) NOT NULL DEFAULT 'book' CHECK (price_source IN ('book', 'source')),
+    occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Only one active portfolio per user and source wallet
+CREATE UNIQUE INDEX IF NOT EXISTS idx_copy_portfolios_active
+    ON copy_portfolios(user_id, source_wallet) WHERE is_active = true;
+
+-- A source fill is mirrored once per portfolio
+CREATE UNIQUE INDEX IF NOT EXISTS idx_copy_trades_source
+    ON copy_trades(portfolio_id, source_trade_id) WHERE source_trade_id IS NOT NULL;
+
+-- Indexes for query performance
+CREATE INDEX IF NOT EXISTS idx_copy_portfolios_source ON copy_portfolios(source_wallet) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_copy_trades_portfolio_time ON copy_trades(portfolio_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_copy_trades_position ON copy_trades(portfolio_id, condition_id, outcome);
@@ -0,0 +1,21 @@
+-- Consensus Signal Performance - Database Schema
+-- Migration: 006_consensus_signal_performance
+-- Created: 2026-10-19
+-- Description: Entry price and outcome of each saved consensus signal, for the /signalstats track record
+
+-- One row per consensus signal, followed until its market resolves
+CREATE TABLE IF NOT EXISTS consensus_signal_performance (
+    signal_id UUID PRIMARY KEY REFERENCES consensus_signals(id) ON DELETE CASCADE,
+    confidence_score INT NOT NULL,
+    confidence_level VARCHAR(10) NOT NULL,
+    market_category VARCHAR(50),
+    entry_price NUMERIC(10,4),                -- Price of the consensus side at detection (NULL until known)
+    last_price NUMERIC(10,4),                 -- Latest price of the consensus side, 1/0 once resolved
+    status VARCHAR(4) NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'WON', 'LOST')),
+    last_checked_at TIMESTAMP WITH TIME ZONE,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_consensus_signal_performance_open
+    ON consensus_signal_performance(last_checked_at) WHERE status = 'OPEN';
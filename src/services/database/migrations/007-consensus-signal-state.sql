@@ -0,0 +1,23 @@
+-- Consensus Signal State - Database Schema
+-- Migration: 007_consensus_signal_state
+-- Created: 2026-10-19
+-- Description: Last scanned state of each consensus, diffed between scans for strengthening/weakening/dissolution alerts
+
+-- One row per market side; kept after dissolution so a return is treated as a new consensus
+CREATE TABLE IF NOT EXISTS consensus_signal_state (
+    condition_id VARCHAR(100) NOT NULL,
+    consensus_side VARCHAR(3) NOT NULL CHECK (consensus_side IN ('YES', 'NO')),
+    market_title TEXT NOT NULL,
+    market_slug TEXT,
+    wallet_count INT NOT NULL,
+    total_value NUMERIC(20,2) NOT NULL,
+    wallets JSONB NOT NULL,                   -- [{ alias, address, value }]
+    status VARCHAR(10) NOT NULL DEFAULT 'ACTIVE' CHECK (status IN ('ACTIVE', 'DISSOLVED')),
+    first_detected_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    dissolved_at TIMESTAMP WITH TIME ZONE,
+    PRIMARY KEY (condition_id, consensus_side)
+);
+
+CREATE INDEX IF NOT EXISTS idx_consensus_signal_state_active
+    ON consensus_signal_state(status) WHERE status = 'ACTIVE';
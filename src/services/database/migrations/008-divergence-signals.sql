@@ -0,0 +1,25 @@
+-- Divergence Signals - Database Schema
+-- Migration: 008_divergence_signals
+-- Created: 2026-10-19
+-- Description: Markets where smart wallets hold significant capital on both sides (/divergence)
+
+CREATE TABLE IF NOT EXISTS divergence_signals (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    condition_id VARCHAR(100) NOT NULL,
+    market_title TEXT NOT NULL,
+    market_slug TEXT,
+    market_category VARCHAR(50),
+    yes_wallet_count INT NOT NULL,
+    no_wallet_count INT NOT NULL,
+    yes_value NUMERIC(20,2) NOT NULL,
+    no_value NUMERIC(20,2) NOT NULL,
+    capital_ratio NUMERIC(10,2) NOT NULL,
+    stronger_record VARCHAR(3) CHECK (stronger_record IN ('YES', 'NO')),
+    camps JSONB NOT NULL,                     -- { yes: DivergenceCamp, no: DivergenceCamp }
+    detected_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    detected_date DATE GENERATED ALWAYS AS ((detected_at AT TIME ZONE 'UTC')::DATE) STORED,
+    notified_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT unique_divergence_per_day UNIQUE (condition_id, detected_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_divergence_signals_detected ON divergence_signals(detected_at);
@@ -0,0 +1,24 @@
+-- Smart Wallet Discovery - Database Schema
+-- Migration: 009_smart_wallet_discovery
+-- Created: 2026-10-19
+-- Description: Audit trail of smart wallet additions and demotions proposed by the discovery job
+
+CREATE TABLE IF NOT EXISTS smart_wallet_changes (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL,                     -- Discovery run that proposed the change
+    wallet_address VARCHAR(42) NOT NULL,
+    alias VARCHAR(100),
+    action VARCHAR(10) NOT NULL CHECK (action IN ('ADD', 'DEMOTE')),
+    reason TEXT NOT NULL,
+    score NUMERIC(6,2),
+    metrics JSONB,                            -- { category, rank, pnl, winRate, positions, lastActiveAt }
+    source VARCHAR(100) NOT NULL,
+    status VARCHAR(10) NOT NULL DEFAULT 'PROPOSED' CHECK (status IN ('PROPOSED', 'APPLIED', 'REJECTED')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    applied_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_smart_wallet_changes_created ON smart_wallet_changes(created_at);
+CREATE INDEX IF NOT EXISTS idx_smart_wallet_changes_wallet ON smart_wallet_changes(wallet_address);
+CREATE INDEX IF NOT EXISTS idx_smart_wallet_changes_proposed
+    ON smart_wallet_changes(status) WHERE status = 'PROPOSED';
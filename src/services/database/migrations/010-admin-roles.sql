@@ -0,0 +1,27 @@
+-- Admin Roles - Database Schema
+-- Migration: 010_admin_roles
+-- Created: 2026-10-19
+-- Description: Bot admins, audit log of admin actions, and pausable smart wallets
+
+CREATE TABLE IF NOT EXISTS bot_admins (
+    telegram_id BIGINT PRIMARY KEY,
+    role VARCHAR(20) NOT NULL DEFAULT 'ADMIN',
+    added_by BIGINT,                          -- NULL when synced from ADMIN_TELEGRAM_IDS
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    admin_telegram_id BIGINT NOT NULL,
+    action VARCHAR(50) NOT NULL,              -- e.g. sw_add, sw_remove, scan_now
+    target TEXT,                              -- Wallet address or other subject of the action
+    details JSONB,
+    success BOOLEAN NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_admin ON admin_audit_log(admin_telegram_id, created_at);
+
+-- Paused wallets stay active but are skipped by the consensus scan
+ALTER TABLE smart_wallets ADD COLUMN IF NOT EXISTS is_paused BOOLEAN DEFAULT false;
@@ -0,0 +1,14 @@
+-- Consensus Subscription Filters - Database Schema
+-- Migration: 011_consensus_subscription_filters
+-- Created: 2026-10-19
+-- Description: Per-chat filters on which consensus signals are broadcast
+
+-- A chat without a row receives every consensus signal
+CREATE TABLE IF NOT EXISTS consensus_subscription_filters (
+    chat_id BIGINT PRIMARY KEY,
+    categories TEXT[] NOT NULL DEFAULT '{}',           -- Empty = all (Politics, Sports, Crypto, Other)
+    min_confidence VARCHAR(10) CHECK (min_confidence IN ('LOW', 'MEDIUM', 'HIGH', 'VERY_HIGH')),
+    min_total_value NUMERIC(20,2),
+    wallet_addresses TEXT[] NOT NULL DEFAULT '{}',     -- Empty = any smart wallet
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,18 @@
+-- Price Threshold Alerts - Database Schema
+-- Migration: 012_price_threshold_alerts
+-- Created: 2026-10-19
+-- Description: User price alerts on any market, stored in position_alerts as 'price_threshold'
+
+-- threshold_value holds the YES price in basis points (0.70 = 7000)
+ALTER TABLE position_alerts ADD COLUMN IF NOT EXISTS direction VARCHAR(5)
+    CHECK (direction IN ('above', 'below'));
+-- ARMED fires on the next cross, RESETTING waits for the price to leave the hysteresis band,
+-- TRIGGERED has fired and stays quiet until re-armed
+ALTER TABLE position_alerts ADD COLUMN IF NOT EXISTS status VARCHAR(10) DEFAULT 'ARMED'
+    CHECK (status IN ('ARMED', 'RESETTING', 'TRIGGERED'));
+ALTER TABLE position_alerts ADD COLUMN IF NOT EXISTS market_title TEXT;
+ALTER TABLE position_alerts ADD COLUMN IF NOT EXISTS triggered_price NUMERIC(6,4);
+
+CREATE INDEX IF NOT EXISTS idx_position_alerts_price_active
+    ON position_alerts(condition_id)
+    WHERE alert_type = 'price_threshold' AND is_active = true;
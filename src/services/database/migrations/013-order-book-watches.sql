@@ -0,0 +1,15 @@
+-- Order Book Watches - Database Schema
+-- Migration: 013_order_book_watches
+-- Created: 2026-10-19
+-- Description: Chats watching a market's order book for spread, liquidity and wall alerts
+
+-- Book snapshots are kept in memory; only the subscriptions are persisted
+CREATE TABLE IF NOT EXISTS order_book_watches (
+    chat_id BIGINT NOT NULL,
+    condition_id VARCHAR(100) NOT NULL,
+    market_title TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (chat_id, condition_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_book_watches_condition ON order_book_watches(condition_id);
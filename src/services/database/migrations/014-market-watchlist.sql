@@ -0,0 +1,17 @@
+-- Market Watchlist - Database Schema
+-- Migration: 014_market_watchlist
+-- Created: 2026-10-19
+-- Description: Markets users watch for a scheduled summary and big-move alerts
+
+CREATE TABLE IF NOT EXISTS market_watchlist (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    condition_id VARCHAR(100) NOT NULL,
+    market_title TEXT,
+    -- YES price moves are measured from here; reset after each big-move alert
+    reference_price NUMERIC(6,4),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT market_watchlist_user_market_unique UNIQUE (user_id, condition_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_watchlist_condition ON market_watchlist(condition_id);
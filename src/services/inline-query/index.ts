@@ -0,0 +1,24 @@
+/**
+ * Inline Query Module Exports
+ * Market and tracked-wallet cards for `@bot <query>` in any chat
+ */
+
+// Results
+export {
+  InlineRateLimiter,
+  buildMarketResult,
+  buildWalletResult,
+  formatMarketCard,
+  formatWalletCard,
+  matchTrackedWallets,
+  type WalletCard,
+} from './inline-results';
+
+// Service
+export {
+  InlineQueryService,
+  createInlineQueryService,
+  getInlineQueryService,
+  type InlineAnswer,
+  type InlineQueryServiceConfig,
+} from './inline-query-service';
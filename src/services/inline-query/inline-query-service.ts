@@ -0,0 +1,173 @@
+/**
+ * Inline Query Service
+ * Answers `@bot <query>` from any chat with market cards from the cached market search
+ * and cards for the user's own tracked wallets
+ */
+
+import { InlineQueryResult } from 'telegraf/types';
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+import { getMarketDiscoveryService } from '@/services/market-discovery';
+import { getWalletTrackerRepository } from '@/services/wallet-tracker';
+import { logger } from '@/utils/logger';
+import {
+  InlineRateLimiter,
+  WalletCard,
+  buildMarketResult,
+  buildWalletResult,
+  matchTrackedWallets,
+} from './inline-results';
+
+export interface InlineQueryServiceConfig {
+  maxResults: number;           // Results per answer (default: 10)
+  maxWalletCards: number;       // Wallet cards per answer, each needs a positions lookup (default: 3)
+  minQueryLength: number;       // Shorter queries only match wallets (default: 2)
+  rateLimitPerMinute: number;   // Inline queries per user per minute (default: 20)
+  walletCacheSeconds: number;   // How long a wallet card is reused (default: 60)
+}
+
+export interface InlineAnswer {
+  results: InlineQueryResult[];
+  rateLimited: boolean;
+  retryAfterSeconds?: number;
+}
+
+const DEFAULT_CONFIG: InlineQueryServiceConfig = {
+  maxResults: 10,
+  maxWalletCards: 3,
+  minQueryLength: 2,
+  rateLimitPerMinute: 20,
+  walletCacheSeconds: 60,
+};
+
+// Positions per wallet card lookup
+const POSITION_LIMIT = 100;
+
+/**
+ * InlineQueryService
+ */
+export class InlineQueryService {
+  private restClient: PolymarketRestClient;
+  private config: InlineQueryServiceConfig;
+  private rateLimiter: InlineRateLimiter;
+  private walletCards: Map<string, { card: WalletCard; fetchedAt: number }> = new Map();
+
+  constructor(restClient: PolymarketRestClient, config?: Partial<InlineQueryServiceConfig>) {
+    this.restClient = restClient;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.rateLimiter = new InlineRateLimiter(this.config.rateLimitPerMinute);
+  }
+
+  /**
+   * Results for one inline query: matching tracked wallets first, then markets
+   */
+  async answer(telegramId: number, query: string): Promise<InlineAnswer> {
+    if (this.rateLimiter.isLimited(telegramId)) {
+      return {
+        results: [],
+        rateLimited: true,
+        retryAfterSeconds: this.rateLimiter.secondsUntilReset(telegramId),
+      };
+    }
+
+    const text = query.trim();
+    const [wallets, markets] = await Promise.all([
+      this.getWalletResults(telegramId, text),
+      text.length >= this.config.minQueryLength ? this.getMarketResults(text) : Promise.resolve([]),
+    ]);
+
+    return {
+      results: [...wallets, ...markets].slice(0, this.config.maxResults),
+      rateLimited: false,
+    };
+  }
+
+  private async getWalletResults(telegramId: number, query: string): Promise<InlineQueryResult[]> {
+    try {
+      const tracked = await getWalletTrackerRepository().getUserTrackedWallets(telegramId);
+      const matches = matchTrackedWallets(tracked, query).slice(0, this.config.maxWalletCards);
+
+      const cards = await Promise.all(matches.map(w => this.getWalletCard(w.address, w.alias)));
+      return cards
+        .filter((card): card is WalletCard => card !== null)
+        .map((card, index) => buildWalletResult(card, index));
+    } catch (error) {
+      logger.error('Failed to load wallet results for inline query', {
+        telegramId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  private async getMarketResults(query: string): Promise<InlineQueryResult[]> {
+    const discoveryService = getMarketDiscoveryService();
+    if (!discoveryService) return [];
+
+    try {
+      const listings = await discoveryService.searchListings(query);
+      return listings
+        .slice(0, this.config.maxResults)
+        .map((listing, index) => buildMarketResult(listing, index));
+    } catch (error) {
+      logger.error('Failed to search markets for inline query', {
+        query,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Open positions summary of a wallet, cached per address
+   */
+  private async getWalletCard(address: string, alias?: string): Promise<WalletCard | null> {
+    const key = address.toLowerCase();
+    const cached = this.walletCards.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.config.walletCacheSeconds * 1000) {
+      return { ...cached.card, alias };
+    }
+
+    try {
+      const positions = await this.restClient.getPositions({ user: address, limit: POSITION_LIMIT });
+      const open = positions.filter(p => (p.currentValue ?? 0) > 0);
+
+      const card: WalletCard = {
+        address,
+        alias,
+        positionCount: open.length,
+        totalValue: open.reduce((sum, p) => sum + (p.currentValue ?? 0), 0),
+        cashPnl: open.reduce((sum, p) => sum + (p.cashPnl ?? 0), 0),
+        topPositions: [...open]
+          .sort((a, b) => (b.currentValue ?? 0) - (a.currentValue ?? 0))
+          .slice(0, 3)
+          .map(p => ({ title: p.title || p.conditionId, value: p.currentValue ?? 0 })),
+      };
+
+      this.walletCards.set(key, { card, fetchedAt: Date.now() });
+      return card;
+    } catch (error) {
+      logger.debug('Failed to fetch positions for inline wallet card', {
+        address,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+let serviceInstance: InlineQueryService | null = null;
+
+export function createInlineQueryService(
+  restClient: PolymarketRestClient,
+  config?: Partial<InlineQueryServiceConfig>
+): InlineQueryService {
+  if (!serviceInstance) {
+    serviceInstance = new InlineQueryService(restClient, config);
+  }
+  return serviceInstance;
+}
+
+export function getInlineQueryService(): InlineQueryService | null {
+  return serviceInstance;
+}
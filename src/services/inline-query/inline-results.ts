@@ -0,0 +1,158 @@
+/**
+ * Inline Results
+ * Market and tracked-wallet cards for inline queries (`@bot <query>`), and a per-user
+ * rate limit so typing a query doesn't hammer the APIs
+ */
+
+import { InlineQueryResultArticle } from 'telegraf/types';
+import { formatTimeToEnd } from '@/services/consensus/market-context';
+import { MarketListing } from '@/services/market-discovery/market-filters';
+import { escapeMarkdown, formatShortAddress, formatSignedUsd, formatUsd } from '@/utils/format';
+
+export interface WalletCard {
+  address: string;
+  alias?: string;
+  positionCount: number;
+  totalValue: number;
+  cashPnl: number;
+  topPositions: Array<{ title: string; value: number }>;
+}
+
+/**
+ * Fixed-window request counter per user
+ */
+export class InlineRateLimiter {
+  private windows: Map<number, { count: number; resetAt: number }> = new Map();
+
+  constructor(private limit: number, private windowMs: number = 60000) {}
+
+  /**
+   * Count a request; true if the user is over the limit for the current window
+   */
+  isLimited(userId: number, now: number = Date.now()): boolean {
+    const window = this.windows.get(userId);
+
+    if (!window || now >= window.resetAt) {
+      this.windows.set(userId, { count: 1, resetAt: now + this.windowMs });
+      this.prune(now);
+      return false;
+    }
+
+    if (window.count >= this.limit) return true;
+
+    window.count++;
+    return false;
+  }
+
+  /**
+   * Seconds until the user's window resets
+   */
+  secondsUntilReset(userId: number, now: number = Date.now()): number {
+    const window = this.windows.get(userId);
+    return window ? Math.max(0, Math.ceil((window.resetAt - now) / 1000)) : 0;
+  }
+
+  private prune(now: number): void {
+    for (const [userId, window] of Array.from(this.windows.entries())) {
+      if (now >= window.resetAt) this.windows.delete(userId);
+    }
+  }
+}
+
+/**
+ * Tracked wallets whose alias or address contains the query (all of them for an empty query)
+ */
+export function matchTrackedWallets<T extends { address: string; alias?: string }>(
+  wallets: T[],
+  query: string
+): T[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return wallets;
+
+  return wallets.filter(w =>
+    w.address.toLowerCase().includes(needle) || (w.alias || '').toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Article result that posts a market card
+ */
+export function buildMarketResult(listing: MarketListing, index: number, now: Date = new Date()): InlineQueryResultArticle {
+  const stats = getMarketStats(listing, now);
+
+  return {
+    type: 'article',
+    id: `m${index}`,
+    title: listing.question.slice(0, 100),
+    description: stats.join(' • ') || listing.category || 'Polymarket market',
+    input_message_content: {
+      message_text: formatMarketCard(listing, now),
+      parse_mode: 'Markdown',
+    },
+  };
+}
+
+/**
+ * Article result that posts a tracked-wallet card
+ */
+export function buildWalletResult(card: WalletCard, index: number): InlineQueryResultArticle {
+  return {
+    type: 'article',
+    id: `w${index}`,
+    title: `👛 ${card.alias || formatShortAddress(card.address)}`,
+    description: `${card.positionCount} position(s) • ${formatUsd(card.totalValue)} • P&L ${formatSignedUsd(card.cashPnl)}`,
+    input_message_content: {
+      message_text: formatWalletCard(card),
+      parse_mode: 'Markdown',
+    },
+  };
+}
+
+/**
+ * Market card: title, YES price, volume, liquidity and time to close
+ */
+export function formatMarketCard(listing: MarketListing, now: Date = new Date()): string {
+  let message = `📊 *${escapeMarkdown(listing.question)}*\n`;
+  if (listing.category) message += `${escapeMarkdown(listing.category)}\n`;
+  message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+  if (listing.price !== undefined) {
+    message += `YES ${+(listing.price * 100).toFixed(1)}% • NO ${+((1 - listing.price) * 100).toFixed(1)}%\n`;
+  }
+  if (listing.volume !== undefined) message += `💰 Volume: ${formatUsd(listing.volume)}\n`;
+  if (listing.volume24h !== undefined) message += `📈 24h Volume: ${formatUsd(listing.volume24h)}\n`;
+  if (listing.liquidity !== undefined) message += `💧 Liquidity: ${formatUsd(listing.liquidity)}\n`;
+  if (listing.endTime) message += `⏰ Ends in ${formatTimeToEnd(listing.endTime, now)}\n`;
+
+  message += `\n\`${listing.conditionId}\``;
+  return message;
+}
+
+/**
+ * Wallet card: open positions, value and unrealized P&L
+ */
+export function formatWalletCard(card: WalletCard): string {
+  let message = `👛 *${escapeMarkdown(card.alias || formatShortAddress(card.address))}*\n`;
+  message += `\`${card.address}\`\n`;
+  message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+  message += `📂 Open positions: ${card.positionCount}\n`;
+  message += `💰 Value: ${formatUsd(card.totalValue)}\n`;
+  message += `📈 Unrealized P&L: ${formatSignedUsd(card.cashPnl)}\n`;
+
+  if (card.topPositions.length > 0) {
+    message += '\n*Largest positions:*\n';
+    card.topPositions.forEach(p => {
+      message += `• ${escapeMarkdown(p.title.slice(0, 60))} — ${formatUsd(p.value)}\n`;
+    });
+  }
+
+  return message.trimEnd();
+}
+
+function getMarketStats(listing: MarketListing, now: Date): string[] {
+  const stats: string[] = [];
+  if (listing.price !== undefined) stats.push(`YES ${+(listing.price * 100).toFixed(1)}%`);
+  if (listing.volume !== undefined) stats.push(`vol ${formatUsd(listing.volume)}`);
+  if (listing.endTime) stats.push(`ends in ${formatTimeToEnd(listing.endTime, now)}`);
+  return stats;
+}
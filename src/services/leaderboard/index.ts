@@ -0,0 +1,32 @@
+/**
+ * Leaderboard Module Exports
+ * Performance ranking of smart and tracked wallets
+ */
+
+// Scoring
+export {
+  LEADERBOARD_METRICS,
+  MIN_CLOSED_FOR_WIN_RATE,
+  calculateConsistency,
+  buildLeaderboardEntry,
+  rankLeaderboard,
+  parseLeaderboardMetric,
+  type LeaderboardMetric,
+  type LeaderboardWallet,
+  type LeaderboardEntry,
+} from './leaderboard-scoring';
+
+// Trader lookup
+export {
+  getTraderCategoryInfo,
+  type TraderCategoryInfo,
+  type TraderCategoryStats,
+} from './trader-category-lookup';
+
+// Service
+export {
+  LeaderboardService,
+  createLeaderboardService,
+  getLeaderboardService,
+  type Leaderboard,
+} from './leaderboard-service';
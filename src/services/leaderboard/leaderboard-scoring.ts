@@ -0,0 +1,123 @@
+/**
+ * Leaderboard Scoring
+ * Turns PnL reports and equity curves into rankable wallet metrics
+ */
+
+import { EquityPoint, WalletPnlReport, getEquityChange } from '@/services/pnl/pnl-engine';
+
+export type LeaderboardMetric = 'pnl7d' | 'pnl30d' | 'pnlAll' | 'roi' | 'winRate' | 'consistency';
+
+export const LEADERBOARD_METRICS: Record<LeaderboardMetric, string> = {
+  pnl7d: '7d PnL',
+  pnl30d: '30d PnL',
+  pnlAll: 'All-time PnL',
+  roi: 'ROI',
+  winRate: 'Win Rate',
+  consistency: 'Consistency',
+};
+
+export interface LeaderboardWallet {
+  address: string;
+  name: string;
+  source: 'smart' | 'tracked';
+  category?: string;
+  categoryRank?: number;
+}
+
+export interface LeaderboardEntry extends LeaderboardWallet {
+  pnl7d: number;
+  pnl30d: number;
+  pnlAll: number;
+  roi: number;
+  winRate: number;
+  closedPositions: number;
+  consistency: number;
+  openValue: number;
+  tradeCount: number;
+}
+
+// Win rate is noise below this many closed positions
+export const MIN_CLOSED_FOR_WIN_RATE = 5;
+// Consistency needs at least this many daily returns
+const MIN_DAYS_FOR_CONSISTENCY = 7;
+
+/**
+ * Sharpe-like consistency: mean daily PnL over its standard deviation, scaled by sqrt(days)
+ */
+export function calculateConsistency(curve: EquityPoint[], days = 30): number {
+  const window = curve.slice(-(days + 1));
+  const returns: number[] = [];
+
+  for (let i = 1; i < window.length; i++) {
+    returns.push(window[i].equity - window[i - 1].equity);
+  }
+
+  if (returns.length < MIN_DAYS_FOR_CONSISTENCY) return 0;
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length;
+  const stdDev = Math.sqrt(variance);
+
+  if (stdDev === 0) return 0;
+  return (mean / stdDev) * Math.sqrt(returns.length);
+}
+
+/**
+ * Build a leaderboard entry from a wallet's PnL report and equity curve
+ */
+export function buildLeaderboardEntry(
+  wallet: LeaderboardWallet,
+  pnl: { report: WalletPnlReport; equityCurve: EquityPoint[] }
+): LeaderboardEntry {
+  return {
+    ...wallet,
+    pnl7d: getEquityChange(pnl.equityCurve, 7),
+    pnl30d: getEquityChange(pnl.equityCurve, 30),
+    pnlAll: pnl.report.totalPnl,
+    roi: pnl.report.roi,
+    winRate: pnl.report.winRate,
+    closedPositions: pnl.report.closedPositions,
+    consistency: calculateConsistency(pnl.equityCurve),
+    openValue: pnl.report.openMarketValue,
+    tradeCount: pnl.report.tradeCount,
+  };
+}
+
+/**
+ * Sort entries by a metric, best first
+ * Wallets with too few closed positions sink to the bottom of the win rate board
+ */
+export function rankLeaderboard(entries: LeaderboardEntry[], metric: LeaderboardMetric): LeaderboardEntry[] {
+  return [...entries].sort((a, b) => {
+    if (metric === 'winRate') {
+      const aQualified = a.closedPositions >= MIN_CLOSED_FOR_WIN_RATE;
+      const bQualified = b.closedPositions >= MIN_CLOSED_FOR_WIN_RATE;
+      if (aQualified !== bQualified) return aQualified ? -1 : 1;
+    }
+    return b[metric] - a[metric] || b.pnlAll - a.pnlAll;
+  });
+}
+
+/**
+ * Parse a user-supplied metric name
+ */
+export function parseLeaderboardMetric(input?: string): LeaderboardMetric {
+  switch ((input || '').toLowerCase()) {
+    case '7d':
+    case 'week':
+      return 'pnl7d';
+    case 'all':
+    case 'alltime':
+      return 'pnlAll';
+    case 'roi':
+      return 'roi';
+    case 'winrate':
+    case 'wr':
+      return 'winRate';
+    case 'sharpe':
+    case 'consistency':
+      return 'consistency';
+    default:
+      return (input as LeaderboardMetric) in LEADERBOARD_METRICS ? (input as LeaderboardMetric) : 'pnl30d';
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Leaderboard Service
+ * Ranks smart wallets and a user's tracked wallets by realized/unrealized performance
+ */
+
+import { logger } from '@/utils/logger';
+import { config } from '@/config';
+import { getSmartWalletRepository } from '@/services/consensus';
+import { getWalletTrackerRepository } from '@/services/wallet-tracker';
+import { WalletPnlService } from '@/services/pnl';
+import {
+  LeaderboardEntry,
+  LeaderboardMetric,
+  LeaderboardWallet,
+  buildLeaderboardEntry,
+  rankLeaderboard,
+} from './leaderboard-scoring';
+import { getTraderCategoryInfo } from './trader-category-lookup';
+import { formatShortAddress } from '@/utils/format';
+
+export interface Leaderboard {
+  metric: LeaderboardMetric;
+  entries: LeaderboardEntry[];
+  pending: number; // wallets not scored yet (still refreshing)
+  updatedAt: Date | null;
+}
+
+export class LeaderboardService {
+  private pnlService: WalletPnlService;
+  private cacheTtlMs: number;
+  private concurrency: number;
+  private entries: Map<string, { entry: LeaderboardEntry; expiresAt: number }> = new Map();
+  private refreshInterval: ReturnType<typeof setInterval> | null = null;
+  private isRefreshing = false;
+  private lastRefreshAt: Date | null = null;
+
+  constructor(pnlService: WalletPnlService) {
+    this.pnlService = pnlService;
+    this.cacheTtlMs = config.leaderboard.cacheTtlMinutes * 60 * 1000;
+    this.concurrency = Math.max(1, config.leaderboard.concurrency);
+  }
+
+  /**
+   * Start periodic background scoring of smart wallets
+   */
+  start(): void {
+    if (this.refreshInterval) return;
+
+    this.refreshSmartWallets().catch(error =>
+      logger.error('Initial leaderboard refresh failed', { error })
+    );
+
+    this.refreshInterval = setInterval(() => {
+      this.refreshSmartWallets().catch(error =>
+        logger.error('Leaderboard refresh failed', { error })
+      );
+    }, this.cacheTtlMs);
+
+    logger.info('Leaderboard service started', { refreshMinutes: config.leaderboard.cacheTtlMinutes });
+  }
+
+  /**
+   * Stop background scoring
+   */
+  stop(): void {
+    if (this.refreshInterval) {
+      clearInterval(this.refreshInterval);
+      this.refreshInterval = null;
+    }
+  }
+
+  /**
+   * Build the leaderboard for a user: smart wallets plus the user's tracked wallets
+   * Tracked wallets are scored on demand; smart wallets come from the background refresh
+   */
+  async getLeaderboard(telegramId: number, metric: LeaderboardMetric): Promise<Leaderboard> {
+    const smartWallets = await this.getSmartWallets();
+    const trackedWallets = await this.getTrackedWallets(telegramId);
+
+    const smartAddresses = new Set(smartWallets.map(w => w.address));
+    const ownWallets = trackedWallets.filter(w => !smartAddresses.has(w.address));
+    await this.scoreWallets(ownWallets.filter(w => !this.getFreshEntry(w.address)));
+
+    const entries: LeaderboardEntry[] = [];
+    let pending = 0;
+
+    for (const wallet of [...smartWallets, ...ownWallets]) {
+      const entry = this.getFreshEntry(wallet.address) || this.entries.get(wallet.address)?.entry;
+      if (entry) {
+        // Names and sources are per-caller (a user's alias for a smart wallet is not shared)
+        entries.push({ ...entry, ...wallet });
+      } else {
+        pending++;
+      }
+    }
+
+    if (pending > 0 && !this.isRefreshing) {
+      this.refreshSmartWallets().catch(error =>
+        logger.error('Leaderboard refresh failed', { error })
+      );
+    }
+
+    return {
+      metric,
+      entries: rankLeaderboard(entries, metric),
+      pending,
+      updatedAt: this.lastRefreshAt,
+    };
+  }
+
+  /**
+   * Re-score all active smart wallets
+   */
+  async refreshSmartWallets(): Promise<void> {
+    if (this.isRefreshing) return;
+    this.isRefreshing = true;
+
+    try {
+      const wallets = await this.getSmartWallets();
+      const stale = wallets.filter(w => !this.getFreshEntry(w.address));
+      await this.scoreWallets(stale);
+      this.lastRefreshAt = new Date();
+
+      logger.info('Leaderboard refreshed', { wallets: wallets.length, rescored: stale.length });
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  /**
+   * Score wallets with bounded concurrency (failures are logged and skipped)
+   */
+  private async scoreWallets(wallets: LeaderboardWallet[]): Promise<void> {
+    const queue = [...wallets];
+
+    const worker = async (): Promise<void> => {
+      let wallet = queue.shift();
+      while (wallet) {
+        try {
+          const pnl = await this.pnlService.getWalletPnl(wallet.address);
+          this.entries.set(wallet.address, {
+            entry: buildLeaderboardEntry(wallet, pnl),
+            expiresAt: Date.now() + this.cacheTtlMs,
+          });
+        } catch (error) {
+          logger.warn('Failed to score wallet for leaderboard', {
+            wallet: wallet.address,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+        wallet = queue.shift();
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.concurrency, queue.length) }, worker));
+  }
+
+  private getFreshEntry(address: string): LeaderboardEntry | null {
+    const cached = this.entries.get(address);
+    return cached && cached.expiresAt > Date.now() ? cached.entry : null;
+  }
+
+  private async getSmartWallets(): Promise<LeaderboardWallet[]> {
+    const wallets = await getSmartWalletRepository().getActiveWallets();
+    return wallets.map(w => {
+      const lookup = getTraderCategoryInfo(w.address);
+      return {
+        address: w.address.toLowerCase(),
+        name: w.alias || lookup?.traderName || formatShortAddress(w.address),
+        source: 'smart' as const,
+        category: w.category || lookup?.primaryCategory,
+        categoryRank: w.categoryRank ?? lookup?.primaryRank,
+      };
+    });
+  }
+
+  private async getTrackedWallets(telegramId: number): Promise<LeaderboardWallet[]> {
+    const wallets = await getWalletTrackerRepository().getUserTrackedWallets(telegramId);
+    return wallets.map(w => {
+      const lookup = getTraderCategoryInfo(w.address);
+      return {
+        address: w.address.toLowerCase(),
+        name: w.alias || lookup?.traderName || formatShortAddress(w.address),
+        source: 'tracked' as const,
+        category: lookup?.primaryCategory,
+        categoryRank: lookup?.primaryRank,
+      };
+    });
+  }
+}
+
+// Singleton instance
+let serviceInstance: LeaderboardService | null = null;
+
+export function createLeaderboardService(pnlService: WalletPnlService): LeaderboardService {
+  if (!serviceInstance) {
+    serviceInstance = new LeaderboardService(pnlService);
+  }
+  return serviceInstance;
+}
+
+export function getLeaderboardService(): LeaderboardService | null {
+  return serviceInstance;
+}
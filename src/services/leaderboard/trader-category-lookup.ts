@@ -0,0 +1,93 @@
+/**
+ * Trader Category Lookup
+ * Read-only access to the per-category trader stats crawled into scripts/traders-category-lookup.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+
+export interface TraderCategoryStats {
+  pnl: number;
+  winRate: number;
+  positions: number;
+  rank: number;
+}
+
+export interface TraderCategoryInfo {
+  traderName: string;
+  primaryCategory?: string;
+  primaryRank?: number;
+  categories: Record<string, TraderCategoryStats>;
+}
+
+interface RawLookupEntry {
+  trader_name?: string;
+  categories?: Record<string, { pnl?: number; win_rate?: number; positions?: number; rank?: number }>;
+}
+
+let lookup: Map<string, TraderCategoryInfo> | null = null;
+
+/**
+ * Load the lookup file once (missing file yields an empty lookup)
+ */
+function loadLookup(): Map<string, TraderCategoryInfo> {
+  if (lookup) return lookup;
+
+  lookup = new Map();
+  const filePath = path.resolve(process.cwd(), config.leaderboard.traderLookupPath);
+
+  try {
+    const raw: Record<string, RawLookupEntry> = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+    for (const [address, entry] of Object.entries(raw)) {
+      const categories: Record<string, TraderCategoryStats> = {};
+      let primaryCategory: string | undefined;
+      let primaryRank: number | undefined;
+
+      for (const [category, stats] of Object.entries(entry.categories || {})) {
+        categories[category] = {
+          pnl: stats.pnl || 0,
+          winRate: stats.win_rate || 0,
+          positions: stats.positions || 0,
+          rank: stats.rank || 0,
+        };
+
+        // Primary category = best rank, ties broken by PnL
+        const rank = stats.rank || Number.MAX_SAFE_INTEGER;
+        if (
+          primaryRank === undefined ||
+          rank < primaryRank ||
+          (rank === primaryRank && categories[category].pnl > categories[primaryCategory!].pnl)
+        ) {
+          primaryCategory = category;
+          primaryRank = rank;
+        }
+      }
+
+      lookup.set(address.toLowerCase(), {
+        traderName: entry.trader_name || '',
+        primaryCategory,
+        primaryRank,
+        categories,
+      });
+    }
+
+    logger.info('Loaded trader category lookup', { traders: lookup.size });
+  } catch (error) {
+    logger.warn('Trader category lookup unavailable', {
+      path: filePath,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  return lookup;
+}
+
+/**
+ * Get crawled category stats for a trader
+ */
+export function getTraderCategoryInfo(address: string): TraderCategoryInfo | null {
+  return loadLookup().get(address.toLowerCase()) || null;
+}
@@ -0,0 +1,27 @@
+/**
+ * Market Discovery Module Exports
+ * Search, trending and closing-soon markets with filters
+ */
+
+// Filters
+export {
+  applyMarketFilters,
+  describeMarketFilters,
+  filterClosingWithin,
+  normalizeMarketListings,
+  parseAmount,
+  parseMarketFilters,
+  parseProbabilityBand,
+  type MarketFilters,
+  type MarketListing,
+} from './market-filters';
+
+// Service
+export {
+  MarketDiscoveryService,
+  createMarketDiscoveryService,
+  getMarketDiscoveryService,
+  type DiscoveryKind,
+  type DiscoveryResult,
+  type MarketDiscoveryConfig,
+} from './market-discovery-service';
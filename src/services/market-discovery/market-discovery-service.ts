@@ -0,0 +1,208 @@
+/**
+ * Market Discovery Service
+ * Search, trending and closing-soon market lists with filters. Each list is kept for a
+ * while under a short ID so inline keyboard buttons can page through it. Search
+ * responses are cached briefly, since inline queries repeat them as the user types.
+ */
+
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+import { logger } from '@/utils/logger';
+import {
+  MarketFilters,
+  MarketListing,
+  applyMarketFilters,
+  filterClosingWithin,
+  normalizeMarketListings,
+} from './market-filters';
+
+export interface MarketDiscoveryConfig {
+  fetchLimit: number;          // Markets requested per list or page before filtering (default: 100)
+  resultTtlMinutes: number;    // How long a list can be paged (default: 30)
+  maxStoredResults: number;    // Oldest lists are dropped beyond this (default: 500)
+  searchCacheSeconds: number;  // How long a search response is reused (default: 60)
+}
+
+export type DiscoveryKind = 'search' | 'trending' | 'closing';
+
+export interface DiscoveryResult {
+  id: string;
+  kind: DiscoveryKind;
+  title: string;               // Query, category or time window
+  filters: MarketFilters;
+  listings: MarketListing[];
+  createdAt: Date;
+}
+
+const DEFAULT_CONFIG: MarketDiscoveryConfig = {
+  fetchLimit: 100,
+  resultTtlMinutes: 30,
+  maxStoredResults: 500,
+  searchCacheSeconds: 60,
+};
+
+// Upper bound on pages fetched for /closing (fetchLimit markets each)
+const MAX_CLOSING_PAGES = 5;
+
+/**
+ * MarketDiscoveryService
+ */
+export class MarketDiscoveryService {
+  private restClient: PolymarketRestClient;
+  private config: MarketDiscoveryConfig;
+  private results: Map<string, DiscoveryResult> = new Map();   // By id, oldest first
+  private searchCache: Map<string, { listings: MarketListing[]; fetchedAt: number }> = new Map();
+
+  constructor(restClient: PolymarketRestClient, config?: Partial<MarketDiscoveryConfig>) {
+    this.restClient = restClient;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Markets matching a text query
+   */
+  async search(query: string, filters: MarketFilters): Promise<DiscoveryResult> {
+    const listings = await this.searchListings(query, filters.category);
+    return this.store('search', query, filters, applyMarketFilters(listings, filters));
+  }
+
+  /**
+   * Unfiltered search results, cached per query and category
+   */
+  async searchListings(query: string, category?: string): Promise<MarketListing[]> {
+    const key = `${query.trim().toLowerCase()}|${(category || '').toLowerCase()}`;
+    const cached = this.searchCache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < this.config.searchCacheSeconds * 1000) {
+      return cached.listings;
+    }
+
+    const response = await this.restClient.search(query, {
+      type: 'condition',
+      limit: this.config.fetchLimit,
+      category,
+    });
+
+    const listings = normalizeMarketListings(response);
+    this.searchCache.delete(key);
+    this.searchCache.set(key, { listings, fetchedAt: Date.now() });
+    while (this.searchCache.size > this.config.maxStoredResults) {
+      this.searchCache.delete(this.searchCache.keys().next().value as string);
+    }
+
+    return listings;
+  }
+
+  /**
+   * Markets with the most activity over the last 24h
+   */
+  async getTrending(filters: MarketFilters): Promise<DiscoveryResult> {
+    const response = await this.restClient.getTrending({
+      category: filters.category,
+      timeframe: '24h',
+      limit: this.config.fetchLimit,
+    });
+
+    const listings = applyMarketFilters(normalizeMarketListings(response), filters)
+      .sort((a, b) => (b.volume24h ?? b.volume ?? 0) - (a.volume24h ?? a.volume ?? 0));
+
+    return this.store('trending', filters.category || 'All categories', filters, listings);
+  }
+
+  /**
+   * Open markets ending within the next `hours`, soonest first
+   * Pages through the markets ending in the window until it is covered or
+   * MAX_CLOSING_PAGES is reached
+   */
+  async getClosing(hours: number, filters: MarketFilters): Promise<DiscoveryResult> {
+    const now = new Date();
+    const endDateMax = new Date(now.getTime() + hours * 60 * 60 * 1000);
+    const markets: unknown[] = [];
+
+    for (let page = 0; page < MAX_CLOSING_PAGES; page++) {
+      const batch = await this.restClient.getMarketsEndingBetween({
+        endDateMin: now.toISOString(),
+        endDateMax: endDateMax.toISOString(),
+        limit: this.config.fetchLimit,
+        offset: page * this.config.fetchLimit,
+      });
+
+      markets.push(...batch);
+      if (batch.length < this.config.fetchLimit) break;
+    }
+
+    const listings = filterClosingWithin(
+      applyMarketFilters(normalizeMarketListings(markets), filters),
+      hours,
+      now
+    );
+
+    return this.store('closing', `Next ${hours}h`, filters, listings);
+  }
+
+  /**
+   * Category names for filter hints (empty if unavailable)
+   */
+  async getCategories(): Promise<string[]> {
+    try {
+      const response = await this.restClient.getCategories();
+      const items: unknown[] = Array.isArray(response) ? response : response?.data || response?.categories || [];
+
+      return items
+        .map(item => typeof item === 'string' ? item : (item as { name?: string } | null)?.name)
+        .filter((name): name is string => typeof name === 'string' && name.length > 0);
+    } catch (error) {
+      logger.debug('Failed to fetch market categories', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * A stored list, or null once it has expired
+   */
+  getResult(id: string): DiscoveryResult | null {
+    const result = this.results.get(id);
+    if (!result) return null;
+
+    if (Date.now() - result.createdAt.getTime() > this.config.resultTtlMinutes * 60 * 1000) {
+      this.results.delete(id);
+      return null;
+    }
+    return result;
+  }
+
+  private store(kind: DiscoveryKind, title: string, filters: MarketFilters, listings: MarketListing[]): DiscoveryResult {
+    const result: DiscoveryResult = {
+      id: Math.random().toString(36).slice(2, 10),
+      kind,
+      title,
+      filters,
+      listings,
+      createdAt: new Date(),
+    };
+
+    this.results.set(result.id, result);
+    while (this.results.size > this.config.maxStoredResults) {
+      this.results.delete(this.results.keys().next().value as string);
+    }
+
+    return result;
+  }
+}
+
+// Singleton instance
+let serviceInstance: MarketDiscoveryService | null = null;
+
+export function createMarketDiscoveryService(
+  restClient: PolymarketRestClient,
+  config?: Partial<MarketDiscoveryConfig>
+): MarketDiscoveryService {
+  if (!serviceInstance) {
+    serviceInstance = new MarketDiscoveryService(restClient, config);
+  }
+  return serviceInstance;
+}
+
+export function getMarketDiscoveryService(): MarketDiscoveryService | null {
+  return serviceInstance;
+}
@@ -0,0 +1,261 @@
+/**
+ * Market Filters
+ * Normalizes market listings from the search, trending and markets endpoints and
+ * filters them by category, volume, liquidity, probability band and end time
+ */
+
+import { formatUsd } from '@/utils/format';
+
+export interface MarketListing {
+  conditionId: string;
+  question: string;
+  category?: string;
+  volume?: number;
+  volume24h?: number;
+  liquidity?: number;
+  price?: number;       // YES price, 0-1
+  endTime?: Date;
+}
+
+export interface MarketFilters {
+  category?: string;
+  minVolume?: number;
+  minLiquidity?: number;
+  minProbability?: number;   // 0-1
+  maxProbability?: number;   // 0-1
+}
+
+/**
+ * Split command arguments into filters (`cat=politics vol=100k liq=10k prob=20-80`)
+ * and the remaining terms
+ * @returns null if a filter is malformed
+ */
+export function parseMarketFilters(args: string[]): { filters: MarketFilters; terms: string[] } | null {
+  const filters: MarketFilters = {};
+  const terms: string[] = [];
+
+  for (const arg of args) {
+    const match = arg.match(/^([a-z]+)=(.+)$/i);
+    if (!match) {
+      terms.push(arg);
+      continue;
+    }
+
+    const value = match[2];
+    switch (match[1].toLowerCase()) {
+      case 'cat':
+      case 'category':
+        filters.category = value.replace(/_/g, ' ');
+        break;
+      case 'vol':
+      case 'volume': {
+        const amount = parseAmount(value);
+        if (amount === null) return null;
+        filters.minVolume = amount;
+        break;
+      }
+      case 'liq':
+      case 'liquidity': {
+        const amount = parseAmount(value);
+        if (amount === null) return null;
+        filters.minLiquidity = amount;
+        break;
+      }
+      case 'prob':
+      case 'p': {
+        const band = parseProbabilityBand(value);
+        if (!band) return null;
+        filters.minProbability = band.min;
+        filters.maxProbability = band.max;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  return { filters, terms };
+}
+
+/**
+ * Parse a USD amount: "250", "10k", "1.5m", "$50K"
+ */
+export function parseAmount(input: string): number | null {
+  const match = input.trim().toLowerCase().replace(/[$,]/g, '').match(/^(\d+(?:\.\d+)?)(k|m)?$/);
+  if (!match) return null;
+
+  const multiplier = match[2] === 'm' ? 1000000 : match[2] === 'k' ? 1000 : 1;
+  return parseFloat(match[1]) * multiplier;
+}
+
+/**
+ * Parse a YES probability band in percent: "20-80", "70-" (at least 70%), "-30" (at most 30%)
+ */
+export function parseProbabilityBand(input: string): { min?: number; max?: number } | null {
+  const match = input.trim().replace(/%/g, '').match(/^(\d+(?:\.\d+)?)?-(\d+(?:\.\d+)?)?$/);
+  if (!match || (match[1] === undefined && match[2] === undefined)) return null;
+
+  const min = match[1] !== undefined ? parseFloat(match[1]) / 100 : undefined;
+  const max = match[2] !== undefined ? parseFloat(match[2]) / 100 : undefined;
+  if ((min !== undefined && min > 1) || (max !== undefined && max > 1)) return null;
+  if (min !== undefined && max !== undefined && min > max) return null;
+
+  return { min, max };
+}
+
+/**
+ * Keep listings that pass every filter; listings missing a filtered field are dropped
+ */
+export function applyMarketFilters(listings: MarketListing[], filters: MarketFilters): MarketListing[] {
+  const category = filters.category?.toLowerCase();
+
+  return listings.filter(l => {
+    if (category && !(l.category || '').toLowerCase().includes(category)) return false;
+    if (filters.minVolume !== undefined && !((l.volume ?? 0) >= filters.minVolume)) return false;
+    if (filters.minLiquidity !== undefined && !((l.liquidity ?? 0) >= filters.minLiquidity)) return false;
+    if (filters.minProbability !== undefined && !(l.price !== undefined && l.price >= filters.minProbability)) return false;
+    if (filters.maxProbability !== undefined && !(l.price !== undefined && l.price <= filters.maxProbability)) return false;
+    return true;
+  });
+}
+
+/**
+ * Open markets ending within the next `hours`, soonest first
+ */
+export function filterClosingWithin(listings: MarketListing[], hours: number, now: Date = new Date()): MarketListing[] {
+  const until = now.getTime() + hours * 60 * 60 * 1000;
+
+  return listings
+    .filter(l => l.endTime !== undefined && l.endTime.getTime() > now.getTime() && l.endTime.getTime() <= until)
+    .sort((a, b) => a.endTime!.getTime() - b.endTime!.getTime());
+}
+
+/**
+ * Describe active filters, e.g. "Politics • vol $100.0K+ • YES 20-80%"
+ */
+export function describeMarketFilters(filters: MarketFilters): string {
+  const parts: string[] = [];
+  if (filters.category) parts.push(filters.category);
+  if (filters.minVolume !== undefined) parts.push(`vol ${formatUsd(filters.minVolume)}+`);
+  if (filters.minLiquidity !== undefined) parts.push(`liq ${formatUsd(filters.minLiquidity)}+`);
+  if (filters.minProbability !== undefined || filters.maxProbability !== undefined) {
+    const min = filters.minProbability !== undefined ? `${+(filters.minProbability * 100).toFixed(1)}` : '0';
+    const max = filters.maxProbability !== undefined ? `${+(filters.maxProbability * 100).toFixed(1)}` : '100';
+    parts.push(`YES ${min}-${max}%`);
+  }
+  return parts.join(' • ');
+}
+
+/**
+ * Map a search, trending or markets response into listings
+ * Accepts an array or an object wrapping one (data/markets/conditions/results), and
+ * flattens events into their markets
+ */
+export function normalizeMarketListings(response: unknown): MarketListing[] {
+  const listings: MarketListing[] = [];
+  const seen = new Set<string>();
+
+  for (const item of unwrapItems(response)) {
+    const listing = toListing(item);
+    if (listing && !seen.has(listing.conditionId)) {
+      seen.add(listing.conditionId);
+      listings.push(listing);
+    }
+  }
+
+  return listings;
+}
+
+function unwrapItems(response: unknown): Record<string, unknown>[] {
+  if (Array.isArray(response)) {
+    return response.flatMap(item => {
+      const record = asRecord(item);
+      if (!record) return [];
+      // Events carry their markets (and the category the markets lack)
+      if (Array.isArray(record.markets)) {
+        return (record.markets as unknown[])
+          .map(asRecord)
+          .filter((m): m is Record<string, unknown> => m !== null)
+          .map(m => ({ category: record.category, ...m }));
+      }
+      return [record];
+    });
+  }
+
+  const record = asRecord(response);
+  if (!record) return [];
+
+  for (const key of ['data', 'markets', 'conditions', 'results', 'events']) {
+    if (Array.isArray(record[key])) return unwrapItems(record[key]);
+  }
+  return [];
+}
+
+function toListing(item: Record<string, unknown>): MarketListing | null {
+  const conditionId = firstString(item.conditionId, item.condition_id, item.id);
+  const question = firstString(item.question, item.title);
+  if (!conditionId || !question) return null;
+
+  const endTime = firstString(item.endTime, item.endDate, item.end_date_iso);
+  const parsedEnd = endTime ? new Date(endTime) : undefined;
+
+  return {
+    conditionId,
+    question,
+    category: firstString(item.category),
+    volume: firstNumber(item.volume, item.volumeNum),
+    volume24h: firstNumber(item.volume24h, item.volume24hr),
+    liquidity: firstNumber(item.liquidity, item.liquidityNum),
+    price: getYesPrice(item),
+    endTime: parsedEnd && !isNaN(parsedEnd.getTime()) ? parsedEnd : undefined,
+  };
+}
+
+function getYesPrice(item: Record<string, unknown>): number | undefined {
+  const direct = firstNumber(item.currentPrice, item.lastTradePrice);
+  if (direct !== undefined) return direct;
+
+  // Gamma sends outcomePrices as a JSON string, e.g. '["0.62","0.38"]'
+  let outcomePrices = item.outcomePrices;
+  if (typeof outcomePrices === 'string') {
+    try {
+      outcomePrices = JSON.parse(outcomePrices);
+    } catch {
+      outcomePrices = undefined;
+    }
+  }
+  if (Array.isArray(outcomePrices) && outcomePrices.length > 0) {
+    return firstNumber(outcomePrices[0]);
+  }
+
+  for (const key of ['outcomesWithPrices', 'tokens']) {
+    const outcomes = item[key];
+    if (Array.isArray(outcomes) && outcomes.length > 0) {
+      const first = asRecord(outcomes[0]);
+      if (first) return firstNumber(first.price);
+    }
+  }
+
+  return undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? value as Record<string, unknown>
+    : null;
+}
+
+function firstString(...values: unknown[]): string | undefined {
+  for (const value of values) {
+    if (typeof value === 'string' && value.trim()) return value;
+  }
+  return undefined;
+}
+
+function firstNumber(...values: unknown[]): number | undefined {
+  for (const value of values) {
+    const number = typeof value === 'string' ? parseFloat(value) : value;
+    if (typeof number === 'number' && isFinite(number)) return number;
+  }
+  return undefined;
+}
@@ -0,0 +1,38 @@
+/**
+ * PnL Module Exports
+ * Lot-based realized/unrealized PnL and equity curves for wallets
+ */
+
+// Engine
+export {
+  calculateWalletPnl,
+  buildEquityCurve,
+  getEquityChange,
+  type CostBasisMethod,
+  type PnlTrade,
+  type PnlResolution,
+  type PositionPnl,
+  type WalletPnlReport,
+  type EquityPoint,
+  type PnlOptions,
+} from './pnl-engine';
+
+// Repository
+export {
+  MarketResolutionRepository,
+  getMarketResolutionRepository,
+  type MarketResolutionRecord,
+} from './market-resolution-repository';
+
+// Service
+export {
+  WalletPnlService,
+  createWalletPnlService,
+  getWalletPnlService,
+  toPnlTrades,
+  resolutionFromPosition,
+  resolutionFromMarket,
+  findUnsettledConditions,
+  type WalletPnlResult,
+  type PnlServiceConfig,
+} from './wallet-pnl-service';
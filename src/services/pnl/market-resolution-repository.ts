@@ -0,0 +1,127 @@
+/**
+ * Market Resolution Repository
+ * PostgreSQL persistence for resolved markets (market_resolutions)
+ */
+
+import { query } from '@/services/database/connection-pool';
+import { logger } from '@/utils/logger';
+import { PnlResolution } from './pnl-engine';
+
+export interface MarketResolutionRecord {
+  conditionId: string;
+  question: string;
+  winningOutcome: string;
+  probability?: number;
+  resolvedAt: Date;
+}
+
+/**
+ * MarketResolutionRepository
+ * Handles PostgreSQL persistence for market resolutions
+ */
+export class MarketResolutionRepository {
+  /**
+   * Get known resolutions for a set of markets
+   */
+  async getResolutions(conditionIds: string[]): Promise<PnlResolution[]> {
+    if (conditionIds.length === 0) return [];
+
+    try {
+      const results = await query<{
+        condition_id: string;
+        resolution_outcome: string;
+        resolved_at: Date;
+      }>(
+        `SELECT DISTINCT ON (condition_id) condition_id, resolution_outcome, resolved_at
+         FROM market_resolutions
+         WHERE condition_id = ANY($1) AND resolution_outcome IS NOT NULL
+         ORDER BY condition_id, resolved_at ASC`,
+        [conditionIds]
+      );
+
+      return results.map(r => ({
+        conditionId: r.condition_id,
+        winningOutcome: r.resolution_outcome,
+        resolvedAt: new Date(r.resolved_at).getTime(),
+      }));
+    } catch (error) {
+      logger.error('Failed to get market resolutions', {
+        count: conditionIds.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Record a market resolution (no-op if already recorded)
+   */
+  async recordResolution(resolution: MarketResolutionRecord): Promise<boolean> {
+    try {
+      const results = await query<{ id: string }>(
+        `INSERT INTO market_resolutions
+           (condition_id, condition_question, resolution_outcome, resolution_probability, resolved_at)
+         SELECT $1, $2, $3, $4, $5
+         WHERE NOT EXISTS (SELECT 1 FROM market_resolutions WHERE condition_id = $1)
+         RETURNING id`,
+        [
+          resolution.conditionId,
+          resolution.question,
+          resolution.winningOutcome,
+          resolution.probability ?? null,
+          resolution.resolvedAt,
+        ]
+      );
+
+      if (results.length > 0) {
+        logger.info('Recorded market resolution', {
+          conditionId: resolution.conditionId,
+          outcome: resolution.winningOutcome,
+        });
+      }
+
+      return results.length > 0;
+    } catch (error) {
+      logger.error('Failed to record market resolution', {
+        conditionId: resolution.conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Add users told about a resolution to market_resolutions.affected_users
+   * @param telegramIds Telegram ids of the notified users
+   */
+  async addAffectedUsers(conditionId: string, telegramIds: number[]): Promise<void> {
+    if (telegramIds.length === 0) return;
+
+    try {
+      await query(
+        `UPDATE market_resolutions mr
+         SET affected_users = ARRAY(
+           SELECT DISTINCT unnest(mr.affected_users || ARRAY(SELECT id FROM users WHERE telegram_id = ANY($2)))
+         )
+         WHERE mr.condition_id = $1`,
+        [conditionId, telegramIds]
+      );
+    } catch (error) {
+      logger.error('Failed to record affected users for resolution', {
+        conditionId,
+        count: telegramIds.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
+
+// Singleton instance
+let repositoryInstance: MarketResolutionRepository | null = null;
+
+export function getMarketResolutionRepository(): MarketResolutionRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new MarketResolutionRepository();
+  }
+  return repositoryInstance;
+}
@@ -0,0 +1,389 @@
+/**
+ * PnL Engine
+ * Replays a wallet's fills with FIFO or average-cost lot accounting
+ */
+
+export type CostBasisMethod = 'FIFO' | 'AVERAGE';
+
+export interface PnlTrade {
+  conditionId: string;
+  outcome: string;
+  side: 'BUY' | 'SELL';
+  size: number;
+  price: number;
+  timestamp: number; // ms
+  fee?: number;
+  title?: string;
+  eventSlug?: string;
+}
+
+export interface PnlResolution {
+  conditionId: string;
+  winningOutcome: string;
+  resolvedAt: number; // ms
+}
+
+export interface PositionPnl {
+  conditionId: string;
+  outcome: string;
+  title: string;
+  eventSlug: string;
+  openShares: number;
+  costBasis: number;
+  avgCost: number;
+  markPrice: number;
+  marketValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  status: 'OPEN' | 'CLOSED' | 'RESOLVED';
+  markSource: 'current' | 'last_trade' | 'resolution';
+}
+
+export interface WalletPnlReport {
+  method: CostBasisMethod;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  totalPnl: number;
+  openCostBasis: number;
+  openMarketValue: number;
+  totalBought: number;
+  roi: number; // total PnL / capital deployed, in percent
+  closedPositions: number;
+  winningPositions: number;
+  winRate: number; // 0-1
+  unmatchedSellShares: number; // sold shares bought before the replayed window
+  tradeCount: number;
+  positions: PositionPnl[];
+  firstTradeAt?: number;
+  lastTradeAt?: number;
+}
+
+export interface EquityPoint {
+  date: string; // YYYY-MM-DD (UTC)
+  realizedPnl: number;
+  unrealizedPnl: number;
+  equity: number;
+}
+
+export interface PnlOptions {
+  method?: CostBasisMethod;
+  marks?: Map<string, number>; // conditionId:outcome -> current price
+  resolutions?: PnlResolution[];
+}
+
+interface Lot {
+  size: number;
+  price: number;
+}
+
+interface LedgerPosition {
+  conditionId: string;
+  outcome: string;
+  title: string;
+  eventSlug: string;
+  lots: Lot[];
+  realizedPnl: number;
+  lastPrice: number;
+  resolved: boolean;
+  everClosed: boolean;
+}
+
+const DUST = 0.001;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Create the ledger key for a position (matches getPositionKey)
+ */
+function positionKey(conditionId: string, outcome: string): string {
+  return `${conditionId}:${outcome}`;
+}
+
+/**
+ * Running lot ledger shared by the report and equity curve builders
+ */
+class PnlLedger {
+  readonly positions: Map<string, LedgerPosition> = new Map();
+  readonly resolvedConditions: Set<string> = new Set();
+  realizedPnl = 0;
+  totalBought = 0;
+  unmatchedSellShares = 0;
+
+  constructor(private method: CostBasisMethod) {}
+
+  applyTrade(trade: PnlTrade): void {
+    // Nothing trades after resolution; redemptions are booked by applyResolution
+    if (this.resolvedConditions.has(trade.conditionId)) return;
+    if (trade.size <= 0) return;
+
+    const position = this.getOrCreate(trade);
+    const fee = trade.fee || 0;
+    position.lastPrice = trade.price;
+
+    if (trade.side === 'BUY') {
+      const unitCost = trade.price + fee / trade.size;
+      this.totalBought += trade.size * trade.price + fee;
+
+      if (this.method === 'AVERAGE' && position.lots.length > 0) {
+        const lot = position.lots[0];
+        const size = lot.size + trade.size;
+        lot.price = (lot.size * lot.price + trade.size * unitCost) / size;
+        lot.size = size;
+      } else {
+        position.lots.push({ size: trade.size, price: unitCost });
+      }
+      return;
+    }
+
+    // SELL - consume lots from the front (a single lot under average cost)
+    const unitProceeds = trade.price - fee / trade.size;
+    let remaining = trade.size;
+
+    while (remaining > DUST && position.lots.length > 0) {
+      const lot = position.lots[0];
+      const matched = Math.min(lot.size, remaining);
+      const pnl = (unitProceeds - lot.price) * matched;
+
+      position.realizedPnl += pnl;
+      this.realizedPnl += pnl;
+      lot.size -= matched;
+      remaining -= matched;
+
+      if (lot.size <= DUST) {
+        position.lots.shift();
+      }
+    }
+
+    if (remaining > DUST) {
+      this.unmatchedSellShares += remaining;
+    }
+
+    if (position.lots.length === 0) {
+      position.everClosed = true;
+    }
+  }
+
+  applyResolution(resolution: PnlResolution): void {
+    if (this.resolvedConditions.has(resolution.conditionId)) return;
+    this.resolvedConditions.add(resolution.conditionId);
+
+    const winner = resolution.winningOutcome.toLowerCase();
+
+    for (const position of this.positions.values()) {
+      if (position.conditionId !== resolution.conditionId) continue;
+
+      const payout = position.outcome.toLowerCase() === winner ? 1 : 0;
+      for (const lot of position.lots) {
+        const pnl = (payout - lot.price) * lot.size;
+        position.realizedPnl += pnl;
+        this.realizedPnl += pnl;
+      }
+
+      position.lots = [];
+      position.lastPrice = payout;
+      position.resolved = true;
+      position.everClosed = true;
+    }
+  }
+
+  /**
+   * Unrealized PnL of open lots at the given marks (falls back to last fill price)
+   */
+  unrealizedPnl(marks?: Map<string, number>): number {
+    let total = 0;
+    for (const [key, position] of this.positions) {
+      const mark = marks?.get(key) ?? position.lastPrice;
+      for (const lot of position.lots) {
+        total += (mark - lot.price) * lot.size;
+      }
+    }
+    return total;
+  }
+
+  private getOrCreate(trade: PnlTrade): LedgerPosition {
+    const key = positionKey(trade.conditionId, trade.outcome);
+    let position = this.positions.get(key);
+
+    if (!position) {
+      position = {
+        conditionId: trade.conditionId,
+        outcome: trade.outcome,
+        title: trade.title || 'Unknown Market',
+        eventSlug: trade.eventSlug || '',
+        lots: [],
+        realizedPnl: 0,
+        lastPrice: trade.price,
+        resolved: false,
+        everClosed: false,
+      };
+      this.positions.set(key, position);
+    }
+
+    return position;
+  }
+}
+
+/**
+ * Merge trades and resolutions into one chronological event stream
+ */
+function buildEvents(
+  trades: PnlTrade[],
+  resolutions: PnlResolution[]
+): Array<{ timestamp: number; trade?: PnlTrade; resolution?: PnlResolution }> {
+  const events: Array<{ timestamp: number; trade?: PnlTrade; resolution?: PnlResolution }> = [
+    ...trades.map(trade => ({ timestamp: trade.timestamp, trade })),
+    ...resolutions.map(resolution => ({ timestamp: resolution.resolvedAt, resolution })),
+  ];
+
+  // Stable sort keeps same-timestamp fills in feed order; resolutions go last
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) =>
+      a.event.timestamp - b.event.timestamp ||
+      Number(!!a.event.resolution) - Number(!!b.event.resolution) ||
+      a.index - b.index
+    )
+    .map(({ event }) => event);
+}
+
+/**
+ * Calculate realized and unrealized PnL for a wallet
+ * @param trades Fills in any order
+ * @param options Cost basis method, current marks and known resolutions
+ */
+export function calculateWalletPnl(trades: PnlTrade[], options: PnlOptions = {}): WalletPnlReport {
+  const method = options.method || 'FIFO';
+  const ledger = new PnlLedger(method);
+
+  for (const event of buildEvents(trades, options.resolutions || [])) {
+    if (event.trade) ledger.applyTrade(event.trade);
+    else if (event.resolution) ledger.applyResolution(event.resolution);
+  }
+
+  const positions: PositionPnl[] = [];
+  let unrealizedPnl = 0;
+  let openCostBasis = 0;
+  let openMarketValue = 0;
+  let closedPositions = 0;
+  let winningPositions = 0;
+
+  for (const [key, position] of ledger.positions) {
+    const openShares = position.lots.reduce((sum, lot) => sum + lot.size, 0);
+    const costBasis = position.lots.reduce((sum, lot) => sum + lot.size * lot.price, 0);
+    const currentMark = options.marks?.get(key);
+    const markPrice = position.resolved ? position.lastPrice : currentMark ?? position.lastPrice;
+    const marketValue = openShares * markPrice;
+    const positionUnrealized = marketValue - costBasis;
+
+    const status: PositionPnl['status'] = position.resolved
+      ? 'RESOLVED'
+      : openShares > DUST ? 'OPEN' : 'CLOSED';
+
+    if (status !== 'OPEN' && position.everClosed) {
+      closedPositions++;
+      if (position.realizedPnl > 0) winningPositions++;
+    }
+
+    unrealizedPnl += positionUnrealized;
+    openCostBasis += costBasis;
+    openMarketValue += marketValue;
+
+    positions.push({
+      conditionId: position.conditionId,
+      outcome: position.outcome,
+      title: position.title,
+      eventSlug: position.eventSlug,
+      openShares,
+      costBasis,
+      avgCost: openShares > DUST ? costBasis / openShares : 0,
+      markPrice,
+      marketValue,
+      realizedPnl: position.realizedPnl,
+      unrealizedPnl: positionUnrealized,
+      status,
+      markSource: position.resolved ? 'resolution' : currentMark !== undefined ? 'current' : 'last_trade',
+    });
+  }
+
+  const totalPnl = ledger.realizedPnl + unrealizedPnl;
+  const timestamps = trades.map(t => t.timestamp);
+
+  return {
+    method,
+    realizedPnl: ledger.realizedPnl,
+    unrealizedPnl,
+    totalPnl,
+    openCostBasis,
+    openMarketValue,
+    totalBought: ledger.totalBought,
+    roi: ledger.totalBought > 0 ? (totalPnl / ledger.totalBought) * 100 : 0,
+    closedPositions,
+    winningPositions,
+    winRate: closedPositions > 0 ? winningPositions / closedPositions : 0,
+    unmatchedSellShares: ledger.unmatchedSellShares,
+    tradeCount: trades.length,
+    positions,
+    firstTradeAt: timestamps.length > 0 ? Math.min(...timestamps) : undefined,
+    lastTradeAt: timestamps.length > 0 ? Math.max(...timestamps) : undefined,
+  };
+}
+
+/**
+ * Format a timestamp as a UTC day (YYYY-MM-DD)
+ */
+function toDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Build a daily equity curve (cumulative realized + unrealized PnL at each UTC day close)
+ * Past days mark open lots at their last fill price; the final day uses the current marks
+ * @param days Number of trailing days to return (all days since the first trade when omitted)
+ */
+export function buildEquityCurve(
+  trades: PnlTrade[],
+  options: PnlOptions & { days?: number; now?: number } = {}
+): EquityPoint[] {
+  const events = buildEvents(trades, options.resolutions || []);
+  if (events.length === 0) return [];
+
+  const now = options.now ?? Date.now();
+  const ledger = new PnlLedger(options.method || 'FIFO');
+  const curve: EquityPoint[] = [];
+
+  const firstDay = Date.parse(toDay(events[0].timestamp));
+  const lastDay = Date.parse(toDay(now));
+  let eventIndex = 0;
+
+  for (let dayStart = firstDay; dayStart <= lastDay; dayStart += DAY_MS) {
+    const dayEnd = dayStart + DAY_MS;
+
+    while (eventIndex < events.length && events[eventIndex].timestamp < dayEnd) {
+      const event = events[eventIndex++];
+      if (event.trade) ledger.applyTrade(event.trade);
+      else if (event.resolution) ledger.applyResolution(event.resolution);
+    }
+
+    const isToday = dayStart === lastDay;
+    const unrealizedPnl = ledger.unrealizedPnl(isToday ? options.marks : undefined);
+
+    curve.push({
+      date: toDay(dayStart),
+      realizedPnl: ledger.realizedPnl,
+      unrealizedPnl,
+      equity: ledger.realizedPnl + unrealizedPnl,
+    });
+  }
+
+  return options.days ? curve.slice(-options.days) : curve;
+}
+
+/**
+ * Change in equity over the trailing number of days
+ */
+export function getEquityChange(curve: EquityPoint[], days: number): number {
+  if (curve.length === 0) return 0;
+  const last = curve[curve.length - 1];
+  const baseIndex = curve.length - 1 - days;
+  const base = baseIndex >= 0 ? curve[baseIndex].equity : 0;
+  return last.equity - base;
+}
@@ -0,0 +1,313 @@
+/**
+ * Wallet PnL Service
+ * Fetches a wallet's fills, marks and resolutions and runs them through the PnL engine
+ */
+
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+import { PolymarketPosition, PolymarketTransaction } from '@/types/polymarket';
+import { logger } from '@/utils/logger';
+import {
+  CostBasisMethod,
+  EquityPoint,
+  PnlResolution,
+  PnlTrade,
+  WalletPnlReport,
+  buildEquityCurve,
+  calculateWalletPnl,
+} from './pnl-engine';
+import {
+  MarketResolutionRepository,
+  getMarketResolutionRepository,
+} from './market-resolution-repository';
+
+export interface WalletPnlResult {
+  walletAddress: string;
+  report: WalletPnlReport;
+  equityCurve: EquityPoint[];
+  calculatedAt: Date;
+}
+
+export interface PnlServiceConfig {
+  tradePageSize: number;
+  maxTradePages: number;
+  equityCurveDays: number;
+  cacheTtlMs: number;
+  maxStatusLookups: number;   // Market status lookups per calculation for redeemed positions
+}
+
+const DEFAULT_CONFIG: PnlServiceConfig = {
+  tradePageSize: 500,
+  maxTradePages: 10,
+  equityCurveDays: 90,
+  cacheTtlMs: 5 * 60 * 1000, // 5 minutes
+  maxStatusLookups: 25,
+};
+
+// Shares below this count as a closed position (rounding dust)
+const MIN_OPEN_SHARES = 0.01;
+
+/**
+ * Convert activity feed fills to engine trades
+ */
+export function toPnlTrades(transactions: PolymarketTransaction[]): PnlTrade[] {
+  return transactions
+    .filter(t => t.type === 'BUY' || t.type === 'SELL')
+    .map(t => ({
+      conditionId: t.conditionId,
+      outcome: t.outcome,
+      side: t.type as 'BUY' | 'SELL',
+      size: t.size ?? t.amount,
+      price: t.price,
+      timestamp: new Date(t.timestamp).getTime(),
+      fee: t.fee,
+      title: t.title,
+      eventSlug: t.eventSlug,
+    }));
+}
+
+/**
+ * Derive a resolution from a redeemable position (settled at $1 or $0)
+ */
+export function resolutionFromPosition(position: PolymarketPosition, now = Date.now()): PnlResolution | null {
+  if (!position.redeemable || position.curPrice === undefined) return null;
+
+  let winningOutcome: string | undefined;
+  if (position.curPrice >= 0.99) {
+    winningOutcome = position.outcome;
+  } else if (position.curPrice <= 0.01) {
+    winningOutcome = position.oppositeOutcome;
+  }
+  if (!winningOutcome) return null;
+
+  const endDate = position.endDate ? Date.parse(position.endDate) : NaN;
+  return {
+    conditionId: position.conditionId,
+    winningOutcome,
+    resolvedAt: !isNaN(endDate) && endDate < now ? endDate : now,
+  };
+}
+
+/**
+ * Derive a resolution from a closed Gamma market (the outcome priced at $1 won)
+ */
+export function resolutionFromMarket(market: Record<string, unknown>, now = Date.now()): PnlResolution | null {
+  if (!market.closed || typeof market.conditionId !== 'string') return null;
+
+  const outcomes = parseList(market.outcomes);
+  const prices = parseList(market.outcomePrices).map(p => Number(p));
+  const winnerIndex = prices.findIndex(p => p >= 0.99);
+  if (winnerIndex < 0 || typeof outcomes[winnerIndex] !== 'string') return null;
+
+  const closedAt = Date.parse(String(market.closedTime ?? market.endDate ?? ''));
+  return {
+    conditionId: market.conditionId,
+    winningOutcome: outcomes[winnerIndex] as string,
+    resolvedAt: !isNaN(closedAt) && closedAt < now ? closedAt : now,
+  };
+}
+
+/**
+ * Conditions where the trades leave shares open but the wallet no longer holds a position
+ * and no resolution is known: usually redeemed after resolving
+ */
+export function findUnsettledConditions(
+  trades: PnlTrade[],
+  positions: PolymarketPosition[],
+  resolutions: PnlResolution[]
+): string[] {
+  const shares = new Map<string, number>();
+  for (const trade of trades) {
+    shares.set(trade.conditionId, (shares.get(trade.conditionId) || 0) + (trade.side === 'BUY' ? trade.size : -trade.size));
+  }
+
+  const held = new Set(positions.map(p => p.conditionId));
+  const resolved = new Set(resolutions.map(r => r.conditionId));
+  return Array.from(shares.entries())
+    .filter(([conditionId, open]) => open >= MIN_OPEN_SHARES && !held.has(conditionId) && !resolved.has(conditionId))
+    .map(([conditionId]) => conditionId);
+}
+
+// Gamma sends list fields as JSON strings, e.g. '["Yes","No"]'
+function parseList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string') return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * WalletPnlService
+ * Computes realized/unrealized PnL and equity curves for any wallet
+ */
+export class WalletPnlService {
+  private restClient: PolymarketRestClient;
+  private resolutionRepository: MarketResolutionRepository;
+  private config: PnlServiceConfig;
+  private cache: Map<string, { result: WalletPnlResult; expiresAt: number }> = new Map();
+
+  constructor(restClient: PolymarketRestClient, config?: Partial<PnlServiceConfig>) {
+    this.restClient = restClient;
+    this.resolutionRepository = getMarketResolutionRepository();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Get PnL report and daily equity curve for a wallet
+   */
+  async getWalletPnl(walletAddress: string, method: CostBasisMethod = 'FIFO'): Promise<WalletPnlResult> {
+    const normalizedWallet = walletAddress.toLowerCase();
+    const cacheKey = `${normalizedWallet}:${method}`;
+
+    const cached = this.cache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.result;
+    }
+
+    const [transactions, fetchedPositions] = await Promise.all([
+      this.fetchAllTrades(normalizedWallet),
+      this.restClient.getPositionsFromDataAPI({ user: normalizedWallet, limit: 500, sizeThreshold: 0 }),
+    ]);
+    const positions = Array.isArray(fetchedPositions) ? fetchedPositions : [];
+
+    // Feed is newest first; replay same-second fills in execution order
+    const trades = toPnlTrades(transactions).reverse();
+    const marks = new Map<string, number>();
+    const observedResolutions: PnlResolution[] = [];
+
+    for (const position of positions) {
+      if (position.curPrice !== undefined) {
+        marks.set(`${position.conditionId}:${position.outcome}`, position.curPrice);
+      }
+
+      const resolution = resolutionFromPosition(position);
+      if (resolution) {
+        observedResolutions.push(resolution);
+        await this.resolutionRepository.recordResolution({
+          conditionId: resolution.conditionId,
+          question: position.title || resolution.conditionId,
+          winningOutcome: resolution.winningOutcome,
+          probability: 1,
+          resolvedAt: new Date(resolution.resolvedAt),
+        });
+      }
+    }
+
+    const conditionIds = Array.from(new Set(trades.map(t => t.conditionId)));
+    const storedResolutions = await this.resolutionRepository.getResolutions(conditionIds);
+    const resolutions = [
+      ...storedResolutions,
+      ...observedResolutions.filter(r => !storedResolutions.some(s => s.conditionId === r.conditionId)),
+    ];
+
+    // Redeemed positions drop out of the positions feed, so their open lots would stay
+    // valued at the last fill; settle them from the market's status instead
+    resolutions.push(...await this.lookupResolutions(findUnsettledConditions(trades, positions, resolutions)));
+
+    const report = calculateWalletPnl(trades, { method, marks, resolutions });
+    const equityCurve = buildEquityCurve(trades, {
+      method,
+      marks,
+      resolutions,
+      days: this.config.equityCurveDays,
+    });
+
+    const result: WalletPnlResult = {
+      walletAddress: normalizedWallet,
+      report,
+      equityCurve,
+      calculatedAt: new Date(),
+    };
+
+    this.cache.set(cacheKey, { result, expiresAt: Date.now() + this.config.cacheTtlMs });
+
+    logger.debug('Calculated wallet PnL', {
+      wallet: normalizedWallet,
+      method,
+      trades: trades.length,
+      realizedPnl: report.realizedPnl,
+      unrealizedPnl: report.unrealizedPnl,
+    });
+
+    return result;
+  }
+
+  /**
+   * Resolutions of closed markets from Gamma, recorded so later calculations read them
+   * from storage (capped per calculation; the rest keep their last fill price until then)
+   */
+  private async lookupResolutions(conditionIds: string[]): Promise<PnlResolution[]> {
+    const resolutions: PnlResolution[] = [];
+
+    for (const conditionId of conditionIds.slice(0, this.config.maxStatusLookups)) {
+      try {
+        const market = await this.restClient.getGammaMarketByCondition(conditionId);
+        const resolution = market ? resolutionFromMarket(market) : null;
+        if (!resolution) continue;
+
+        resolutions.push(resolution);
+        await this.resolutionRepository.recordResolution({
+          conditionId,
+          question: market.question || conditionId,
+          winningOutcome: resolution.winningOutcome,
+          probability: 1,
+          resolvedAt: new Date(resolution.resolvedAt),
+        });
+      } catch (error) {
+        logger.debug('Failed to look up market resolution', {
+          conditionId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return resolutions;
+  }
+
+  /**
+   * Page through a wallet's fills (newest first) up to the configured depth
+   */
+  private async fetchAllTrades(walletAddress: string): Promise<PolymarketTransaction[]> {
+    const all: PolymarketTransaction[] = [];
+
+    for (let page = 0; page < this.config.maxTradePages; page++) {
+      const trades = await this.restClient.getTradesFromDataAPI({
+        user: walletAddress,
+        limit: this.config.tradePageSize,
+        offset: page * this.config.tradePageSize,
+      });
+
+      all.push(...trades);
+      if (trades.length < this.config.tradePageSize) break;
+    }
+
+    if (all.length >= this.config.tradePageSize * this.config.maxTradePages) {
+      logger.warn('Trade history truncated for PnL calculation', {
+        wallet: walletAddress,
+        trades: all.length,
+      });
+    }
+
+    return all;
+  }
+}
+
+// Singleton instance
+let serviceInstance: WalletPnlService | null = null;
+
+export function createWalletPnlService(
+  restClient: PolymarketRestClient,
+  config?: Partial<PnlServiceConfig>
+): WalletPnlService {
+  if (!serviceInstance) {
+    serviceInstance = new WalletPnlService(restClient, config);
+  }
+  return serviceInstance;
+}
+
+export function getWalletPnlService(): WalletPnlService | null {
+  return serviceInstance;
+}
@@ -52,6 +52,10 @@ interface WalletPosition {
   slug?: string;
   eventSlug?: string;
   title?: string;
+  // Settlement fields from Data API
+  curPrice?: number;
+  redeemable?: boolean;
+  oppositeOutcome?: string;
 }
 
 interface ServiceStats {
@@ -70,6 +74,7 @@ export class PolymarketService extends EventEmitter {
   private config: PolymarketServiceConfig;
   private stats: ServiceStats;
   private healthCheckInterval: NodeJS.Timeout | null = null;
+  private watchedWallets: Set<string> = new Set();
 
   constructor(customConfig?: PolymarketServiceConfig) {
     super();
@@ -199,6 +204,7 @@ export class PolymarketService extends EventEmitter {
           break;
         case 'TRANSACTION':
           this.emit('transaction:new', event.data);
+          this.emitWalletTrade(event);
           break;
         case 'RESOLUTION':
           this.emit('market:resolved', event.data);
@@ -272,7 +278,10 @@ export class PolymarketService extends EventEmitter {
         // URL-related fields from Data API
         slug: position.slug,
         eventSlug: position.eventSlug,
-        title: position.title
+        title: position.title,
+        curPrice: position.curPrice,
+        redeemable: position.redeemable,
+        oppositeOutcome: position.oppositeOutcome
       }));
 
       this.recordRequestTime(Date.now() - startTime);
@@ -489,6 +498,18 @@ export class PolymarketService extends EventEmitter {
     }
   }
 
+  /**
+   * Forward fills by subscribed wallets from the public activity stream
+   */
+  private emitWalletTrade(event: ProcessingEvent): void {
+    const transaction = event.data.transaction;
+    const wallet = (transaction?.proxyWallet || transaction?.user || '').toLowerCase();
+
+    if (transaction && this.watchedWallets.has(wallet)) {
+      this.emit('wallet:trade', transaction);
+    }
+  }
+
   // Real-time Data subscription methods
 
   async subscribeToMarket(marketId: string): Promise<void> {
@@ -498,9 +519,15 @@ export class PolymarketService extends EventEmitter {
   }
 
   async subscribeToWallet(walletAddress: string): Promise<void> {
-    // clob_user subscription requires authentication
-    // For public bot, we use polling via Data API instead
-    logger.debug(`Wallet subscription skipped (requires auth): ${walletAddress}`);
+    // clob_user requires authentication, so wallet fills are filtered out of the
+    // public activity stream (subscribed by default) and emitted as 'wallet:trade'
+    if (!this.rtdClient) {
+      logger.debug(`Wallet subscription skipped (real-time client disabled): ${walletAddress}`);
+      return;
+    }
+
+    this.watchedWallets.add(walletAddress.toLowerCase());
+    logger.debug(`Watching activity stream for wallet: ${walletAddress}`);
   }
 
   async subscribeToActivity(): Promise<void> {
@@ -523,8 +550,12 @@ export class PolymarketService extends EventEmitter {
   }
 
   async unsubscribeFromWallet(walletAddress: string): Promise<void> {
-    // No-op: clob_user subscription requires authentication
-    logger.debug(`Wallet unsubscription skipped (requires auth): ${walletAddress}`);
+    this.watchedWallets.delete(walletAddress.toLowerCase());
+    logger.debug(`Stopped watching activity stream for wallet: ${walletAddress}`);
+  }
+
+  isRealtimeConnected(): boolean {
+    return !!this.rtdClient && this.rtdClient.isClientConnected();
   }
 
   // Utility methods
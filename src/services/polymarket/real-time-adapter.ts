@@ -3,6 +3,7 @@ import { RealTimeDataClient } from '@polymarket/real-time-data-client';
 import { logger } from '../../utils/logger';
 import { ProcessingEvent } from '../../types/data-processing';
 import { PolymarketEvent } from '../../types/polymarket';
+import { mapDataApiTrade } from './trade-mapper';
 
 interface RealTimeAdapterConfig {
   enabledTopics?: string[];
@@ -209,26 +210,19 @@ export class RealTimeDataAdapter extends EventEmitter {
     }
   }
 
-  private transformActivityMessage(type: string, payload: any): ProcessingEvent {
+  private transformActivityMessage(type: string, payload: any): ProcessingEvent | null {
+    // orders_matched repeats the fills already published as trades
+    if (type !== 'trades') {
+      return null;
+    }
+
     return {
       id: `activity_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       type: 'TRANSACTION',
       timestamp: new Date(),
       data: {
-        transaction: {
-          id: payload.id || payload.transactionId,
-          user: payload.user || payload.address,
-          type: payload.side === 'buy' ? 'BUY' : 'SELL',
-          conditionId: payload.conditionId || payload.market_id,
-          outcome: payload.outcome,
-          amount: parseFloat(payload.size || payload.amount || '0'),
-          price: parseFloat(payload.price || '0'),
-          timestamp: payload.timestamp || new Date().toISOString(),
-          hash: payload.hash || payload.txHash || '',
-          blockNumber: payload.blockNumber,
-          gasUsed: payload.gasUsed,
-          fee: payload.fee
-        }
+        // Same shape (and trade id) as the Data API trades endpoint
+        transaction: mapDataApiTrade(payload)
       },
       processedAt: null as any,
       processingTime: 0,
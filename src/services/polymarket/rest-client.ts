@@ -35,6 +35,7 @@ import {
   PolymarketApiError,
 } from '@/types/polymarket';
 import databasePool from '@/services/database/connection-pool';
+import { mapDataApiTrade } from './trade-mapper';
 import { CacheManager } from '@/types/data-processing';
 
 export class PolymarketRestClient {
@@ -537,6 +538,8 @@ export class PolymarketRestClient {
                   status: market.closed ? 'RESOLVED' : 'ACTIVE',
                   volume: market.volume,
                   liquidity: market.liquidity,
+                  category: market.category || event.category,
+                  tags: this.mapTags(market.tags || event.tags),
                 };
               }
             }
@@ -565,6 +568,8 @@ export class PolymarketRestClient {
           status: market.closed ? 'RESOLVED' : 'ACTIVE',
           volume: market.volume,
           liquidity: market.liquidity,
+          category: market.category,
+          tags: this.mapTags(market.tags),
         };
       }
 
@@ -575,6 +580,16 @@ export class PolymarketRestClient {
     }
   }
 
+  /**
+   * Tags come as plain strings (CLOB) or as { label, slug } objects (Gamma)
+   */
+  private mapTags(tags: any): string[] | undefined {
+    if (!Array.isArray(tags)) return undefined;
+    return tags
+      .map(tag => (typeof tag === 'string' ? tag : tag?.label || tag?.slug))
+      .filter((tag): tag is string => typeof tag === 'string' && tag.length > 0);
+  }
+
   async getCondition(conditionId: string): Promise<PolymarketCondition> {
     const cacheKey = await this.getCacheKey(`condition:${conditionId}`);
 
@@ -608,6 +623,8 @@ export class PolymarketRestClient {
           status: market.closed ? 'RESOLVED' : 'ACTIVE',
           volume: market.volume,
           liquidity: market.liquidity,
+          category: market.category,
+          tags: this.mapTags(market.tags),
         };
 
         if (this.config.cache.enabled) {
@@ -696,7 +713,32 @@ export class PolymarketRestClient {
   }): Promise<PolymarketTransaction[]> {
     const cacheKey = await this.getCacheKey('transactions', params);
 
-    if (this.config.cache.enabled) {
+    // Per-user trades come from the Data API (public, includes maker fills)
+    if (params?.user) {
+      if (this.config.cache.enabled) {
+        const cached = await this.cache.get<PolymarketTransaction[]>(cacheKey);
+        if (cached) {
+          this.stats.cacheHits++;
+          return cached;
+        }
+        this.stats.cacheMisses++;
+      }
+
+      try {
+        const trades = await this.getTradesFromDataAPI(params);
+
+        if (this.config.cache.enabled) {
+          await this.cache.set(cacheKey, trades, {
+            ttl: polymarketCacheConfig.userTrades.ttl,
+            tags: polymarketCacheConfig.userTrades.tags,
+          });
+        }
+
+        return trades;
+      } catch (error) {
+        logger.warn('Data API failed for trades, trying CLOB API as fallback:', error);
+      }
+    } else if (this.config.cache.enabled) {
       const cached = await this.cache.get<PolymarketTransaction[]>(cacheKey);
       if (cached) {
         this.stats.cacheHits++;
@@ -771,6 +813,50 @@ export class PolymarketRestClient {
     }
   }
 
+  // Fetch a wallet's fills from Data API, newest first
+  async getTradesFromDataAPI(params?: {
+    user?: string;
+    conditionId?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<PolymarketTransaction[]> {
+    try {
+      const queryParams: any = {
+        // Data API defaults to taker fills only; tracked wallets also trade as makers
+        takerOnly: false,
+      };
+
+      if (params?.user) {
+        queryParams.user = params.user;
+      }
+      if (params?.conditionId) {
+        queryParams.market = params.conditionId;
+      }
+      if (params?.limit) {
+        queryParams.limit = params.limit;
+      }
+      if (params?.offset) {
+        queryParams.offset = params.offset;
+      }
+
+      const response = await this.executeWithRetry(() =>
+        this.dataClient.get(polymarketDataEndpoints.trades, {
+          params: queryParams,
+        }),
+        polymarketRetryPolicy.networkErrors
+      );
+
+      if (!Array.isArray(response)) {
+        return [];
+      }
+
+      return response.map((trade: any) => mapDataApiTrade(trade, params?.user));
+    } catch (error) {
+      logger.warn('Failed to fetch trades from Data API:', error);
+      throw new ApiError(`Failed to fetch trades from Data API: ${error}`);
+    }
+  }
+
   async getPositions(params?: {
     user?: string;
     conditionId?: string;
@@ -828,10 +914,13 @@ export class PolymarketRestClient {
     }
   }
 
-  async getOrderBook(conditionId: string): Promise<PolymarketOrderBook> {
+  /**
+   * @param options.skipCache Always fetch (the fresh book still refreshes the cache)
+   */
+  async getOrderBook(conditionId: string, options: { skipCache?: boolean } = {}): Promise<PolymarketOrderBook> {
     const cacheKey = await this.getCacheKey(`order-book:${conditionId}`);
 
-    if (this.config.cache.enabled) {
+    if (this.config.cache.enabled && !options.skipCache) {
       const cached = await this.cache.get<PolymarketOrderBook>(cacheKey);
       if (cached) {
         this.stats.cacheHits++;
@@ -963,6 +1052,56 @@ export class PolymarketRestClient {
     }
   }
 
+  /**
+   * Open markets ending inside a window, soonest first (Gamma API)
+   */
+  async getMarketsEndingBetween(params: {
+    endDateMin: string;
+    endDateMax: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<any[]> {
+    try {
+      const response = await this.executeWithRetry(() =>
+        this.gammaClient.get(polymarketGammaEndpoints.markets, {
+          params: {
+            closed: false,
+            end_date_min: params.endDateMin,
+            end_date_max: params.endDateMax,
+            order: 'endDate',
+            ascending: true,
+            limit: params.limit ?? polymarketApiParams.default.limit,
+            offset: params.offset ?? 0,
+          },
+        }),
+        polymarketRetryPolicy.networkErrors
+      );
+
+      return Array.isArray(response) ? response : [];
+    } catch (error) {
+      throw new ApiError(`Failed to fetch closing markets: ${error}`);
+    }
+  }
+
+  /**
+   * Raw Gamma market for a condition, with its closed flag and final outcome prices
+   * (null if Gamma doesn't know the condition)
+   */
+  async getGammaMarketByCondition(conditionId: string): Promise<any | null> {
+    try {
+      const response = await this.executeWithRetry(() =>
+        this.gammaClient.get(polymarketGammaEndpoints.markets, {
+          params: { condition_ids: conditionId, limit: 1 },
+        }),
+        polymarketRetryPolicy.networkErrors
+      );
+
+      return Array.isArray(response) && response.length > 0 ? response[0] : null;
+    } catch (error) {
+      throw new ApiError(`Failed to fetch Gamma market for ${conditionId}: ${error}`);
+    }
+  }
+
   async getCategories(): Promise<any> {
     const cacheKey = await this.getCacheKey('categories');
 
@@ -0,0 +1,31 @@
+import { PolymarketTransaction } from '../../types/polymarket';
+
+/**
+ * Map a Data API trade (also the payload of the real-time `activity` topic) to a transaction
+ * Both sources produce the same id for the same fill, so they can be deduplicated
+ */
+export function mapDataApiTrade(trade: any, fallbackUser?: string): PolymarketTransaction {
+  // Data API timestamps are unix seconds
+  const timestampMs = typeof trade.timestamp === 'number'
+    ? trade.timestamp * 1000
+    : new Date(trade.timestamp).getTime();
+
+  return {
+    id: `${trade.transactionHash}:${trade.asset}:${trade.side}:${trade.size}:${trade.price}`,
+    user: trade.proxyWallet || fallbackUser || '',
+    type: trade.side === 'SELL' ? 'SELL' : 'BUY',
+    conditionId: trade.conditionId,
+    outcome: trade.outcome,
+    amount: Number(trade.size) || 0,
+    price: Number(trade.price) || 0,
+    timestamp: new Date(timestampMs).toISOString(),
+    hash: trade.transactionHash,
+    proxyWallet: trade.proxyWallet,
+    asset: trade.asset,
+    size: Number(trade.size) || 0,
+    title: trade.title,
+    slug: trade.slug,
+    eventSlug: trade.eventSlug,
+    outcomeIndex: trade.outcomeIndex,
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Price Alerts Module Exports
+ * User alerts when a market's YES price crosses a threshold
+ */
+
+// Rules
+export {
+  DEFAULT_HYSTERESIS,
+  evaluatePriceAlert,
+  getArmedStatus,
+  isPastThreshold,
+  parseDirection,
+  parsePriceThreshold,
+  type PriceAlertDirection,
+  type PriceAlertState,
+  type PriceAlertStatus,
+  type PriceAlertTransition,
+} from './price-alert-rules';
+
+// Repository
+export {
+  PriceAlertRepository,
+  getPriceAlertRepository,
+  type PriceAlert,
+} from './price-alert-repository';
+
+// Service
+export {
+  PriceAlertService,
+  createPriceAlertService,
+  getPriceAlertService,
+  formatPriceAlertNotification,
+  type PriceAlertServiceConfig,
+} from './price-alert-service';
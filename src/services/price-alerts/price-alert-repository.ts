@@ -0,0 +1,270 @@
+/**
+ * Price Alert Repository
+ * PostgreSQL persistence for price threshold alerts (position_alerts rows of type 'price_threshold')
+ */
+
+import { query } from '@/services/database/connection-pool';
+import { logger } from '@/utils/logger';
+import { PriceAlertDirection, PriceAlertStatus } from './price-alert-rules';
+
+export interface PriceAlert {
+  id: string;
+  telegramId: number;
+  conditionId: string;
+  marketTitle: string;
+  direction: PriceAlertDirection;
+  threshold: number;          // YES price, 0-1
+  status: PriceAlertStatus;
+  createdAt: Date;
+  triggeredAt?: Date;
+  triggeredPrice?: number;
+}
+
+interface PriceAlertRow {
+  id: string;
+  telegram_id: string;
+  condition_id: string;
+  market_title: string | null;
+  direction: PriceAlertDirection;
+  threshold_value: string;
+  status: PriceAlertStatus;
+  created_at: Date;
+  triggered_at: Date | null;
+  triggered_price: string | null;
+}
+
+const ALERT_TYPE = 'price_threshold';
+
+// threshold_value is a BIGINT, so prices are stored in basis points
+const BASIS_POINTS = 10000;
+
+const ALERT_SELECT = `
+  SELECT pa.id, u.telegram_id, pa.condition_id, pa.market_title, pa.direction, pa.threshold_value,
+         pa.status, pa.created_at, pa.triggered_at, pa.triggered_price
+  FROM position_alerts pa
+  JOIN users u ON pa.user_id = u.id`;
+
+/**
+ * PriceAlertRepository
+ * Handles PostgreSQL persistence for price threshold alerts
+ */
+export class PriceAlertRepository {
+  /**
+   * Create an alert for a user
+   */
+  async createAlert(
+    telegramId: number,
+    alert: {
+      conditionId: string;
+      marketTitle: string;
+      direction: PriceAlertDirection;
+      threshold: number;
+      status: PriceAlertStatus;
+    },
+    maxAlerts: number
+  ): Promise<{ success: boolean; message: string; alert?: PriceAlert }> {
+    try {
+      const users = await query<{ id: string }>(
+        'SELECT id FROM users WHERE telegram_id = $1',
+        [telegramId]
+      );
+      if (users.length === 0) {
+        return { success: false, message: 'Start the bot with /start first.' };
+      }
+      const userId = users[0].id;
+
+      const countResult = await query<{ count: string }>(
+        `SELECT COUNT(*) as count FROM position_alerts
+         WHERE user_id = $1 AND alert_type = $2 AND is_active = true`,
+        [userId, ALERT_TYPE]
+      );
+      if (parseInt(countResult[0].count) >= maxAlerts) {
+        return { success: false, message: `Maximum ${maxAlerts} price alerts per user. Delete one first.` };
+      }
+
+      const inserted = await query<{ id: string }>(
+        `INSERT INTO position_alerts
+         (user_id, condition_id, alert_type, threshold_value, direction, status, market_title, is_active)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, true)
+         RETURNING id`,
+        [
+          userId,
+          alert.conditionId,
+          ALERT_TYPE,
+          Math.round(alert.threshold * BASIS_POINTS),
+          alert.direction,
+          alert.status,
+          alert.marketTitle,
+        ]
+      );
+
+      logger.info('Created price alert', { telegramId, ...alert });
+
+      const created = await this.getAlert(inserted[0].id);
+      return { success: true, message: 'Alert created.', alert: created || undefined };
+    } catch (error) {
+      logger.error('Failed to create price alert', {
+        telegramId,
+        conditionId: alert.conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { success: false, message: 'Failed to create the alert. Please try again.' };
+    }
+  }
+
+  /**
+   * Get a user's alerts, oldest first (the order /alerts numbers them in)
+   */
+  async getUserAlerts(telegramId: number): Promise<PriceAlert[]> {
+    try {
+      const results = await query<PriceAlertRow>(
+        `${ALERT_SELECT}
+         WHERE u.telegram_id = $1 AND pa.alert_type = $2 AND pa.is_active = true
+         ORDER BY pa.created_at ASC`,
+        [telegramId, ALERT_TYPE]
+      );
+
+      return results.map(r => this.mapAlert(r));
+    } catch (error) {
+      logger.error('Failed to get price alerts', {
+        telegramId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get every alert that can still fire or re-arm
+   */
+  async getPendingAlerts(): Promise<PriceAlert[]> {
+    try {
+      const results = await query<PriceAlertRow>(
+        `${ALERT_SELECT}
+         WHERE pa.alert_type = $1 AND pa.is_active = true AND pa.status IN ('ARMED', 'RESETTING')`,
+        [ALERT_TYPE]
+      );
+
+      return results.map(r => this.mapAlert(r));
+    } catch (error) {
+      logger.error('Failed to get pending price alerts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  async getAlert(alertId: string): Promise<PriceAlert | null> {
+    try {
+      const results = await query<PriceAlertRow>(
+        `${ALERT_SELECT}
+         WHERE pa.id = $1`,
+        [alertId]
+      );
+
+      return results.length > 0 ? this.mapAlert(results[0]) : null;
+    } catch (error) {
+      logger.error('Failed to get price alert', {
+        alertId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Mark an armed alert as fired
+   * @returns false if it was no longer armed (already fired from another update)
+   */
+  async markTriggered(alertId: string, price: number): Promise<boolean> {
+    try {
+      const updated = await query<{ id: string }>(
+        `UPDATE position_alerts
+         SET status = 'TRIGGERED', triggered_at = NOW(), triggered_price = $2
+         WHERE id = $1 AND status = 'ARMED' AND is_active = true
+         RETURNING id`,
+        [alertId, price]
+      );
+
+      return updated.length > 0;
+    } catch (error) {
+      logger.error('Failed to mark price alert triggered', {
+        alertId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Set an alert's status (arming after a reset, or re-arming by the user)
+   */
+  async setStatus(alertId: string, status: PriceAlertStatus): Promise<boolean> {
+    try {
+      const updated = await query<{ id: string }>(
+        `UPDATE position_alerts SET status = $2
+         WHERE id = $1 AND is_active = true
+         RETURNING id`,
+        [alertId, status]
+      );
+
+      return updated.length > 0;
+    } catch (error) {
+      logger.error('Failed to update price alert status', {
+        alertId,
+        status,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Delete one of a user's alerts
+   */
+  async deleteAlert(telegramId: number, alertId: string): Promise<boolean> {
+    try {
+      const deleted = await query<{ id: string }>(
+        `UPDATE position_alerts pa SET is_active = false
+         FROM users u
+         WHERE pa.user_id = u.id AND u.telegram_id = $1 AND pa.id = $2 AND pa.is_active = true
+         RETURNING pa.id`,
+        [telegramId, alertId]
+      );
+
+      return deleted.length > 0;
+    } catch (error) {
+      logger.error('Failed to delete price alert', {
+        telegramId,
+        alertId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  private mapAlert(r: PriceAlertRow): PriceAlert {
+    return {
+      id: r.id,
+      telegramId: Number(r.telegram_id),
+      conditionId: r.condition_id,
+      marketTitle: r.market_title || r.condition_id,
+      direction: r.direction,
+      threshold: Number(r.threshold_value) / BASIS_POINTS,
+      status: r.status,
+      createdAt: r.created_at,
+      triggeredAt: r.triggered_at || undefined,
+      triggeredPrice: r.triggered_price !== null ? parseFloat(r.triggered_price) : undefined,
+    };
+  }
+}
+
+// Singleton instance
+let repositoryInstance: PriceAlertRepository | null = null;
+
+export function getPriceAlertRepository(): PriceAlertRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new PriceAlertRepository();
+  }
+  return repositoryInstance;
+}
@@ -0,0 +1,100 @@
+/**
+ * Price Alert Rules
+ * When a price threshold alert fires and re-arms. An alert fires once when the YES
+ * price crosses its threshold; after a re-arm it waits until the price has moved back
+ * past a hysteresis band so a market hovering at the threshold doesn't fire again.
+ */
+
+export type PriceAlertDirection = 'above' | 'below';
+
+export type PriceAlertStatus = 'ARMED' | 'RESETTING' | 'TRIGGERED';
+
+export interface PriceAlertState {
+  direction: PriceAlertDirection;
+  threshold: number;       // YES price, 0-1
+  status: PriceAlertStatus;
+}
+
+export type PriceAlertTransition = 'FIRE' | 'ARM';
+
+export const DEFAULT_HYSTERESIS = 0.02;
+
+/**
+ * Whether the price is at or past the threshold in the alert's direction
+ */
+export function isPastThreshold(alert: Pick<PriceAlertState, 'direction' | 'threshold'>, price: number): boolean {
+  return alert.direction === 'above' ? price >= alert.threshold : price <= alert.threshold;
+}
+
+/**
+ * Status of a new or re-armed alert: armed unless the price is already past the threshold
+ * @param price Current YES price (unknown arms the alert)
+ */
+export function getArmedStatus(
+  alert: Pick<PriceAlertState, 'direction' | 'threshold'>,
+  price?: number
+): PriceAlertStatus {
+  return price !== undefined && isPastThreshold(alert, price) ? 'RESETTING' : 'ARMED';
+}
+
+/**
+ * Next transition of an alert at the given price, null when nothing changes
+ * ARMED fires when the price reaches the threshold; RESETTING arms once the price is
+ * back beyond the hysteresis band; TRIGGERED waits for the user to re-arm it.
+ */
+export function evaluatePriceAlert(
+  alert: PriceAlertState,
+  price: number,
+  hysteresis: number = DEFAULT_HYSTERESIS
+): PriceAlertTransition | null {
+  if (alert.status === 'ARMED') {
+    return isPastThreshold(alert, price) ? 'FIRE' : null;
+  }
+
+  if (alert.status === 'RESETTING') {
+    const cleared = alert.direction === 'above'
+      ? price <= roundPrice(alert.threshold - hysteresis)
+      : price >= roundPrice(alert.threshold + hysteresis);
+    return cleared ? 'ARM' : null;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a price argument: "70%", "70c", "70¢", "70" or "0.7"
+ * @returns YES price strictly between 0 and 1, or null if invalid
+ */
+export function parsePriceThreshold(input: string): number | null {
+  const match = input.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*(%|c|¢)?$/);
+  if (!match) return null;
+
+  const value = parseFloat(match[1]);
+  const price = match[2] || value > 1 ? value / 100 : value;
+  if (!(price > 0 && price < 1)) return null;
+
+  return roundPrice(price);
+}
+
+/**
+ * Parse the direction argument ("above"/"below", also ">"/"<")
+ */
+export function parseDirection(input: string): PriceAlertDirection | null {
+  switch (input.trim().toLowerCase()) {
+    case 'above':
+    case 'over':
+    case '>':
+      return 'above';
+    case 'below':
+    case 'under':
+    case '<':
+      return 'below';
+    default:
+      return null;
+  }
+}
+
+// Thresholds are stored in basis points
+function roundPrice(price: number): number {
+  return Math.round(price * 10000) / 10000;
+}
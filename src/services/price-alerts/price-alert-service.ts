@@ -0,0 +1,292 @@
+/**
+ * Price Alert Service
+ * Evaluates users' price threshold alerts against streamed PRICE_UPDATE events and a
+ * periodic poll of market data, and notifies each user once per crossing
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+import { PolymarketMarketData } from '@/types/polymarket';
+import { logger } from '@/utils/logger';
+import {
+  DEFAULT_HYSTERESIS,
+  PriceAlertDirection,
+  evaluatePriceAlert,
+  getArmedStatus,
+} from './price-alert-rules';
+import { PriceAlert, PriceAlertRepository, getPriceAlertRepository } from './price-alert-repository';
+import { escapeMarkdown, formatProbability } from '@/utils/format';
+
+export interface PriceAlertServiceConfig {
+  pollIntervalMinutes: number;  // How often markets with pending alerts are polled (default: 1)
+  hysteresis: number;           // Price move back past the threshold before a re-armed alert arms (default: 0.02)
+  maxAlertsPerUser: number;     // default: 20
+}
+
+const DEFAULT_CONFIG: PriceAlertServiceConfig = {
+  pollIntervalMinutes: 1,
+  hysteresis: DEFAULT_HYSTERESIS,
+  maxAlertsPerUser: 20,
+};
+
+/**
+ * PriceAlertService
+ * Keeps pending alerts in memory by market so streamed prices are checked without a query
+ */
+export class PriceAlertService {
+  private bot: Telegraf<Context>;
+  private restClient: PolymarketRestClient;
+  private repository: PriceAlertRepository;
+  private config: PriceAlertServiceConfig;
+  private pending: Map<string, PriceAlert[]> = new Map();   // By conditionId
+  private pollInterval: ReturnType<typeof setInterval> | null = null;
+  private isPolling = false;
+
+  constructor(
+    bot: Telegraf<Context>,
+    restClient: PolymarketRestClient,
+    config?: Partial<PriceAlertServiceConfig>
+  ) {
+    this.bot = bot;
+    this.restClient = restClient;
+    this.repository = getPriceAlertRepository();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Load pending alerts and start polling their markets
+   */
+  async start(): Promise<void> {
+    if (this.pollInterval) return;
+
+    await this.refresh();
+
+    this.pollInterval = setInterval(() => {
+      this.poll().catch(error => logger.error('Price alert poll failed', { error }));
+    }, this.config.pollIntervalMinutes * 60 * 1000);
+
+    logger.info('Price alert service started', {
+      pollIntervalMinutes: this.config.pollIntervalMinutes,
+      pendingAlerts: this.getPendingCount(),
+    });
+  }
+
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+  }
+
+  /**
+   * Create an alert; it fires the next time the YES price crosses the threshold
+   */
+  async createAlert(
+    telegramId: number,
+    conditionId: string,
+    direction: PriceAlertDirection,
+    threshold: number
+  ): Promise<{ success: boolean; message: string; alert?: PriceAlert; price?: number }> {
+    let marketTitle: string;
+    try {
+      const condition = await this.restClient.getCondition(conditionId);
+      if (condition.status !== 'ACTIVE') {
+        return { success: false, message: 'This market is no longer active.' };
+      }
+      marketTitle = condition.question || condition.title || conditionId;
+    } catch (error) {
+      logger.debug('Market lookup failed for price alert', {
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { success: false, message: 'Market not found. Check the market ID with /market.' };
+    }
+
+    const price = await this.getCurrentPrice(conditionId);
+    const result = await this.repository.createAlert(
+      telegramId,
+      { conditionId, marketTitle, direction, threshold, status: getArmedStatus({ direction, threshold }, price) },
+      this.config.maxAlertsPerUser
+    );
+
+    if (result.alert) this.track(result.alert);
+    return { ...result, price };
+  }
+
+  async getAlerts(telegramId: number): Promise<PriceAlert[]> {
+    return this.repository.getUserAlerts(telegramId);
+  }
+
+  async deleteAlert(telegramId: number, alert: PriceAlert): Promise<boolean> {
+    const deleted = await this.repository.deleteAlert(telegramId, alert.id);
+    if (deleted) this.untrack(alert);
+    return deleted;
+  }
+
+  /**
+   * Re-arm an alert; if the price is still past the threshold it first has to move
+   * back beyond the hysteresis band
+   */
+  async rearmAlert(alert: PriceAlert): Promise<PriceAlert | null> {
+    const status = getArmedStatus(alert, await this.getCurrentPrice(alert.conditionId));
+    if (!(await this.repository.setStatus(alert.id, status))) return null;
+
+    const rearmed = { ...alert, status };
+    this.untrack(alert);
+    this.track(rearmed);
+    return rearmed;
+  }
+
+  /**
+   * Check a streamed price update (PRICE_UPDATE event)
+   */
+  async handleMarketData(marketData: PolymarketMarketData): Promise<void> {
+    const price = marketData.price > 0 ? marketData.price : marketData.probability;
+    if (!marketData.conditionId || !(price > 0)) return;
+
+    await this.checkMarket(marketData.conditionId, price);
+  }
+
+  /**
+   * Current YES price of a market from its latest market data
+   */
+  async getCurrentPrice(conditionId: string): Promise<number | undefined> {
+    try {
+      const points = await this.restClient.getMarketData(conditionId);
+      const latest = Array.isArray(points) && points.length > 0 ? points[points.length - 1] : undefined;
+      return latest ? latest.price : undefined;
+    } catch (error) {
+      logger.debug('Failed to fetch market price for price alerts', {
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  getPendingCount(): number {
+    let count = 0;
+    this.pending.forEach(alerts => (count += alerts.length));
+    return count;
+  }
+
+  /**
+   * Reload pending alerts, then poll the price of every market that has one
+   */
+  private async poll(): Promise<void> {
+    if (this.isPolling) return;
+    this.isPolling = true;
+
+    try {
+      await this.refresh();
+
+      for (const conditionId of Array.from(this.pending.keys())) {
+        const price = await this.getCurrentPrice(conditionId);
+        if (price !== undefined) {
+          await this.checkMarket(conditionId, price);
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async refresh(): Promise<void> {
+    const alerts = await this.repository.getPendingAlerts();
+    this.pending.clear();
+    alerts.forEach(alert => this.track(alert));
+  }
+
+  /**
+   * Apply a market price to its pending alerts
+   */
+  private async checkMarket(conditionId: string, price: number): Promise<void> {
+    const alerts = this.pending.get(conditionId);
+    if (!alerts) return;
+
+    for (const alert of [...alerts]) {
+      const transition = evaluatePriceAlert(alert, price, this.config.hysteresis);
+
+      if (transition === 'ARM') {
+        if (await this.repository.setStatus(alert.id, 'ARMED')) {
+          alert.status = 'ARMED';
+        }
+      } else if (transition === 'FIRE') {
+        this.untrack(alert);
+        // Fires once even when a streamed and a polled price cross together
+        if (await this.repository.markTriggered(alert.id, price)) {
+          await this.notify(alert, price);
+        }
+      }
+    }
+  }
+
+  private async notify(alert: PriceAlert, price: number): Promise<void> {
+    try {
+      await this.bot.telegram.sendMessage(alert.telegramId, formatPriceAlertNotification(alert, price), {
+        parse_mode: 'Markdown',
+      });
+
+      logger.info('Sent price alert', {
+        telegramId: alert.telegramId,
+        conditionId: alert.conditionId,
+        direction: alert.direction,
+        threshold: alert.threshold,
+        price,
+      });
+    } catch (error) {
+      logger.error('Failed to send price alert', {
+        telegramId: alert.telegramId,
+        alertId: alert.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private track(alert: PriceAlert): void {
+    if (alert.status === 'TRIGGERED') return;
+    const alerts = this.pending.get(alert.conditionId) || [];
+    alerts.push(alert);
+    this.pending.set(alert.conditionId, alerts);
+  }
+
+  private untrack(alert: PriceAlert): void {
+    const alerts = (this.pending.get(alert.conditionId) || []).filter(a => a.id !== alert.id);
+    if (alerts.length > 0) {
+      this.pending.set(alert.conditionId, alerts);
+    } else {
+      this.pending.delete(alert.conditionId);
+    }
+  }
+}
+
+/**
+ * Format a fired price alert
+ */
+export function formatPriceAlertNotification(alert: PriceAlert, price: number): string {
+  const arrow = alert.direction === 'above' ? '📈' : '📉';
+
+  let message = `🔔 *PRICE ALERT* ${arrow}\n\n`;
+  message += `📊 *${escapeMarkdown(alert.marketTitle)}*\n`;
+  message += `YES crossed ${alert.direction} *${formatProbability(alert.threshold)}* — now ${formatProbability(price)}\n\n`;
+  message += '_This alert fires once. Re-arm it from /alerts._';
+  return message;
+}
+
+// Singleton instance
+let serviceInstance: PriceAlertService | null = null;
+
+export function createPriceAlertService(
+  bot: Telegraf<Context>,
+  restClient: PolymarketRestClient,
+  config?: Partial<PriceAlertServiceConfig>
+): PriceAlertService {
+  if (!serviceInstance) {
+    serviceInstance = new PriceAlertService(bot, restClient, config);
+  }
+  return serviceInstance;
+}
+
+export function getPriceAlertService(): PriceAlertService | null {
+  return serviceInstance;
+}
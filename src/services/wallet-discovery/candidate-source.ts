@@ -0,0 +1,81 @@
+/**
+ * Candidate Source
+ * Leaderboard-style trader data for smart wallet discovery. The HTTP source speaks the
+ * traders-tag-performance API used by scripts/crawl-polymarket-traders.py, at a
+ * configurable base URL so it can run against a local fixture server.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { logger } from '@/utils/logger';
+
+export interface DiscoveryCandidate {
+  address: string;
+  name: string;
+  category: string;
+  rank?: number;
+  pnl: number;
+  winRate: number;     // 0-1
+  positions: number;
+  lastActiveAt?: Date;
+}
+
+/**
+ * Anything that can list top traders of a category
+ */
+export interface CandidateSource {
+  readonly name: string;
+  fetchCandidates(category: string, limit: number): Promise<DiscoveryCandidate[]>;
+}
+
+interface RawTrader {
+  trader?: string;
+  trader_name?: string;
+  overall_gain?: number;
+  win_rate?: number;
+  total_positions?: number;
+  rank?: number;
+}
+
+/**
+ * HTTP source for the traders-tag-performance endpoint (sorted by PnL)
+ */
+export class HttpCandidateSource implements CandidateSource {
+  readonly name: string;
+  private client: AxiosInstance;
+
+  constructor(baseUrl: string, timeoutMs: number = 30000) {
+    this.name = baseUrl;
+    this.client = axios.create({
+      baseURL: baseUrl,
+      timeout: timeoutMs,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }
+
+  async fetchCandidates(category: string, limit: number): Promise<DiscoveryCandidate[]> {
+    const response = await this.client.post('/api/traders-tag-performance', {
+      tag: category,
+      page: 1,
+      pageSize: limit,
+      sortBy: 'pnl',
+      sortDirection: 'desc',
+    });
+
+    const traders: RawTrader[] = Array.isArray(response.data?.data) ? response.data.data : [];
+
+    const candidates = traders
+      .filter(t => typeof t.trader === 'string' && /^0x[a-fA-F0-9]{40}$/.test(t.trader))
+      .map((t, index) => ({
+        address: t.trader!.toLowerCase(),
+        name: t.trader_name || '',
+        category,
+        rank: t.rank ?? index + 1,
+        pnl: t.overall_gain || 0,
+        winRate: t.win_rate || 0,
+        positions: t.total_positions || 0,
+      }));
+
+    logger.debug('Fetched discovery candidates', { source: this.name, category, count: candidates.length });
+    return candidates;
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Discovery Repository
+ * PostgreSQL persistence for smart wallet rotations and their audit trail (smart_wallet_changes)
+ */
+
+import { PoolClient } from 'pg';
+import { query, transaction } from '@/services/database/connection-pool';
+import { logger } from '@/utils/logger';
+
+export type WalletChangeAction = 'ADD' | 'DEMOTE';
+export type WalletChangeStatus = 'PROPOSED' | 'APPLIED' | 'REJECTED';
+
+export interface WalletChangeMetrics {
+  category?: string;
+  rank?: number;
+  pnl?: number;
+  winRate?: number;
+  positions?: number;
+  lastActiveAt?: string;
+}
+
+export interface WalletChange {
+  runId: string;
+  walletAddress: string;
+  alias: string;
+  action: WalletChangeAction;
+  reason: string;
+  score?: number;
+  metrics?: WalletChangeMetrics;
+  source: string;
+}
+
+export interface WalletChangeRecord extends WalletChange {
+  id: string;
+  status: WalletChangeStatus;
+  createdAt: Date;
+  appliedAt?: Date;
+}
+
+interface WalletChangeRow {
+  id: string;
+  run_id: string;
+  wallet_address: string;
+  alias: string | null;
+  action: string;
+  reason: string;
+  score: string | null;
+  metrics: WalletChangeMetrics | null;
+  source: string;
+  status: string;
+  created_at: Date;
+  applied_at: Date | null;
+}
+
+/**
+ * DiscoveryRepository
+ * Every change is written to the audit trail; applied changes update smart_wallets
+ * in the same transaction
+ */
+export class DiscoveryRepository {
+  /**
+   * Record a change, applying it to smart_wallets unless it is only proposed
+   * A change already waiting for review is not proposed again
+   */
+  async recordChange(change: WalletChange, apply: boolean): Promise<boolean> {
+    const normalizedAddress = change.walletAddress.toLowerCase();
+
+    try {
+      const recorded = await transaction(async (client) => {
+        if (apply) {
+          await this.applyToSmartWallets(client, { ...change, walletAddress: normalizedAddress });
+        } else {
+          const pending = await client.query(
+            `SELECT id FROM smart_wallet_changes
+             WHERE wallet_address = $1 AND action = $2 AND status = 'PROPOSED'
+             LIMIT 1`,
+            [normalizedAddress, change.action]
+          );
+          if (pending.rows.length > 0) return false;
+        }
+
+        await client.query(
+          `INSERT INTO smart_wallet_changes
+             (run_id, wallet_address, alias, action, reason, score, metrics, source, status, applied_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+          [
+            change.runId,
+            normalizedAddress,
+            change.alias,
+            change.action,
+            change.reason,
+            change.score ?? null,
+            change.metrics ? JSON.stringify(change.metrics) : null,
+            change.source,
+            apply ? 'APPLIED' : 'PROPOSED',
+            apply ? new Date() : null,
+          ]
+        );
+        return true;
+      });
+
+      if (!recorded) return true;
+
+      logger.info(apply ? 'Applied smart wallet change' : 'Proposed smart wallet change', {
+        action: change.action,
+        address: normalizedAddress,
+        alias: change.alias,
+        reason: change.reason,
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to record smart wallet change', {
+        action: change.action,
+        address: normalizedAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Most recent changes, newest first, optionally only those with a status
+   */
+  async getRecentChanges(limit: number = 20, status?: WalletChangeStatus): Promise<WalletChangeRecord[]> {
+    try {
+      const results = await query<WalletChangeRow>(
+        `SELECT id, run_id, wallet_address, alias, action, reason, score, metrics, source,
+                status, created_at, applied_at
+         FROM smart_wallet_changes
+         WHERE ($2::varchar IS NULL OR status = $2)
+         ORDER BY created_at DESC
+         LIMIT $1`,
+        [limit, status ?? null]
+      );
+
+      return results.map(r => this.mapChange(r));
+    } catch (error) {
+      logger.error('Failed to get recent smart wallet changes', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Apply or reject a proposed change; false if it is not (or no longer) proposed
+   */
+  async resolveProposal(changeId: string, apply: boolean): Promise<boolean> {
+    try {
+      const resolved = await transaction(async (client) => {
+        const result = await client.query<WalletChangeRow>(
+          `UPDATE smart_wallet_changes
+           SET status = $2::varchar, applied_at = CASE WHEN $2::varchar = 'APPLIED' THEN NOW() ELSE NULL END
+           WHERE id = $1 AND status = 'PROPOSED'
+           RETURNING id, run_id, wallet_address, alias, action, reason, score, metrics, source,
+                     status, created_at, applied_at`,
+          [changeId, apply ? 'APPLIED' : 'REJECTED']
+        );
+        if (result.rows.length === 0) return false;
+
+        if (apply) {
+          await this.applyToSmartWallets(client, this.mapChange(result.rows[0]));
+        }
+        return true;
+      });
+
+      if (resolved) {
+        logger.info(apply ? 'Applied proposed smart wallet change' : 'Rejected proposed smart wallet change', {
+          changeId,
+        });
+      }
+      return resolved;
+    } catch (error) {
+      logger.error('Failed to resolve smart wallet change', {
+        changeId,
+        apply,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  private async applyToSmartWallets(client: PoolClient, change: WalletChange): Promise<void> {
+    if (change.action === 'DEMOTE') {
+      await client.query(
+        `UPDATE smart_wallets
+         SET is_active = false, updated_at = NOW()
+         WHERE address = $1`,
+        [change.walletAddress]
+      );
+      return;
+    }
+
+    await client.query(
+      `INSERT INTO smart_wallets (address, alias, category, category_rank, pnl, is_active, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, true, NOW(), NOW())
+       ON CONFLICT (address) DO UPDATE SET
+         is_active = true,
+         category = COALESCE(EXCLUDED.category, smart_wallets.category),
+         category_rank = COALESCE(EXCLUDED.category_rank, smart_wallets.category_rank),
+         pnl = COALESCE(EXCLUDED.pnl, smart_wallets.pnl),
+         updated_at = NOW()`,
+      [
+        change.walletAddress,
+        change.alias,
+        change.metrics?.category || null,
+        change.metrics?.rank ?? null,
+        change.metrics?.pnl ?? null,
+      ]
+    );
+  }
+
+  private mapChange(r: WalletChangeRow): WalletChangeRecord {
+    return {
+      id: r.id,
+      runId: r.run_id,
+      walletAddress: r.wallet_address,
+      alias: r.alias || r.wallet_address,
+      action: r.action as WalletChangeAction,
+      reason: r.reason,
+      score: r.score !== null ? parseFloat(r.score) : undefined,
+      metrics: r.metrics || undefined,
+      source: r.source,
+      status: r.status as WalletChangeStatus,
+      createdAt: r.created_at,
+      appliedAt: r.applied_at || undefined,
+    };
+  }
+}
+
+// Singleton
+let repositoryInstance: DiscoveryRepository | null = null;
+
+export function getDiscoveryRepository(): DiscoveryRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new DiscoveryRepository();
+  }
+  return repositoryInstance;
+}
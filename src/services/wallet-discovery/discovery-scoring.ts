@@ -0,0 +1,210 @@
+/**
+ * Discovery Scoring
+ * Scores leaderboard candidates and plans which smart wallets to add and demote
+ */
+
+import type { DiscoveryCandidate } from './candidate-source';
+
+export interface DiscoveryCriteria {
+  minPnl: number;            // Minimum all-time PnL in USD (default: 50000)
+  minWinRate: number;        // Minimum win rate, 0-1 (default: 0.55)
+  minPositions: number;      // Minimum number of positions traded (default: 100)
+  maxInactiveDays: number;   // Days without a trade before a wallet counts as inactive (default: 30)
+}
+
+export interface RotationOptions extends DiscoveryCriteria {
+  maxWallets: number;        // Cap on active smart wallets (default: 100)
+}
+
+export interface ActiveWalletRef {
+  address: string;
+  alias: string;
+  lastActiveAt?: Date;       // Latest trade, when known
+}
+
+export interface ScoredCandidate extends DiscoveryCandidate {
+  score: number;
+}
+
+export interface WalletAddition {
+  candidate: ScoredCandidate;
+  alias: string;
+  reason: string;
+}
+
+export interface WalletDemotion {
+  address: string;
+  alias: string;
+  candidate?: ScoredCandidate;
+  reason: string;
+}
+
+export interface RotationPlan {
+  additions: WalletAddition[];
+  demotions: WalletDemotion[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Score a candidate from 0 to 100
+ * PnL (up to 30) and position count (up to 20) are log-scaled, win rate (up to 30)
+ * is linear from 50% to 80%, and recency adds up to 20 (10 when unknown).
+ */
+export function scoreCandidate(candidate: DiscoveryCandidate, now: Date = new Date()): number {
+  const pnlScore = candidate.pnl > 0 ? clamp((Math.log10(candidate.pnl) - 4) * 10, 0, 30) : 0;
+  const winRateScore = clamp(((candidate.winRate - 0.5) / 0.3) * 30, 0, 30);
+  const positionScore = candidate.positions > 0 ? clamp((Math.log10(candidate.positions) - 1) * 10, 0, 20) : 0;
+
+  let recencyScore = 10;
+  const inactiveDays = getInactiveDays(candidate.lastActiveAt, now);
+  if (inactiveDays !== undefined) {
+    if (inactiveDays <= 1) recencyScore = 20;
+    else if (inactiveDays <= 7) recencyScore = 15;
+    else if (inactiveDays <= 30) recencyScore = 8;
+    else recencyScore = 0;
+  }
+
+  return Math.round((pnlScore + winRateScore + positionScore + recencyScore) * 100) / 100;
+}
+
+/**
+ * Reasons a candidate fails the criteria (empty when eligible)
+ */
+export function getIneligibilityReasons(
+  candidate: DiscoveryCandidate,
+  criteria: DiscoveryCriteria,
+  now: Date = new Date()
+): string[] {
+  const reasons: string[] = [];
+
+  if (candidate.pnl < criteria.minPnl) {
+    reasons.push(`PnL $${Math.round(candidate.pnl).toLocaleString()} below $${criteria.minPnl.toLocaleString()}`);
+  }
+  if (candidate.winRate < criteria.minWinRate) {
+    reasons.push(`win rate ${formatPercent(candidate.winRate)} below ${formatPercent(criteria.minWinRate)}`);
+  }
+  if (candidate.positions < criteria.minPositions) {
+    reasons.push(`${candidate.positions} positions below ${criteria.minPositions}`);
+  }
+
+  const inactiveDays = getInactiveDays(candidate.lastActiveAt, now);
+  if (inactiveDays !== undefined && inactiveDays > criteria.maxInactiveDays) {
+    reasons.push(`no trades for ${Math.floor(inactiveDays)} days`);
+  }
+
+  return reasons;
+}
+
+export function isEligible(candidate: DiscoveryCandidate, criteria: DiscoveryCriteria, now: Date = new Date()): boolean {
+  return getIneligibilityReasons(candidate, criteria, now).length === 0;
+}
+
+/**
+ * Collapse candidates listed in several categories into one per address,
+ * keeping the category where the trader ranks best
+ */
+export function mergeCandidates(candidates: DiscoveryCandidate[]): DiscoveryCandidate[] {
+  const byAddress = new Map<string, DiscoveryCandidate>();
+
+  for (const candidate of candidates) {
+    const address = candidate.address.toLowerCase();
+    const existing = byAddress.get(address);
+
+    if (!existing || (candidate.rank ?? Infinity) < (existing.rank ?? Infinity)) {
+      byAddress.set(address, {
+        ...candidate,
+        address,
+        lastActiveAt: candidate.lastActiveAt ?? existing?.lastActiveAt,
+      });
+    }
+  }
+
+  return [...byAddress.values()];
+}
+
+/**
+ * Plan additions and demotions
+ * Active wallets are demoted when the data shows they no longer meet the criteria; a
+ * wallet missing from the leaderboard is only demoted for inactivity, since dropping out
+ * of a top-N list says little on its own. Eligible new candidates are added by score
+ * into the room left under maxWallets.
+ */
+export function planRotation(
+  candidates: DiscoveryCandidate[],
+  activeWallets: ActiveWalletRef[],
+  options: RotationOptions,
+  now: Date = new Date()
+): RotationPlan {
+  const scored: ScoredCandidate[] = mergeCandidates(candidates)
+    .map(c => ({ ...c, score: scoreCandidate(c, now) }))
+    .sort((a, b) => b.score - a.score);
+  const byAddress = new Map(scored.map(c => [c.address, c]));
+  const activeAddresses = new Set(activeWallets.map(w => w.address.toLowerCase()));
+
+  const demotions: WalletDemotion[] = [];
+  for (const wallet of activeWallets) {
+    const candidate = byAddress.get(wallet.address.toLowerCase());
+
+    if (candidate) {
+      const reasons = getIneligibilityReasons(
+        { ...candidate, lastActiveAt: candidate.lastActiveAt ?? wallet.lastActiveAt },
+        options,
+        now
+      );
+      if (reasons.length > 0) {
+        demotions.push({ address: candidate.address, alias: wallet.alias, candidate, reason: capitalize(reasons.join(', ')) });
+      }
+      continue;
+    }
+
+    const inactiveDays = getInactiveDays(wallet.lastActiveAt, now);
+    if (inactiveDays !== undefined && inactiveDays > options.maxInactiveDays) {
+      demotions.push({
+        address: wallet.address.toLowerCase(),
+        alias: wallet.alias,
+        reason: `No trades for ${Math.floor(inactiveDays)} days`,
+      });
+    }
+  }
+
+  const capacity = Math.max(0, options.maxWallets - (activeWallets.length - demotions.length));
+  const additions = scored
+    .filter(c => !activeAddresses.has(c.address) && isEligible(c, options, now))
+    .slice(0, capacity)
+    .map(candidate => ({
+      candidate,
+      alias: getCandidateAlias(candidate),
+      reason: `#${candidate.rank ?? '?'} ${candidate.category}, score ${candidate.score.toFixed(1)}`,
+    }));
+
+  return { additions, demotions };
+}
+
+/**
+ * Display alias for a new smart wallet (trader name, else Anon_0x1234)
+ */
+export function getCandidateAlias(candidate: DiscoveryCandidate): string {
+  const name = candidate.name.trim();
+  if (name && !/^0x[a-fA-F0-9]{40}$/.test(name)) {
+    return name.slice(0, 100);
+  }
+  return `Anon_${candidate.address.slice(0, 6)}`;
+}
+
+function getInactiveDays(lastActiveAt: Date | undefined, now: Date): number | undefined {
+  if (!lastActiveAt) return undefined;
+  return Math.max(0, (now.getTime() - lastActiveAt.getTime()) / DAY_MS);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(0)}%`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,48 @@
+/**
+ * Wallet Discovery Module Exports
+ * Scheduled discovery and rotation of smart wallets from leaderboard data
+ */
+
+// Candidate sources
+export {
+  HttpCandidateSource,
+  type CandidateSource,
+  type DiscoveryCandidate,
+} from './candidate-source';
+
+// Scoring
+export {
+  scoreCandidate,
+  getIneligibilityReasons,
+  isEligible,
+  mergeCandidates,
+  planRotation,
+  getCandidateAlias,
+  type DiscoveryCriteria,
+  type RotationOptions,
+  type ActiveWalletRef,
+  type ScoredCandidate,
+  type WalletAddition,
+  type WalletDemotion,
+  type RotationPlan,
+} from './discovery-scoring';
+
+// Repository
+export {
+  DiscoveryRepository,
+  getDiscoveryRepository,
+  type WalletChange,
+  type WalletChangeRecord,
+  type WalletChangeAction,
+  type WalletChangeStatus,
+  type WalletChangeMetrics,
+} from './discovery-repository';
+
+// Service
+export {
+  WalletDiscoveryService,
+  createWalletDiscoveryService,
+  getWalletDiscoveryService,
+  type WalletDiscoveryConfig,
+  type DiscoveryRunResult,
+} from './wallet-discovery-service';
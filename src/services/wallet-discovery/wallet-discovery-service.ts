@@ -0,0 +1,275 @@
+/**
+ * Wallet Discovery Service
+ * Periodically pulls top traders per category from a candidate source, checks how
+ * recently they traded, and rotates the smart wallet list: eligible newcomers are
+ * added, wallets that no longer qualify are demoted. Every change lands in the audit
+ * trail; unless autoApply is on, changes are only proposed and wait for an admin to
+ * apply or reject them (/sw_proposals).
+ */
+
+import { randomUUID } from 'crypto';
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+import { getSmartWalletRepository } from '@/services/consensus';
+import { logger } from '@/utils/logger';
+import { CandidateSource, DiscoveryCandidate } from './candidate-source';
+import {
+  ActiveWalletRef,
+  RotationPlan,
+  getIneligibilityReasons,
+  mergeCandidates,
+  planRotation,
+} from './discovery-scoring';
+import { DiscoveryRepository, WalletChangeMetrics, getDiscoveryRepository } from './discovery-repository';
+
+export interface WalletDiscoveryConfig {
+  autoApply: boolean;            // Apply changes to smart_wallets, or only propose them (default: false)
+  intervalHours: number;         // Hours between runs (default: 24)
+  categories: string[];          // Leaderboard categories to pull
+  candidatesPerCategory: number; // Top traders pulled per category (default: 100)
+  minPnl: number;
+  minWinRate: number;
+  minPositions: number;
+  maxInactiveDays: number;
+  maxWallets: number;
+}
+
+export interface DiscoveryRunResult {
+  runId: string;
+  source: string;
+  candidates: number;
+  plan: RotationPlan;
+  applied: boolean;
+  finishedAt: Date;
+}
+
+const DEFAULT_CONFIG: WalletDiscoveryConfig = {
+  autoApply: false,
+  intervalHours: 24,
+  categories: ['Politics', 'Sports', 'Crypto'],
+  candidatesPerCategory: 100,
+  minPnl: 50000,
+  minWinRate: 0.55,
+  minPositions: 100,
+  maxInactiveDays: 30,
+  maxWallets: 100,
+};
+
+// Delay between recency lookups to stay under Data API rate limits
+const LOOKUP_DELAY_MS = 200;
+
+export class WalletDiscoveryService {
+  private polymarketClient: PolymarketRestClient;
+  private source: CandidateSource;
+  private repository: DiscoveryRepository;
+  private config: WalletDiscoveryConfig;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  private isRunning = false;
+  private lastRun: DiscoveryRunResult | null = null;
+
+  constructor(
+    polymarketClient: PolymarketRestClient,
+    source: CandidateSource,
+    discoveryConfig?: Partial<WalletDiscoveryConfig>
+  ) {
+    this.polymarketClient = polymarketClient;
+    this.source = source;
+    this.repository = getDiscoveryRepository();
+    this.config = { ...DEFAULT_CONFIG, ...discoveryConfig };
+  }
+
+  /**
+   * Start periodic discovery runs
+   */
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(() => {
+      this.run().catch(error => logger.error('Wallet discovery run failed', { error }));
+    }, this.config.intervalHours * 60 * 60 * 1000);
+
+    this.run().catch(error => logger.error('Wallet discovery run failed', { error }));
+
+    logger.info('Wallet discovery started', {
+      source: this.source.name,
+      intervalHours: this.config.intervalHours,
+      autoApply: this.config.autoApply,
+    });
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    logger.info('Wallet discovery stopped');
+  }
+
+  getLastRun(): DiscoveryRunResult | null {
+    return this.lastRun;
+  }
+
+  /**
+   * Run one discovery pass (skipped if one is already running)
+   */
+  async run(): Promise<DiscoveryRunResult | null> {
+    if (this.isRunning) return null;
+    this.isRunning = true;
+
+    try {
+      const runId = randomUUID();
+      const candidates = mergeCandidates(await this.fetchCandidates());
+
+      if (candidates.length === 0) {
+        logger.warn('Wallet discovery found no candidates, leaving smart wallets unchanged', {
+          source: this.source.name,
+        });
+        return null;
+      }
+
+      const activeWallets: ActiveWalletRef[] = (await getSmartWalletRepository().getActiveWallets())
+        .map(w => ({ address: w.address.toLowerCase(), alias: w.alias }));
+      await this.attachRecency(candidates, activeWallets);
+
+      const plan = planRotation(candidates, activeWallets, this.config);
+      const applied = this.config.autoApply;
+
+      for (const demotion of plan.demotions) {
+        await this.repository.recordChange({
+          runId,
+          walletAddress: demotion.address,
+          alias: demotion.alias,
+          action: 'DEMOTE',
+          reason: demotion.reason,
+          score: demotion.candidate?.score,
+          metrics: demotion.candidate ? toMetrics(demotion.candidate) : undefined,
+          source: this.source.name,
+        }, applied);
+      }
+
+      for (const addition of plan.additions) {
+        await this.repository.recordChange({
+          runId,
+          walletAddress: addition.candidate.address,
+          alias: addition.alias,
+          action: 'ADD',
+          reason: addition.reason,
+          score: addition.candidate.score,
+          metrics: toMetrics(addition.candidate),
+          source: this.source.name,
+        }, applied);
+      }
+
+      this.lastRun = {
+        runId,
+        source: this.source.name,
+        candidates: candidates.length,
+        plan,
+        applied,
+        finishedAt: new Date(),
+      };
+
+      logger.info('Wallet discovery run complete', {
+        runId,
+        candidates: candidates.length,
+        additions: plan.additions.length,
+        demotions: plan.demotions.length,
+        applied,
+      });
+
+      return this.lastRun;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Pull candidates for every category; a failing category is skipped
+   */
+  private async fetchCandidates(): Promise<DiscoveryCandidate[]> {
+    const candidates: DiscoveryCandidate[] = [];
+
+    for (const category of this.config.categories) {
+      try {
+        candidates.push(...await this.source.fetchCandidates(category, this.config.candidatesPerCategory));
+      } catch (error) {
+        logger.warn('Failed to fetch discovery candidates', {
+          source: this.source.name,
+          category,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Look up the latest trade of active wallets and of candidates that otherwise
+   * qualify, so inactivity counts toward scoring and demotion
+   */
+  private async attachRecency(candidates: DiscoveryCandidate[], activeWallets: ActiveWalletRef[]): Promise<void> {
+    const activeAddresses = new Set(activeWallets.map(w => w.address));
+    const toCheck = candidates.filter(c =>
+      !activeAddresses.has(c.address) && getIneligibilityReasons(c, this.config).length === 0
+    );
+
+    for (const candidate of toCheck) {
+      candidate.lastActiveAt = await this.getLastActiveAt(candidate.address);
+      await sleep(LOOKUP_DELAY_MS);
+    }
+
+    for (const wallet of activeWallets) {
+      wallet.lastActiveAt = await this.getLastActiveAt(wallet.address);
+      await sleep(LOOKUP_DELAY_MS);
+    }
+  }
+
+  private async getLastActiveAt(address: string): Promise<Date | undefined> {
+    try {
+      const [latest] = await this.polymarketClient.getTradesFromDataAPI({ user: address, limit: 1 });
+      if (!latest?.timestamp) return undefined;
+
+      const lastActiveAt = new Date(latest.timestamp);
+      return isNaN(lastActiveAt.getTime()) ? undefined : lastActiveAt;
+    } catch (error) {
+      logger.debug('Failed to look up wallet activity', {
+        address,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+}
+
+function toMetrics(candidate: DiscoveryCandidate): WalletChangeMetrics {
+  return {
+    category: candidate.category,
+    rank: candidate.rank,
+    pnl: candidate.pnl,
+    winRate: candidate.winRate,
+    positions: candidate.positions,
+    lastActiveAt: candidate.lastActiveAt?.toISOString(),
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Singleton
+let serviceInstance: WalletDiscoveryService | null = null;
+
+export function createWalletDiscoveryService(
+  polymarketClient: PolymarketRestClient,
+  source: CandidateSource,
+  config?: Partial<WalletDiscoveryConfig>
+): WalletDiscoveryService {
+  if (!serviceInstance) {
+    serviceInstance = new WalletDiscoveryService(polymarketClient, source, config);
+  }
+  return serviceInstance;
+}
+
+export function getWalletDiscoveryService(): WalletDiscoveryService | null {
+  return serviceInstance;
+}
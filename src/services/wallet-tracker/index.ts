@@ -7,16 +7,62 @@ export {
   getPositionKey,
 } from './position-diff-detector';
 
+export {
+  TradeCursor,
+  selectNewTrades,
+  createChangesFromTrades,
+  findUnexplainedChanges,
+} from './trade-change-detector';
+
 export {
   WalletActivityTracker,
   TrackerConfig,
+  PositionChangeListener,
   createWalletActivityTracker,
   getWalletActivityTracker,
 } from './wallet-activity-tracker';
 
+export {
+  AdaptivePollScheduler,
+  PollSchedulerOptions,
+  WalletPollStatus,
+  PollBudgetStatus,
+} from './poll-scheduler';
+
+export {
+  NotificationBatcher,
+  BatchedChange,
+  DigestMode,
+  NotificationBatcherOptions,
+  formatGroupedNotification,
+  formatDigest,
+  getDigestPeriod,
+  parseDigestMode,
+} from './notification-batcher';
+
+export {
+  ResolvedPosition,
+  getResolvedOutcome,
+  detectResolvedPositions,
+  isRedemption,
+  formatResolutionNotification,
+} from './resolution-detector';
+
 export {
   WalletTrackerRepository,
   WalletSubscriber,
+  PositionHistoryEntry,
+  PositionHistoryQuery,
   getWalletTrackerRepository,
   createWalletTrackerRepository,
 } from './wallet-tracker-repository';
+
+export {
+  SignificanceThresholds,
+  WalletThresholdOverride,
+  NotificationPreferences,
+  resolveThresholds,
+  getValueThreshold,
+  isSignificantFor,
+  parseThresholdTokens,
+} from './significance';
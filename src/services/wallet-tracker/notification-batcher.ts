@@ -0,0 +1,261 @@
+/**
+ * Notification Batcher
+ * Rolls bursts of position changes into one message per subscriber and builds
+ * hourly/daily digests. Layouts follow the batch_multiple_updates and
+ * analytics_portfolio_summary templates of the notification service.
+ */
+
+import { PositionChange, PositionSnapshot, formatNotification } from './position-diff-detector';
+import { escapeMarkdown, formatUsd } from '@/utils/format';
+import { logger } from '@/utils/logger';
+
+export type DigestMode = 'off' | 'hourly' | 'daily';
+
+export interface BatchedChange {
+  walletAddress: string;
+  walletLabel: string; // alias or address
+  change: PositionChange;
+}
+
+export interface NotificationBatcherOptions {
+  windowMs: number;      // at most one message per subscriber per window
+  maxBatchSize: number;  // flush early once this many changes are waiting
+  send: (chatId: number, text: string) => Promise<void>;
+}
+
+// Lines listed in a grouped message before the rest is summarized
+const MAX_LISTED_CHANGES = 15;
+
+export class NotificationBatcher {
+  private options: NotificationBatcherOptions;
+  private windows: Map<number, { pending: BatchedChange[]; timer: ReturnType<typeof setTimeout> }> = new Map();
+
+  constructor(options: NotificationBatcherOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Queue changes for a chat
+   * Outside a window they go out immediately (one message) and a window opens;
+   * inside a window they wait and are flushed together when it closes
+   */
+  async add(chatId: number, items: BatchedChange[]): Promise<void> {
+    if (items.length === 0) return;
+
+    const window = this.windows.get(chatId);
+    if (!window) {
+      this.openWindow(chatId);
+      await this.deliver(chatId, items);
+      return;
+    }
+
+    window.pending.push(...items);
+    if (window.pending.length >= this.options.maxBatchSize) {
+      await this.flush(chatId);
+    }
+  }
+
+  /**
+   * Send everything still waiting (e.g. on shutdown)
+   */
+  async flushAll(): Promise<void> {
+    for (const chatId of Array.from(this.windows.keys())) {
+      await this.flush(chatId, false);
+    }
+  }
+
+  getPendingCount(): number {
+    let count = 0;
+    for (const window of this.windows.values()) count += window.pending.length;
+    return count;
+  }
+
+  private openWindow(chatId: number): void {
+    const timer = setTimeout(() => {
+      this.flush(chatId).catch(error => {
+        logger.error('Failed to send batched notification', {
+          telegramId: chatId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      });
+    }, this.options.windowMs);
+    this.windows.set(chatId, { pending: [], timer });
+  }
+
+  /**
+   * Close a chat's window and send what it collected
+   * A non-empty flush opens a new window so a continuous burst stays at one message per window
+   */
+  private async flush(chatId: number, reopen = true): Promise<void> {
+    const window = this.windows.get(chatId);
+    if (!window) return;
+
+    clearTimeout(window.timer);
+    this.windows.delete(chatId);
+
+    if (window.pending.length === 0) return;
+
+    if (reopen) this.openWindow(chatId);
+    await this.deliver(chatId, window.pending);
+  }
+
+  private async deliver(chatId: number, items: BatchedChange[]): Promise<void> {
+    const text = items.length === 1
+      ? formatNotification(items[0].change, items[0].walletLabel)
+      : formatGroupedNotification(items);
+    await this.options.send(chatId, text);
+  }
+}
+
+/**
+ * One message for several changes, grouped by wallet
+ */
+export function formatGroupedNotification(items: BatchedChange[]): string {
+  const byWallet = groupByWallet(items);
+
+  let text = '📊 *Multiple Updates*\n\n';
+  text += `📈 *${items.length} position changes*\n`;
+  text += `📝 *Summary:* ${summarizeTypes(items.map(i => i.change))}\n`;
+  text += '━━━━━━━━━━━━━━━━━━━━━━\n';
+
+  let listed = 0;
+  for (const [, walletItems] of byWallet) {
+    text += `\n👛 ${formatWalletLabel(walletItems[0].walletLabel)}\n`;
+    for (const item of walletItems) {
+      if (listed >= MAX_LISTED_CHANGES) break;
+      text += formatChangeLine(item.change) + '\n';
+      listed++;
+    }
+  }
+
+  if (items.length > listed) {
+    text += `\n_…and ${items.length - listed} more. Use /history for the full list._`;
+  }
+
+  return text;
+}
+
+/**
+ * Digest of everything queued since the last one, with a per-wallet portfolio summary
+ * @param snapshots Latest known positions per wallet (for value and position count)
+ */
+export function formatDigest(
+  items: BatchedChange[],
+  mode: Exclude<DigestMode, 'off'>,
+  snapshots: Map<string, Map<string, PositionSnapshot>> = new Map()
+): string {
+  const byWallet = groupByWallet(items);
+
+  let text = `📊 *${mode === 'hourly' ? 'Hourly' : 'Daily'} Digest*\n\n`;
+  text += `📈 *${items.length} position changes* across ${byWallet.size} wallet(s)\n`;
+  text += `📝 *Summary:* ${summarizeTypes(items.map(i => i.change))}\n`;
+  text += '━━━━━━━━━━━━━━━━━━━━━━\n';
+
+  for (const [wallet, walletItems] of byWallet) {
+    const changes = walletItems.map(i => i.change);
+    const bought = changes
+      .filter(c => c.type === 'BUY' || c.type === 'NEW')
+      .reduce((sum, c) => sum + c.totalValue, 0);
+    const sold = changes
+      .filter(c => c.type === 'SELL' || c.type === 'CLOSED')
+      .reduce((sum, c) => sum + c.totalValue, 0);
+
+    text += `\n👛 ${formatWalletLabel(walletItems[0].walletLabel)}\n`;
+    text += `   🟢 Bought ${formatUsd(bought)} • 🔴 Sold ${formatUsd(sold)}\n`;
+
+    const snapshot = snapshots.get(wallet);
+    if (snapshot && snapshot.size > 0) {
+      const costBasis = Array.from(snapshot.values()).reduce((sum, p) => sum + p.size * p.avgPrice, 0);
+      text += `   💰 Cost basis: ${formatUsd(costBasis)} • 📊 Active positions: ${snapshot.size}\n`;
+    }
+
+    // Largest moves first
+    [...changes]
+      .sort((a, b) => b.totalValue - a.totalValue)
+      .slice(0, 3)
+      .forEach(change => {
+        text += formatChangeLine(change) + '\n';
+      });
+
+    if (changes.length > 3) {
+      text += `   _+${changes.length - 3} smaller change(s)_\n`;
+    }
+  }
+
+  text += '\n_Switch with /digest off|hourly|daily_';
+  return text;
+}
+
+/**
+ * Current digest period for a mode; a digest is due once the period changes
+ * Hourly periods start on the hour, daily ones at `digestHourUtc`
+ */
+export function getDigestPeriod(mode: Exclude<DigestMode, 'off'>, now: number, digestHourUtc: number): string {
+  const date = new Date(now);
+  if (mode === 'hourly') {
+    return date.toISOString().slice(0, 13);
+  }
+
+  // Before today's digest hour we're still in yesterday's period
+  if (date.getUTCHours() < digestHourUtc) {
+    date.setUTCDate(date.getUTCDate() - 1);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a user-supplied digest mode
+ */
+export function parseDigestMode(input?: string): DigestMode | null {
+  switch ((input || '').toLowerCase()) {
+    case 'off':
+    case 'instant':
+    case 'none':
+      return 'off';
+    case 'hourly':
+    case 'hour':
+      return 'hourly';
+    case 'daily':
+    case 'day':
+      return 'daily';
+    default:
+      return null;
+  }
+}
+
+function groupByWallet(items: BatchedChange[]): Map<string, BatchedChange[]> {
+  const groups = new Map<string, BatchedChange[]>();
+  for (const item of items) {
+    const group = groups.get(item.walletAddress) || [];
+    group.push(item);
+    groups.set(item.walletAddress, group);
+  }
+  return groups;
+}
+
+function summarizeTypes(changes: PositionChange[]): string {
+  const labels: Record<PositionChange['type'], string> = {
+    NEW: 'new',
+    BUY: 'buy',
+    SELL: 'sell',
+    CLOSED: 'closed',
+  };
+  const counts = new Map<string, number>();
+  for (const change of changes) {
+    counts.set(labels[change.type], (counts.get(labels[change.type]) || 0) + 1);
+  }
+  return Array.from(counts.entries()).map(([type, count]) => `${count} ${type}`).join(', ');
+}
+
+function formatChangeLine(change: PositionChange): string {
+  const icon = change.type === 'NEW' ? '🆕' : change.type === 'BUY' ? '🟢' : change.type === 'SELL' ? '🔴' : '❌';
+  const title = escapeMarkdown(change.title.length > 40 ? change.title.slice(0, 37) + '...' : change.title);
+  const shares = change.deltaShares.toLocaleString('en-US', { maximumFractionDigits: 0 });
+  return `${icon} ${change.outcome} | ${title} | ${shares} @ $${change.price.toFixed(2)} (${formatUsd(change.totalValue)})`;
+}
+
+function formatWalletLabel(label: string): string {
+  return /^0x[a-fA-F0-9]{40}$/.test(label)
+    ? `\`${label.slice(0, 6)}...${label.slice(-4)}\``
+    : escapeMarkdown(label);
+}
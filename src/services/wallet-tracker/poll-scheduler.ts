@@ -0,0 +1,276 @@
+/**
+ * Adaptive Poll Scheduler
+ * Decides when each tracked wallet is polled next: recently active and widely
+ * followed wallets are polled more often, idle ones back off, and polls are held
+ * back while the shared API request budget is spent
+ */
+
+export interface PollSchedulerOptions {
+  baseIntervalMs: number;          // interval for a wallet with one subscriber and no recent activity
+  minIntervalMs: number;
+  maxIntervalMs: number;
+  requestBudgetPerMinute: number;  // shared with everything else using the REST client
+  maxRequestsPerPoll: number;      // worst case for one poll (positions + every activity feed page)
+}
+
+export interface WalletPollState {
+  wallet: string;
+  subscribers: number;
+  activity: number;           // exponentially decayed change count
+  activityUpdatedAt: number;
+  idlePolls: number;          // consecutive polls without changes
+  lastPolledAt: number | null;
+  intervalMs: number;
+  nextPollAt: number;
+}
+
+export interface WalletPollStatus {
+  wallet: string;
+  subscribers: number;
+  activity: number;
+  intervalMs: number;
+  nextPollAt: Date;
+  lastPolledAt: Date | null;
+}
+
+export interface PollBudgetStatus {
+  requestBudgetPerMinute: number;
+  requestsLastMinute: number;
+  pausedUntil: Date | null;
+}
+
+// A burst of changes keeps a wallet hot for roughly an hour
+const ACTIVITY_HALF_LIFE_MS = 60 * 60 * 1000;
+// Each run of this many empty polls doubles the interval, up to 2^MAX_BACKOFF_EXPONENT
+const IDLE_POLLS_PER_BACKOFF = 5;
+const MAX_BACKOFF_EXPONENT = 4;
+// Weight of the latest poll in the average requests per poll
+const REQUEST_AVERAGE_WEIGHT = 0.2;
+const BUDGET_WINDOW_MS = 60 * 1000;
+
+export class AdaptivePollScheduler {
+  private options: PollSchedulerOptions;
+  private wallets: Map<string, WalletPollState> = new Map();
+  private requestSamples: Array<{ at: number; total: number }> = [];
+  private pausedUntil = 0;
+  // Measured API requests per poll, starting from the worst case
+  private requestsPerPoll: number;
+
+  constructor(options: PollSchedulerOptions) {
+    this.options = options;
+    this.requestsPerPoll = options.maxRequestsPerPoll;
+  }
+
+  /**
+   * Add a wallet (or update its subscriber count if already scheduled)
+   * @param firstPollAt When to poll it first (defaults to immediately)
+   */
+  add(wallet: string, subscribers: number, now: number, firstPollAt = now): void {
+    const existing = this.wallets.get(wallet);
+    if (existing) {
+      this.setSubscribers(wallet, subscribers, now);
+      return;
+    }
+
+    const state: WalletPollState = {
+      wallet,
+      subscribers: Math.max(1, subscribers),
+      activity: 0,
+      activityUpdatedAt: now,
+      idlePolls: 0,
+      lastPolledAt: null,
+      intervalMs: this.options.baseIntervalMs,
+      nextPollAt: firstPollAt,
+    };
+    state.intervalMs = this.calculateInterval(state, now);
+    this.wallets.set(wallet, state);
+  }
+
+  remove(wallet: string): void {
+    this.wallets.delete(wallet);
+  }
+
+  has(wallet: string): boolean {
+    return this.wallets.has(wallet);
+  }
+
+  /**
+   * Update a wallet's subscriber count, pulling its next poll forward if it got hotter
+   */
+  setSubscribers(wallet: string, subscribers: number, now: number): void {
+    const state = this.wallets.get(wallet);
+    if (!state) return;
+
+    state.subscribers = Math.max(1, subscribers);
+    this.reschedule(state, now);
+  }
+
+  /**
+   * Seed activity from recorded history (e.g. after a restart)
+   */
+  seedActivity(wallet: string, changes: number, lastChangeAt: number, now: number): void {
+    const state = this.wallets.get(wallet);
+    if (!state || changes <= 0) return;
+
+    state.activity = changes * decayFactor(now - lastChangeAt);
+    state.activityUpdatedAt = now;
+    this.reschedule(state, now);
+  }
+
+  /**
+   * Most overdue wallet that is due at `now`, or null
+   */
+  next(now: number): string | null {
+    let due: WalletPollState | null = null;
+    for (const state of this.wallets.values()) {
+      if (state.nextPollAt <= now && (!due || state.nextPollAt < due.nextPollAt)) {
+        due = state;
+      }
+    }
+    return due ? due.wallet : null;
+  }
+
+  /**
+   * Record a completed poll and schedule the wallet's next one
+   * @param requests API requests the poll made (defaults to the worst case)
+   */
+  recordPoll(wallet: string, changes: number, now: number, requests = this.options.maxRequestsPerPoll): void {
+    this.requestsPerPoll += (Math.max(1, requests) - this.requestsPerPoll) * REQUEST_AVERAGE_WEIGHT;
+
+    const state = this.wallets.get(wallet);
+    if (!state) return;
+
+    state.activity = this.getActivity(state, now) + changes;
+    state.activityUpdatedAt = now;
+    state.idlePolls = changes > 0 ? 0 : state.idlePolls + 1;
+    state.lastPolledAt = now;
+    state.intervalMs = this.calculateInterval(state, now);
+    state.nextPollAt = now + state.intervalMs;
+  }
+
+  /**
+   * Count changes seen outside a poll (e.g. streamed fills) without moving the poll anchor
+   */
+  recordActivity(wallet: string, changes: number, now: number): void {
+    const state = this.wallets.get(wallet);
+    if (!state || changes <= 0) return;
+
+    state.activity = this.getActivity(state, now) + changes;
+    state.activityUpdatedAt = now;
+    state.idlePolls = 0;
+    this.reschedule(state, now);
+  }
+
+  /**
+   * Make every wallet due now (e.g. to catch up after the real-time stream dropped)
+   */
+  expediteAll(now: number): void {
+    for (const state of this.wallets.values()) {
+      state.nextPollAt = Math.min(state.nextPollAt, now);
+    }
+  }
+
+  /**
+   * Feed the REST client's cumulative request counter (covers every caller, not just polls)
+   */
+  observeRequestCount(total: number, now: number): void {
+    this.requestSamples.push({ at: now, total });
+    // Keep one sample at or before the window start so the window is fully covered
+    while (this.requestSamples.length > 2 && this.requestSamples[1].at <= now - BUDGET_WINDOW_MS) {
+      this.requestSamples.shift();
+    }
+  }
+
+  /**
+   * Hold all polls until the API rate limit resets
+   */
+  pauseUntil(until: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+  }
+
+  /**
+   * Whether a poll fits in the remaining request budget, even if it has to page
+   * through the whole activity feed
+   */
+  hasBudget(now: number): boolean {
+    if (now < this.pausedUntil) return false;
+    return this.getRequestsLastMinute() + this.options.maxRequestsPerPoll <= this.options.requestBudgetPerMinute;
+  }
+
+  getRequestsPerPoll(): number {
+    return this.requestsPerPoll;
+  }
+
+  getRequestsLastMinute(): number {
+    if (this.requestSamples.length < 2) return 0;
+    const first = this.requestSamples[0];
+    const last = this.requestSamples[this.requestSamples.length - 1];
+    return Math.max(0, last.total - first.total);
+  }
+
+  getWalletStatus(now: number): WalletPollStatus[] {
+    return Array.from(this.wallets.values())
+      .sort((a, b) => a.nextPollAt - b.nextPollAt)
+      .map(state => ({
+        wallet: state.wallet,
+        subscribers: state.subscribers,
+        activity: Math.round(this.getActivity(state, now) * 100) / 100,
+        intervalMs: state.intervalMs,
+        nextPollAt: new Date(state.nextPollAt),
+        lastPolledAt: state.lastPolledAt ? new Date(state.lastPolledAt) : null,
+      }));
+  }
+
+  getBudgetStatus(now: number): PollBudgetStatus {
+    return {
+      requestBudgetPerMinute: this.options.requestBudgetPerMinute,
+      requestsLastMinute: this.getRequestsLastMinute(),
+      pausedUntil: now < this.pausedUntil ? new Date(this.pausedUntil) : null,
+    };
+  }
+
+  /**
+   * Recompute a wallet's interval, keeping its last poll as the anchor
+   */
+  private reschedule(state: WalletPollState, now: number): void {
+    state.intervalMs = this.calculateInterval(state, now);
+    const anchor = state.lastPolledAt ?? now;
+    state.nextPollAt = Math.min(state.nextPollAt, Math.max(now, anchor + state.intervalMs));
+  }
+
+  /**
+   * Interval = base × idle backoff / priority, stretched to fit the request budget
+   * Priority grows with recent activity and (logarithmically) with subscribers
+   */
+  private calculateInterval(state: WalletPollState, now: number): number {
+    const desired = this.getDesiredInterval(state, now);
+
+    // If every wallet polled at its desired rate would overrun the budget, slow all of them down evenly
+    let pollsPerMinute = 0;
+    for (const other of this.wallets.values()) {
+      if (other.wallet === state.wallet) continue;
+      pollsPerMinute += BUDGET_WINDOW_MS / this.getDesiredInterval(other, now);
+    }
+    pollsPerMinute += BUDGET_WINDOW_MS / desired;
+
+    const stretch = Math.max(1, (pollsPerMinute * this.requestsPerPoll) / this.options.requestBudgetPerMinute);
+
+    return Math.round(
+      Math.min(this.options.maxIntervalMs, Math.max(this.options.minIntervalMs, desired * stretch))
+    );
+  }
+
+  private getDesiredInterval(state: WalletPollState, now: number): number {
+    const priority = (1 + this.getActivity(state, now)) * (1 + Math.log2(state.subscribers));
+    const backoff = 2 ** Math.min(MAX_BACKOFF_EXPONENT, Math.floor(state.idlePolls / IDLE_POLLS_PER_BACKOFF));
+    return (this.options.baseIntervalMs * backoff) / priority;
+  }
+
+  private getActivity(state: WalletPollState, now: number): number {
+    return state.activity * decayFactor(now - state.activityUpdatedAt);
+  }
+}
+
+function decayFactor(elapsedMs: number): number {
+  return Math.pow(0.5, Math.max(0, elapsedMs) / ACTIVITY_HALF_LIFE_MS);
+}
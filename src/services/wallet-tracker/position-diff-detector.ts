@@ -12,6 +12,7 @@ export interface PositionSnapshot {
   eventSlug: string;
   outcome: string; // YES/NO
   timestamp: number;
+  resolvedOutcome?: string; // Winning outcome once the market has resolved (position redeemable)
 }
 
 export interface PositionChange {
@@ -24,6 +25,9 @@ export interface PositionChange {
   deltaShares: number;
   price: number;
   totalValue: number;
+  timestamp?: number; // Fill time (ms) when derived from a trade
+  tradeId?: string;
+  source?: 'trade' | 'snapshot';
 }
 
 /**
@@ -130,6 +134,7 @@ export function createSnapshotFromPositions(
     eventSlug?: string;
     outcome?: string;
     side?: string;
+    resolvedOutcome?: string;
   }>
 ): Map<string, PositionSnapshot> {
   const snapshot = new Map<string, PositionSnapshot>();
@@ -149,6 +154,7 @@ export function createSnapshotFromPositions(
       eventSlug: pos.eventSlug || '',
       outcome,
       timestamp: Date.now(),
+      resolvedOutcome: pos.resolvedOutcome,
     });
   }
 
@@ -0,0 +1,107 @@
+/**
+ * Resolution Detector
+ * Finds tracked wallet positions whose market has just resolved and prices the
+ * payout from the last snapshot before resolution. Layout follows the
+ * market_resolved_yes/market_resolved_no templates of the notification service.
+ */
+
+import { PositionChange, PositionSnapshot, getPositionKey } from './position-diff-detector';
+import { escapeMarkdown, formatUsd } from '@/utils/format';
+
+export interface ResolvedPosition {
+  conditionId: string;
+  outcome: string;
+  title: string;
+  eventSlug: string;
+  winningOutcome: string;
+  shares: number;
+  avgPrice: number;
+  costBasis: number;
+  payout: number; // $1 per winning share, $0 per losing share
+  pnl: number;
+  won: boolean;
+}
+
+/**
+ * Winning outcome of a settled position (redeemable at $1 or $0), or undefined while unresolved
+ */
+export function getResolvedOutcome(position: {
+  redeemable?: boolean;
+  curPrice?: number;
+  outcome: string;
+  oppositeOutcome?: string;
+}): string | undefined {
+  if (!position.redeemable || position.curPrice === undefined) return undefined;
+  if (position.curPrice >= 0.99) return position.outcome;
+  if (position.curPrice <= 0.01) return position.oppositeOutcome;
+  return undefined;
+}
+
+/**
+ * Positions that resolved since the previous snapshot
+ * Only positions already held in the previous snapshot count, so a wallet's
+ * old unredeemed positions don't alert when it is first tracked
+ */
+export function detectResolvedPositions(
+  previous: Map<string, PositionSnapshot>,
+  current: Map<string, PositionSnapshot>
+): ResolvedPosition[] {
+  const resolved: ResolvedPosition[] = [];
+
+  for (const [key, currentPos] of current) {
+    const previousPos = previous.get(key);
+    if (!currentPos.resolvedOutcome || !previousPos || previousPos.resolvedOutcome) continue;
+
+    // Size and entry before settlement decide the payout
+    const won = currentPos.outcome.toLowerCase() === currentPos.resolvedOutcome.toLowerCase();
+    const costBasis = previousPos.size * previousPos.avgPrice;
+    const payout = won ? previousPos.size : 0;
+
+    resolved.push({
+      conditionId: currentPos.conditionId,
+      outcome: currentPos.outcome,
+      title: currentPos.title,
+      eventSlug: currentPos.eventSlug,
+      winningOutcome: currentPos.resolvedOutcome,
+      shares: previousPos.size,
+      avgPrice: previousPos.avgPrice,
+      costBasis,
+      payout,
+      pnl: payout - costBasis,
+      won,
+    });
+  }
+
+  return resolved;
+}
+
+/**
+ * Whether a CLOSED change is just the redemption of an already resolved position
+ */
+export function isRedemption(change: PositionChange, previous: Map<string, PositionSnapshot>): boolean {
+  return change.type === 'CLOSED' && !!previous.get(getPositionKey(change))?.resolvedOutcome;
+}
+
+/**
+ * Format the alert for a resolved position, e.g. "Whale1 won $12.4K on <market>"
+ */
+export function formatResolutionNotification(resolved: ResolvedPosition, walletLabel: string): string {
+  const label = /^0x[a-fA-F0-9]{40}$/.test(walletLabel)
+    ? `\`${walletLabel.slice(0, 6)}...${walletLabel.slice(-4)}\``
+    : escapeMarkdown(walletLabel);
+  const market = resolved.eventSlug
+    ? `[${resolved.title.replace(/[[\]]/g, '')}](https://polymarket.com/event/${resolved.eventSlug})`
+    : escapeMarkdown(resolved.title);
+  const shares = resolved.shares.toLocaleString('en-US', { maximumFractionDigits: 0 });
+
+  let text = resolved.pnl >= 0
+    ? `🏆 ${label} *won ${formatUsd(resolved.pnl)}* on ${market}\n\n`
+    : `💸 ${label} *lost ${formatUsd(Math.abs(resolved.pnl))}* on ${market}\n\n`;
+
+  text += `${resolved.won ? '✅' : '❌'} *Market Resolved:* ${escapeMarkdown(resolved.winningOutcome)}\n`;
+  text += `🎯 *Held:* ${shares} ${escapeMarkdown(resolved.outcome)} @ $${resolved.avgPrice.toFixed(2)}\n`;
+  text += `💰 *Payout:* ${formatUsd(resolved.payout)} (cost ${formatUsd(resolved.costBasis)})\n\n`;
+  text += `_Positions on ${escapeMarkdown(resolved.winningOutcome)} have been settled._`;
+
+  return text;
+}
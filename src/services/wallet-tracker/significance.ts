@@ -0,0 +1,111 @@
+/**
+ * Significance Thresholds
+ * Decides per subscriber whether a position change is worth a notification
+ */
+
+import { DatabaseUser } from '@/types/database';
+import { PositionChange } from './position-diff-detector';
+
+export interface SignificanceThresholds {
+  enabled: boolean;
+  notifyTrades: boolean;      // BUY/SELL on an existing position
+  notifyPositions: boolean;   // NEW/CLOSED positions
+  minOrderValue: number;      // USD, BUY/SELL
+  minPositionValue: number;   // USD, NEW/CLOSED
+  minPortfolioPercent: number; // % of the wallet's portfolio, any change
+}
+
+export interface WalletThresholdOverride {
+  minOrderValue?: number;
+  minPortfolioPercent?: number;
+}
+
+export type NotificationPreferences = Partial<DatabaseUser['notification_preferences']>;
+
+/**
+ * Combine global defaults, a subscriber's preferences and per-wallet overrides
+ * Per-wallet overrides win over preferences, which win over the global defaults
+ */
+export function resolveThresholds(
+  defaults: { minOrderValue: number; minPortfolioPercent: number },
+  preferences?: NotificationPreferences | null,
+  override?: WalletThresholdOverride
+): SignificanceThresholds {
+  const minOrderValue = override?.minOrderValue
+    ?? preferences?.min_transaction_amount
+    ?? defaults.minOrderValue;
+
+  return {
+    enabled: preferences?.enabled !== false,
+    notifyTrades: preferences?.transactions !== false,
+    notifyPositions: preferences?.position_updates !== false,
+    minOrderValue,
+    // A wallet override sets one floor for every change type
+    minPositionValue: override?.minOrderValue ?? preferences?.min_position_size ?? defaults.minOrderValue,
+    minPortfolioPercent: override?.minPortfolioPercent
+      ?? preferences?.min_portfolio_percent
+      ?? defaults.minPortfolioPercent,
+  };
+}
+
+/**
+ * Minimum USD value at which a change is significant regardless of portfolio size
+ */
+export function getValueThreshold(change: PositionChange, thresholds: SignificanceThresholds): number {
+  return change.type === 'NEW' || change.type === 'CLOSED'
+    ? thresholds.minPositionValue
+    : thresholds.minOrderValue;
+}
+
+/**
+ * Check whether a change passes a subscriber's thresholds
+ * Significant = value >= the USD threshold OR value >= minPortfolioPercent of the portfolio
+ * @param portfolioValue Wallet portfolio value (only needed when the USD threshold isn't met)
+ */
+export function isSignificantFor(
+  change: PositionChange,
+  thresholds: SignificanceThresholds,
+  portfolioValue?: number
+): boolean {
+  if (!thresholds.enabled) return false;
+
+  const isPositionChange = change.type === 'NEW' || change.type === 'CLOSED';
+  if (isPositionChange ? !thresholds.notifyPositions : !thresholds.notifyTrades) return false;
+
+  if (change.totalValue >= getValueThreshold(change, thresholds)) return true;
+
+  if (!portfolioValue || portfolioValue <= 0) return false;
+  return (change.totalValue / portfolioValue) * 100 >= thresholds.minPortfolioPercent;
+}
+
+/**
+ * Pull `min=<usd>` and `pct=<percent>` tokens out of command arguments
+ * e.g. ['Whale', 'min=250', 'pct=1.5'] -> rest ['Whale'], override { minOrderValue: 250, minPortfolioPercent: 1.5 }
+ */
+export function parseThresholdTokens(args: string[]): {
+  rest: string[];
+  override?: WalletThresholdOverride;
+} {
+  const rest: string[] = [];
+  const override: WalletThresholdOverride = {};
+
+  for (const arg of args) {
+    const match = arg.match(/^(min|pct)=\$?(\d+(?:\.\d+)?)%?$/i);
+    if (!match) {
+      rest.push(arg);
+      continue;
+    }
+
+    const value = parseFloat(match[2]);
+    if (match[1].toLowerCase() === 'min') {
+      override.minOrderValue = value;
+    } else {
+      override.minPortfolioPercent = value;
+    }
+  }
+
+  return {
+    rest,
+    override: Object.keys(override).length > 0 ? override : undefined,
+  };
+}
@@ -0,0 +1,168 @@
+/**
+ * Trade Change Detector
+ * Turns a wallet's activity feed (real fills) into position changes
+ * Snapshot diffs are only used to reconcile what the feed doesn't explain
+ */
+
+import { PolymarketTransaction } from '@/types/polymarket';
+import {
+  PositionSnapshot,
+  PositionChange,
+  detectChanges,
+  getPositionKey,
+} from './position-diff-detector';
+
+export interface TradeCursor {
+  tradeId: string;
+  timestamp: number; // ms
+}
+
+const SIZE_THRESHOLD = 0.001; // Ignore dust left after a sell
+
+/**
+ * Get fill time in milliseconds
+ */
+export function getTradeTimestamp(trade: PolymarketTransaction): number {
+  const parsed = new Date(trade.timestamp).getTime();
+  return isNaN(parsed) ? 0 : parsed;
+}
+
+/**
+ * Create a cursor pointing at a trade
+ */
+export function createTradeCursor(trade: PolymarketTransaction): TradeCursor {
+  return {
+    tradeId: trade.id,
+    timestamp: getTradeTimestamp(trade),
+  };
+}
+
+/**
+ * Select trades newer than the cursor from a page of trades (newest first)
+ * @returns New trades ordered oldest first, and whether the cursor boundary was reached
+ */
+export function selectNewTrades(
+  trades: PolymarketTransaction[],
+  cursor: TradeCursor
+): { trades: PolymarketTransaction[]; cursorFound: boolean } {
+  const newTrades: PolymarketTransaction[] = [];
+  let cursorFound = false;
+
+  for (const trade of trades) {
+    // Stop at the last-seen trade, or at anything strictly older than it
+    if (trade.id === cursor.tradeId || getTradeTimestamp(trade) < cursor.timestamp) {
+      cursorFound = true;
+      break;
+    }
+    newTrades.push(trade);
+  }
+
+  return { trades: newTrades.reverse(), cursorFound };
+}
+
+/**
+ * Convert fills (oldest first) into one position change per fill
+ * Previous/current snapshots decide NEW vs BUY and CLOSED vs SELL
+ */
+export function createChangesFromTrades(
+  trades: PolymarketTransaction[],
+  previous: Map<string, PositionSnapshot>,
+  current: Map<string, PositionSnapshot>
+): PositionChange[] {
+  const changes: PositionChange[] = [];
+  // Running size per position while replaying the fills
+  const runningSize = new Map<string, number>();
+
+  for (const trade of trades) {
+    if (trade.type !== 'BUY' && trade.type !== 'SELL') continue;
+
+    const key = getPositionKey({ conditionId: trade.conditionId, outcome: trade.outcome });
+    const known = current.get(key) || previous.get(key);
+    const sizeBefore = runningSize.has(key) ? runningSize.get(key)! : (previous.get(key)?.size || 0);
+    const shares = trade.size ?? trade.amount;
+    const sizeAfter = trade.type === 'BUY' ? sizeBefore + shares : sizeBefore - shares;
+    runningSize.set(key, sizeAfter);
+
+    let type: PositionChange['type'] = trade.type;
+    if (trade.type === 'BUY' && sizeBefore <= SIZE_THRESHOLD) {
+      type = 'NEW';
+    } else if (trade.type === 'SELL' && sizeAfter <= SIZE_THRESHOLD && !current.has(key)) {
+      type = 'CLOSED';
+    }
+
+    changes.push({
+      type,
+      conditionId: trade.conditionId,
+      asset: trade.asset || known?.asset || '',
+      title: trade.title || known?.title || 'Unknown Market',
+      eventSlug: trade.eventSlug || known?.eventSlug || '',
+      outcome: trade.outcome,
+      deltaShares: shares,
+      price: trade.price,
+      totalValue: shares * trade.price,
+      timestamp: getTradeTimestamp(trade),
+      tradeId: trade.id,
+      source: 'trade',
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Snapshot changes on positions that no fill accounts for
+ * (redemptions, merges, transfers, or fills outside the fetched window)
+ */
+export function findUnexplainedChanges(
+  tradeChanges: PositionChange[],
+  previous: Map<string, PositionSnapshot>,
+  current: Map<string, PositionSnapshot>
+): PositionChange[] {
+  const explainedKeys = new Set(tradeChanges.map(change => getPositionKey(change)));
+
+  return detectChanges(previous, current)
+    .filter(change => !explainedKeys.has(getPositionKey(change)))
+    .map(change => ({ ...change, source: 'snapshot' as const }));
+}
+
+/**
+ * Apply fills (oldest first) to a snapshot, for streamed trades that arrive between polls
+ * Positions sold down to dust are removed; the input snapshot is not modified
+ */
+export function applyTradesToSnapshot(
+  snapshot: Map<string, PositionSnapshot>,
+  trades: PolymarketTransaction[]
+): Map<string, PositionSnapshot> {
+  const updated = new Map(snapshot);
+
+  for (const trade of trades) {
+    if (trade.type !== 'BUY' && trade.type !== 'SELL') continue;
+
+    const key = getPositionKey({ conditionId: trade.conditionId, outcome: trade.outcome });
+    const existing = updated.get(key);
+    const shares = trade.size ?? trade.amount;
+    const sizeBefore = existing?.size || 0;
+    const sizeAfter = trade.type === 'BUY' ? sizeBefore + shares : sizeBefore - shares;
+
+    if (sizeAfter <= SIZE_THRESHOLD) {
+      updated.delete(key);
+      continue;
+    }
+
+    updated.set(key, {
+      conditionId: trade.conditionId,
+      asset: trade.asset || existing?.asset || '',
+      size: sizeAfter,
+      // Buys move the average entry; sells leave it unchanged
+      avgPrice: trade.type === 'BUY'
+        ? (sizeBefore * (existing?.avgPrice || 0) + shares * trade.price) / sizeAfter
+        : existing?.avgPrice || trade.price,
+      title: trade.title || existing?.title || 'Unknown Market',
+      eventSlug: trade.eventSlug || existing?.eventSlug || '',
+      outcome: trade.outcome,
+      timestamp: getTradeTimestamp(trade),
+    });
+  }
+
+  return updated;
+}
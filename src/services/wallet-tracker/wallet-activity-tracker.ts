@@ -6,18 +6,48 @@
 import { Telegraf, Context } from 'telegraf';
 import { SimpleRedisClient } from '@/services/redis/simple-redis-client';
 import { PolymarketService } from '@/services/polymarket';
+import { PolymarketTransaction } from '@/types/polymarket';
 import { logger } from '@/utils/logger';
 import {
   PositionSnapshot,
   PositionChange,
   detectChanges,
   createSnapshotFromPositions,
-  formatNotification,
 } from './position-diff-detector';
+import {
+  TradeCursor,
+  createTradeCursor,
+  selectNewTrades,
+  createChangesFromTrades,
+  findUnexplainedChanges,
+  applyTradesToSnapshot,
+} from './trade-change-detector';
 import {
   WalletTrackerRepository,
   getWalletTrackerRepository,
 } from './wallet-tracker-repository';
+import { AdaptivePollScheduler, PollBudgetStatus, WalletPollStatus } from './poll-scheduler';
+import {
+  BatchedChange,
+  DigestMode,
+  NotificationBatcher,
+  formatDigest,
+  getDigestPeriod,
+} from './notification-batcher';
+import {
+  WalletThresholdOverride,
+  getValueThreshold,
+  isSignificantFor,
+  resolveThresholds,
+} from './significance';
+import {
+  ResolvedPosition,
+  detectResolvedPositions,
+  formatResolutionNotification,
+  getResolvedOutcome,
+  isRedemption,
+} from './resolution-detector';
+import { MarketResolutionRepository, getMarketResolutionRepository } from '@/services/pnl';
 import { config } from '@/config';
 
 export interface TrackerConfig {
@@ -29,6 +59,9 @@ export interface TrackerConfig {
   enabled?: boolean;
 }
 
+// Receives every newly detected change once, after it's recorded (e.g. copy trading)
+export type PositionChangeListener = (walletAddress: string, changes: PositionChange[]) => Promise<void>;
+
 interface TrackedWallet {
   walletAddress: string;
   userId: number;
@@ -37,38 +70,82 @@ interface TrackedWallet {
   addedAt: number;
 }
 
-interface WalletSubscriber {
-  userId: number;
-  chatId: number;
-  alias?: string;
-}
-
-// Redis key patterns - only for ephemeral cache data (snapshots)
+// Redis key patterns - only for ephemeral cache data (snapshots, feed cursors)
 const REDIS_KEYS = {
   snapshot: (wallet: string) => `wallet_tracker:snapshot:${wallet.toLowerCase()}`,
+  tradeCursor: (wallet: string) => `wallet_tracker:trade_cursor:${wallet.toLowerCase()}`,
+  notifiedTrades: (wallet: string) => `wallet_tracker:notified_trades:${wallet.toLowerCase()}`,
+  digest: (userId: number) => `wallet_tracker:digest:${userId}`,
+  digestUsers: 'wallet_tracker:digest_users',
 };
 
+// Activity feed paging - how far back we look for the last-seen trade
+const TRADE_PAGE_SIZE = 100;
+const MAX_TRADE_PAGES = 5;
+// A poll fetches positions, then pages through the activity feed
+const MAX_REQUESTS_PER_POLL = 1 + MAX_TRADE_PAGES;
+const TRADE_CURSOR_TTL = 3600 * 24 * 7; // 7 days
+// Trade ids already notified (streamed or polled), kept as long as the cursor
+const NOTIFIED_TRADES_TTL = TRADE_CURSOR_TTL;
+
+// How often a full position snapshot is written to PostgreSQL per wallet
+const SNAPSHOT_PERSIST_INTERVAL_MS = 3600 * 1000; // 1 hour
+
+// Digests are checked this often; they go out when the hour/day rolls over
+const DIGEST_CHECK_INTERVAL_MS = 60 * 1000;
+// Queued digest changes are dropped if never sent (e.g. user left)
+const DIGEST_TTL = 3600 * 24 * 3; // 3 days
+const MAX_DIGEST_ITEMS = 1000;
+
+// The scheduler is checked this often for a due wallet
+const SCHEDULER_TICK_MS = 1000;
+// Recorded changes within this window seed wallet activity on startup
+const ACTIVITY_SEED_WINDOW_MS = 6 * 3600 * 1000; // 6 hours
+
 export class WalletActivityTracker {
   private redis: SimpleRedisClient;
   private polymarketService: PolymarketService;
   private bot: Telegraf<Context>;
   private repository: WalletTrackerRepository;
+  private resolutionRepository: MarketResolutionRepository;
   private pollIntervalMs: number;
   private maxWallets: number;
   private enabled: boolean;
   private pollingInterval: NodeJS.Timeout | null = null;
   private isPolling = false;
-  private pollIndex = 0;
+  private scheduler: AdaptivePollScheduler;
   private trackedWallets: string[] = [];
+  private lastSnapshotPersistedAt: Map<string, number> = new Map();
+  // Snapshot with streamed fills applied since the last poll
+  private streamSnapshots: Map<string, Map<string, PositionSnapshot>> = new Map();
+  // Per-wallet chain so streamed fills are processed in order
+  private streamQueues: Map<string, Promise<void>> = new Map();
+  private streamStats = { tradesReceived: 0, missedByStream: 0 };
+  private batcher: NotificationBatcher;
+  private digestInterval: ReturnType<typeof setInterval> | null = null;
+  private changeListeners: PositionChangeListener[] = [];
 
   constructor(trackerConfig: TrackerConfig) {
     this.redis = trackerConfig.redis;
     this.polymarketService = trackerConfig.polymarketService;
     this.bot = trackerConfig.bot;
     this.repository = getWalletTrackerRepository();
+    this.resolutionRepository = getMarketResolutionRepository();
     this.pollIntervalMs = trackerConfig.pollIntervalMs || 60000; // 60 seconds default
     this.maxWallets = trackerConfig.maxWallets || 100;
     this.enabled = trackerConfig.enabled !== false;
+    this.scheduler = new AdaptivePollScheduler({
+      baseIntervalMs: this.pollIntervalMs,
+      minIntervalMs: config.walletTracker.minPollIntervalMs,
+      maxIntervalMs: config.walletTracker.maxPollIntervalMs,
+      requestBudgetPerMinute: config.walletTracker.requestBudgetPerMinute,
+      maxRequestsPerPoll: MAX_REQUESTS_PER_POLL,
+    });
+    this.batcher = new NotificationBatcher({
+      windowMs: config.notifications.batchWindowMs,
+      maxBatchSize: config.notifications.batchSize,
+      send: (chatId, text) => this.sendMessage(chatId, text),
+    });
   }
 
   /**
@@ -86,8 +163,10 @@ export class WalletActivityTracker {
       // Load tracked wallets from PostgreSQL
       await this.loadTrackedWallets();
 
-      // Start polling
+      // Real-time fills first, polling as the safety net
+      await this.startStream();
       this.startPolling();
+      this.startDigests();
 
       logger.info('Wallet Activity Tracker initialized', {
         trackedWallets: this.trackedWallets.length,
@@ -107,6 +186,13 @@ export class WalletActivityTracker {
   async shutdown(): Promise<void> {
     logger.info('Shutting down Wallet Activity Tracker...');
     this.stopPolling();
+    this.stopStream();
+
+    if (this.digestInterval) {
+      clearInterval(this.digestInterval);
+      this.digestInterval = null;
+    }
+    await this.batcher.flushAll();
   }
 
   /**
@@ -117,7 +203,8 @@ export class WalletActivityTracker {
     walletAddress: string,
     userId: number,
     chatId: number,
-    alias?: string
+    alias?: string,
+    thresholdOverride?: WalletThresholdOverride
   ): Promise<{ success: boolean; message: string }> {
     const normalizedWallet = walletAddress.toLowerCase();
 
@@ -131,7 +218,13 @@ export class WalletActivityTracker {
       }
 
       // Add to PostgreSQL (handles limit check internally)
-      const result = await this.repository.addTrackedWallet(userId, chatId, normalizedWallet, alias);
+      const result = await this.repository.addTrackedWallet(
+        userId,
+        chatId,
+        normalizedWallet,
+        alias,
+        thresholdOverride
+      );
 
       if (!result.success) {
         return result;
@@ -145,6 +238,12 @@ export class WalletActivityTracker {
         this.trackedWallets.push(normalizedWallet);
       }
 
+      // More subscribers means more frequent polls (the snapshot above is fresh, so no rush for the first one)
+      const subscribers = await this.repository.getWalletSubscribers(normalizedWallet);
+      const now = Date.now();
+      this.scheduler.add(normalizedWallet, subscribers.length, now, now + config.walletTracker.minPollIntervalMs);
+      await this.polymarketService.subscribeToWallet(normalizedWallet);
+
       logger.info('Started tracking wallet', {
         wallet: normalizedWallet,
         userId,
@@ -191,6 +290,12 @@ export class WalletActivityTracker {
 
           // Update local cache
           this.trackedWallets = this.trackedWallets.filter(w => w !== normalizedWallet);
+          this.lastSnapshotPersistedAt.delete(normalizedWallet);
+          this.scheduler.remove(normalizedWallet);
+          this.streamSnapshots.delete(normalizedWallet);
+          await this.polymarketService.unsubscribeFromWallet(normalizedWallet);
+        } else {
+          this.scheduler.setSubscribers(normalizedWallet, subscribers.length, Date.now());
         }
 
         logger.info('Stopped tracking wallet', { wallet: normalizedWallet, userId });
@@ -237,6 +342,13 @@ export class WalletActivityTracker {
     }
   }
 
+  /**
+   * Register a listener for newly detected position changes
+   */
+  onPositionChanges(listener: PositionChangeListener): void {
+    this.changeListeners.push(listener);
+  }
+
   /**
    * Load tracked wallets from PostgreSQL
    */
@@ -244,6 +356,21 @@ export class WalletActivityTracker {
     try {
       this.trackedWallets = await this.repository.getAllTrackedWallets();
       logger.info('Loaded tracked wallets from PostgreSQL', { count: this.trackedWallets.length });
+
+      const now = Date.now();
+      const subscriberCounts = await this.repository.getWalletSubscriberCounts();
+      const recentActivity = await this.repository.getRecentActivity(new Date(now - ACTIVITY_SEED_WINDOW_MS));
+
+      // Stagger first polls across one base interval so startup doesn't burst the API
+      const stagger = this.pollIntervalMs / Math.max(1, this.trackedWallets.length);
+      this.trackedWallets.forEach((wallet, index) => {
+        this.scheduler.add(wallet, subscriberCounts.get(wallet) || 1, now, now + Math.floor(index * stagger));
+
+        const activity = recentActivity.get(wallet);
+        if (activity) {
+          this.scheduler.seedActivity(wallet, activity.changes, activity.lastChangeAt.getTime(), now);
+        }
+      });
     } catch (error) {
       logger.error('Failed to load tracked wallets', { error });
       this.trackedWallets = [];
@@ -252,19 +379,18 @@ export class WalletActivityTracker {
 
   /**
    * Start the polling loop
+   * Every tick polls at most one due wallet, if the request budget allows
    */
   private startPolling(): void {
     if (this.pollingInterval) {
       return;
     }
 
-    // Calculate poll delay based on number of wallets
-    // Goal: poll each wallet every pollIntervalMs, but stagger to avoid rate limits
-    const pollDelay = this.calculatePollDelay();
-
     logger.info('Starting wallet polling', {
       totalWallets: this.trackedWallets.length,
-      pollDelay,
+      baseIntervalMs: this.pollIntervalMs,
+      requestBudgetPerMinute: config.walletTracker.requestBudgetPerMinute,
+      maxRequestsPerPoll: MAX_REQUESTS_PER_POLL,
     });
 
     this.pollingInterval = setInterval(async () => {
@@ -280,7 +406,7 @@ export class WalletActivityTracker {
       } finally {
         this.isPolling = false;
       }
-    }, pollDelay);
+    }, SCHEDULER_TICK_MS);
   }
 
   /**
@@ -294,109 +420,433 @@ export class WalletActivityTracker {
   }
 
   /**
-   * Calculate delay between polling each wallet
-   */
-  private calculatePollDelay(): number {
-    const walletCount = Math.max(1, this.trackedWallets.length);
-    // At least 1 second between API calls, spread evenly across poll interval
-    const minDelay = 1000;
-    const calculatedDelay = Math.floor(this.pollIntervalMs / walletCount);
-    return Math.max(minDelay, calculatedDelay);
-  }
-
-  /**
-   * Poll the next wallet in the queue
+   * Poll the most overdue wallet, if any is due and the budget allows
    */
   private async pollNextWallet(): Promise<void> {
-    if (this.trackedWallets.length === 0) {
+    const now = Date.now();
+    this.updateRequestBudget(now);
+
+    const wallet = this.scheduler.next(now);
+    if (!wallet) {
       return;
     }
 
-    // Round-robin through wallets
-    this.pollIndex = this.pollIndex % this.trackedWallets.length;
-    const wallet = this.trackedWallets[this.pollIndex];
-    this.pollIndex++;
+    if (!this.scheduler.hasBudget(now)) {
+      logger.debug('Request budget spent, deferring wallet poll', {
+        wallet,
+        ...this.scheduler.getBudgetStatus(now),
+      });
+      return;
+    }
+
+    const restClient = this.polymarketService.getRestClient();
+    const requestsBefore = restClient.getStats().requestsMade;
 
+    let changes = 0;
     try {
-      await this.checkWalletActivity(wallet);
+      changes = await this.checkWalletActivity(wallet);
     } catch (error) {
       logger.error('Failed to poll wallet', {
         wallet,
         error: error instanceof Error ? error.message : 'Unknown error',
       });
     }
+
+    // Includes requests other callers made meanwhile, which only errs on the safe side
+    const requests = restClient.getStats().requestsMade - requestsBefore;
+    this.scheduler.recordPoll(wallet, changes, Date.now(), requests);
+  }
+
+  /**
+   * Share the REST client's request count and rate-limit state with the scheduler
+   */
+  private updateRequestBudget(now: number): void {
+    const restClient = this.polymarketService.getRestClient();
+    this.scheduler.observeRequestCount(restClient.getStats().requestsMade, now);
+
+    const rateLimit = restClient.getRateLimitInfo();
+    if (rateLimit && rateLimit.resetTime.getTime() > now) {
+      this.scheduler.pauseUntil(rateLimit.resetTime.getTime());
+    }
   }
 
   /**
    * Check a wallet for activity and send notifications
+   * Fills from the activity feed are the primary source; the snapshot diff
+   * reconciles anything the feed doesn't explain or takes over if the feed fails
+   * @returns Number of changes detected
    */
-  private async checkWalletActivity(walletAddress: string): Promise<void> {
+  private async checkWalletActivity(walletAddress: string): Promise<number> {
     // Get previous snapshot
-    const previousSnapshotJson = await this.redis.get(REDIS_KEYS.snapshot(walletAddress));
-    const previousSnapshot: Map<string, PositionSnapshot> = previousSnapshotJson
-      ? this.deserializeSnapshot(previousSnapshotJson)
-      : new Map();
+    const previousSnapshot = await this.getCachedSnapshot(walletAddress);
 
     // Fetch current positions
-    const positions = await this.polymarketService.getWalletPositions(walletAddress, 500);
-    const currentSnapshot = createSnapshotFromPositions(
-      positions.map(p => ({
-        conditionId: p.marketId,
-        asset: p.marketId,
-        size: p.shares,
-        avgPrice: p.entryPrice || 0,
-        title: p.market,
-        eventSlug: p.eventSlug || p.slug || '',
-        outcome: p.position,
-        side: p.position,
-      }))
-    );
+    const currentSnapshot = await this.fetchSnapshot(walletAddress);
+
+    // Detect changes, dropping fills the stream already notified and redemptions
+    // (a resolved position's payout was already announced by its resolution alert)
+    const detected = (await this.detectWalletChanges(walletAddress, previousSnapshot, currentSnapshot))
+      .filter(change => !isRedemption(change, previousSnapshot));
+    const changes = await this.claimChanges(walletAddress, detected);
 
-    // Detect changes
-    const changes = detectChanges(previousSnapshot, currentSnapshot);
+    // The fresh snapshot already reflects any streamed fills
+    this.streamSnapshots.delete(walletAddress);
+
+    const missedByStream = changes.filter(c => c.source === 'trade').length;
+    if (missedByStream > 0 && this.polymarketService.isRealtimeConnected()) {
+      this.streamStats.missedByStream += missedByStream;
+      logger.debug('Poll caught fills the stream did not deliver', { wallet: walletAddress, missedByStream });
+    }
 
     if (changes.length > 0) {
       logger.info('Detected position changes', {
         wallet: walletAddress,
         changeCount: changes.length,
+        fromTrades: changes.filter(c => c.source === 'trade').length,
       });
 
+      // Record history before notifying so it survives notification failures
+      await this.repository.recordPositionChanges(walletAddress, changes);
+      await this.publishChanges(walletAddress, changes);
+
       // Get subscribers and send notifications
       await this.notifySubscribers(walletAddress, changes);
     }
 
+    const resolved = detectResolvedPositions(previousSnapshot, currentSnapshot);
+    if (resolved.length > 0) {
+      logger.info('Tracked wallet positions resolved', {
+        wallet: walletAddress,
+        positions: resolved.length,
+        pnl: resolved.reduce((sum, r) => sum + r.pnl, 0),
+      });
+      await this.notifyResolutions(walletAddress, resolved);
+    }
+
     // Update snapshot
     await this.redis.set(
       REDIS_KEYS.snapshot(walletAddress),
       this.serializeSnapshot(currentSnapshot),
       3600 * 24 // 24 hour TTL
     );
+
+    await this.persistSnapshotIfDue(walletAddress, currentSnapshot, changes.length > 0);
+
+    return changes.length;
+  }
+
+  /**
+   * Listen for streamed fills of tracked wallets
+   */
+  private async startStream(): Promise<void> {
+    this.polymarketService.on('wallet:trade', this.onStreamedTrade);
+    this.polymarketService.on('websocket:connected', this.onStreamReconnected);
+
+    for (const wallet of this.trackedWallets) {
+      await this.polymarketService.subscribeToWallet(wallet);
+    }
+
+    logger.info('Wallet activity stream attached', {
+      connected: this.polymarketService.isRealtimeConnected(),
+      wallets: this.trackedWallets.length,
+    });
+  }
+
+  /**
+   * Detach from the real-time stream
+   */
+  private stopStream(): void {
+    this.polymarketService.off('wallet:trade', this.onStreamedTrade);
+    this.polymarketService.off('websocket:connected', this.onStreamReconnected);
+  }
+
+  private onStreamedTrade = (trade: PolymarketTransaction): void => {
+    const wallet = (trade.proxyWallet || trade.user || '').toLowerCase();
+    if (!this.trackedWallets.includes(wallet)) {
+      return;
+    }
+
+    this.streamStats.tradesReceived++;
+
+    const previous = this.streamQueues.get(wallet) || Promise.resolve();
+    const next = previous
+      .then(() => this.handleStreamedTrade(wallet, trade))
+      .catch(error => {
+        logger.error('Failed to handle streamed trade', {
+          wallet,
+          tradeId: trade.id,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      })
+      .finally(() => {
+        if (this.streamQueues.get(wallet) === next) {
+          this.streamQueues.delete(wallet);
+        }
+      });
+    this.streamQueues.set(wallet, next);
+  };
+
+  // Fills published while the stream was down were missed - let every wallet's poll catch up now
+  private onStreamReconnected = (): void => {
+    logger.info('Activity stream reconnected, polling all wallets for missed fills');
+    this.scheduler.expediteAll(Date.now());
+  };
+
+  /**
+   * Turn one streamed fill into a notification
+   */
+  private async handleStreamedTrade(walletAddress: string, trade: PolymarketTransaction): Promise<void> {
+    const previous = this.streamSnapshots.get(walletAddress) || await this.getCachedSnapshot(walletAddress);
+    const updated = applyTradesToSnapshot(previous, [trade]);
+    this.streamSnapshots.set(walletAddress, updated);
+
+    const changes = await this.claimChanges(
+      walletAddress,
+      createChangesFromTrades([trade], previous, updated)
+    );
+    if (changes.length === 0) {
+      return;
+    }
+
+    logger.info('Streamed position change', {
+      wallet: walletAddress,
+      tradeId: trade.id,
+      type: changes[0].type,
+      value: changes[0].totalValue,
+    });
+
+    this.scheduler.recordActivity(walletAddress, changes.length, Date.now());
+    await this.repository.recordPositionChanges(walletAddress, changes);
+    await this.publishChanges(walletAddress, changes);
+    await this.notifySubscribers(walletAddress, changes);
+  }
+
+  /**
+   * Hand new changes to listeners; a failing listener never blocks notifications
+   */
+  private async publishChanges(walletAddress: string, changes: PositionChange[]): Promise<void> {
+    for (const listener of this.changeListeners) {
+      try {
+        await listener(walletAddress, changes);
+      } catch (error) {
+        logger.error('Position change listener failed', {
+          wallet: walletAddress,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  /**
+   * Keep only changes that haven't been notified yet, so a fill seen by both
+   * the stream and a poll alerts once (SADD is atomic, first path wins)
+   */
+  private async claimChanges(walletAddress: string, changes: PositionChange[]): Promise<PositionChange[]> {
+    const key = REDIS_KEYS.notifiedTrades(walletAddress);
+    const claimed: PositionChange[] = [];
+
+    for (const change of changes) {
+      // Snapshot-only changes have no fill id and only ever come from polls
+      if (!change.tradeId) {
+        claimed.push(change);
+        continue;
+      }
+
+      try {
+        if (await this.redis.sadd(key, change.tradeId) > 0) {
+          claimed.push(change);
+        }
+      } catch (error) {
+        // A rare duplicate beats a missed alert
+        claimed.push(change);
+      }
+    }
+
+    if (changes.some(c => c.tradeId)) {
+      await this.redis.expire(key, NOTIFIED_TRADES_TTL).catch(() => undefined);
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Get the last polled snapshot from Redis
+   */
+  private async getCachedSnapshot(walletAddress: string): Promise<Map<string, PositionSnapshot>> {
+    const json = await this.redis.get(REDIS_KEYS.snapshot(walletAddress));
+    return json ? this.deserializeSnapshot(json) : new Map();
+  }
+
+  /**
+   * Write a snapshot to PostgreSQL when positions changed or the interval elapsed
+   */
+  private async persistSnapshotIfDue(
+    walletAddress: string,
+    snapshot: Map<string, PositionSnapshot>,
+    force: boolean
+  ): Promise<void> {
+    const lastPersisted = this.lastSnapshotPersistedAt.get(walletAddress) || 0;
+    if (!force && Date.now() - lastPersisted < SNAPSHOT_PERSIST_INTERVAL_MS) {
+      return;
+    }
+
+    if (await this.repository.savePositionSnapshot(walletAddress, snapshot)) {
+      this.lastSnapshotPersistedAt.set(walletAddress, Date.now());
+    }
+  }
+
+  /**
+   * Build the list of changes since the last poll
+   */
+  private async detectWalletChanges(
+    walletAddress: string,
+    previousSnapshot: Map<string, PositionSnapshot>,
+    currentSnapshot: Map<string, PositionSnapshot>
+  ): Promise<PositionChange[]> {
+    const cursor = await this.getTradeCursor(walletAddress);
+    // Snapshot diffs start from the streamed state so streamed fills aren't reported again
+    const diffBase = this.streamSnapshots.get(walletAddress) || previousSnapshot;
+
+    try {
+      const feed = await this.fetchNewTrades(walletAddress, cursor);
+
+      if (feed.latest) {
+        await this.saveTradeCursor(walletAddress, feed.latest);
+      }
+
+      // No cursor yet - nothing to replay, fall back to the snapshot diff once
+      if (!cursor) {
+        return detectChanges(diffBase, currentSnapshot);
+      }
+
+      if (!feed.cursorFound) {
+        logger.warn('Activity feed gap, last-seen trade not found', {
+          wallet: walletAddress,
+          fetchedTrades: feed.trades.length,
+        });
+      }
+
+      const tradeChanges = createChangesFromTrades(feed.trades, previousSnapshot, currentSnapshot);
+      const unexplained = findUnexplainedChanges(tradeChanges, previousSnapshot, currentSnapshot);
+
+      return [...tradeChanges, ...unexplained];
+    } catch (error) {
+      logger.warn('Activity feed unavailable, using snapshot diff', {
+        wallet: walletAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return detectChanges(diffBase, currentSnapshot);
+    }
+  }
+
+  /**
+   * Page through the activity feed (newest first) until the cursor is reached
+   */
+  private async fetchNewTrades(
+    walletAddress: string,
+    cursor: TradeCursor | null
+  ): Promise<{ trades: PolymarketTransaction[]; cursorFound: boolean; latest: TradeCursor | null }> {
+    const restClient = this.polymarketService.getRestClient();
+    const newTrades: PolymarketTransaction[] = [];
+    let latest: TradeCursor | null = cursor;
+
+    for (let page = 0; page < MAX_TRADE_PAGES; page++) {
+      const trades = await restClient.getTransactions({
+        user: walletAddress,
+        limit: TRADE_PAGE_SIZE,
+        offset: page * TRADE_PAGE_SIZE,
+      });
+
+      if (page === 0 && trades.length > 0) {
+        latest = createTradeCursor(trades[0]);
+      }
+
+      // First poll only establishes the cursor
+      if (!cursor) {
+        return { trades: [], cursorFound: true, latest };
+      }
+
+      const selected = selectNewTrades(trades, cursor);
+      // Pages are newest first, selected trades oldest first
+      newTrades.unshift(...selected.trades);
+
+      if (selected.cursorFound || trades.length < TRADE_PAGE_SIZE) {
+        return { trades: newTrades, cursorFound: true, latest };
+      }
+    }
+
+    return { trades: newTrades, cursorFound: false, latest };
+  }
+
+  /**
+   * Get last-seen trade cursor for a wallet
+   */
+  private async getTradeCursor(walletAddress: string): Promise<TradeCursor | null> {
+    const json = await this.redis.get(REDIS_KEYS.tradeCursor(walletAddress));
+    if (!json) return null;
+
+    try {
+      const parsed = JSON.parse(json);
+      return typeof parsed === 'string' ? JSON.parse(parsed) : parsed;
+    } catch (error) {
+      logger.error('Failed to deserialize trade cursor', { wallet: walletAddress, error });
+      return null;
+    }
+  }
+
+  /**
+   * Persist last-seen trade cursor for a wallet
+   */
+  private async saveTradeCursor(walletAddress: string, cursor: TradeCursor): Promise<void> {
+    await this.redis.set(
+      REDIS_KEYS.tradeCursor(walletAddress),
+      JSON.stringify(cursor),
+      TRADE_CURSOR_TTL
+    );
+  }
+
+  /**
+   * Fetch current positions as a snapshot map
+   */
+  private async fetchSnapshot(walletAddress: string): Promise<Map<string, PositionSnapshot>> {
+    const positions = await this.polymarketService.getWalletPositions(walletAddress, 500);
+    return createSnapshotFromPositions(
+      positions.map(p => ({
+        conditionId: p.marketId,
+        asset: p.marketId,
+        size: p.shares,
+        avgPrice: p.entryPrice || 0,
+        title: p.market,
+        eventSlug: p.eventSlug || p.slug || '',
+        outcome: p.position,
+        side: p.position,
+        resolvedOutcome: getResolvedOutcome({ ...p, outcome: p.position }),
+      }))
+    );
   }
 
   /**
-   * Fetch and store initial snapshot for a wallet
+   * Fetch and store initial snapshot and trade cursor for a wallet
    */
   private async fetchAndStoreSnapshot(walletAddress: string): Promise<void> {
     try {
-      const positions = await this.polymarketService.getWalletPositions(walletAddress, 500);
-      const snapshot = createSnapshotFromPositions(
-        positions.map(p => ({
-          conditionId: p.marketId,
-          asset: p.marketId,
-          size: p.shares,
-          avgPrice: p.entryPrice || 0,
-          title: p.market,
-          eventSlug: p.eventSlug || p.slug || '',
-          outcome: p.position,
-          side: p.position,
-        }))
-      );
+      const snapshot = await this.fetchSnapshot(walletAddress);
 
       await this.redis.set(
         REDIS_KEYS.snapshot(walletAddress),
         this.serializeSnapshot(snapshot),
         3600 * 24 // 24 hour TTL
       );
+      await this.persistSnapshotIfDue(walletAddress, snapshot, true);
+
+      // Only fills after this point should be notified (keep an existing cursor
+      // so a second subscriber doesn't swallow fills since the last poll)
+      if (!(await this.getTradeCursor(walletAddress))) {
+        const feed = await this.fetchNewTrades(walletAddress, null);
+        if (feed.latest) {
+          await this.saveTradeCursor(walletAddress, feed.latest);
+        }
+      }
 
       logger.info('Stored initial snapshot', {
         wallet: walletAddress,
@@ -426,72 +876,71 @@ export class WalletActivityTracker {
     }
   }
 
-  /**
-   * Check if a position change is significant enough to notify
-   * Significant = $500+ OR 2%+ of portfolio
-   */
-  private async isSignificantChange(
-    change: PositionChange,
-    walletAddress: string
-  ): Promise<boolean> {
-    const minValue = config.notifications.minOrderValue || 500;
-    const minPercent = config.notifications.minPortfolioPercent || 2;
-
-    // Fast path: Large orders always significant
-    if (change.totalValue >= minValue) {
-      return true;
-    }
-
-    // Check portfolio percentage
-    const portfolioValue = await this.getWalletPortfolioValue(walletAddress);
-    if (portfolioValue <= 0) return false;
-
-    const changePercent = (change.totalValue / portfolioValue) * 100;
-    return changePercent >= minPercent;
-  }
-
   /**
    * Send notifications to all subscribers of a wallet
    * Uses PostgreSQL for subscriber lookup
-   * Only notifies for significant changes ($500+ OR 2%+ portfolio)
+   * Each subscriber's thresholds decide which changes they see
+   * (global defaults < notification preferences < per-wallet override);
+   * bursts are grouped per chat, or held for the subscriber's digest
    */
   private async notifySubscribers(
     walletAddress: string,
     changes: PositionChange[]
   ): Promise<void> {
     try {
-      // Filter to significant changes only
-      const significantChanges: PositionChange[] = [];
-      for (const change of changes) {
-        if (await this.isSignificantChange(change, walletAddress)) {
-          significantChanges.push(change);
-        } else {
-          logger.debug('Skipping insignificant change', {
-            wallet: walletAddress,
-            value: change.totalValue,
-            type: change.type,
-          });
-        }
-      }
+      const subscribers = await this.repository.getWalletSubscribers(walletAddress);
+      if (subscribers.length === 0) return;
 
-      if (significantChanges.length === 0) {
-        logger.debug('No significant changes to notify', { wallet: walletAddress });
-        return;
-      }
+      const defaults = {
+        minOrderValue: config.notifications.minOrderValue || 500,
+        minPortfolioPercent: config.notifications.minPortfolioPercent || 2,
+      };
 
-      const subscribers = await this.repository.getWalletSubscribers(walletAddress);
+      // Portfolio value is only fetched if some change misses a subscriber's USD threshold
+      let portfolioValue: Promise<number> | null = null;
+      const getPortfolioValue = (): Promise<number> => {
+        if (!portfolioValue) portfolioValue = this.getWalletPortfolioValue(walletAddress);
+        return portfolioValue;
+      };
 
       for (const subscriber of subscribers) {
         try {
-          for (const change of significantChanges) {
-            const displayWallet = subscriber.alias || walletAddress;
-            const message = formatNotification(change, displayWallet);
-
-            await this.bot.telegram.sendMessage(subscriber.chatId, message, {
-              parse_mode: 'Markdown',
-              link_preview_options: { is_disabled: true },
+          const thresholds = resolveThresholds(defaults, subscriber.preferences, subscriber.thresholdOverride);
+          const significant: BatchedChange[] = [];
+
+          for (const change of changes) {
+            const needsPortfolio = change.totalValue < getValueThreshold(change, thresholds);
+            const isSignificant = isSignificantFor(
+              change,
+              thresholds,
+              needsPortfolio && thresholds.enabled ? await getPortfolioValue() : undefined
+            );
+
+            if (!isSignificant) {
+              logger.debug('Skipping insignificant change', {
+                wallet: walletAddress,
+                userId: subscriber.userId,
+                value: change.totalValue,
+                type: change.type,
+              });
+              continue;
+            }
+
+            significant.push({
+              walletAddress,
+              walletLabel: subscriber.alias || walletAddress,
+              change,
             });
           }
+
+          if (significant.length === 0) continue;
+
+          const digestMode = subscriber.preferences?.digest_mode || 'off';
+          if (digestMode !== 'off') {
+            await this.queueDigest(subscriber.userId, subscriber.chatId, digestMode, significant);
+          } else {
+            await this.batcher.add(subscriber.chatId, significant);
+          }
         } catch (error) {
           logger.error('Failed to notify subscriber', {
             odoo: subscriber.userId,
@@ -508,6 +957,182 @@ export class WalletActivityTracker {
     }
   }
 
+  /**
+   * Tell subscribers how a wallet's resolved positions paid out
+   * Resolutions go out immediately (not batched or held for digests); the position's
+   * cost or payout must reach the subscriber's position threshold. Notified users
+   * are recorded on the market resolution.
+   */
+  private async notifyResolutions(walletAddress: string, resolved: ResolvedPosition[]): Promise<void> {
+    try {
+      const subscribers = await this.repository.getWalletSubscribers(walletAddress);
+
+      const defaults = {
+        minOrderValue: config.notifications.minOrderValue || 500,
+        minPortfolioPercent: config.notifications.minPortfolioPercent || 2,
+      };
+
+      for (const position of resolved) {
+        await this.resolutionRepository.recordResolution({
+          conditionId: position.conditionId,
+          question: position.title,
+          winningOutcome: position.winningOutcome,
+          probability: 1,
+          resolvedAt: new Date(),
+        });
+
+        const notified: number[] = [];
+        for (const subscriber of subscribers) {
+          const thresholds = resolveThresholds(defaults, subscriber.preferences, subscriber.thresholdOverride);
+          if (!thresholds.enabled || subscriber.preferences?.resolutions === false) continue;
+          if (Math.max(position.costBasis, position.payout) < thresholds.minPositionValue) continue;
+
+          try {
+            await this.sendMessage(
+              subscriber.chatId,
+              formatResolutionNotification(position, subscriber.alias || walletAddress)
+            );
+            notified.push(subscriber.userId);
+          } catch (error) {
+            logger.error('Failed to send resolution alert', {
+              userId: subscriber.userId,
+              wallet: walletAddress,
+              conditionId: position.conditionId,
+              error: error instanceof Error ? error.message : 'Unknown error',
+            });
+          }
+        }
+
+        await this.resolutionRepository.addAffectedUsers(position.conditionId, notified);
+      }
+    } catch (error) {
+      logger.error('Failed to notify resolutions', {
+        wallet: walletAddress,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Send a Telegram message, waiting out one 429 before giving up
+   */
+  private async sendMessage(chatId: number, text: string): Promise<void> {
+    const options = { parse_mode: 'Markdown' as const, link_preview_options: { is_disabled: true } };
+
+    try {
+      await this.bot.telegram.sendMessage(chatId, text, options);
+    } catch (error: any) {
+      const retryAfter = error?.response?.parameters?.retry_after;
+      if (error?.response?.error_code !== 429 || !retryAfter) {
+        throw error;
+      }
+
+      logger.warn('Telegram rate limit hit, retrying notification', { chatId, retryAfter });
+      await new Promise(resolve => setTimeout(resolve, retryAfter * 1000));
+      await this.bot.telegram.sendMessage(chatId, text, options);
+    }
+  }
+
+  /**
+   * Hold changes for a subscriber's next digest
+   */
+  private async queueDigest(
+    userId: number,
+    chatId: number,
+    mode: Exclude<DigestMode, 'off'>,
+    items: BatchedChange[]
+  ): Promise<void> {
+    const key = REDIS_KEYS.digest(userId);
+    await this.redis.rpush(key, items.map(item => JSON.stringify(item)));
+    await this.redis.expire(key, DIGEST_TTL);
+
+    // Keep the period the first queued change fell in, so the digest goes out when it ends
+    const existing = await this.redis.hget(REDIS_KEYS.digestUsers, String(userId));
+    const period = existing
+      ? this.parseJson<{ period: string }>(existing)?.period
+      : undefined;
+
+    await this.redis.hset(REDIS_KEYS.digestUsers, String(userId), {
+      chatId,
+      mode,
+      period: period || getDigestPeriod(mode, Date.now(), config.notifications.digestHourUtc),
+    });
+  }
+
+  /**
+   * Check for digests every minute
+   */
+  private startDigests(): void {
+    if (this.digestInterval) return;
+
+    this.digestInterval = setInterval(() => {
+      this.sendDueDigests().catch(error =>
+        logger.error('Failed to send digests', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      );
+    }, DIGEST_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Send every digest whose hour/day has ended
+   */
+  private async sendDueDigests(): Promise<void> {
+    const now = Date.now();
+    const pending = await this.redis.hgetall(REDIS_KEYS.digestUsers);
+
+    for (const [userIdKey, json] of Object.entries(pending || {})) {
+      const entry = this.parseJson<{ chatId: number; mode: Exclude<DigestMode, 'off'>; period: string }>(json);
+      if (!entry) {
+        await this.redis.hdel(REDIS_KEYS.digestUsers, userIdKey);
+        continue;
+      }
+
+      if (getDigestPeriod(entry.mode, now, config.notifications.digestHourUtc) === entry.period) {
+        continue;
+      }
+
+      const userId = parseInt(userIdKey, 10);
+      await this.redis.hdel(REDIS_KEYS.digestUsers, userIdKey);
+
+      // Pop one at a time so changes queued meanwhile land in the next digest
+      const items: BatchedChange[] = [];
+      for (let i = 0; i < MAX_DIGEST_ITEMS; i++) {
+        const raw = await this.redis.lpop(REDIS_KEYS.digest(userId));
+        if (!raw) break;
+        const item = this.parseJson<BatchedChange>(raw);
+        if (item) items.push(item);
+      }
+
+      if (items.length === 0) continue;
+
+      const snapshots = new Map<string, Map<string, PositionSnapshot>>();
+      for (const wallet of new Set(items.map(item => item.walletAddress))) {
+        snapshots.set(wallet, await this.getCachedSnapshot(wallet));
+      }
+
+      try {
+        await this.sendMessage(entry.chatId, formatDigest(items, entry.mode, snapshots));
+        logger.info('Sent wallet digest', { userId, mode: entry.mode, changes: items.length });
+      } catch (error) {
+        logger.error('Failed to send digest', {
+          userId,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+  }
+
+  private parseJson<T>(json: string): T | null {
+    try {
+      const parsed = JSON.parse(json);
+      // Values written with SimpleRedisClient.set/hset are JSON-encoded once more
+      return (typeof parsed === 'string' ? JSON.parse(parsed) : parsed) as T;
+    } catch (error) {
+      return null;
+    }
+  }
+
   /**
    * Serialize snapshot to JSON string
    */
@@ -547,12 +1172,22 @@ export class WalletActivityTracker {
     isPolling: boolean;
     trackedWallets: number;
     pollIntervalMs: number;
+    budget: PollBudgetStatus;
+    wallets: WalletPollStatus[];
+    stream: { connected: boolean; tradesReceived: number; missedByStream: number };
   } {
+    const now = Date.now();
     return {
       enabled: this.enabled,
       isPolling: this.isPolling,
       trackedWallets: this.trackedWallets.length,
       pollIntervalMs: this.pollIntervalMs,
+      budget: this.scheduler.getBudgetStatus(now),
+      wallets: this.scheduler.getWalletStatus(now),
+      stream: {
+        connected: this.polymarketService.isRealtimeConnected(),
+        ...this.streamStats,
+      },
     };
   }
 }
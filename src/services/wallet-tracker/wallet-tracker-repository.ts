@@ -6,6 +6,8 @@
 
 import { query, transaction } from '@/services/database/connection-pool';
 import { logger } from '@/utils/logger';
+import { PositionChange, PositionSnapshot } from './position-diff-detector';
+import { NotificationPreferences, WalletThresholdOverride } from './significance';
 
 export interface TrackedWalletRecord {
   id: string;
@@ -23,6 +25,49 @@ export interface WalletSubscriber {
   userId: number;
   chatId: number;
   alias?: string;
+  preferences?: NotificationPreferences;
+  thresholdOverride?: WalletThresholdOverride;
+}
+
+export interface PositionHistoryEntry {
+  walletAddress: string;
+  conditionId: string;
+  outcome: string;
+  asset?: string;
+  title: string;
+  eventSlug: string;
+  type: PositionChange['type'];
+  deltaShares: number;
+  price: number;
+  totalValue: number;
+  tradeId?: string;
+  source: 'trade' | 'snapshot';
+  occurredAt: Date;
+}
+
+export interface PositionHistoryQuery {
+  walletAddress?: string;
+  conditionId?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+interface PositionChangeRow {
+  wallet_address: string;
+  condition_id: string;
+  outcome: string;
+  asset: string | null;
+  market_title: string | null;
+  event_slug: string | null;
+  change_type: PositionChange['type'];
+  delta_shares: string;
+  price: string;
+  total_value: string;
+  trade_id: string | null;
+  source: 'trade' | 'snapshot';
+  occurred_at: Date;
 }
 
 /**
@@ -71,7 +116,8 @@ export class WalletTrackerRepository {
     telegramId: number,
     chatId: number,
     walletAddress: string,
-    alias?: string
+    alias?: string,
+    thresholdOverride?: WalletThresholdOverride
   ): Promise<{ success: boolean; message: string }> {
     const normalizedWallet = walletAddress.toLowerCase();
 
@@ -106,11 +152,18 @@ export class WalletTrackerRepository {
       const metadata = JSON.stringify({ chatId, alias });
 
       await query(
-        `INSERT INTO tracked_wallets (user_id, wallet_address, alias, is_active, created_at, updated_at)
-         VALUES ($1, $2, $3, true, NOW(), NOW())
+        `INSERT INTO tracked_wallets
+           (user_id, wallet_address, alias, min_order_value, min_portfolio_percent, is_active, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, true, NOW(), NOW())
          ON CONFLICT (user_id, wallet_address)
-         DO UPDATE SET is_active = true, alias = $3, updated_at = NOW()`,
-        [userId, normalizedWallet, metadata]
+         DO UPDATE SET is_active = true, alias = $3, min_order_value = $4, min_portfolio_percent = $5, updated_at = NOW()`,
+        [
+          userId,
+          normalizedWallet,
+          metadata,
+          thresholdOverride?.minOrderValue ?? null,
+          thresholdOverride?.minPortfolioPercent ?? null,
+        ]
       );
 
       logger.info('Added tracked wallet', { telegramId, wallet: normalizedWallet, alias });
@@ -169,10 +222,17 @@ export class WalletTrackerRepository {
   /**
    * Get all wallets tracked by a user
    */
-  async getUserTrackedWallets(telegramId: number): Promise<Array<{ address: string; alias?: string }>> {
+  async getUserTrackedWallets(
+    telegramId: number
+  ): Promise<Array<{ address: string; alias?: string; thresholdOverride?: WalletThresholdOverride }>> {
     try {
-      const results = await query<{ wallet_address: string; alias: string | null }>(
-        `SELECT tw.wallet_address, tw.alias
+      const results = await query<{
+        wallet_address: string;
+        alias: string | null;
+        min_order_value: string | null;
+        min_portfolio_percent: string | null;
+      }>(
+        `SELECT tw.wallet_address, tw.alias, tw.min_order_value, tw.min_portfolio_percent
          FROM tracked_wallets tw
          JOIN users u ON tw.user_id = u.id
          WHERE u.telegram_id = $1 AND tw.is_active = true
@@ -190,7 +250,11 @@ export class WalletTrackerRepository {
         } catch {
           alias = r.alias || undefined;
         }
-        return { address: r.wallet_address, alias };
+        return {
+          address: r.wallet_address,
+          alias,
+          thresholdOverride: this.mapThresholdOverride(r.min_order_value, r.min_portfolio_percent),
+        };
       });
     } catch (error) {
       logger.error('Failed to get user tracked wallets', {
@@ -221,6 +285,52 @@ export class WalletTrackerRepository {
     }
   }
 
+  /**
+   * Count active subscribers per tracked wallet
+   */
+  async getWalletSubscriberCounts(): Promise<Map<string, number>> {
+    try {
+      const results = await query<{ wallet_address: string; subscribers: string }>(
+        `SELECT wallet_address, COUNT(*) AS subscribers
+         FROM tracked_wallets
+         WHERE is_active = true
+         GROUP BY wallet_address`
+      );
+
+      return new Map(results.map(r => [r.wallet_address, parseInt(r.subscribers, 10)]));
+    } catch (error) {
+      logger.error('Failed to get wallet subscriber counts', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return new Map();
+    }
+  }
+
+  /**
+   * Recorded change count and latest change time per wallet since a point in time
+   */
+  async getRecentActivity(since: Date): Promise<Map<string, { changes: number; lastChangeAt: Date }>> {
+    try {
+      const results = await query<{ wallet_address: string; changes: string; last_change_at: Date }>(
+        `SELECT wallet_address, COUNT(*) AS changes, MAX(occurred_at) AS last_change_at
+         FROM wallet_position_changes
+         WHERE occurred_at >= $1
+         GROUP BY wallet_address`,
+        [since]
+      );
+
+      return new Map(results.map(r => [
+        r.wallet_address,
+        { changes: parseInt(r.changes, 10), lastChangeAt: new Date(r.last_change_at) },
+      ]));
+    } catch (error) {
+      logger.error('Failed to get recent wallet activity', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return new Map();
+    }
+  }
+
   /**
    * Get all subscribers for a wallet
    */
@@ -228,8 +338,14 @@ export class WalletTrackerRepository {
     const normalizedWallet = walletAddress.toLowerCase();
 
     try {
-      const results = await query<{ telegram_id: number; alias: string | null }>(
-        `SELECT u.telegram_id, tw.alias
+      const results = await query<{
+        telegram_id: number;
+        alias: string | null;
+        notification_preferences: NotificationPreferences | null;
+        min_order_value: string | null;
+        min_portfolio_percent: string | null;
+      }>(
+        `SELECT u.telegram_id, tw.alias, u.notification_preferences, tw.min_order_value, tw.min_portfolio_percent
          FROM tracked_wallets tw
          JOIN users u ON tw.user_id = u.id
          WHERE tw.wallet_address = $1 AND tw.is_active = true`,
@@ -254,6 +370,8 @@ export class WalletTrackerRepository {
           userId: r.telegram_id,
           chatId,
           alias,
+          preferences: r.notification_preferences || undefined,
+          thresholdOverride: this.mapThresholdOverride(r.min_order_value, r.min_portfolio_percent),
         };
       });
     } catch (error) {
@@ -291,6 +409,92 @@ export class WalletTrackerRepository {
     }
   }
 
+  /**
+   * Set (or clear with null) per-wallet significance overrides for a user
+   */
+  async setWalletThresholds(
+    telegramId: number,
+    walletAddress: string,
+    thresholdOverride: WalletThresholdOverride | null
+  ): Promise<boolean> {
+    const normalizedWallet = walletAddress.toLowerCase();
+
+    try {
+      const results = await query<{ id: string }>(
+        `UPDATE tracked_wallets tw
+         SET min_order_value = $3, min_portfolio_percent = $4, updated_at = NOW()
+         FROM users u
+         WHERE tw.user_id = u.id
+           AND u.telegram_id = $1
+           AND tw.wallet_address = $2
+           AND tw.is_active = true
+         RETURNING tw.id`,
+        [
+          telegramId,
+          normalizedWallet,
+          thresholdOverride?.minOrderValue ?? null,
+          thresholdOverride?.minPortfolioPercent ?? null,
+        ]
+      );
+
+      return results.length > 0;
+    } catch (error) {
+      logger.error('Failed to set wallet thresholds', {
+        telegramId,
+        wallet: normalizedWallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get a user's notification preferences
+   */
+  async getNotificationPreferences(telegramId: number): Promise<NotificationPreferences | null> {
+    try {
+      const results = await query<{ notification_preferences: NotificationPreferences | null }>(
+        'SELECT notification_preferences FROM users WHERE telegram_id = $1',
+        [telegramId]
+      );
+
+      return results.length > 0 ? results[0].notification_preferences || {} : null;
+    } catch (error) {
+      logger.error('Failed to get notification preferences', {
+        telegramId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Merge changes into a user's notification preferences
+   */
+  async updateNotificationPreferences(
+    telegramId: number,
+    preferences: NotificationPreferences
+  ): Promise<boolean> {
+    try {
+      const results = await query<{ id: string }>(
+        `UPDATE users
+         SET notification_preferences = COALESCE(notification_preferences, '{}'::jsonb) || $2::jsonb,
+             updated_at = NOW()
+         WHERE telegram_id = $1
+         RETURNING id`,
+        [telegramId, JSON.stringify(preferences)]
+      );
+
+      return results.length > 0;
+    } catch (error) {
+      logger.error('Failed to update notification preferences', {
+        telegramId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
   /**
    * Get wallet alias for a user
    */
@@ -383,6 +587,334 @@ export class WalletTrackerRepository {
     }
   }
 
+  /**
+   * Record detected position changes (fills are deduplicated by trade id)
+   */
+  async recordPositionChanges(walletAddress: string, changes: PositionChange[]): Promise<number> {
+    const normalizedWallet = walletAddress.toLowerCase();
+    if (changes.length === 0) return 0;
+
+    try {
+      return await transaction(async (client) => {
+        let inserted = 0;
+
+        for (const change of changes) {
+          const result = await client.query(
+            `INSERT INTO wallet_position_changes
+               (wallet_address, condition_id, outcome, asset, market_title, event_slug,
+                change_type, delta_shares, price, total_value, trade_id, source, occurred_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+             ON CONFLICT (wallet_address, trade_id) WHERE trade_id IS NOT NULL DO NOTHING`,
+            [
+              normalizedWallet,
+              change.conditionId,
+              change.outcome,
+              change.asset || null,
+              change.title,
+              change.eventSlug || null,
+              change.type,
+              change.deltaShares,
+              change.price,
+              change.totalValue,
+              change.tradeId || null,
+              change.source || 'snapshot',
+              new Date(change.timestamp || Date.now()),
+            ]
+          );
+          inserted += result.rowCount || 0;
+        }
+
+        return inserted;
+      });
+    } catch (error) {
+      logger.error('Failed to record position changes', {
+        wallet: normalizedWallet,
+        changeCount: changes.length,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return 0;
+    }
+  }
+
+  /**
+   * Persist a full position snapshot for a wallet
+   */
+  async savePositionSnapshot(
+    walletAddress: string,
+    snapshot: Map<string, PositionSnapshot>
+  ): Promise<boolean> {
+    const normalizedWallet = walletAddress.toLowerCase();
+    if (snapshot.size === 0) return true;
+
+    try {
+      const snapshotAt = new Date();
+
+      await transaction(async (client) => {
+        for (const position of snapshot.values()) {
+          await client.query(
+            `INSERT INTO wallet_position_snapshots
+               (wallet_address, condition_id, outcome, asset, market_title, event_slug, size, avg_price, snapshot_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+            [
+              normalizedWallet,
+              position.conditionId,
+              position.outcome,
+              position.asset || null,
+              position.title,
+              position.eventSlug || null,
+              position.size,
+              position.avgPrice,
+              snapshotAt,
+            ]
+          );
+        }
+      });
+
+      return true;
+    } catch (error) {
+      logger.error('Failed to save position snapshot', {
+        wallet: normalizedWallet,
+        positionCount: snapshot.size,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get recorded position changes for a wallet, newest first
+   */
+  async getPositionHistory(
+    walletAddress: string,
+    options: PositionHistoryQuery = {}
+  ): Promise<PositionHistoryEntry[]> {
+    const normalizedWallet = walletAddress.toLowerCase();
+    const { clause, params } = this.buildHistoryFilter(
+      ['wallet_address = $1'],
+      [normalizedWallet],
+      { ...options, walletAddress: undefined }
+    );
+
+    try {
+      const rows = await query<PositionChangeRow>(
+        `SELECT * FROM wallet_position_changes
+         WHERE ${clause}
+         ORDER BY occurred_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, options.limit || 20, options.offset || 0]
+      );
+
+      return rows.map(r => this.mapHistoryRow(r));
+    } catch (error) {
+      logger.error('Failed to get position history', {
+        wallet: normalizedWallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get recorded position changes across all wallets a user tracks, newest first
+   */
+  async getUserPositionHistory(
+    telegramId: number,
+    options: PositionHistoryQuery = {}
+  ): Promise<{ entries: PositionHistoryEntry[]; total: number }> {
+    const { clause, params } = this.buildHistoryFilter(
+      [`wallet_address IN (
+          SELECT tw.wallet_address FROM tracked_wallets tw
+          JOIN users u ON tw.user_id = u.id
+          WHERE u.telegram_id = $1 AND tw.is_active = true)`],
+      [telegramId],
+      options
+    );
+
+    try {
+      const countResult = await query<{ count: string }>(
+        `SELECT COUNT(*) as count FROM wallet_position_changes WHERE ${clause}`,
+        params
+      );
+
+      const rows = await query<PositionChangeRow>(
+        `SELECT * FROM wallet_position_changes
+         WHERE ${clause}
+         ORDER BY occurred_at DESC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, options.limit || 20, options.offset || 0]
+      );
+
+      return {
+        entries: rows.map(r => this.mapHistoryRow(r)),
+        total: parseInt(countResult[0].count),
+      };
+    } catch (error) {
+      logger.error('Failed to get user position history', {
+        telegramId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { entries: [], total: 0 };
+    }
+  }
+
+  /**
+   * Get the most recent persisted snapshot for a wallet
+   */
+  async getLatestPositionSnapshot(
+    walletAddress: string
+  ): Promise<{ snapshotAt: Date; positions: PositionSnapshot[] } | null> {
+    const normalizedWallet = walletAddress.toLowerCase();
+
+    try {
+      const rows = await query<{
+        condition_id: string;
+        outcome: string;
+        asset: string | null;
+        market_title: string | null;
+        event_slug: string | null;
+        size: string;
+        avg_price: string;
+        snapshot_at: Date;
+      }>(
+        `SELECT * FROM wallet_position_snapshots
+         WHERE wallet_address = $1
+           AND snapshot_at = (
+             SELECT MAX(snapshot_at) FROM wallet_position_snapshots WHERE wallet_address = $1
+           )`,
+        [normalizedWallet]
+      );
+
+      if (rows.length === 0) return null;
+
+      const snapshotAt = new Date(rows[0].snapshot_at);
+      return {
+        snapshotAt,
+        positions: rows.map(r => ({
+          conditionId: r.condition_id,
+          asset: r.asset || '',
+          size: parseFloat(r.size),
+          avgPrice: parseFloat(r.avg_price),
+          title: r.market_title || 'Unknown Market',
+          eventSlug: r.event_slug || '',
+          outcome: r.outcome,
+          timestamp: snapshotAt.getTime(),
+        })),
+      };
+    } catch (error) {
+      logger.error('Failed to get latest position snapshot', {
+        wallet: normalizedWallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Summarize recorded activity for a wallet since a point in time
+   */
+  async getPositionHistoryStats(
+    walletAddress: string,
+    since: Date
+  ): Promise<{ changes: number; buyVolume: number; sellVolume: number; markets: number }> {
+    const normalizedWallet = walletAddress.toLowerCase();
+
+    try {
+      const rows = await query<{
+        changes: string;
+        buy_volume: string | null;
+        sell_volume: string | null;
+        markets: string;
+      }>(
+        `SELECT COUNT(*) as changes,
+                SUM(CASE WHEN change_type IN ('BUY', 'NEW') THEN total_value ELSE 0 END) as buy_volume,
+                SUM(CASE WHEN change_type IN ('SELL', 'CLOSED') THEN total_value ELSE 0 END) as sell_volume,
+                COUNT(DISTINCT condition_id) as markets
+         FROM wallet_position_changes
+         WHERE wallet_address = $1 AND occurred_at >= $2`,
+        [normalizedWallet, since]
+      );
+
+      return {
+        changes: parseInt(rows[0].changes),
+        buyVolume: parseFloat(rows[0].buy_volume || '0'),
+        sellVolume: parseFloat(rows[0].sell_volume || '0'),
+        markets: parseInt(rows[0].markets),
+      };
+    } catch (error) {
+      logger.error('Failed to get position history stats', {
+        wallet: normalizedWallet,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { changes: 0, buyVolume: 0, sellVolume: 0, markets: 0 };
+    }
+  }
+
+  /**
+   * Append optional condition/time filters to a history WHERE clause
+   */
+  private buildHistoryFilter(
+    conditions: string[],
+    params: any[],
+    options: PositionHistoryQuery
+  ): { clause: string; params: any[] } {
+    const where = [...conditions];
+    const values = [...params];
+
+    if (options.walletAddress) {
+      values.push(options.walletAddress.toLowerCase());
+      where.push(`wallet_address = $${values.length}`);
+    }
+    if (options.conditionId) {
+      values.push(options.conditionId);
+      where.push(`condition_id = $${values.length}`);
+    }
+    if (options.since) {
+      values.push(options.since);
+      where.push(`occurred_at >= $${values.length}`);
+    }
+    if (options.until) {
+      values.push(options.until);
+      where.push(`occurred_at < $${values.length}`);
+    }
+
+    return { clause: where.join(' AND '), params: values };
+  }
+
+  /**
+   * Map nullable override columns to a threshold override
+   */
+  private mapThresholdOverride(
+    minOrderValue: string | null,
+    minPortfolioPercent: string | null
+  ): WalletThresholdOverride | undefined {
+    if (minOrderValue === null && minPortfolioPercent === null) return undefined;
+    return {
+      minOrderValue: minOrderValue !== null ? parseFloat(minOrderValue) : undefined,
+      minPortfolioPercent: minPortfolioPercent !== null ? parseFloat(minPortfolioPercent) : undefined,
+    };
+  }
+
+  /**
+   * Map a wallet_position_changes row to a history entry
+   */
+  private mapHistoryRow(row: PositionChangeRow): PositionHistoryEntry {
+    return {
+      walletAddress: row.wallet_address,
+      conditionId: row.condition_id,
+      outcome: row.outcome,
+      asset: row.asset || undefined,
+      title: row.market_title || 'Unknown Market',
+      eventSlug: row.event_slug || '',
+      type: row.change_type,
+      deltaShares: parseFloat(row.delta_shares),
+      price: parseFloat(row.price),
+      totalValue: parseFloat(row.total_value),
+      tradeId: row.trade_id || undefined,
+      source: row.source,
+      occurredAt: new Date(row.occurred_at),
+    };
+  }
+
   /**
    * Get tracking statistics
    */
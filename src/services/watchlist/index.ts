@@ -0,0 +1,32 @@
+/**
+ * Watchlist Module Exports
+ * Market watchlists with a daily summary and big-move alerts
+ */
+
+// Summary
+export {
+  DEFAULT_PRICE_CHANGE_THRESHOLD,
+  calculatePercentChange,
+  calculatePriceChange,
+  formatBigMoveAlert,
+  formatWatchlistSummary,
+  isBigMove,
+  type WatchlistHolder,
+  type WatchlistMarketSummary,
+} from './watchlist-summary';
+
+// Repository
+export {
+  WatchlistRepository,
+  getWatchlistRepository,
+  type WatchlistEntry,
+  type WatchlistSubscriberEntry,
+} from './watchlist-repository';
+
+// Service
+export {
+  WatchlistService,
+  createWatchlistService,
+  getWatchlistService,
+  type WatchlistServiceConfig,
+} from './watchlist-service';
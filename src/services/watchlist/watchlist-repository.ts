@@ -0,0 +1,321 @@
+/**
+ * Watchlist Repository
+ * PostgreSQL persistence for users' market watchlists, plus which tracked and smart
+ * wallets hold the watched markets (from their latest position snapshots)
+ */
+
+import { query } from '@/services/database/connection-pool';
+import { NotificationPreferences } from '@/services/wallet-tracker';
+import { logger } from '@/utils/logger';
+import { WatchlistHolder } from './watchlist-summary';
+import { formatShortAddress } from '@/utils/format';
+
+export interface WatchlistEntry {
+  id: string;
+  telegramId: number;
+  conditionId: string;
+  marketTitle: string;
+  referencePrice?: number;
+  createdAt: Date;
+}
+
+export interface WatchlistSubscriberEntry extends WatchlistEntry {
+  preferences: NotificationPreferences;
+}
+
+interface WatchlistRow {
+  id: string;
+  telegram_id: string;
+  condition_id: string;
+  market_title: string | null;
+  reference_price: string | null;
+  created_at: Date;
+}
+
+const WATCHLIST_SELECT = `
+  SELECT mw.id, u.telegram_id, mw.condition_id, mw.market_title, mw.reference_price, mw.created_at
+  FROM market_watchlist mw
+  JOIN users u ON mw.user_id = u.id`;
+
+/**
+ * WatchlistRepository
+ * Handles PostgreSQL persistence for market watchlists
+ */
+export class WatchlistRepository {
+  /**
+   * Add a market to a user's watchlist
+   */
+  async addMarket(
+    telegramId: number,
+    market: { conditionId: string; marketTitle: string; referencePrice?: number },
+    maxMarkets: number
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const users = await query<{ id: string }>(
+        'SELECT id FROM users WHERE telegram_id = $1',
+        [telegramId]
+      );
+      if (users.length === 0) {
+        return { success: false, message: 'Start the bot with /start first.' };
+      }
+      const userId = users[0].id;
+
+      const existing = await query<{ id: string }>(
+        'SELECT id FROM market_watchlist WHERE user_id = $1 AND condition_id = $2',
+        [userId, market.conditionId]
+      );
+      if (existing.length > 0) {
+        return { success: false, message: 'This market is already on your watchlist.' };
+      }
+
+      const countResult = await query<{ count: string }>(
+        'SELECT COUNT(*) as count FROM market_watchlist WHERE user_id = $1',
+        [userId]
+      );
+      if (parseInt(countResult[0].count) >= maxMarkets) {
+        return { success: false, message: `Maximum ${maxMarkets} markets per watchlist. Remove one first.` };
+      }
+
+      await query(
+        `INSERT INTO market_watchlist (user_id, condition_id, market_title, reference_price)
+         VALUES ($1, $2, $3, $4)`,
+        [userId, market.conditionId, market.marketTitle, market.referencePrice ?? null]
+      );
+
+      logger.info('Added market to watchlist', { telegramId, conditionId: market.conditionId });
+      return { success: true, message: 'Added to your watchlist.' };
+    } catch (error) {
+      logger.error('Failed to add market to watchlist', {
+        telegramId,
+        conditionId: market.conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { success: false, message: 'Failed to update your watchlist. Please try again.' };
+    }
+  }
+
+  /**
+   * Remove a market from a user's watchlist
+   */
+  async removeMarket(telegramId: number, conditionId: string): Promise<boolean> {
+    try {
+      const deleted = await query<{ id: string }>(
+        `DELETE FROM market_watchlist mw
+         USING users u
+         WHERE mw.user_id = u.id AND u.telegram_id = $1 AND mw.condition_id = $2
+         RETURNING mw.id`,
+        [telegramId, conditionId]
+      );
+
+      return deleted.length > 0;
+    } catch (error) {
+      logger.error('Failed to remove market from watchlist', {
+        telegramId,
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Get a user's watchlist, oldest first (the order /watchlist numbers it in)
+   */
+  async getUserWatchlist(telegramId: number): Promise<WatchlistEntry[]> {
+    try {
+      const results = await query<WatchlistRow>(
+        `${WATCHLIST_SELECT}
+         WHERE u.telegram_id = $1
+         ORDER BY mw.created_at ASC`,
+        [telegramId]
+      );
+
+      return results.map(r => this.mapEntry(r));
+    } catch (error) {
+      logger.error('Failed to get watchlist', {
+        telegramId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get every watchlist entry of active users, with their notification preferences
+   */
+  async getAllEntries(): Promise<WatchlistSubscriberEntry[]> {
+    try {
+      const results = await query<WatchlistRow & { notification_preferences: NotificationPreferences | null }>(
+        `SELECT mw.id, u.telegram_id, mw.condition_id, mw.market_title, mw.reference_price, mw.created_at,
+                u.notification_preferences
+         FROM market_watchlist mw
+         JOIN users u ON mw.user_id = u.id
+         WHERE u.is_active = true
+         ORDER BY mw.created_at ASC`
+      );
+
+      return results.map(r => ({ ...this.mapEntry(r), preferences: r.notification_preferences || {} }));
+    } catch (error) {
+      logger.error('Failed to get watchlist entries', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Move the reference price big moves are measured from
+   */
+  async setReferencePrice(entryId: string, price: number): Promise<boolean> {
+    try {
+      const updated = await query<{ id: string }>(
+        `UPDATE market_watchlist SET reference_price = $2
+         WHERE id = $1
+         RETURNING id`,
+        [entryId, price]
+      );
+
+      return updated.length > 0;
+    } catch (error) {
+      logger.error('Failed to update watchlist reference price', {
+        entryId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Wallets the user tracks that hold the given markets, by conditionId
+   * Uses each wallet's latest position snapshot
+   */
+  async getTrackedHolders(telegramId: number, conditionIds: string[]): Promise<Map<string, WatchlistHolder[]>> {
+    const holders = new Map<string, WatchlistHolder[]>();
+    if (conditionIds.length === 0) return holders;
+
+    try {
+      const results = await query<{
+        wallet_address: string;
+        alias: string | null;
+        condition_id: string;
+        outcome: string;
+        size: string;
+        avg_price: string;
+      }>(
+        `WITH tracked AS (
+           SELECT tw.wallet_address, tw.alias
+           FROM tracked_wallets tw
+           JOIN users u ON tw.user_id = u.id
+           WHERE u.telegram_id = $1 AND tw.is_active = true
+         ),
+         latest AS (
+           SELECT s.wallet_address, MAX(s.snapshot_at) AS snapshot_at
+           FROM wallet_position_snapshots s
+           JOIN tracked t ON LOWER(t.wallet_address) = s.wallet_address
+           GROUP BY s.wallet_address
+         )
+         SELECT s.wallet_address, t.alias, s.condition_id, s.outcome, s.size, s.avg_price
+         FROM wallet_position_snapshots s
+         JOIN latest l ON l.wallet_address = s.wallet_address AND l.snapshot_at = s.snapshot_at
+         JOIN tracked t ON LOWER(t.wallet_address) = s.wallet_address
+         WHERE s.condition_id = ANY($2) AND s.size > 0`,
+        [telegramId, conditionIds]
+      );
+
+      results.forEach(r => {
+        addHolder(holders, r.condition_id, {
+          address: r.wallet_address,
+          label: r.alias || formatShortAddress(r.wallet_address),
+          source: 'tracked',
+          outcome: r.outcome,
+          value: parseFloat(r.size) * parseFloat(r.avg_price),   // Cost basis
+        });
+      });
+    } catch (error) {
+      logger.error('Failed to get tracked wallet holders', {
+        telegramId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return holders;
+  }
+
+  /**
+   * Active smart wallets that hold the given markets, by conditionId
+   * Uses each wallet's latest daily position snapshot
+   */
+  async getSmartWalletHolders(conditionIds: string[]): Promise<Map<string, WatchlistHolder[]>> {
+    const holders = new Map<string, WatchlistHolder[]>();
+    if (conditionIds.length === 0) return holders;
+
+    try {
+      const results = await query<{
+        address: string;
+        alias: string;
+        condition_id: string;
+        yes_value: string;
+        no_value: string;
+      }>(
+        `WITH latest AS (
+           SELECT wallet_id, MAX(snapshot_date) AS snapshot_date
+           FROM smart_wallet_positions
+           GROUP BY wallet_id
+         )
+         SELECT sw.address, sw.alias, p.condition_id, p.yes_value, p.no_value
+         FROM smart_wallet_positions p
+         JOIN latest l ON l.wallet_id = p.wallet_id AND l.snapshot_date = p.snapshot_date
+         JOIN smart_wallets sw ON sw.id = p.wallet_id
+         WHERE sw.is_active = true AND p.condition_id = ANY($1)
+           AND (p.yes_shares > 0 OR p.no_shares > 0)
+         ORDER BY GREATEST(p.yes_value, p.no_value) DESC`,
+        [conditionIds]
+      );
+
+      results.forEach(r => {
+        const yesValue = parseFloat(r.yes_value) || 0;
+        const noValue = parseFloat(r.no_value) || 0;
+        addHolder(holders, r.condition_id, {
+          address: r.address,
+          label: r.alias,
+          source: 'smart',
+          outcome: yesValue >= noValue ? 'Yes' : 'No',
+          value: Math.max(yesValue, noValue),
+        });
+      });
+    } catch (error) {
+      logger.error('Failed to get smart wallet holders', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return holders;
+  }
+
+  private mapEntry(r: WatchlistRow): WatchlistEntry {
+    return {
+      id: r.id,
+      telegramId: Number(r.telegram_id),
+      conditionId: r.condition_id,
+      marketTitle: r.market_title || r.condition_id,
+      referencePrice: r.reference_price !== null ? parseFloat(r.reference_price) : undefined,
+      createdAt: r.created_at,
+    };
+  }
+}
+
+function addHolder(holders: Map<string, WatchlistHolder[]>, conditionId: string, holder: WatchlistHolder): void {
+  const list = holders.get(conditionId) || [];
+  list.push(holder);
+  holders.set(conditionId, list);
+}
+
+// Singleton instance
+let repositoryInstance: WatchlistRepository | null = null;
+
+export function getWatchlistRepository(): WatchlistRepository {
+  if (!repositoryInstance) {
+    repositoryInstance = new WatchlistRepository();
+  }
+  return repositoryInstance;
+}
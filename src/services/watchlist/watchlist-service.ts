@@ -0,0 +1,328 @@
+/**
+ * Watchlist Service
+ * Sends each user a daily summary of their watched markets and alerts them when a
+ * watched market's price moves by their price_change_threshold
+ */
+
+import { Telegraf, Context } from 'telegraf';
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+import { getDigestPeriod } from '@/services/wallet-tracker';
+import { logger } from '@/utils/logger';
+import {
+  DEFAULT_PRICE_CHANGE_THRESHOLD,
+  WatchlistMarketSummary,
+  calculatePriceChange,
+  formatBigMoveAlert,
+  formatWatchlistSummary,
+  isBigMove,
+} from './watchlist-summary';
+import {
+  WatchlistEntry,
+  WatchlistRepository,
+  WatchlistSubscriberEntry,
+  getWatchlistRepository,
+} from './watchlist-repository';
+
+export interface WatchlistServiceConfig {
+  moveCheckIntervalMinutes: number;  // How often watched prices are checked for big moves (default: 5)
+  summaryHourUtc: number;            // Daily summary hour (default: 8)
+  maxMarketsPerUser: number;         // default: 25
+}
+
+const DEFAULT_CONFIG: WatchlistServiceConfig = {
+  moveCheckIntervalMinutes: 5,
+  summaryHourUtc: 8,
+  maxMarketsPerUser: 25,
+};
+
+// The summary is due once the daily period rolls over; checked this often
+const SUMMARY_CHECK_INTERVAL_MS = 60 * 1000;
+
+/**
+ * WatchlistService
+ */
+export class WatchlistService {
+  private bot: Telegraf<Context>;
+  private restClient: PolymarketRestClient;
+  private repository: WatchlistRepository;
+  private config: WatchlistServiceConfig;
+  private moveInterval: ReturnType<typeof setInterval> | null = null;
+  private summaryInterval: ReturnType<typeof setInterval> | null = null;
+  private summaryPeriod = '';
+  private isCheckingMoves = false;
+  private isSendingSummaries = false;
+
+  constructor(
+    bot: Telegraf<Context>,
+    restClient: PolymarketRestClient,
+    config?: Partial<WatchlistServiceConfig>
+  ) {
+    this.bot = bot;
+    this.restClient = restClient;
+    this.repository = getWatchlistRepository();
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start the big-move checks and the daily summary schedule
+   */
+  start(): void {
+    if (this.moveInterval) return;
+
+    // The current period's summary is skipped; the first one goes out when it ends
+    this.summaryPeriod = getDigestPeriod('daily', Date.now(), this.config.summaryHourUtc);
+
+    this.moveInterval = setInterval(() => {
+      this.checkMoves().catch(error => logger.error('Watchlist move check failed', { error }));
+    }, this.config.moveCheckIntervalMinutes * 60 * 1000);
+
+    this.summaryInterval = setInterval(() => {
+      this.sendDueSummaries().catch(error => logger.error('Failed to send watchlist summaries', { error }));
+    }, SUMMARY_CHECK_INTERVAL_MS);
+
+    logger.info('Watchlist service started', {
+      moveCheckIntervalMinutes: this.config.moveCheckIntervalMinutes,
+      summaryHourUtc: this.config.summaryHourUtc,
+    });
+  }
+
+  stop(): void {
+    if (this.moveInterval) {
+      clearInterval(this.moveInterval);
+      this.moveInterval = null;
+    }
+    if (this.summaryInterval) {
+      clearInterval(this.summaryInterval);
+      this.summaryInterval = null;
+    }
+  }
+
+  /**
+   * Add a market to a user's watchlist; moves are measured from the current price
+   */
+  async addMarket(
+    telegramId: number,
+    conditionId: string
+  ): Promise<{ success: boolean; message: string; marketTitle?: string; price?: number }> {
+    let marketTitle: string;
+    try {
+      const condition = await this.restClient.getCondition(conditionId);
+      marketTitle = condition.question || condition.title || conditionId;
+    } catch (error) {
+      logger.debug('Market lookup failed for watchlist', {
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return { success: false, message: 'Market not found. Check the market ID with /market.' };
+    }
+
+    const price = await this.getCurrentPrice(conditionId);
+    const result = await this.repository.addMarket(
+      telegramId,
+      { conditionId, marketTitle, referencePrice: price },
+      this.config.maxMarketsPerUser
+    );
+
+    return { ...result, marketTitle, price };
+  }
+
+  async removeMarket(telegramId: number, conditionId: string): Promise<boolean> {
+    return this.repository.removeMarket(telegramId, conditionId);
+  }
+
+  async getWatchlist(telegramId: number): Promise<WatchlistEntry[]> {
+    return this.repository.getUserWatchlist(telegramId);
+  }
+
+  /**
+   * Price, 24h change, volume and holders of each market on a user's watchlist
+   */
+  async getSummary(telegramId: number, entries?: WatchlistEntry[]): Promise<WatchlistMarketSummary[]> {
+    const watchlist = entries || await this.repository.getUserWatchlist(telegramId);
+    if (watchlist.length === 0) return [];
+
+    const conditionIds = watchlist.map(e => e.conditionId);
+    const [tracked, smart] = await Promise.all([
+      this.repository.getTrackedHolders(telegramId, conditionIds),
+      this.repository.getSmartWalletHolders(conditionIds),
+    ]);
+
+    const summaries: WatchlistMarketSummary[] = [];
+    for (const entry of watchlist) {
+      summaries.push({
+        ...(await this.getMarketSummary(entry)),
+        holders: [...(tracked.get(entry.conditionId) || []), ...(smart.get(entry.conditionId) || [])],
+      });
+    }
+    return summaries;
+  }
+
+  /**
+   * Current YES price of a market from its latest market data
+   */
+  async getCurrentPrice(conditionId: string): Promise<number | undefined> {
+    try {
+      const points = await this.restClient.getMarketData(conditionId);
+      const latest = Array.isArray(points) && points.length > 0 ? points[points.length - 1] : undefined;
+      return latest ? latest.price : undefined;
+    } catch (error) {
+      logger.debug('Failed to fetch market price for watchlist', {
+        conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Alert users whose watched markets moved by their threshold since the last alert
+   */
+  private async checkMoves(): Promise<void> {
+    if (this.isCheckingMoves) return;
+    this.isCheckingMoves = true;
+
+    try {
+      const byMarket = groupByMarket(await this.repository.getAllEntries());
+
+      for (const [conditionId, entries] of Array.from(byMarket.entries())) {
+        const price = await this.getCurrentPrice(conditionId);
+        if (price === undefined) continue;
+
+        for (const entry of entries) {
+          await this.checkEntry(entry, price);
+        }
+      }
+    } finally {
+      this.isCheckingMoves = false;
+    }
+  }
+
+  private async checkEntry(entry: WatchlistSubscriberEntry, price: number): Promise<void> {
+    if (entry.referencePrice === undefined) {
+      await this.repository.setReferencePrice(entry.id, price);
+      return;
+    }
+
+    if (entry.preferences.enabled === false || entry.preferences.price_alerts === false) return;
+
+    const threshold = entry.preferences.price_change_threshold ?? DEFAULT_PRICE_CHANGE_THRESHOLD;
+    if (!isBigMove(entry.referencePrice, price, threshold)) return;
+
+    // Measured from here on, so a market that keeps moving alerts again at the next step
+    if (!(await this.repository.setReferencePrice(entry.id, price))) return;
+
+    try {
+      await this.bot.telegram.sendMessage(
+        entry.telegramId,
+        formatBigMoveAlert(entry.marketTitle, entry.conditionId, entry.referencePrice, price),
+        { parse_mode: 'Markdown' }
+      );
+
+      logger.info('Sent watchlist move alert', {
+        telegramId: entry.telegramId,
+        conditionId: entry.conditionId,
+        from: entry.referencePrice,
+        to: price,
+      });
+    } catch (error) {
+      logger.error('Failed to send watchlist move alert', {
+        telegramId: entry.telegramId,
+        conditionId: entry.conditionId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Send every user their summary once the daily period rolls over
+   */
+  private async sendDueSummaries(): Promise<void> {
+    const period = getDigestPeriod('daily', Date.now(), this.config.summaryHourUtc);
+    if (period === this.summaryPeriod || this.isSendingSummaries) return;
+
+    this.summaryPeriod = period;
+    this.isSendingSummaries = true;
+
+    try {
+      const byUser = new Map<number, WatchlistSubscriberEntry[]>();
+      (await this.repository.getAllEntries())
+        .filter(e => e.preferences.enabled !== false)
+        .forEach(e => byUser.set(e.telegramId, [...(byUser.get(e.telegramId) || []), e]));
+
+      for (const [telegramId, entries] of Array.from(byUser.entries())) {
+        try {
+          const summaries = await this.getSummary(telegramId, entries);
+          await this.bot.telegram.sendMessage(
+            telegramId,
+            formatWatchlistSummary(summaries, '👀 *Daily Watchlist*'),
+            { parse_mode: 'Markdown' }
+          );
+        } catch (error) {
+          logger.error('Failed to send watchlist summary', {
+            telegramId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      logger.info('Sent watchlist summaries', { period, users: byUser.size });
+    } finally {
+      this.isSendingSummaries = false;
+    }
+  }
+
+  private async getMarketSummary(entry: WatchlistEntry): Promise<Omit<WatchlistMarketSummary, 'holders'>> {
+    const now = new Date();
+    const [condition, history, price] = await Promise.allSettled([
+      this.restClient.getCondition(entry.conditionId),
+      this.restClient.getPriceHistory(entry.conditionId, {
+        interval: '1h',
+        startTime: new Date(now.getTime() - 24 * 60 * 60 * 1000).toISOString(),
+        endTime: now.toISOString(),
+      }),
+      this.getCurrentPrice(entry.conditionId),
+    ]);
+
+    const summary: Omit<WatchlistMarketSummary, 'holders'> = {
+      conditionId: entry.conditionId,
+      marketTitle: entry.marketTitle,
+    };
+
+    if (price.status === 'fulfilled' && price.value !== undefined) {
+      summary.price = price.value;
+    }
+    if (history.status === 'fulfilled' && Array.isArray(history.value?.data)) {
+      summary.priceChange24h = calculatePriceChange(history.value.data);
+    }
+    if (condition.status === 'fulfilled') {
+      if (condition.value.volume24h !== undefined) summary.volume24h = Number(condition.value.volume24h);
+      if (condition.value.volume !== undefined) summary.volume = Number(condition.value.volume);
+    }
+
+    return summary;
+  }
+}
+
+function groupByMarket(entries: WatchlistSubscriberEntry[]): Map<string, WatchlistSubscriberEntry[]> {
+  const byMarket = new Map<string, WatchlistSubscriberEntry[]>();
+  entries.forEach(e => byMarket.set(e.conditionId, [...(byMarket.get(e.conditionId) || []), e]));
+  return byMarket;
+}
+
+// Singleton instance
+let serviceInstance: WatchlistService | null = null;
+
+export function createWatchlistService(
+  bot: Telegraf<Context>,
+  restClient: PolymarketRestClient,
+  config?: Partial<WatchlistServiceConfig>
+): WatchlistService {
+  if (!serviceInstance) {
+    serviceInstance = new WatchlistService(bot, restClient, config);
+  }
+  return serviceInstance;
+}
+
+export function getWatchlistService(): WatchlistService | null {
+  return serviceInstance;
+}
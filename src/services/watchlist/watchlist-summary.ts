@@ -0,0 +1,128 @@
+/**
+ * Watchlist Summary
+ * Big-move detection and message layouts for users' market watchlists
+ */
+
+import { PolymarketPricePoint } from '@/types/polymarket';
+import { escapeMarkdown, formatProbability, formatUsd } from '@/utils/format';
+
+export interface WatchlistHolder {
+  address: string;
+  label: string;                 // Alias or short address
+  source: 'tracked' | 'smart';   // The user's tracked wallet or a smart wallet
+  outcome: string;
+  value?: number;                // USD
+}
+
+export interface WatchlistMarketSummary {
+  conditionId: string;
+  marketTitle: string;
+  price?: number;            // YES price
+  priceChange24h?: number;   // In probability points
+  volume24h?: number;
+  volume?: number;
+  holders: WatchlistHolder[];
+}
+
+export const DEFAULT_PRICE_CHANGE_THRESHOLD = 5;
+
+// Holders listed per market before the rest is counted
+const MAX_LISTED_HOLDERS = 3;
+
+/**
+ * Change over a price history (first to last point), in probability points
+ */
+export function calculatePriceChange(points: PolymarketPricePoint[]): number | undefined {
+  if (points.length < 2) return undefined;
+  return points[points.length - 1].price - points[0].price;
+}
+
+/**
+ * Percent change of the price relative to the reference price
+ */
+export function calculatePercentChange(referencePrice: number, price: number): number {
+  if (referencePrice <= 0) return price > 0 ? Infinity : 0;
+  return ((price - referencePrice) / referencePrice) * 100;
+}
+
+/**
+ * Whether the price changed by at least the threshold since the reference price
+ * @param thresholdPercent The user's price_change_threshold, as a percent change of the price
+ */
+export function isBigMove(referencePrice: number, price: number, thresholdPercent: number): boolean {
+  if (thresholdPercent <= 0) return false;
+  // Rounded so a move of exactly the threshold isn't lost to float error
+  return Math.round(Math.abs(calculatePercentChange(referencePrice, price)) * 100) >= thresholdPercent * 100;
+}
+
+/**
+ * Format the scheduled (or /watchlist) summary
+ */
+export function formatWatchlistSummary(summaries: WatchlistMarketSummary[], heading = '👀 *Watchlist*'): string {
+  let message = `${heading}\n`;
+  message += '━━━━━━━━━━━━━━━━━━━━━━\n\n';
+
+  summaries.forEach((summary, i) => {
+    message += `${i + 1}. *${escapeMarkdown(summary.marketTitle.slice(0, 80))}*\n`;
+
+    const stats: string[] = [];
+    if (summary.price !== undefined) {
+      let price = `YES ${formatProbability(summary.price)}`;
+      if (summary.priceChange24h !== undefined) price += ` (${formatPointChange(summary.priceChange24h)} 24h)`;
+      stats.push(price);
+    }
+    if (summary.volume24h !== undefined) {
+      stats.push(`24h vol ${formatUsd(summary.volume24h)}`);
+    } else if (summary.volume !== undefined) {
+      stats.push(`vol ${formatUsd(summary.volume)}`);
+    }
+    message += `   ${stats.length > 0 ? stats.join(' • ') : '_No market data_'}\n`;
+
+    if (summary.holders.length > 0) {
+      const listed = summary.holders.slice(0, MAX_LISTED_HOLDERS).map(formatHolder).join(', ');
+      const more = summary.holders.length - MAX_LISTED_HOLDERS;
+      message += `   👛 ${listed}${more > 0 ? ` +${more} more` : ''}\n`;
+    }
+
+    message += `   \`${summary.conditionId}\`\n\n`;
+  });
+
+  return message.trimEnd();
+}
+
+/**
+ * Format a big-move alert for a watched market
+ */
+export function formatBigMoveAlert(
+  marketTitle: string,
+  conditionId: string,
+  referencePrice: number,
+  price: number
+): string {
+  const arrow = price > referencePrice ? '📈' : '📉';
+
+  let message = `${arrow} *WATCHLIST MOVE*\n\n`;
+  message += `📊 *${escapeMarkdown(marketTitle)}*\n`;
+  message += `YES ${formatProbability(referencePrice)} → *${formatProbability(price)}* ` +
+    `(${formatPercentChange(calculatePercentChange(referencePrice, price))}, ${formatPointChange(price - referencePrice)})\n\n`;
+  message += `/market ${conditionId}\n`;
+  message += '_Change the move size with /thresholds move <percent>._';
+  return message;
+}
+
+function formatHolder(holder: WatchlistHolder): string {
+  const icon = holder.source === 'smart' ? '🧠' : '👤';
+  const value = holder.value !== undefined && holder.value > 0 ? ` ${formatUsd(holder.value)}` : '';
+  return `${icon} ${escapeMarkdown(holder.label)} ${escapeMarkdown(holder.outcome)}${value}`;
+}
+
+function formatPercentChange(change: number): string {
+  if (!isFinite(change)) return 'new';
+  const percent = +change.toFixed(1);
+  return `${percent >= 0 ? '+' : ''}${percent}%`;
+}
+
+function formatPointChange(change: number): string {
+  const points = +(change * 100).toFixed(1);
+  return `${points >= 0 ? '+' : ''}${points} pts`;
+}
@@ -13,6 +13,8 @@ export interface DatabaseUser {
     large_positions: boolean;
     min_position_size: number;
     min_transaction_amount: number;
+    min_portfolio_percent?: number;
+    digest_mode?: 'off' | 'hourly' | 'daily';
     price_change_threshold: number;
   };
   created_at: Date;
@@ -52,6 +52,14 @@ export interface PolymarketTransaction {
   blockNumber?: number;
   gasUsed?: number;
   fee?: number;
+  // Data API fields
+  proxyWallet?: string;
+  asset?: string;
+  size?: number;
+  title?: string;
+  slug?: string;
+  eventSlug?: string;
+  outcomeIndex?: number;
 }
 
 export interface PolymarketCondition {
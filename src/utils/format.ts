@@ -0,0 +1,63 @@
+/**
+ * Message Formatting
+ * Number, address and Markdown helpers shared by Telegram messages
+ */
+
+/**
+ * Format a number with K/M suffix, e.g. "1.5M", "250.0K", "12"
+ * @param decimals - Decimal places below 1,000
+ */
+export function formatCompact(value: number, decimals: number = 0): string {
+  const sign = value < 0 ? '-' : '';
+  const abs = Math.abs(value);
+
+  if (abs >= 1000000) {
+    return `${sign}${(abs / 1000000).toFixed(1)}M`;
+  } else if (abs >= 1000) {
+    return `${sign}${(abs / 1000).toFixed(1)}K`;
+  }
+  return `${sign}${abs.toFixed(decimals)}`;
+}
+
+/**
+ * Format a dollar value with K/M suffix, e.g. "$1.5M", "-$320"
+ */
+export function formatUsd(value: number, decimals: number = 0): string {
+  const compact = formatCompact(Math.abs(value), decimals);
+  return value < 0 ? `-$${compact}` : `$${compact}`;
+}
+
+/**
+ * Format a dollar change with an explicit sign, e.g. "+$1.5K", "-$320"
+ */
+export function formatSignedUsd(value: number, decimals: number = 0): string {
+  return value >= 0 ? `+${formatUsd(value, decimals)}` : formatUsd(value, decimals);
+}
+
+/**
+ * Format a price (0-1) as a probability, e.g. "42.5%", "7%"
+ */
+export function formatProbability(price: number): string {
+  return `${+(price * 100).toFixed(1)}%`;
+}
+
+/**
+ * Format a price (0-1) in cents, e.g. "42.5¢", "7¢"
+ */
+export function formatCents(price: number): string {
+  return `${+(price * 100).toFixed(1)}¢`;
+}
+
+/**
+ * Format wallet address to short form, e.g. "0x1234...5678"
+ */
+export function formatShortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Escape Markdown (v1) control characters in titles, aliases and other user-supplied text
+ */
+export function escapeMarkdown(text: string): string {
+  return text.replace(/([_*`[])/g, '\\$1');
+}
@@ -0,0 +1,122 @@
+import { Telegraf, Context } from 'telegraf';
+import { registerAdminCommands } from '@/bot/handlers/admin-handler';
+
+const adminRepository = {
+  isAdmin: jest.fn(),
+  logAction: jest.fn(),
+};
+const walletRepository = {
+  addSmartWallet: jest.fn(),
+  removeSmartWallet: jest.fn(),
+  tagSmartWallet: jest.fn(),
+  setWalletPaused: jest.fn(),
+};
+const discoveryRepository = {
+  getRecentChanges: jest.fn(),
+  resolveProposal: jest.fn(),
+};
+
+jest.mock('@/services/admin', () => ({
+  getAdminRepository: () => adminRepository,
+}));
+jest.mock('@/services/consensus', () => ({
+  getSmartWalletRepository: () => walletRepository,
+  getSmartWalletScanner: () => null,
+  normalizeCategory: (category?: string) => category?.toLowerCase() === 'politics' ? 'Politics' : null,
+}));
+jest.mock('@/services/wallet-discovery', () => ({
+  getDiscoveryRepository: () => discoveryRepository,
+  getWalletDiscoveryService: () => null,
+}));
+
+const ADDRESS = '0xABCDEF0123456789abcdef0123456789ABCDEF01';
+
+type CommandHandler = (ctx: unknown) => Promise<void>;
+
+function registerCommands(): Map<string, CommandHandler> {
+  const commands = new Map<string, CommandHandler>();
+  const bot = {
+    command: (name: string, handler: CommandHandler) => commands.set(name, handler),
+  };
+  registerAdminCommands(bot as unknown as Telegraf<Context>);
+  return commands;
+}
+
+function createContext(telegramId: number, text: string) {
+  return {
+    from: { id: telegramId },
+    message: { text },
+    reply: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('Admin Handler', () => {
+  const commands = registerCommands();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should refuse and audit admin commands from non-admins', async () => {
+    adminRepository.isAdmin.mockResolvedValue(false);
+    const ctx = createContext(7, `/sw_add ${ADDRESS} Whale`);
+
+    await commands.get('sw_add')!(ctx);
+
+    expect(walletRepository.addSmartWallet).not.toHaveBeenCalled();
+    expect(ctx.reply).toHaveBeenCalledWith('⛔ This command is restricted to admins.');
+    expect(adminRepository.logAction).toHaveBeenCalledWith(expect.objectContaining({
+      adminTelegramId: 7,
+      action: 'sw_add',
+      success: false,
+      details: { result: 'Not an admin' },
+    }));
+  });
+
+  it('should run and audit commands from admins', async () => {
+    adminRepository.isAdmin.mockResolvedValue(true);
+    walletRepository.addSmartWallet.mockResolvedValue({ success: true, message: 'Added Whale' });
+    const ctx = createContext(42, `/sw_add ${ADDRESS} Big Whale`);
+
+    await commands.get('sw_add')!(ctx);
+
+    expect(walletRepository.addSmartWallet).toHaveBeenCalledWith(ADDRESS, 'Big Whale');
+    expect(adminRepository.logAction).toHaveBeenCalledWith({
+      adminTelegramId: 42,
+      action: 'sw_add',
+      target: ADDRESS.toLowerCase(),
+      details: { alias: 'Big Whale', result: 'Added Whale' },
+      success: true,
+    });
+  });
+
+  it('should audit rejected arguments without touching smart wallets', async () => {
+    adminRepository.isAdmin.mockResolvedValue(true);
+
+    await commands.get('sw_tag')!(createContext(42, `/sw_tag ${ADDRESS} Weather`));
+    await commands.get('sw_remove')!(createContext(42, '/sw_remove not-an-address'));
+
+    expect(walletRepository.tagSmartWallet).not.toHaveBeenCalled();
+    expect(walletRepository.removeSmartWallet).not.toHaveBeenCalled();
+    expect(adminRepository.logAction).toHaveBeenCalledTimes(2);
+    expect(adminRepository.logAction.mock.calls.map(([action]) => [action.action, action.success, action.details.result]))
+      .toEqual([['sw_tag', false, 'Invalid arguments'], ['sw_remove', false, 'Invalid arguments']]);
+  });
+
+  it('should apply a discovery proposal by ID prefix', async () => {
+    adminRepository.isAdmin.mockResolvedValue(true);
+    discoveryRepository.getRecentChanges.mockResolvedValue([
+      { id: 'a1b2c3d4-0000-0000-0000-000000000000' },
+      { id: 'ffff0000-0000-0000-0000-000000000000' },
+    ]);
+    discoveryRepository.resolveProposal.mockResolvedValue(true);
+    const ctx = createContext(42, '/sw_apply a1b2c3d4');
+
+    await commands.get('sw_apply')!(ctx);
+
+    expect(discoveryRepository.getRecentChanges).toHaveBeenCalledWith(expect.any(Number), 'PROPOSED');
+    expect(discoveryRepository.resolveProposal).toHaveBeenCalledTimes(1);
+    expect(discoveryRepository.resolveProposal).toHaveBeenCalledWith('a1b2c3d4-0000-0000-0000-000000000000', true);
+    expect(ctx.reply).toHaveBeenCalledWith('✅ Applied 1 of 1 proposal(s).');
+  });
+});
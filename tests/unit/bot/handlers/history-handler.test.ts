@@ -0,0 +1,39 @@
+import { formatHistoryEntry } from '@/bot/handlers/history-handler';
+import { PositionHistoryEntry } from '@/services/wallet-tracker/wallet-tracker-repository';
+
+jest.mock('@/services/wallet-tracker', () => ({
+  getWalletTrackerRepository: jest.fn(),
+}));
+
+function createEntry(overrides: Partial<PositionHistoryEntry> = {}): PositionHistoryEntry {
+  return {
+    walletAddress: '0x1234567890abcdef1234567890abcdef12345678',
+    conditionId: 'cond1',
+    outcome: 'Yes',
+    title: 'Will [BTC] hit $100k_by *June*?',
+    eventSlug: 'btc-100k',
+    type: 'BUY',
+    deltaShares: 1500,
+    price: 0.42,
+    totalValue: 630,
+    source: 'trade',
+    occurredAt: new Date('2026-06-01T12:30:00Z'),
+    ...overrides,
+  };
+}
+
+describe('History Handler', () => {
+  it('should escape titles and aliases and keep brackets out of link labels', () => {
+    const line = formatHistoryEntry(createEntry(), 'whale_one', true);
+
+    expect(line).toContain('[Will BTC hit $100k\\_by \\*June\\*?](https://polymarket.com/event/btc-100k)');
+    expect(line).toContain('👛 whale\\_one');
+  });
+
+  it('should escape titles without a link', () => {
+    const line = formatHistoryEntry(createEntry({ eventSlug: '' }), undefined, false);
+
+    expect(line).toContain('| Will \\[BTC] hit $100k\\_by \\*June\\*?');
+    expect(line).not.toContain('👛');
+  });
+});
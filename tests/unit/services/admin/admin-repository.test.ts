@@ -0,0 +1,63 @@
+import { query, transaction } from '@/services/database/connection-pool';
+import { AdminRepository } from '@/services/admin/admin-repository';
+
+jest.mock('@/services/database/connection-pool', () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+}));
+
+const mockQuery = query as jest.MockedFunction<typeof query>;
+const mockTransaction = transaction as jest.MockedFunction<typeof transaction>;
+
+describe('Admin Repository', () => {
+  const repository = new AdminRepository();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should grant admin rights only to listed admins and fail closed on errors', async () => {
+    mockQuery.mockResolvedValueOnce([{ telegram_id: '42' }]);
+    expect(await repository.isAdmin(42)).toBe(true);
+
+    mockQuery.mockResolvedValueOnce([]);
+    expect(await repository.isAdmin(7)).toBe(false);
+
+    mockQuery.mockRejectedValueOnce(new Error('connection refused'));
+    expect(await repository.isAdmin(42)).toBe(false);
+  });
+
+  it('should add configured admins and revoke the ones no longer configured', async () => {
+    const client = {
+      query: jest.fn()
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ telegram_id: '99' }] }),
+    };
+    mockTransaction.mockImplementation(async (callback) => callback(client as never));
+
+    await repository.syncAdmins([1, 2]);
+
+    expect(client.query).toHaveBeenCalledTimes(3);
+    expect(client.query.mock.calls[0][1]).toEqual([1]);
+    expect(client.query.mock.calls[1][1]).toEqual([2]);
+    expect(client.query.mock.calls[2][0]).toContain('DELETE FROM bot_admins');
+    expect(client.query.mock.calls[2][1]).toEqual([[1, 2]]);
+  });
+
+  it('should revoke every admin when none are configured', async () => {
+    const client = { query: jest.fn().mockResolvedValue({ rows: [{ telegram_id: '5' }] }) };
+    mockTransaction.mockImplementation(async (callback) => callback(client as never));
+
+    await repository.syncAdmins([]);
+
+    expect(client.query).toHaveBeenCalledTimes(1);
+    expect(client.query.mock.calls[0][1]).toEqual([[]]);
+  });
+
+  it('should keep going when an audit row cannot be written', async () => {
+    mockQuery.mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(repository.logAction({ adminTelegramId: 42, action: 'sw_add', success: true })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  BookSnapshot,
+  DEFAULT_BOOK_DIFF_CONFIG,
+  diffBooks,
+  getAlertCooldownKey,
+  nextBaselineDepth,
+  summarizeBook,
+  toBookSnapshot,
+} from '@/services/book-watch/book-diff';
+
+function book(bids: Array<[number, number]>, asks: Array<[number, number]>): BookSnapshot {
+  return {
+    bids: bids.map(([price, size]) => ({ price, size })),
+    asks: asks.map(([price, size]) => ({ price, size })),
+    takenAt: new Date(),
+  };
+}
+
+// Mid 0.50, 2c spread, $5,000 within 5c of mid
+const BASE = book([[0.49, 5000], [0.40, 1000]], [[0.51, 5000], [0.60, 1000]]);
+
+describe('Book Diff', () => {
+  it('should summarize spread and depth near the mid', () => {
+    const summary = summarizeBook(BASE, 0.05);
+    expect(summary.bestBid).toBe(0.49);
+    expect(summary.bestAsk).toBe(0.51);
+    expect(summary.spread).toBeCloseTo(0.02);
+    expect(summary.depth).toBeCloseTo(5000);
+    expect(summarizeBook(book([[0.49, 10]], []), 0.05).spread).toBeUndefined();
+  });
+
+  it('should alert when the spread widens past the limit, once', () => {
+    const wide = book([[0.45, 5000]], [[0.55, 5000]]);
+    expect(diffBooks(BASE, wide, 5000)).toEqual([
+      expect.objectContaining({ type: 'SPREAD_WIDENED', current: expect.closeTo(0.1) }),
+    ]);
+    expect(diffBooks(wide, wide, 5000)).toEqual([]);
+  });
+
+  it('should alert when near-mid liquidity drops below the recent high', () => {
+    const thin = book([[0.49, 2000]], [[0.51, 2000]]);
+    expect(diffBooks(BASE, thin, 5000).map(a => a.type)).toEqual(['LIQUIDITY_DROPPED']);
+    expect(diffBooks(BASE, thin, 5000, { ...DEFAULT_BOOK_DIFF_CONFIG, liquidityDropPercent: 70 })).toEqual([]);
+    expect(diffBooks(BASE, thin, 500)).toEqual([]);
+
+    expect(nextBaselineDepth(5000, 6000, false)).toBe(6000);
+    expect(nextBaselineDepth(5000, 2000, false)).toBe(5000);
+    expect(nextBaselineDepth(5000, 2000, true)).toBe(2000);
+  });
+
+  it('should report walls added and pulled', () => {
+    const withWall = book([[0.49, 5000], [0.45, 30000]], [[0.51, 5000], [0.60, 1000]]);
+    const added = diffBooks(BASE, withWall, 5000);
+    expect(added).toEqual([
+      { type: 'WALL_ADDED', wall: { side: 'BID', price: 0.45, size: 30000, notional: 13500 } },
+    ]);
+
+    const pulled = diffBooks(withWall, BASE, 5000);
+    expect(pulled.map(a => a.type)).toEqual(['WALL_PULLED']);
+  });
+
+  it('should keep separate cooldowns for walls at different sides and prices', () => {
+    const wall = { side: 'BID' as const, price: 0.45, size: 30000, notional: 13500 };
+    const keys = [
+      getAlertCooldownKey({ type: 'WALL_ADDED', wall }),
+      getAlertCooldownKey({ type: 'WALL_ADDED', wall: { ...wall, price: 0.44 } }),
+      getAlertCooldownKey({ type: 'WALL_ADDED', wall: { ...wall, side: 'ASK' } }),
+      getAlertCooldownKey({ type: 'WALL_PULLED', wall }),
+    ];
+    expect(new Set(keys).size).toBe(4);
+    expect(getAlertCooldownKey({ type: 'WALL_ADDED', wall: { ...wall, size: 40000 } })).toBe(keys[0]);
+    expect(getAlertCooldownKey({ type: 'SPREAD_WIDENED', previous: 0.02, current: 0.08 })).toBe('SPREAD_WIDENED');
+  });
+
+  it('should normalize string levels and drop empty ones', () => {
+    const snapshot = toBookSnapshot({ bids: [{ price: '0.49', size: '100' }, { price: '0.48', size: '0' }], asks: [] });
+    expect(snapshot.bids).toEqual([{ price: 0.49, size: 100 }]);
+    expect(snapshot.asks).toEqual([]);
+  });
+});
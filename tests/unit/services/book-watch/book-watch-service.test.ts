@@ -0,0 +1,71 @@
+import { Telegraf, Context } from 'telegraf';
+import { BookWatchService } from '@/services/book-watch/book-watch-service';
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+
+const repository = {
+  getAllWatches: jest.fn(),
+};
+
+jest.mock('@/services/book-watch/book-watch-repository', () => ({
+  getBookWatchRepository: () => repository,
+}));
+
+const CONDITION_ID = '0xcondition';
+
+type Level = { price: number; size: number };
+
+// Tight book around 50¢; walls sit outside the near-mid depth range
+const BIDS: Level[] = [{ price: 0.49, size: 5000 }];
+const ASKS: Level[] = [{ price: 0.51, size: 5000 }];
+const BID_WALL: Level = { price: 0.4, size: 30000 };
+const ASK_WALL: Level = { price: 0.6, size: 20000 };
+
+function bookUpdate(bids: Level[], asks: Level[]) {
+  return { conditionId: CONDITION_ID, price: 0.5, probability: 0.5, timestamp: '2026-10-19T12:00:00Z', bids, asks };
+}
+
+describe('Book Watch Service', () => {
+  let sendMessage: jest.Mock;
+  let service: BookWatchService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    repository.getAllWatches.mockResolvedValue([{ chatId: 7, conditionId: CONDITION_ID, marketTitle: 'Test Market' }]);
+
+    sendMessage = jest.fn().mockResolvedValue(undefined);
+    const restClient = { getOrderBook: jest.fn().mockRejectedValue(new Error('offline')) };
+    service = new BookWatchService(
+      { telegram: { sendMessage } } as unknown as Telegraf<Context>,
+      restClient as unknown as PolymarketRestClient,
+      null
+    );
+
+    await service.start();
+    service.stop();
+
+    // First streamed book is the baseline
+    await service.handleMarketData(bookUpdate(BIDS, ASKS));
+  });
+
+  it('should alert each wall under its own cooldown', async () => {
+    await service.handleMarketData(bookUpdate([...BIDS, BID_WALL], ASKS));
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage.mock.calls[0][1]).toContain('New bid wall');
+
+    // A different wall is not held back by the first one's cooldown
+    await service.handleMarketData(bookUpdate([...BIDS, BID_WALL], [...ASKS, ASK_WALL]));
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+    expect(sendMessage.mock.calls[1][1]).toContain('New ask wall');
+  });
+
+  it('should hold back repeat alerts for the same wall', async () => {
+    await service.handleMarketData(bookUpdate([...BIDS, BID_WALL], ASKS));
+    await service.handleMarketData(bookUpdate(BIDS, ASKS));
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+    expect(sendMessage.mock.calls[1][1]).toContain('pulled or filled');
+
+    // The same wall flickering back in is within its cooldown
+    await service.handleMarketData(bookUpdate([...BIDS, BID_WALL], ASKS));
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,70 @@
+import { detectDivergence, WalletPosition } from '@/services/consensus/consensus-detector';
+import { formatDivergenceNotification } from '@/services/consensus/consensus-notification';
+
+function createPosition(
+  walletAlias: string,
+  side: 'YES' | 'NO',
+  value: number,
+  overrides: Partial<WalletPosition> = {}
+): WalletPosition {
+  const shares = side === 'YES' ? value * 2 : -value * 2;
+  return {
+    walletId: walletAlias,
+    walletAddress: `0x${walletAlias}`,
+    walletAlias,
+    conditionId: 'cond1',
+    marketTitle: 'Will the Fed cut rates?',
+    marketSlug: 'fed-cut',
+    yesShares: side === 'YES' ? shares : 0,
+    noShares: side === 'NO' ? -shares : 0,
+    yesValue: side === 'YES' ? value : 0,
+    noValue: side === 'NO' ? value : 0,
+    netShares: shares,
+    netValue: side === 'YES' ? value : -value,
+    portfolioValue: 100000,
+    portfolioPercent: (value / 100000) * 100,
+    side,
+    ...overrides,
+  };
+}
+
+const CONFIG = {
+  minWallets: 3,
+  minOrderValue: 2000,
+  minPortfolioPercent: 2,
+  minWalletsPerSide: 2,
+  minMinorityShare: 0.25,
+};
+
+describe('Divergence Detection', () => {
+  it('should detect markets with significant capital on both sides', () => {
+    const [signal] = detectDivergence([
+      createPosition('a', 'YES', 6000, { expertise: { pnl: 2000000 } }),
+      createPosition('b', 'YES', 6000),
+      createPosition('c', 'NO', 4000, { expertise: { pnl: 100000 } }),
+      createPosition('d', 'NO', 4000),
+    ], CONFIG);
+
+    expect(signal.yes).toMatchObject({ walletCount: 2, totalValue: 12000, totalPnl: 2000000 });
+    expect(signal.yes.capitalShare).toBeCloseTo(0.6);
+    expect(signal.no.capitalShare).toBeCloseTo(0.4);
+    expect(signal.capitalRatio).toBeCloseTo(1.5);
+    expect(signal.strongerRecord).toBe('YES');
+    expect(formatDivergenceNotification(signal)).toContain('Capital ratio: *1.5 : 1*');
+  });
+
+  it('should ignore lopsided markets and single-wallet camps', () => {
+    expect(detectDivergence([
+      createPosition('a', 'YES', 20000),
+      createPosition('b', 'YES', 20000),
+      createPosition('c', 'NO', 3000),
+      createPosition('d', 'NO', 3000),
+    ], CONFIG)).toHaveLength(0);
+
+    expect(detectDivergence([
+      createPosition('a', 'YES', 5000),
+      createPosition('b', 'YES', 5000),
+      createPosition('c', 'NO', 8000),
+    ], CONFIG)).toHaveLength(0);
+  });
+});
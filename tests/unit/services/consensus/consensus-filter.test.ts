@@ -0,0 +1,133 @@
+import {
+  createEmptyFilter,
+  isEmptyFilter,
+  matchesConsensusEventFilter,
+  matchesConsensusFilter,
+  matchesDivergenceFilter,
+  parseCategories,
+  parseConfidenceLevel,
+  parseUsdAmount,
+} from '@/services/consensus/consensus-filter';
+import { ConsensusSignal, DivergenceCamp, DivergenceSignal } from '@/services/consensus/consensus-detector';
+import { diffConsensus, toConsensusState } from '@/services/consensus/consensus-lifecycle';
+
+function createSignal(overrides: Partial<ConsensusSignal> = {}): ConsensusSignal {
+  return {
+    conditionId: 'cond1',
+    marketTitle: 'Lakers vs Celtics',
+    side: 'YES',
+    walletCount: 3,
+    totalValue: 15000,
+    avgValue: 5000,
+    confidenceScore: 65,
+    confidenceLevel: 'HIGH',
+    marketCategory: 'Sports',
+    wallets: ['0xaaa', '0xbbb', '0xccc'].map((address, i) => ({
+      alias: `Whale${i + 1}`,
+      address,
+      value: 5000,
+      shares: 10000,
+      portfolioPercent: 5,
+      weight: 1,
+      categoryMatch: null,
+    })),
+    ...overrides,
+  };
+}
+
+function createCamp(side: 'YES' | 'NO', addresses: string[]): DivergenceCamp {
+  return {
+    side,
+    walletCount: addresses.length,
+    totalValue: addresses.length * 5000,
+    capitalShare: 0.5,
+    totalPnl: 0,
+    specialists: 0,
+    avgWeight: 1,
+    wallets: addresses.map(address => ({ alias: address, address, value: 5000, weight: 1, categoryMatch: null })),
+  };
+}
+
+function createDivergence(overrides: Partial<DivergenceSignal> = {}): DivergenceSignal {
+  return {
+    conditionId: 'cond1',
+    marketTitle: 'Lakers vs Celtics',
+    marketCategory: 'Sports',
+    yes: createCamp('YES', ['0xaaa', '0xbbb']),
+    no: createCamp('NO', ['0xccc', '0xddd']),
+    capitalRatio: 1,
+    strongerRecord: null,
+    ...overrides,
+  };
+}
+
+const LIFECYCLE_OPTIONS = { valueChangePercent: 25, failedWallets: new Set<string>() };
+
+describe('Consensus Filter', () => {
+  it('should let every signal through an empty filter', () => {
+    const filter = createEmptyFilter();
+    expect(isEmptyFilter(filter)).toBe(true);
+    expect(matchesConsensusFilter(createSignal({ confidenceLevel: 'LOW', marketCategory: undefined }), filter)).toBe(true);
+  });
+
+  it('should match categories, treating unknown ones as Other', () => {
+    const filter = { ...createEmptyFilter(), categories: ['Sports'] };
+    expect(matchesConsensusFilter(createSignal(), filter)).toBe(true);
+    expect(matchesConsensusFilter(createSignal({ marketCategory: 'Politics' }), filter)).toBe(false);
+    expect(matchesConsensusFilter(createSignal({ marketCategory: undefined }), filter)).toBe(false);
+    expect(matchesConsensusFilter(createSignal({ marketCategory: undefined }), { ...filter, categories: ['Other'] })).toBe(true);
+  });
+
+  it('should require the minimum confidence and value', () => {
+    const filter = { ...createEmptyFilter(), minConfidence: 'HIGH' as const, minTotalValue: 10000 };
+    expect(matchesConsensusFilter(createSignal(), filter)).toBe(true);
+    expect(matchesConsensusFilter(createSignal({ confidenceLevel: 'VERY_HIGH' }), filter)).toBe(true);
+    expect(matchesConsensusFilter(createSignal({ confidenceLevel: 'MEDIUM' }), filter)).toBe(false);
+    expect(matchesConsensusFilter(createSignal({ totalValue: 8000 }), filter)).toBe(false);
+  });
+
+  it('should match consensus involving any chosen wallet', () => {
+    expect(matchesConsensusFilter(createSignal(), { ...createEmptyFilter(), wallets: ['0xccc', '0xddd'] })).toBe(true);
+    expect(matchesConsensusFilter(createSignal(), { ...createEmptyFilter(), wallets: ['0xddd'] })).toBe(false);
+  });
+
+  it('should filter consensus updates by category, value and the wallets before and after', () => {
+    const previous = [toConsensusState(createSignal())];
+    const [weakened] = diffConsensus(previous, [createSignal({ wallets: createSignal().wallets.slice(0, 2), walletCount: 2 })], [], LIFECYCLE_OPTIONS);
+    const [dissolved] = diffConsensus(previous, [], [], LIFECYCLE_OPTIONS);
+
+    expect(matchesConsensusEventFilter(weakened, { ...createEmptyFilter(), categories: ['Sports'] })).toBe(true);
+    expect(matchesConsensusEventFilter(weakened, { ...createEmptyFilter(), categories: ['Politics'] })).toBe(false);
+    expect(matchesConsensusEventFilter(weakened, { ...createEmptyFilter(), minConfidence: 'VERY_HIGH' })).toBe(false);
+    expect(matchesConsensusEventFilter(weakened, { ...createEmptyFilter(), wallets: ['0xccc'] })).toBe(true);
+    expect(matchesConsensusEventFilter(weakened, { ...createEmptyFilter(), wallets: ['0xddd'] })).toBe(false);
+
+    // Dissolved: no signal, so the category comes from the scanner and confidence is skipped
+    expect(matchesConsensusEventFilter(dissolved, { ...createEmptyFilter(), categories: ['Sports'] })).toBe(false);
+    expect(matchesConsensusEventFilter({ ...dissolved, marketCategory: 'Sports' }, { ...createEmptyFilter(), categories: ['Sports'] })).toBe(true);
+    expect(matchesConsensusEventFilter(dissolved, { ...createEmptyFilter(), minConfidence: 'VERY_HIGH' })).toBe(true);
+    expect(matchesConsensusEventFilter(dissolved, { ...createEmptyFilter(), minTotalValue: 15000 })).toBe(true);
+    expect(matchesConsensusEventFilter(dissolved, { ...createEmptyFilter(), minTotalValue: 20000 })).toBe(false);
+  });
+
+  it('should filter split markets by category, total value and either camp', () => {
+    expect(matchesDivergenceFilter(createDivergence(), { ...createEmptyFilter(), categories: ['Sports'] })).toBe(true);
+    expect(matchesDivergenceFilter(createDivergence({ marketCategory: undefined }), { ...createEmptyFilter(), categories: ['Sports'] })).toBe(false);
+    expect(matchesDivergenceFilter(createDivergence(), { ...createEmptyFilter(), minTotalValue: 20000 })).toBe(true);
+    expect(matchesDivergenceFilter(createDivergence(), { ...createEmptyFilter(), minTotalValue: 25000 })).toBe(false);
+    expect(matchesDivergenceFilter(createDivergence(), { ...createEmptyFilter(), wallets: ['0xddd'] })).toBe(true);
+    expect(matchesDivergenceFilter(createDivergence(), { ...createEmptyFilter(), wallets: ['0xeee'] })).toBe(false);
+  });
+
+  it('should parse command arguments', () => {
+    expect(parseConfidenceLevel('very_high')).toBe('VERY_HIGH');
+    expect(parseConfidenceLevel('veryhigh')).toBe('VERY_HIGH');
+    expect(parseConfidenceLevel('extreme')).toBeNull();
+    expect(parseCategories('sports, crypto,other')).toEqual(['Sports', 'Crypto', 'Other']);
+    expect(parseCategories('sports,weather')).toBeNull();
+    expect(parseUsdAmount('10k')).toBe(10000);
+    expect(parseUsdAmount('$1,500')).toBe(1500);
+    expect(parseUsdAmount('1.5m')).toBe(1500000);
+    expect(parseUsdAmount('lots')).toBeNull();
+  });
+});
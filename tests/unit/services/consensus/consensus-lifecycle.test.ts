@@ -0,0 +1,104 @@
+import { diffConsensus, toConsensusState } from '@/services/consensus/consensus-lifecycle';
+import { ConsensusSignal, WalletPosition } from '@/services/consensus/consensus-detector';
+import { formatConsensusLifecycleNotification } from '@/services/consensus/consensus-notification';
+
+const ADDRESSES = ['0xaaa', '0xbbb', '0xccc', '0xddd'];
+
+function createSignal(walletAddresses: string[], valuePerWallet = 5000): ConsensusSignal {
+  return {
+    conditionId: 'cond1',
+    marketTitle: 'Test Market',
+    marketSlug: 'test-market',
+    side: 'YES',
+    walletCount: walletAddresses.length,
+    totalValue: walletAddresses.length * valuePerWallet,
+    avgValue: valuePerWallet,
+    confidenceScore: 60,
+    confidenceLevel: 'HIGH',
+    wallets: walletAddresses.map((address, i) => ({
+      alias: `Whale${i + 1}`,
+      address,
+      value: valuePerWallet,
+      shares: valuePerWallet * 2,
+      portfolioPercent: 5,
+      weight: 1,
+      categoryMatch: null,
+    })),
+  };
+}
+
+function createPosition(walletAddress: string): WalletPosition {
+  return {
+    walletId: walletAddress,
+    walletAddress,
+    walletAlias: walletAddress,
+    conditionId: 'cond1',
+    marketTitle: 'Test Market',
+    yesShares: 1000,
+    noShares: 0,
+    yesValue: 500,
+    noValue: 0,
+    netShares: 1000,
+    netValue: 500,
+    portfolioValue: 100000,
+    portfolioPercent: 0.5,
+    side: 'YES',
+  };
+}
+
+const OPTIONS = { valueChangePercent: 25, failedWallets: new Set<string>() };
+
+describe('Consensus Lifecycle', () => {
+  it('should report wallets joining and exiting', () => {
+    const previous = [toConsensusState(createSignal(ADDRESSES.slice(0, 3)))];
+
+    const [joined] = diffConsensus(previous, [createSignal(ADDRESSES)], [], OPTIONS);
+    expect(joined).toMatchObject({ type: 'STRENGTHENED', previousWalletCount: 3, walletCount: 4 });
+    expect(joined.joined.map(w => w.address)).toEqual(['0xddd']);
+
+    const [exited] = diffConsensus([toConsensusState(createSignal(ADDRESSES))], [createSignal(ADDRESSES.slice(0, 3))], [], OPTIONS);
+    expect(exited).toMatchObject({ type: 'WEAKENED', walletCount: 3 });
+    expect(exited.exited.map(w => w.address)).toEqual(['0xddd']);
+  });
+
+  it('should only report value moves above the threshold', () => {
+    const previous = [toConsensusState(createSignal(ADDRESSES.slice(0, 3)))];
+
+    expect(diffConsensus(previous, [createSignal(ADDRESSES.slice(0, 3), 5500)], [], OPTIONS)).toHaveLength(0);
+
+    const [event] = diffConsensus(previous, [createSignal(ADDRESSES.slice(0, 3), 3000)], [], OPTIONS);
+    expect(event.type).toBe('WEAKENED');
+    expect(event.valueChangePercent).toBeCloseTo(-40);
+  });
+
+  it('should report dissolution with the wallets still holding', () => {
+    const previous = [toConsensusState(createSignal(ADDRESSES.slice(0, 3)))];
+
+    const [event] = diffConsensus(previous, [], [createPosition('0xaaa')], OPTIONS);
+    expect(event).toMatchObject({ type: 'DISSOLVED', walletCount: 1, totalValue: 500 });
+    expect(event.exited.map(w => w.address)).toEqual(['0xbbb', '0xccc']);
+    expect(formatConsensusLifecycleNotification(event)).toContain('CONSENSUS DISSOLVED');
+  });
+
+  it('should leave consensus alone when one of its wallets failed to fetch', () => {
+    const previous = [toConsensusState(createSignal(ADDRESSES.slice(0, 3)))];
+    const options = { ...OPTIONS, failedWallets: new Set(['0xccc']) };
+
+    expect(diffConsensus(previous, [], [], options)).toHaveLength(0);
+  });
+
+  it('should count wallets that are no longer scanned as exited', () => {
+    // 0xccc was removed or paused: no positions and not a failed fetch
+    const previous = [toConsensusState(createSignal(ADDRESSES.slice(0, 3)))];
+
+    const [weakened] = diffConsensus(
+      [toConsensusState(createSignal(ADDRESSES))], [createSignal(ADDRESSES.slice(0, 3))], [], OPTIONS
+    );
+    expect(weakened).toMatchObject({ type: 'WEAKENED', walletCount: 3 });
+
+    const positions = [createPosition('0xaaa'), createPosition('0xbbb')];
+    const [dissolved] = diffConsensus(previous, [], positions, OPTIONS);
+    expect(dissolved).toMatchObject({ type: 'DISSOLVED', walletCount: 2 });
+    expect(dissolved.exited.map(w => w.address)).toEqual(['0xccc']);
+  });
+});
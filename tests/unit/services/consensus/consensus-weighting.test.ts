@@ -0,0 +1,81 @@
+import {
+  calculateConfidenceScore,
+  calculateWalletWeight,
+  detectConsensus,
+  findConsensusMarkets,
+  WalletPosition,
+} from '@/services/consensus/consensus-detector';
+import { getMarketCategory } from '@/services/consensus/market-category';
+
+function createPosition(overrides: Partial<WalletPosition> = {}): WalletPosition {
+  return {
+    walletId: 'w1',
+    walletAddress: '0x1111111111111111111111111111111111111111',
+    walletAlias: 'Whale1',
+    conditionId: 'cond1',
+    marketTitle: 'Will the Democrats win the Senate?',
+    yesShares: 10000,
+    noShares: 0,
+    yesValue: 5000,
+    noValue: 0,
+    netShares: 10000,
+    netValue: 5000,
+    portfolioValue: 100000,
+    portfolioPercent: 5,
+    side: 'YES',
+    ...overrides,
+  };
+}
+
+const CONFIG = { minWallets: 3, minOrderValue: 2000, minPortfolioPercent: 2 };
+
+describe('Consensus Weighting', () => {
+  it('should categorize markets from category, tags, then title', () => {
+    expect(getMarketCategory({ category: 'US-current-affairs', tags: ['NBA', 'Basketball'] })).toBe('Sports');
+    expect(getMarketCategory({ category: 'Crypto' })).toBe('Crypto');
+    expect(getMarketCategory({ title: 'Will Bitcoin hit $150k in 2026?' })).toBe('Crypto');
+    expect(getMarketCategory({ title: 'Will it rain in London tomorrow?' })).toBeNull();
+  });
+
+  it('should weight specialists by category match, rank and PnL', () => {
+    expect(calculateWalletWeight({ category: 'Politics', categoryRank: 3 }, 'Politics'))
+      .toEqual({ weight: 2, specialty: 'Politics #3', categoryMatch: true });
+    expect(calculateWalletWeight({ category: 'politics', categoryRank: 40 }, 'Politics').weight).toBe(1.5);
+    expect(calculateWalletWeight({ category: 'Sports', categoryRank: 1 }, 'Politics'))
+      .toMatchObject({ weight: 0.75, categoryMatch: false });
+    expect(calculateWalletWeight({ category: 'Sports' }, null)).toMatchObject({ weight: 1, categoryMatch: null });
+    expect(calculateWalletWeight({ pnl: 2000000 }, 'Politics').weight).toBe(1.25);
+    expect(calculateWalletWeight(undefined, 'Politics').weight).toBe(1);
+  });
+
+  it('should keep unweighted confidence unchanged and favour weighted specialists', () => {
+    const wallets = [
+      { value: 5000, portfolioPercent: 5 },
+      { value: 5000, portfolioPercent: 5 },
+      { value: 5000, portfolioPercent: 5 },
+    ];
+    const neutral = calculateConfidenceScore(wallets, 3);
+
+    expect(calculateConfidenceScore(wallets.map(w => ({ ...w, weight: 1 })), 3)).toBe(neutral);
+    expect(calculateConfidenceScore(wallets.map(w => ({ ...w, weight: 2 })), 3)).toBeGreaterThan(neutral);
+    expect(calculateConfidenceScore(wallets.map(w => ({ ...w, weight: 0.75 })), 3)).toBeLessThan(neutral);
+  });
+
+  it('should include the weight breakdown in detected signals', () => {
+    const positions = [
+      createPosition({ expertise: { category: 'Politics', categoryRank: 2 } }),
+      createPosition({ walletId: 'w2', walletAlias: 'Whale2', expertise: { category: 'Sports', categoryRank: 1 } }),
+      createPosition({ walletId: 'w3', walletAlias: 'Whale3' }),
+    ];
+
+    expect(findConsensusMarkets(positions, CONFIG)).toEqual(['cond1']);
+
+    const [signal] = detectConsensus(positions, CONFIG, new Map([['cond1', 'Politics']]));
+    const byAlias = new Map(signal.wallets.map(w => [w.alias, w]));
+
+    expect(signal.marketCategory).toBe('Politics');
+    expect(byAlias.get('Whale1')).toMatchObject({ weight: 2, specialty: 'Politics #2', categoryMatch: true });
+    expect(byAlias.get('Whale2')).toMatchObject({ weight: 0.75, categoryMatch: false });
+    expect(byAlias.get('Whale3')).toMatchObject({ weight: 1, categoryMatch: null });
+  });
+});
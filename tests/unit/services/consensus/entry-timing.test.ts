@@ -0,0 +1,93 @@
+import {
+  calculateCoordinationBonus,
+  calculateEntryTiming,
+  findEntryDate,
+} from '@/services/consensus/entry-timing';
+import { detectConsensus, WalletPosition } from '@/services/consensus/consensus-detector';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function daysAgo(days: number): Date {
+  return new Date(Date.UTC(2026, 9, 19 - days));
+}
+
+function createPosition(walletAlias: string, entry?: WalletPosition['entry']): WalletPosition {
+  return {
+    walletId: walletAlias,
+    walletAddress: `0x${walletAlias}`,
+    walletAlias,
+    conditionId: 'cond1',
+    marketTitle: 'Test Market',
+    yesShares: 10000,
+    noShares: 0,
+    yesValue: 5000,
+    noValue: 0,
+    netShares: 10000,
+    netValue: 5000,
+    portfolioValue: 100000,
+    portfolioPercent: 5,
+    side: 'YES',
+    entry,
+  };
+}
+
+const CONFIG = { minWallets: 3, minOrderValue: 2000, minPortfolioPercent: 2 };
+
+describe('Entry Timing', () => {
+  it('should find the start of the current holding', () => {
+    const history = [
+      { date: daysAgo(4), netShares: -500 },
+      { date: daysAgo(3), netShares: 800 },
+      { date: daysAgo(2), netShares: 1000 },
+      { date: daysAgo(1), netShares: 1000 },
+      { date: daysAgo(0), netShares: 1200 },
+    ];
+
+    expect(findEntryDate(history, 'YES')).toEqual(daysAgo(3));
+    expect(findEntryDate(history, 'NO')).toBeUndefined();
+    expect(findEntryDate(history.slice(1), 'YES', daysAgo(3))).toBeUndefined();
+  });
+
+  it('should end the holding at a missing snapshot day', () => {
+    const history = [
+      { date: daysAgo(10), netShares: 800 },
+      { date: daysAgo(9), netShares: 800 },
+      { date: daysAgo(3), netShares: 1000 },
+      { date: daysAgo(2), netShares: 1000 },
+      { date: daysAgo(1), netShares: 1200 },
+    ];
+
+    expect(findEntryDate(history, 'YES', daysAgo(10))).toEqual(daysAgo(3));
+  });
+
+  it('should favor fresh entries close to the current price', () => {
+    const fresh = calculateEntryTiming({ enteredAt: daysAgo(0), entryPrice: 0.85, currentPrice: 0.85 }, undefined, NOW);
+    expect(fresh).toMatchObject({ timingMultiplier: 1.5, freshEntry: true });
+
+    const stale = calculateEntryTiming({ enteredAt: daysAgo(56), entryPrice: 0.2, currentPrice: 0.85 }, undefined, NOW);
+    expect(stale.timingMultiplier).toBeCloseTo(0.53);
+    expect(stale.freshEntry).toBe(false);
+
+    expect(calculateEntryTiming(undefined, undefined, NOW)).toMatchObject({ timingMultiplier: 1, freshEntry: false });
+    expect(calculateEntryTiming({ enteredAt: daysAgo(2), entryPrice: 0.5, currentPrice: 0.8 }, undefined, NOW).freshEntry).toBe(false);
+  });
+
+  it('should only reward coordination between two or more fresh wallets', () => {
+    expect(calculateCoordinationBonus([{ freshEntry: true }, { freshEntry: false }, { freshEntry: false }])).toBe(0);
+    expect(calculateCoordinationBonus([{ freshEntry: true }, { freshEntry: true }, { freshEntry: false }])).toBe(7);
+  });
+
+  it('should score coordinated fresh consensus above stale bags', () => {
+    const freshEntry = { enteredAt: daysAgo(1), entryPrice: 0.5, currentPrice: 0.52 };
+    const staleEntry = { enteredAt: daysAgo(28), entryPrice: 0.2, currentPrice: 0.52 };
+
+    const [fresh] = detectConsensus(['a', 'b', 'c'].map(a => createPosition(a, freshEntry)), CONFIG, new Map(), NOW);
+    const [unknown] = detectConsensus(['a', 'b', 'c'].map(a => createPosition(a)), CONFIG, new Map(), NOW);
+    const [stale] = detectConsensus(['a', 'b', 'c'].map(a => createPosition(a, staleEntry)), CONFIG, new Map(), NOW);
+
+    expect(fresh.freshEntries).toBe(3);
+    expect(stale.freshEntries).toBe(0);
+    expect(fresh.confidenceScore).toBeGreaterThan(unknown.confidenceScore);
+    expect(unknown.confidenceScore).toBeGreaterThan(stale.confidenceScore);
+  });
+});
@@ -0,0 +1,61 @@
+import {
+  buildMarketContext,
+  calculateAverageEntryPrice,
+  formatTimeToEnd,
+  renderSparkline,
+} from '@/services/consensus/market-context';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function pricePoint(price: number) {
+  return { timestamp: NOW.toISOString(), price, source: 'LAST_TRADE' as const };
+}
+
+const WALLETS = [
+  { shares: 1000, entryPrice: 0.4 },
+  { shares: 3000, entryPrice: 0.6 },
+  { shares: 500 },
+];
+
+describe('Market Context', () => {
+  it('should price the consensus side from the order book mid', () => {
+    const context = buildMarketContext({ side: 'NO', wallets: [] as any }, {
+      orderBook: {
+        conditionId: 'cond1',
+        bids: [{ price: 0.58, size: 100, total: 58 }, { price: 0.6, size: 100, total: 60 }],
+        asks: [{ price: 0.64, size: 100, total: 64 }],
+        timestamp: NOW.toISOString(),
+      },
+      history: [pricePoint(0.7), pricePoint(0.62)],
+      condition: { liquidity: 25000, endTime: '2026-10-22T16:00:00Z' } as any,
+    });
+
+    expect(context.sidePrice).toBeCloseTo(0.38);
+    expect(context.spread).toBeCloseTo(0.04);
+    expect(context.priceChange24h).toBeCloseTo(0.08);
+    expect(context.liquidity).toBe(25000);
+    expect(context.endTime).toEqual(new Date('2026-10-22T16:00:00Z'));
+  });
+
+  it('should fall back to the last trade and skip what is unavailable', () => {
+    const context = buildMarketContext({ side: 'YES', wallets: [] as any }, { history: [pricePoint(0.55)] });
+
+    expect(context.sidePrice).toBe(0.55);
+    expect(context.priceChange24h).toBeUndefined();
+    expect(context.spread).toBeUndefined();
+    expect(buildMarketContext({ side: 'YES', wallets: [] as any }, {}).sidePrice).toBeUndefined();
+  });
+
+  it('should weight the consensus entry price by shares', () => {
+    expect(calculateAverageEntryPrice(WALLETS)).toBeCloseTo(0.55);
+    expect(calculateAverageEntryPrice([{ shares: 500 }])).toBeUndefined();
+  });
+
+  it('should format time to close and sparklines', () => {
+    expect(formatTimeToEnd(new Date('2026-10-22T16:00:00Z'), NOW)).toBe('3d 4h');
+    expect(formatTimeToEnd(new Date('2026-10-19T17:20:00Z'), NOW)).toBe('5h 20m');
+    expect(formatTimeToEnd(new Date('2026-10-19T11:00:00Z'), NOW)).toBe('closed');
+    expect(renderSparkline([0.1, 0.8, 0.3])).toBe('▁█▃');
+    expect(renderSparkline([0.5, 0.5])).toBe('▄▄');
+  });
+});
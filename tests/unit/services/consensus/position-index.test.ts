@@ -0,0 +1,55 @@
+import { PositionIndex } from '@/services/consensus/position-index';
+import { WalletPosition } from '@/services/consensus/consensus-detector';
+
+function createPosition(wallet: string, conditionId: string, netShares = 10000): WalletPosition {
+  return {
+    walletId: wallet,
+    walletAddress: `0x${wallet}`,
+    walletAlias: wallet,
+    conditionId,
+    marketTitle: `Market ${conditionId}`,
+    yesShares: Math.max(netShares, 0),
+    noShares: Math.max(-netShares, 0),
+    yesValue: 5000,
+    noValue: 0,
+    netShares,
+    netValue: 5000,
+    portfolioValue: 100000,
+    portfolioPercent: 5,
+    side: netShares >= 0 ? 'YES' : 'NO',
+  };
+}
+
+describe('Position Index', () => {
+  it('should report every market of a newly indexed wallet', () => {
+    const index = new PositionIndex();
+    const affected = index.update('0xAAA', [createPosition('aaa', 'cond1'), createPosition('aaa', 'cond2')], 'trade1');
+
+    expect(affected.sort()).toEqual(['cond1', 'cond2']);
+    expect(index.has('0xaaa')).toBe(true);
+    expect(index.getMarker('0xaaa')).toBe('trade1');
+  });
+
+  it('should only report markets whose position changed', () => {
+    const index = new PositionIndex();
+    index.update('0xaaa', [createPosition('aaa', 'cond1'), createPosition('aaa', 'cond2')]);
+
+    expect(index.update('0xaaa', [createPosition('aaa', 'cond1'), createPosition('aaa', 'cond2')])).toEqual([]);
+    expect(index.update('0xaaa', [createPosition('aaa', 'cond1', -4000), createPosition('aaa', 'cond2')])).toEqual(['cond1']);
+    expect(index.update('0xaaa', [createPosition('aaa', 'cond1', -4000), createPosition('aaa', 'cond3')]).sort())
+      .toEqual(['cond2', 'cond3']);
+  });
+
+  it('should return positions by market and drop removed wallets', () => {
+    const index = new PositionIndex();
+    index.update('0xaaa', [createPosition('aaa', 'cond1'), createPosition('aaa', 'cond2')]);
+    index.update('0xbbb', [createPosition('bbb', 'cond1')]);
+
+    expect(index.getPositions(['cond1']).map(p => p.walletAlias).sort()).toEqual(['aaa', 'bbb']);
+    expect(index.getPositions()).toHaveLength(3);
+
+    expect(index.removeWallet('0xaaa').sort()).toEqual(['cond1', 'cond2']);
+    expect(index.getPositions(['cond1', 'cond2']).map(p => p.walletAlias)).toEqual(['bbb']);
+    expect(index.size).toBe(1);
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  TrackedSignal,
+  calculateSignalRoi,
+  evaluateSignal,
+  findEntryPrice,
+  getSidePrice,
+  recalibrateThresholds,
+  summarizePerformance,
+} from '@/services/consensus/signal-performance';
+import {
+  DEFAULT_CONFIDENCE_THRESHOLDS,
+  getConfidenceLevel,
+  setConfidenceThresholds,
+} from '@/services/consensus/consensus-detector';
+
+function createSignal(overrides: Partial<TrackedSignal> = {}): TrackedSignal {
+  return {
+    signalId: 'sig1',
+    conditionId: 'cond1',
+    marketTitle: 'Test Market',
+    side: 'YES',
+    walletCount: 3,
+    confidenceScore: 70,
+    confidenceLevel: 'HIGH',
+    marketCategory: 'Politics',
+    entryPrice: 0.5,
+    lastPrice: 1,
+    status: 'WON',
+    detectedAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('Signal Performance', () => {
+  afterEach(() => {
+    setConfidenceThresholds(DEFAULT_CONFIDENCE_THRESHOLDS);
+  });
+
+  it('should price the consensus side from the price history at detection', () => {
+    const points = [
+      { timestamp: '2026-10-01T02:00:00Z', price: 0.6 },
+      { timestamp: '2026-09-30T23:00:00Z', price: 0.4 },
+      { timestamp: '2026-10-01T01:00:00Z', price: 0.55 },
+    ];
+
+    expect(findEntryPrice(points, new Date('2026-10-01T00:30:00Z'))).toBe(0.55);
+    expect(findEntryPrice(points, new Date('2026-10-02T00:00:00Z'))).toBe(0.6);
+    expect(findEntryPrice([], new Date())).toBeUndefined();
+    expect(getSidePrice(0.3, 'NO')).toBeCloseTo(0.7);
+  });
+
+  it('should settle signals only once their market resolves', () => {
+    expect(evaluateSignal('YES', 0.995, false)).toEqual({ status: 'OPEN', lastPrice: 0.995 });
+    expect(evaluateSignal('YES', 0.995, true)).toEqual({ status: 'WON', lastPrice: 1 });
+    expect(evaluateSignal('NO', 0.005, true)).toEqual({ status: 'LOST', lastPrice: 0 });
+    expect(evaluateSignal('NO', 0.6, false, 'No')).toEqual({ status: 'WON', lastPrice: 1 });
+    expect(calculateSignalRoi({ entryPrice: 0.5, lastPrice: 1 })).toBe(100);
+  });
+
+  it('should report hit rate and ROI by confidence, wallet count and category', () => {
+    const summary = summarizePerformance([
+      createSignal(),
+      createSignal({ signalId: 'sig2', lastPrice: 0, status: 'LOST', walletCount: 7 }),
+      createSignal({ signalId: 'sig3', confidenceLevel: 'VERY_HIGH', marketCategory: undefined, lastPrice: 0.6, status: 'OPEN' }),
+      createSignal({ signalId: 'sig4', entryPrice: undefined }),
+    ]);
+
+    expect(summary.overall).toMatchObject({ signals: 3, resolved: 2, wins: 1, hitRate: 0.5, avgRoi: 0 });
+    expect(summary.overall.openRoi).toBeCloseTo(20);
+    expect(summary.byConfidence.map(g => g.label)).toEqual(['VERY_HIGH', 'HIGH']);
+    expect(summary.byWalletCount.map(g => g.label)).toEqual(['3', '6+']);
+    expect(summary.byCategory.find(g => g.label === 'Other')?.signals).toBe(1);
+  });
+
+  it('should move thresholds to where the track record meets each target hit rate', () => {
+    const signals = [
+      ...Array.from({ length: 10 }, (_, i) => ({ confidenceScore: 30, status: i < 3 ? 'WON' as const : 'LOST' as const })),
+      ...Array.from({ length: 10 }, () => ({ confidenceScore: 50, status: 'WON' as const })),
+    ];
+
+    const thresholds = recalibrateThresholds(signals, DEFAULT_CONFIDENCE_THRESHOLDS, 10);
+    expect(thresholds).toEqual({ veryHigh: 35, high: 20, medium: 20 });
+
+    setConfidenceThresholds(thresholds);
+    expect(getConfidenceLevel(50)).toBe('VERY_HIGH');
+    expect(getConfidenceLevel(30)).toBe('HIGH');
+
+    expect(recalibrateThresholds(signals, DEFAULT_CONFIDENCE_THRESHOLDS, 50)).toEqual(DEFAULT_CONFIDENCE_THRESHOLDS);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  getMirrorOrder,
+  simulateFill,
+  parseCopyRatio,
+  OrderBookDepth,
+} from '@/services/copy-trading/copy-simulator';
+import { PositionChange } from '@/services/wallet-tracker/position-diff-detector';
+
+function createChange(overrides: Partial<PositionChange> = {}): PositionChange {
+  return {
+    type: 'BUY',
+    conditionId: 'cond1',
+    asset: 'asset1',
+    title: 'Test Market',
+    eventSlug: 'test-market',
+    outcome: 'Yes',
+    deltaShares: 1000,
+    price: 0.5,
+    totalValue: 500,
+    ...overrides,
+  };
+}
+
+const BOOK: OrderBookDepth = {
+  bids: [
+    { price: '0.48', size: '50' },
+    { price: '0.49', size: '50' },
+  ],
+  asks: [
+    { price: '0.52', size: '60' },
+    { price: '0.50', size: '40' },
+  ],
+};
+
+describe('Copy Simulator', () => {
+  it('should size buys by the ratio and cap sells at the held shares', () => {
+    expect(getMirrorOrder(createChange(), 0.1, 0)).toEqual({ side: 'BUY', shares: 100 });
+    expect(getMirrorOrder(createChange({ type: 'SELL', deltaShares: -1000 }), 0.1, 30))
+      .toEqual({ side: 'SELL', shares: 30 });
+    expect(getMirrorOrder(createChange({ type: 'CLOSED', deltaShares: -200 }), 0.1, 75))
+      .toEqual({ side: 'SELL', shares: 75 });
+    expect(getMirrorOrder(createChange({ type: 'SELL', deltaShares: -1000 }), 0.1, 0)).toBeNull();
+  });
+
+  it('should walk the book best price first and charge the fee on notional', () => {
+    const fill = simulateFill({ side: 'BUY', shares: 100 }, BOOK, 0.5, 10);
+
+    // 40 @ 0.50 + 60 @ 0.52
+    expect(fill.shares).toBe(100);
+    expect(fill.price).toBeCloseTo(0.512, 6);
+    expect(fill.slippageBps).toBeCloseTo(240, 6);
+    expect(fill.fee).toBeCloseTo(0.0512, 6);
+    expect(fill.priceSource).toBe('book');
+
+    const sell = simulateFill({ side: 'SELL', shares: 60 }, BOOK, 0.5, 0);
+    // 50 @ 0.49 + 10 @ 0.48
+    expect(sell.price).toBeCloseTo((50 * 0.49 + 10 * 0.48) / 60, 6);
+    expect(sell.slippageBps).toBeGreaterThan(0);
+  });
+
+  it('should fill only what the book holds, or at the source price without a book', () => {
+    expect(simulateFill({ side: 'BUY', shares: 500 }, BOOK, 0.5, 0).shares).toBe(100);
+
+    const noBook = simulateFill({ side: 'BUY', shares: 100 }, null, 0.5, 10);
+    expect(noBook).toMatchObject({ shares: 100, price: 0.5, slippageBps: 0, priceSource: 'source' });
+    expect(noBook.fee).toBeCloseTo(0.05, 6);
+  });
+
+  it('should parse copy ratios as percentages', () => {
+    expect(parseCopyRatio('10%')).toBeCloseTo(0.1);
+    expect(parseCopyRatio('2.5')).toBeCloseTo(0.025);
+    expect(parseCopyRatio('0%')).toBeNull();
+    expect(parseCopyRatio('600%')).toBeNull();
+    expect(parseCopyRatio('abc')).toBeNull();
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  InlineRateLimiter,
+  buildMarketResult,
+  buildWalletResult,
+  matchTrackedWallets,
+} from '@/services/inline-query/inline-results';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('Inline Results', () => {
+  it('should rate limit each user within a fixed window', () => {
+    const limiter = new InlineRateLimiter(2, 60000);
+    const start = NOW.getTime();
+
+    expect(limiter.isLimited(1, start)).toBe(false);
+    expect(limiter.isLimited(1, start + 1000)).toBe(false);
+    expect(limiter.isLimited(1, start + 2000)).toBe(true);
+    expect(limiter.isLimited(2, start + 2000)).toBe(false);
+    expect(limiter.secondsUntilReset(1, start + 2000)).toBe(58);
+    expect(limiter.isLimited(1, start + 60000)).toBe(false);
+  });
+
+  it('should match tracked wallets by alias or address', () => {
+    const wallets = [
+      { address: '0xAbC0000000000000000000000000000000000001', alias: 'Whale' },
+      { address: '0x0000000000000000000000000000000000000def' },
+    ];
+
+    expect(matchTrackedWallets(wallets, 'whale')).toEqual([wallets[0]]);
+    expect(matchTrackedWallets(wallets, 'DEF')).toEqual([wallets[1]]);
+    expect(matchTrackedWallets(wallets, '  ')).toEqual(wallets);
+    expect(matchTrackedWallets(wallets, 'nobody')).toEqual([]);
+  });
+
+  it('should build a market card with price, volume and time to close', () => {
+    const result = buildMarketResult({
+      conditionId: '0xmarket',
+      question: 'Will *rates* fall?',
+      volume: 1500000,
+      liquidity: 25000,
+      price: 0.62,
+      endTime: new Date('2026-10-21T15:00:00Z'),
+    }, 0, NOW);
+
+    expect(result.id).toBe('m0');
+    expect(result.description).toBe('YES 62% • vol $1.5M • ends in 2d 3h');
+    expect('message_text' in result.input_message_content && result.input_message_content.message_text).toBe(
+      '📊 *Will \\*rates\\* fall?*\n' +
+      '━━━━━━━━━━━━━━━━━━━━━━\n\n' +
+      'YES 62% • NO 38%\n' +
+      '💰 Volume: $1.5M\n' +
+      '💧 Liquidity: $25.0K\n' +
+      '⏰ Ends in 2d 3h\n' +
+      '\n`0xmarket`'
+    );
+  });
+
+  it('should build a wallet card with signed P&L', () => {
+    const result = buildWalletResult({
+      address: '0x1234567890abcdef1234567890abcdef12345678',
+      positionCount: 2,
+      totalValue: 5400,
+      cashPnl: -320,
+      topPositions: [{ title: 'Fed cuts in December', value: 4000 }],
+    }, 1);
+
+    expect(result.id).toBe('w1');
+    expect(result.title).toBe('👛 0x1234...5678');
+    expect(result.description).toBe('2 position(s) • $5.4K • P&L -$320');
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  calculateConsistency,
+  rankLeaderboard,
+  parseLeaderboardMetric,
+  LeaderboardEntry,
+} from '@/services/leaderboard/leaderboard-scoring';
+import { EquityPoint } from '@/services/pnl/pnl-engine';
+
+function createCurve(dailyPnl: number[]): EquityPoint[] {
+  let equity = 0;
+  return [0, ...dailyPnl].map((pnl, index) => {
+    equity += pnl;
+    return { date: `2024-01-${String(index + 1).padStart(2, '0')}`, realizedPnl: equity, unrealizedPnl: 0, equity };
+  });
+}
+
+function createEntry(overrides: Partial<LeaderboardEntry>): LeaderboardEntry {
+  return {
+    address: '0xwallet',
+    name: 'Wallet',
+    source: 'smart',
+    pnl7d: 0,
+    pnl30d: 0,
+    pnlAll: 0,
+    roi: 0,
+    winRate: 0,
+    closedPositions: 10,
+    consistency: 0,
+    openValue: 0,
+    tradeCount: 10,
+    ...overrides,
+  };
+}
+
+describe('Leaderboard Scoring', () => {
+  describe('calculateConsistency', () => {
+    it('should favour steady gains over volatile ones with the same total', () => {
+      const steady = calculateConsistency(createCurve([10, 12, 9, 11, 10, 8, 12, 10]));
+      const volatile = calculateConsistency(createCurve([100, -80, 90, -70, 60, -40, 50, -28]));
+
+      expect(steady).toBeGreaterThan(volatile);
+      expect(steady).toBeGreaterThan(0);
+    });
+
+    it('should return 0 without enough history', () => {
+      expect(calculateConsistency(createCurve([10, 20]))).toBe(0);
+    });
+  });
+
+  describe('rankLeaderboard', () => {
+    it('should sort by the chosen metric, best first', () => {
+      const ranked = rankLeaderboard(
+        [createEntry({ name: 'A', roi: 5 }), createEntry({ name: 'B', roi: 20 })],
+        'roi'
+      );
+
+      expect(ranked.map(e => e.name)).toEqual(['B', 'A']);
+    });
+
+    it('should rank wallets with too few closed positions last by win rate', () => {
+      const ranked = rankLeaderboard(
+        [
+          createEntry({ name: 'Lucky', winRate: 1, closedPositions: 2 }),
+          createEntry({ name: 'Proven', winRate: 0.6, closedPositions: 40 }),
+        ],
+        'winRate'
+      );
+
+      expect(ranked.map(e => e.name)).toEqual(['Proven', 'Lucky']);
+    });
+  });
+
+  it('should parse metric aliases and default to 30d PnL', () => {
+    expect(parseLeaderboardMetric('7d')).toBe('pnl7d');
+    expect(parseLeaderboardMetric('sharpe')).toBe('consistency');
+    expect(parseLeaderboardMetric(undefined)).toBe('pnl30d');
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  MarketListing,
+  applyMarketFilters,
+  filterClosingWithin,
+  normalizeMarketListings,
+  parseMarketFilters,
+} from '@/services/market-discovery/market-filters';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function listing(overrides: Partial<MarketListing>): MarketListing {
+  return { conditionId: '0x1', question: 'Market', ...overrides };
+}
+
+describe('Market Filters', () => {
+  it('should split filters from search terms', () => {
+    expect(parseMarketFilters(['fed', 'rates', 'cat=economy', 'vol=1.5m', 'liq=$10k', 'prob=20-80'])).toEqual({
+      terms: ['fed', 'rates'],
+      filters: { category: 'economy', minVolume: 1500000, minLiquidity: 10000, minProbability: 0.2, maxProbability: 0.8 },
+    });
+    expect(parseMarketFilters(['prob=70-'])?.filters).toEqual({ minProbability: 0.7, maxProbability: undefined });
+    expect(parseMarketFilters(['vol=lots'])).toBeNull();
+    expect(parseMarketFilters(['prob=80-20'])).toBeNull();
+    expect(parseMarketFilters(['sort=volume'])).toBeNull();
+  });
+
+  it('should filter by category, volume, liquidity and probability band', () => {
+    const listings = [
+      listing({ conditionId: 'a', category: 'US Politics', volume: 200000, liquidity: 20000, price: 0.55 }),
+      listing({ conditionId: 'b', category: 'Sports', volume: 500000, liquidity: 50000, price: 0.9 }),
+      listing({ conditionId: 'c', category: 'Politics', volume: 50000, price: 0.4 }),
+      listing({ conditionId: 'd', category: 'Politics', volume: 300000, liquidity: 30000 }),
+    ];
+
+    const ids = (filters: Parameters<typeof applyMarketFilters>[1]) =>
+      applyMarketFilters(listings, filters).map(l => l.conditionId);
+
+    expect(ids({ category: 'politics' })).toEqual(['a', 'c', 'd']);
+    expect(ids({ minVolume: 100000, minLiquidity: 25000 })).toEqual(['b', 'd']);
+    expect(ids({ minProbability: 0.2, maxProbability: 0.8 })).toEqual(['a', 'c']);
+  });
+
+  it('should keep open markets ending within the window, soonest first', () => {
+    const listings = [
+      listing({ conditionId: 'later', endTime: new Date('2026-10-20T06:00:00Z') }),
+      listing({ conditionId: 'soon', endTime: new Date('2026-10-19T14:00:00Z') }),
+      listing({ conditionId: 'ended', endTime: new Date('2026-10-19T11:00:00Z') }),
+      listing({ conditionId: 'far', endTime: new Date('2026-10-25T00:00:00Z') }),
+      listing({ conditionId: 'undated' }),
+    ];
+
+    expect(filterClosingWithin(listings, 24, NOW).map(l => l.conditionId)).toEqual(['soon', 'later']);
+  });
+
+  it('should normalize wrapped responses and events', () => {
+    const listings = normalizeMarketListings({
+      events: [{
+        category: 'Crypto',
+        markets: [{
+          conditionId: '0xabc',
+          question: 'BTC above 100k?',
+          volumeNum: '125000.5',
+          liquidity: 8000,
+          outcomePrices: '["0.62","0.38"]',
+          endDate: '2026-10-20T00:00:00Z',
+        }],
+      }],
+    });
+
+    expect(listings).toEqual([{
+      conditionId: '0xabc',
+      question: 'BTC above 100k?',
+      category: 'Crypto',
+      volume: 125000.5,
+      volume24h: undefined,
+      liquidity: 8000,
+      price: 0.62,
+      endTime: new Date('2026-10-20T00:00:00Z'),
+    }]);
+    expect(normalizeMarketListings([{ id: '0x1', title: 'T', tokens: [{ price: 0.3 }] }])[0].price).toBe(0.3);
+    expect(normalizeMarketListings(null)).toEqual([]);
+  });
+});
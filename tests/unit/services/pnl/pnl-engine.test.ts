@@ -0,0 +1,107 @@
+import {
+  calculateWalletPnl,
+  buildEquityCurve,
+  getEquityChange,
+  PnlTrade,
+} from '@/services/pnl/pnl-engine';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 1, 12);
+
+function createTrade(overrides: Partial<PnlTrade>): PnlTrade {
+  return {
+    conditionId: 'cond1',
+    outcome: 'Yes',
+    side: 'BUY',
+    size: 100,
+    price: 0.5,
+    timestamp: START,
+    title: 'Test Market',
+    ...overrides,
+  };
+}
+
+describe('PnL Engine', () => {
+  describe('calculateWalletPnl', () => {
+    const trades = [
+      createTrade({ size: 100, price: 0.4, timestamp: START }),
+      createTrade({ size: 100, price: 0.6, timestamp: START + 1000 }),
+      createTrade({ side: 'SELL', size: 100, price: 0.7, timestamp: START + 2000 }),
+    ];
+
+    it('should match sells against the oldest lots under FIFO', () => {
+      const report = calculateWalletPnl(trades, { method: 'FIFO' });
+
+      expect(report.realizedPnl).toBeCloseTo(30); // (0.7 - 0.4) * 100
+      expect(report.openCostBasis).toBeCloseTo(60);
+      expect(report.positions[0].avgCost).toBeCloseTo(0.6);
+    });
+
+    it('should use a single averaged lot under average cost', () => {
+      const report = calculateWalletPnl(trades, { method: 'AVERAGE' });
+
+      expect(report.realizedPnl).toBeCloseTo(20); // (0.7 - 0.5) * 100
+      expect(report.openCostBasis).toBeCloseTo(50);
+    });
+
+    it('should mark open lots to the current price', () => {
+      const report = calculateWalletPnl(trades, {
+        method: 'FIFO',
+        marks: new Map([['cond1:Yes', 0.8]]),
+      });
+
+      expect(report.unrealizedPnl).toBeCloseTo(20); // (0.8 - 0.6) * 100
+      expect(report.totalPnl).toBeCloseTo(50);
+      expect(report.positions[0].markSource).toBe('current');
+    });
+
+    it('should book realized PnL when a market resolves', () => {
+      const report = calculateWalletPnl(
+        [
+          createTrade({ outcome: 'Yes', size: 100, price: 0.3 }),
+          createTrade({ conditionId: 'cond2', outcome: 'No', size: 50, price: 0.6 }),
+        ],
+        {
+          resolutions: [
+            { conditionId: 'cond1', winningOutcome: 'Yes', resolvedAt: START + DAY },
+            { conditionId: 'cond2', winningOutcome: 'Yes', resolvedAt: START + DAY },
+          ],
+        }
+      );
+
+      expect(report.realizedPnl).toBeCloseTo(70 - 30);
+      expect(report.unrealizedPnl).toBeCloseTo(0);
+      expect(report.closedPositions).toBe(2);
+      expect(report.winningPositions).toBe(1);
+      expect(report.winRate).toBeCloseTo(0.5);
+    });
+
+    it('should track sells that predate the trade history', () => {
+      const report = calculateWalletPnl([
+        createTrade({ size: 50, price: 0.5 }),
+        createTrade({ side: 'SELL', size: 80, price: 0.6, timestamp: START + 1000 }),
+      ]);
+
+      expect(report.realizedPnl).toBeCloseTo(5);
+      expect(report.unmatchedSellShares).toBeCloseTo(30);
+    });
+  });
+
+  describe('buildEquityCurve', () => {
+    it('should produce one point per day with cumulative equity', () => {
+      const curve = buildEquityCurve(
+        [
+          createTrade({ size: 100, price: 0.5, timestamp: START }),
+          createTrade({ side: 'SELL', size: 100, price: 0.7, timestamp: START + 2 * DAY }),
+        ],
+        { now: START + 3 * DAY }
+      );
+
+      expect(curve.map(p => p.date)).toEqual(['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04']);
+      expect(curve[0].equity).toBeCloseTo(0);
+      expect(curve[2].realizedPnl).toBeCloseTo(20);
+      expect(curve[3].equity).toBeCloseTo(20);
+      expect(getEquityChange(curve, 2)).toBeCloseTo(20);
+    });
+  });
+});
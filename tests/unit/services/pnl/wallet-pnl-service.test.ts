@@ -0,0 +1,102 @@
+import {
+  WalletPnlService,
+  findUnsettledConditions,
+  resolutionFromMarket,
+} from '@/services/pnl/wallet-pnl-service';
+import { PnlTrade } from '@/services/pnl/pnl-engine';
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+import { PolymarketPosition, PolymarketTransaction } from '@/types/polymarket';
+
+const resolutionRepository = {
+  recordResolution: jest.fn(),
+  getResolutions: jest.fn(),
+};
+
+jest.mock('@/services/pnl/market-resolution-repository', () => ({
+  getMarketResolutionRepository: () => resolutionRepository,
+}));
+
+function createFill(conditionId: string, side: 'BUY' | 'SELL', size: number, price: number): PolymarketTransaction {
+  return {
+    id: `${conditionId}-${side}-${size}`,
+    user: '0xwallet',
+    type: side,
+    conditionId,
+    outcome: 'Yes',
+    amount: size,
+    size,
+    price,
+    timestamp: '2026-05-01T00:00:00Z',
+    hash: '0xhash',
+    title: `Market ${conditionId}`,
+  };
+}
+
+function createTrade(conditionId: string, side: 'BUY' | 'SELL', size: number): PnlTrade {
+  return { conditionId, outcome: 'Yes', side, size, price: 0.5, timestamp: 0 };
+}
+
+describe('Wallet PnL Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resolutionRepository.getResolutions.mockResolvedValue([]);
+  });
+
+  it('should find open trades with no current position and no resolution', () => {
+    const trades = [
+      createTrade('redeemed', 'BUY', 100),
+      createTrade('held', 'BUY', 100),
+      createTrade('sold', 'BUY', 100),
+      createTrade('sold', 'SELL', 100),
+      createTrade('resolved', 'BUY', 100),
+    ];
+    const positions = [{ conditionId: 'held' } as PolymarketPosition];
+    const resolutions = [{ conditionId: 'resolved', winningOutcome: 'Yes', resolvedAt: 0 }];
+
+    expect(findUnsettledConditions(trades, positions, resolutions)).toEqual(['redeemed']);
+  });
+
+  it('should read the winner of a closed Gamma market', () => {
+    const market = {
+      conditionId: 'cond1',
+      closed: true,
+      outcomes: '["Yes","No"]',
+      outcomePrices: '["0","1"]',
+      closedTime: '2026-05-02T00:00:00Z',
+    };
+
+    expect(resolutionFromMarket(market)).toEqual({
+      conditionId: 'cond1',
+      winningOutcome: 'No',
+      resolvedAt: Date.parse('2026-05-02T00:00:00Z'),
+    });
+    expect(resolutionFromMarket({ ...market, closed: false })).toBeNull();
+    expect(resolutionFromMarket({ ...market, outcomePrices: '["0.5","0.5"]' })).toBeNull();
+  });
+
+  it('should settle lots of redeemed positions from the market status', async () => {
+    const restClient = {
+      getTradesFromDataAPI: jest.fn().mockResolvedValue([createFill('redeemed', 'BUY', 100, 0.4)]),
+      getPositionsFromDataAPI: jest.fn().mockResolvedValue([]),
+      getGammaMarketByCondition: jest.fn().mockResolvedValue({
+        conditionId: 'redeemed',
+        question: 'Redeemed market',
+        closed: true,
+        outcomes: '["Yes","No"]',
+        outcomePrices: '["1","0"]',
+        closedTime: '2026-05-02T00:00:00Z',
+      }),
+    };
+    const service = new WalletPnlService(restClient as unknown as PolymarketRestClient);
+
+    const { report } = await service.getWalletPnl('0xwallet');
+
+    expect(restClient.getGammaMarketByCondition).toHaveBeenCalledWith('redeemed');
+    expect(resolutionRepository.recordResolution).toHaveBeenCalledWith(expect.objectContaining({
+      conditionId: 'redeemed',
+      winningOutcome: 'Yes',
+    }));
+    expect(report.realizedPnl).toBeCloseTo(60);
+    expect(report.unrealizedPnl).toBe(0);
+  });
+});
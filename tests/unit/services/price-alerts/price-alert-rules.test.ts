@@ -0,0 +1,50 @@
+import {
+  evaluatePriceAlert,
+  getArmedStatus,
+  parseDirection,
+  parsePriceThreshold,
+  PriceAlertState,
+} from '@/services/price-alerts/price-alert-rules';
+
+const ABOVE_70: PriceAlertState = { direction: 'above', threshold: 0.7, status: 'ARMED' };
+const BELOW_30: PriceAlertState = { direction: 'below', threshold: 0.3, status: 'ARMED' };
+
+describe('Price Alert Rules', () => {
+  it('should fire an armed alert when the price reaches the threshold', () => {
+    expect(evaluatePriceAlert(ABOVE_70, 0.69)).toBeNull();
+    expect(evaluatePriceAlert(ABOVE_70, 0.7)).toBe('FIRE');
+    expect(evaluatePriceAlert(BELOW_30, 0.31)).toBeNull();
+    expect(evaluatePriceAlert(BELOW_30, 0.25)).toBe('FIRE');
+  });
+
+  it('should not fire again until re-armed', () => {
+    const fired = { ...ABOVE_70, status: 'TRIGGERED' as const };
+    expect(evaluatePriceAlert(fired, 0.5)).toBeNull();
+    expect(evaluatePriceAlert(fired, 0.8)).toBeNull();
+  });
+
+  it('should wait for the price to clear the hysteresis band before arming', () => {
+    expect(getArmedStatus(ABOVE_70, 0.71)).toBe('RESETTING');
+    expect(getArmedStatus(ABOVE_70, 0.65)).toBe('ARMED');
+    expect(getArmedStatus(ABOVE_70)).toBe('ARMED');
+
+    const resetting = { ...ABOVE_70, status: 'RESETTING' as const };
+    expect(evaluatePriceAlert(resetting, 0.72)).toBeNull();
+    expect(evaluatePriceAlert(resetting, 0.69)).toBeNull();
+    expect(evaluatePriceAlert(resetting, 0.68)).toBe('ARM');
+    expect(evaluatePriceAlert({ ...BELOW_30, status: 'RESETTING' }, 0.33, 0.05)).toBeNull();
+    expect(evaluatePriceAlert({ ...BELOW_30, status: 'RESETTING' }, 0.36, 0.05)).toBe('ARM');
+  });
+
+  it('should parse prices and directions', () => {
+    expect(parsePriceThreshold('70%')).toBe(0.7);
+    expect(parsePriceThreshold('70c')).toBe(0.7);
+    expect(parsePriceThreshold('70')).toBe(0.7);
+    expect(parsePriceThreshold('0.25')).toBe(0.25);
+    expect(parsePriceThreshold('100%')).toBeNull();
+    expect(parsePriceThreshold('high')).toBeNull();
+    expect(parseDirection('Above')).toBe('above');
+    expect(parseDirection('<')).toBe('below');
+    expect(parseDirection('sideways')).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+import { Telegraf, Context } from 'telegraf';
+import { PriceAlertService } from '@/services/price-alerts/price-alert-service';
+import { PriceAlert } from '@/services/price-alerts/price-alert-repository';
+import { PolymarketRestClient } from '@/services/polymarket/rest-client';
+
+const repository = {
+  getPendingAlerts: jest.fn(),
+  setStatus: jest.fn(),
+  markTriggered: jest.fn(),
+};
+
+jest.mock('@/services/price-alerts/price-alert-repository', () => ({
+  getPriceAlertRepository: () => repository,
+}));
+
+const CONDITION_ID = '0xcondition';
+
+function createAlert(overrides: Partial<PriceAlert> = {}): PriceAlert {
+  return {
+    id: 'alert1',
+    telegramId: 42,
+    conditionId: CONDITION_ID,
+    marketTitle: 'Will it_rain?',
+    direction: 'above',
+    threshold: 0.7,
+    status: 'ARMED',
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function priceUpdate(price: number) {
+  return { conditionId: CONDITION_ID, price, probability: price, timestamp: '2026-10-19T12:00:00Z' };
+}
+
+describe('Price Alert Service', () => {
+  let sendMessage: jest.Mock;
+  let restClient: { getMarketData: jest.Mock };
+  let service: PriceAlertService;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    repository.getPendingAlerts.mockResolvedValue([createAlert()]);
+    repository.setStatus.mockResolvedValue(true);
+    repository.markTriggered.mockResolvedValue(true);
+
+    sendMessage = jest.fn().mockResolvedValue(undefined);
+    restClient = { getMarketData: jest.fn() };
+    service = new PriceAlertService(
+      { telegram: { sendMessage } } as unknown as Telegraf<Context>,
+      restClient as unknown as PolymarketRestClient
+    );
+
+    await service.start();
+    service.stop();
+  });
+
+  it('should fire an alert once when the price crosses', async () => {
+    await service.handleMarketData(priceUpdate(0.65));
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    await service.handleMarketData(priceUpdate(0.72));
+    await service.handleMarketData(priceUpdate(0.75));
+
+    expect(repository.markTriggered).toHaveBeenCalledTimes(1);
+    expect(repository.markTriggered).toHaveBeenCalledWith('alert1', 0.72);
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage.mock.calls[0][1]).toContain('Will it\\_rain?');
+    expect(service.getPendingCount()).toBe(0);
+  });
+
+  it('should not notify when the alert was already triggered elsewhere', async () => {
+    repository.markTriggered.mockResolvedValue(false);
+
+    await service.handleMarketData(priceUpdate(0.72));
+
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should arm a re-armed alert only after the price clears the hysteresis band', async () => {
+    await service.handleMarketData(priceUpdate(0.72));
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+
+    // Still past the threshold when re-armed
+    restClient.getMarketData.mockResolvedValue([{ price: 0.71 }]);
+    const rearmed = await service.rearmAlert(createAlert({ status: 'TRIGGERED' }));
+    expect(rearmed?.status).toBe('RESETTING');
+
+    await service.handleMarketData(priceUpdate(0.74));
+    await service.handleMarketData(priceUpdate(0.69));
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+
+    await service.handleMarketData(priceUpdate(0.68));
+    expect(repository.setStatus).toHaveBeenLastCalledWith('alert1', 'ARMED');
+
+    await service.handleMarketData(priceUpdate(0.7));
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+  });
+});
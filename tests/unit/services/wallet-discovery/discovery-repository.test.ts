@@ -0,0 +1,82 @@
+import { transaction } from '@/services/database/connection-pool';
+import { DiscoveryRepository } from '@/services/wallet-discovery/discovery-repository';
+
+jest.mock('@/services/database/connection-pool', () => ({
+  query: jest.fn(),
+  transaction: jest.fn(),
+}));
+
+const mockTransaction = transaction as jest.MockedFunction<typeof transaction>;
+
+const ADDRESS = '0x1234567890abcdef1234567890abcdef12345678';
+
+function createRow(action: 'ADD' | 'DEMOTE', status: string) {
+  return {
+    id: 'change1',
+    run_id: 'run1',
+    wallet_address: ADDRESS,
+    alias: 'Sports_Sharp',
+    action,
+    reason: 'Top 10 in Sports by 30d PnL',
+    score: '0.82',
+    metrics: { category: 'Sports', rank: 3, pnl: 125000 },
+    source: 'leaderboard',
+    status,
+    created_at: new Date('2026-10-18T00:00:00Z'),
+    applied_at: status === 'APPLIED' ? new Date('2026-10-19T00:00:00Z') : null,
+  };
+}
+
+function mockClient(...results: Array<{ rows: unknown[] }>) {
+  const client = { query: jest.fn() };
+  results.forEach(result => client.query.mockResolvedValueOnce(result));
+  mockTransaction.mockImplementation(async (callback) => callback(client as never));
+  return client;
+}
+
+describe('Discovery Repository', () => {
+  const repository = new DiscoveryRepository();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should add the wallet to smart_wallets when a proposed addition is applied', async () => {
+    const client = mockClient({ rows: [createRow('ADD', 'APPLIED')] }, { rows: [] });
+
+    expect(await repository.resolveProposal('change1', true)).toBe(true);
+
+    expect(client.query).toHaveBeenCalledTimes(2);
+    expect(client.query.mock.calls[0][1]).toEqual(['change1', 'APPLIED']);
+    expect(client.query.mock.calls[1][0]).toContain('INSERT INTO smart_wallets');
+    expect(client.query.mock.calls[1][1]).toEqual([ADDRESS, 'Sports_Sharp', 'Sports', 3, 125000]);
+  });
+
+  it('should deactivate the wallet when a proposed demotion is applied', async () => {
+    const client = mockClient({ rows: [createRow('DEMOTE', 'APPLIED')] }, { rows: [] });
+
+    expect(await repository.resolveProposal('change1', true)).toBe(true);
+
+    expect(client.query.mock.calls[1][0]).toContain('SET is_active = false');
+    expect(client.query.mock.calls[1][1]).toEqual([ADDRESS]);
+  });
+
+  it('should leave smart_wallets alone when a proposal is rejected', async () => {
+    const client = mockClient({ rows: [createRow('ADD', 'REJECTED')] });
+
+    expect(await repository.resolveProposal('change1', false)).toBe(true);
+
+    expect(client.query).toHaveBeenCalledTimes(1);
+    expect(client.query.mock.calls[0][1]).toEqual(['change1', 'REJECTED']);
+  });
+
+  it('should not resolve a change that is no longer proposed', async () => {
+    const client = mockClient({ rows: [] });
+
+    expect(await repository.resolveProposal('change1', true)).toBe(false);
+    expect(client.query).toHaveBeenCalledTimes(1);
+
+    mockTransaction.mockRejectedValueOnce(new Error('connection refused'));
+    expect(await repository.resolveProposal('change1', true)).toBe(false);
+  });
+});
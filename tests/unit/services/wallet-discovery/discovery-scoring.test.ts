@@ -0,0 +1,97 @@
+import {
+  getCandidateAlias,
+  getIneligibilityReasons,
+  mergeCandidates,
+  planRotation,
+  scoreCandidate,
+} from '@/services/wallet-discovery/discovery-scoring';
+import { DiscoveryCandidate } from '@/services/wallet-discovery/candidate-source';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function address(n: number): string {
+  return `0x${n.toString(16).padStart(40, '0')}`;
+}
+
+function createCandidate(n: number, overrides: Partial<DiscoveryCandidate> = {}): DiscoveryCandidate {
+  return {
+    address: address(n),
+    name: `Trader${n}`,
+    category: 'Politics',
+    rank: n,
+    pnl: 1000000,
+    winRate: 0.65,
+    positions: 1000,
+    lastActiveAt: new Date(NOW.getTime() - DAY_MS / 2),
+    ...overrides,
+  };
+}
+
+const OPTIONS = {
+  minPnl: 50000,
+  minWinRate: 0.55,
+  minPositions: 100,
+  maxInactiveDays: 30,
+  maxWallets: 3,
+};
+
+describe('Discovery Scoring', () => {
+  it('should score PnL, win rate, positions and recency', () => {
+    expect(scoreCandidate(createCandidate(1), NOW)).toBe(75);
+    expect(scoreCandidate(createCandidate(1, { lastActiveAt: undefined }), NOW)).toBe(65);
+    expect(scoreCandidate(createCandidate(1, { pnl: -5000, winRate: 0.4, positions: 5 }), NOW)).toBe(20);
+  });
+
+  it('should explain why a candidate is not eligible', () => {
+    const reasons = getIneligibilityReasons(
+      createCandidate(1, { winRate: 0.5, lastActiveAt: new Date(NOW.getTime() - 45 * DAY_MS) }),
+      OPTIONS,
+      NOW
+    );
+    expect(reasons).toEqual(['win rate 50% below 55%', 'no trades for 45 days']);
+  });
+
+  it('should keep the best-ranked category per address', () => {
+    const merged = mergeCandidates([
+      createCandidate(1, { category: 'Sports', rank: 40 }),
+      createCandidate(1, { category: 'Politics', rank: 4, address: address(1).toUpperCase().replace('0X', '0x') }),
+    ]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ address: address(1), category: 'Politics', rank: 4 });
+  });
+
+  it('should demote wallets that stopped qualifying and fill the freed slots by score', () => {
+    const plan = planRotation(
+      [
+        createCandidate(1),
+        createCandidate(2, { winRate: 0.5 }),
+        createCandidate(3, { pnl: 200000 }),
+        createCandidate(4, { pnl: 5000000 }),
+        createCandidate(5, { positions: 50 }),
+      ],
+      [
+        { address: address(1), alias: 'Whale1' },
+        { address: address(2), alias: 'Whale2' },
+        { address: address(9), alias: 'Quiet', lastActiveAt: new Date(NOW.getTime() - 60 * DAY_MS) },
+      ],
+      OPTIONS,
+      NOW
+    );
+
+    expect(plan.demotions.map(d => d.alias)).toEqual(['Whale2', 'Quiet']);
+    expect(plan.demotions[1].reason).toBe('No trades for 60 days');
+    expect(plan.additions.map(a => a.candidate.address)).toEqual([address(4), address(3)]);
+  });
+
+  it('should leave active wallets missing from the leaderboard alone unless inactive', () => {
+    const plan = planRotation([createCandidate(1)], [{ address: address(9), alias: 'Whale9' }], OPTIONS, NOW);
+    expect(plan.demotions).toHaveLength(0);
+    expect(plan.additions).toHaveLength(1);
+  });
+
+  it('should alias anonymous traders by address', () => {
+    expect(getCandidateAlias(createCandidate(1))).toBe('Trader1');
+    expect(getCandidateAlias(createCandidate(1, { name: '', address: `0xf705${'0'.repeat(36)}` }))).toBe('Anon_0xf705');
+  });
+});
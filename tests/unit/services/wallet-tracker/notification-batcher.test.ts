@@ -0,0 +1,120 @@
+import {
+  NotificationBatcher,
+  BatchedChange,
+  formatDigest,
+  getDigestPeriod,
+} from '@/services/wallet-tracker/notification-batcher';
+import { PositionChange } from '@/services/wallet-tracker/position-diff-detector';
+import { logger } from '@/utils/logger';
+
+jest.mock('@/utils/logger', () => ({
+  logger: { error: jest.fn(), warn: jest.fn(), info: jest.fn(), debug: jest.fn() },
+}));
+
+const WALLET = '0x1234567890abcdef1234567890abcdef12345678';
+
+function createItem(overrides: Partial<PositionChange> = {}, walletLabel = WALLET): BatchedChange {
+  return {
+    walletAddress: WALLET,
+    walletLabel,
+    change: {
+      type: 'BUY',
+      conditionId: 'cond1',
+      asset: 'asset1',
+      title: 'Test Market',
+      eventSlug: 'test-market',
+      outcome: 'Yes',
+      deltaShares: 1000,
+      price: 0.5,
+      totalValue: 500,
+      ...overrides,
+    },
+  };
+}
+
+describe('Notification Batcher', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('should send the first change at once and group the rest of the burst', async () => {
+    const sent: string[] = [];
+    const batcher = new NotificationBatcher({
+      windowMs: 30000,
+      maxBatchSize: 50,
+      send: async (_chatId, text) => { sent.push(text); },
+    });
+
+    await batcher.add(1, [createItem()]);
+    expect(sent).toHaveLength(1);
+
+    for (let i = 0; i < 29; i++) {
+      await batcher.add(1, [createItem({ conditionId: `cond${i}`, type: 'SELL' })]);
+    }
+    expect(sent).toHaveLength(1);
+    expect(batcher.getPendingCount()).toBe(29);
+
+    jest.advanceTimersByTime(30000);
+    await Promise.resolve();
+
+    expect(sent).toHaveLength(2);
+    expect(sent[1]).toContain('29 position changes');
+    expect(sent[1]).toContain('…and 14 more');
+  });
+
+  it('should flush early once the batch is full', async () => {
+    const sent: string[] = [];
+    const batcher = new NotificationBatcher({
+      windowMs: 30000,
+      maxBatchSize: 3,
+      send: async (_chatId, text) => { sent.push(text); },
+    });
+
+    await batcher.add(1, [createItem()]);
+    await batcher.add(1, [createItem(), createItem(), createItem()]);
+
+    expect(sent).toHaveLength(2);
+    expect(batcher.getPendingCount()).toBe(0);
+  });
+
+  it('should log grouped notifications that fail to send', async () => {
+    const send = jest.fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Forbidden: bot was blocked by the user'));
+    const batcher = new NotificationBatcher({ windowMs: 30000, maxBatchSize: 50, send });
+
+    await batcher.add(1, [createItem()]);
+    await batcher.add(1, [createItem({ type: 'SELL' })]);
+
+    await jest.advanceTimersByTimeAsync(30000);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(logger.error).toHaveBeenCalledWith('Failed to send batched notification', {
+      telegramId: 1,
+      error: 'Forbidden: bot was blocked by the user',
+    });
+  });
+
+  it('should summarize a digest per wallet', () => {
+    const text = formatDigest(
+      [
+        createItem({ type: 'NEW', totalValue: 1500 }, 'Whale_1'),
+        createItem({ type: 'SELL', totalValue: 200 }, 'Whale_1'),
+      ],
+      'daily'
+    );
+
+    expect(text).toContain('Daily Digest');
+    expect(text).toContain('Whale\\_1');
+    expect(text).toContain('Bought $1.5K');
+    expect(text).toContain('Sold $200');
+  });
+
+  it('should roll digest periods over on the hour and at the digest hour', () => {
+    const beforeDigestHour = Date.UTC(2024, 0, 2, 7, 59);
+    const afterDigestHour = Date.UTC(2024, 0, 2, 8, 0);
+
+    expect(getDigestPeriod('hourly', beforeDigestHour, 8)).toBe('2024-01-02T07');
+    expect(getDigestPeriod('daily', beforeDigestHour, 8)).toBe('2024-01-01');
+    expect(getDigestPeriod('daily', afterDigestHour, 8)).toBe('2024-01-02');
+  });
+});
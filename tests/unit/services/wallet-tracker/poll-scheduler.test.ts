@@ -0,0 +1,100 @@
+import { AdaptivePollScheduler } from '@/services/wallet-tracker/poll-scheduler';
+
+const MINUTE = 60 * 1000;
+const NOW = Date.UTC(2024, 0, 1, 12);
+
+function createScheduler(overrides: Partial<ConstructorParameters<typeof AdaptivePollScheduler>[0]> = {}) {
+  return new AdaptivePollScheduler({
+    baseIntervalMs: MINUTE,
+    minIntervalMs: 5000,
+    maxIntervalMs: 30 * MINUTE,
+    requestBudgetPerMinute: 1000,
+    maxRequestsPerPoll: 6,
+    ...overrides,
+  });
+}
+
+function getInterval(scheduler: AdaptivePollScheduler, wallet: string): number {
+  return scheduler.getWalletStatus(NOW).find(w => w.wallet === wallet)!.intervalMs;
+}
+
+describe('AdaptivePollScheduler', () => {
+  it('should poll the most overdue wallet first', () => {
+    const scheduler = createScheduler();
+    scheduler.add('0xa', 1, NOW, NOW - 1000);
+    scheduler.add('0xb', 1, NOW, NOW - 5000);
+    scheduler.add('0xc', 1, NOW, NOW + 5000);
+
+    expect(scheduler.next(NOW)).toBe('0xb');
+    scheduler.recordPoll('0xb', 0, NOW);
+    expect(scheduler.next(NOW)).toBe('0xa');
+  });
+
+  it('should poll active and widely followed wallets more often', () => {
+    const scheduler = createScheduler();
+    scheduler.add('0xquiet', 1, NOW);
+    scheduler.add('0xbusy', 1, NOW);
+    scheduler.add('0xpopular', 4, NOW);
+
+    scheduler.recordPoll('0xquiet', 0, NOW);
+    scheduler.recordPoll('0xbusy', 3, NOW);
+    scheduler.recordPoll('0xpopular', 0, NOW);
+
+    expect(getInterval(scheduler, '0xbusy')).toBeLessThan(getInterval(scheduler, '0xquiet'));
+    expect(getInterval(scheduler, '0xpopular')).toBeLessThan(getInterval(scheduler, '0xquiet'));
+  });
+
+  it('should back off wallets that stay idle', () => {
+    const scheduler = createScheduler();
+    scheduler.add('0xidle', 1, NOW);
+
+    scheduler.recordPoll('0xidle', 0, NOW);
+    const initial = getInterval(scheduler, '0xidle');
+
+    for (let i = 0; i < 10; i++) scheduler.recordPoll('0xidle', 0, NOW);
+    expect(getInterval(scheduler, '0xidle')).toBe(initial * 4);
+
+    scheduler.recordPoll('0xidle', 1, NOW);
+    expect(getInterval(scheduler, '0xidle')).toBeLessThan(initial);
+  });
+
+  it('should stretch intervals to fit the request budget', () => {
+    const scheduler = createScheduler({ requestBudgetPerMinute: 10 * 6 });
+    for (let i = 0; i < 20; i++) scheduler.add(`0x${i}`, 1, NOW);
+
+    // 20 wallets at a 1 minute base but only 10 worst-case polls per minute
+    expect(getInterval(scheduler, '0x19')).toBe(2 * MINUTE);
+  });
+
+  it('should budget intervals by the requests polls actually make', () => {
+    const scheduler = createScheduler({ requestBudgetPerMinute: 10 * 6 });
+    for (let i = 0; i < 20; i++) scheduler.add(`0x${i}`, 1, NOW);
+
+    // Polls that only need the positions and one activity page
+    for (let i = 0; i < 50; i++) scheduler.recordPoll(`0x${i % 19}`, 0, NOW, 2);
+    expect(scheduler.getRequestsPerPoll()).toBeCloseTo(2);
+
+    scheduler.recordPoll('0x19', 0, NOW, 2);
+    expect(getInterval(scheduler, '0x19')).toBeLessThan(2 * MINUTE);
+
+    // Paging through the whole feed pushes the average back up
+    for (let i = 0; i < 10; i++) scheduler.recordPoll('0x19', 0, NOW, 6);
+    expect(scheduler.getRequestsPerPoll()).toBeGreaterThan(5);
+  });
+
+  it('should hold polls while the budget is spent or rate limited', () => {
+    const scheduler = createScheduler({ requestBudgetPerMinute: 10 });
+
+    // A poll may page through the whole activity feed, so the worst case must fit
+    scheduler.observeRequestCount(100, NOW - MINUTE);
+    scheduler.observeRequestCount(105, NOW);
+    expect(scheduler.hasBudget(NOW)).toBe(false);
+
+    scheduler.observeRequestCount(105, NOW + MINUTE);
+    expect(scheduler.hasBudget(NOW + MINUTE)).toBe(true);
+
+    scheduler.pauseUntil(NOW + 2 * MINUTE);
+    expect(scheduler.hasBudget(NOW + MINUTE)).toBe(false);
+    expect(scheduler.getBudgetStatus(NOW + MINUTE).pausedUntil).toEqual(new Date(NOW + 2 * MINUTE));
+  });
+});
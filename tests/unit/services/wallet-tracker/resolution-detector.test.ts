@@ -0,0 +1,76 @@
+import {
+  detectResolvedPositions,
+  formatResolutionNotification,
+  getResolvedOutcome,
+  isRedemption,
+} from '@/services/wallet-tracker/resolution-detector';
+import { PositionSnapshot, getPositionKey } from '@/services/wallet-tracker/position-diff-detector';
+
+function createPosition(overrides: Partial<PositionSnapshot> = {}): PositionSnapshot {
+  return {
+    conditionId: 'cond1',
+    asset: 'asset1',
+    size: 24800,
+    avgPrice: 0.5,
+    title: 'Test Market',
+    eventSlug: 'test-market',
+    outcome: 'Yes',
+    timestamp: 0,
+    ...overrides,
+  };
+}
+
+function toSnapshot(...positions: PositionSnapshot[]): Map<string, PositionSnapshot> {
+  return new Map(positions.map(p => [getPositionKey(p), p]));
+}
+
+describe('Resolution Detector', () => {
+  it('should read the winning outcome from settled positions', () => {
+    expect(getResolvedOutcome({ redeemable: true, curPrice: 1, outcome: 'Yes', oppositeOutcome: 'No' })).toBe('Yes');
+    expect(getResolvedOutcome({ redeemable: true, curPrice: 0, outcome: 'Yes', oppositeOutcome: 'No' })).toBe('No');
+    expect(getResolvedOutcome({ redeemable: false, curPrice: 1, outcome: 'Yes' })).toBeUndefined();
+    expect(getResolvedOutcome({ redeemable: true, curPrice: 0.5, outcome: 'Yes' })).toBeUndefined();
+  });
+
+  it('should price payouts from the snapshot before resolution', () => {
+    const previous = toSnapshot(
+      createPosition(),
+      createPosition({ conditionId: 'cond2', outcome: 'No', size: 1000, avgPrice: 0.3 })
+    );
+    const current = toSnapshot(
+      createPosition({ resolvedOutcome: 'Yes' }),
+      createPosition({ conditionId: 'cond2', outcome: 'No', size: 1000, avgPrice: 0.3, resolvedOutcome: 'Yes' })
+    );
+
+    const resolved = detectResolvedPositions(previous, current);
+
+    expect(resolved).toHaveLength(2);
+    expect(resolved[0]).toMatchObject({ won: true, payout: 24800, costBasis: 12400, pnl: 12400 });
+    expect(resolved[1]).toMatchObject({ won: false, payout: 0, pnl: -300 });
+    expect(formatResolutionNotification(resolved[0], 'Whale_1')).toContain('Whale\\_1 *won $12.4K*');
+  });
+
+  it('should only alert once and not for positions resolved before tracking', () => {
+    const resolvedPosition = createPosition({ resolvedOutcome: 'Yes' });
+
+    expect(detectResolvedPositions(toSnapshot(resolvedPosition), toSnapshot(resolvedPosition))).toHaveLength(0);
+    expect(detectResolvedPositions(new Map(), toSnapshot(resolvedPosition))).toHaveLength(0);
+  });
+
+  it('should treat closing a resolved position as a redemption', () => {
+    const change = {
+      type: 'CLOSED' as const,
+      conditionId: 'cond1',
+      asset: 'asset1',
+      title: 'Test Market',
+      eventSlug: 'test-market',
+      outcome: 'Yes',
+      deltaShares: 24800,
+      price: 0.5,
+      totalValue: 12400,
+    };
+
+    expect(isRedemption(change, toSnapshot(createPosition({ resolvedOutcome: 'Yes' })))).toBe(true);
+    expect(isRedemption(change, toSnapshot(createPosition()))).toBe(false);
+  });
+});
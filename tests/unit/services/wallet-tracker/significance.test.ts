@@ -0,0 +1,80 @@
+import {
+  resolveThresholds,
+  isSignificantFor,
+  parseThresholdTokens,
+} from '@/services/wallet-tracker/significance';
+import { PositionChange } from '@/services/wallet-tracker/position-diff-detector';
+
+const DEFAULTS = { minOrderValue: 500, minPortfolioPercent: 2 };
+
+function createChange(overrides: Partial<PositionChange>): PositionChange {
+  return {
+    type: 'BUY',
+    conditionId: 'cond1',
+    asset: 'asset1',
+    title: 'Test Market',
+    eventSlug: 'test-market',
+    outcome: 'Yes',
+    deltaShares: 100,
+    price: 0.5,
+    totalValue: 50,
+    ...overrides,
+  };
+}
+
+describe('Significance Thresholds', () => {
+  describe('resolveThresholds', () => {
+    it('should fall back to global defaults', () => {
+      const thresholds = resolveThresholds(DEFAULTS);
+
+      expect(thresholds.enabled).toBe(true);
+      expect(thresholds.minOrderValue).toBe(500);
+      expect(thresholds.minPositionValue).toBe(500);
+      expect(thresholds.minPortfolioPercent).toBe(2);
+    });
+
+    it('should prefer wallet overrides over user preferences', () => {
+      const thresholds = resolveThresholds(
+        DEFAULTS,
+        { min_transaction_amount: 100, min_position_size: 1000, min_portfolio_percent: 5 },
+        { minOrderValue: 50 }
+      );
+
+      expect(thresholds.minOrderValue).toBe(50);
+      expect(thresholds.minPositionValue).toBe(50);
+      expect(thresholds.minPortfolioPercent).toBe(5);
+    });
+  });
+
+  describe('isSignificantFor', () => {
+    it('should pass changes over the USD threshold without a portfolio value', () => {
+      const thresholds = resolveThresholds(DEFAULTS, { min_transaction_amount: 40 });
+      expect(isSignificantFor(createChange({ totalValue: 50 }), thresholds)).toBe(true);
+    });
+
+    it('should pass small changes that are a large share of the portfolio', () => {
+      const thresholds = resolveThresholds(DEFAULTS);
+      expect(isSignificantFor(createChange({ totalValue: 50 }), thresholds, 1000)).toBe(true);
+      expect(isSignificantFor(createChange({ totalValue: 50 }), thresholds, 10000)).toBe(false);
+    });
+
+    it('should respect disabled notification types', () => {
+      const thresholds = resolveThresholds(DEFAULTS, { position_updates: false });
+      expect(isSignificantFor(createChange({ type: 'NEW', totalValue: 5000 }), thresholds)).toBe(false);
+      expect(isSignificantFor(createChange({ type: 'BUY', totalValue: 5000 }), thresholds)).toBe(true);
+    });
+  });
+
+  describe('parseThresholdTokens', () => {
+    it('should split threshold tokens from the alias', () => {
+      const { rest, override } = parseThresholdTokens(['Big', 'Whale', 'min=$250', 'pct=1.5%']);
+
+      expect(rest).toEqual(['Big', 'Whale']);
+      expect(override).toEqual({ minOrderValue: 250, minPortfolioPercent: 1.5 });
+    });
+
+    it('should return no override without tokens', () => {
+      expect(parseThresholdTokens(['Whale']).override).toBeUndefined();
+    });
+  });
+});
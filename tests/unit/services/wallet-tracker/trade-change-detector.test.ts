@@ -0,0 +1,157 @@
+import {
+  selectNewTrades,
+  createChangesFromTrades,
+  findUnexplainedChanges,
+  applyTradesToSnapshot,
+} from '@/services/wallet-tracker/trade-change-detector';
+import { PositionSnapshot } from '@/services/wallet-tracker/position-diff-detector';
+import { PolymarketTransaction } from '@/types/polymarket';
+
+function createTrade(overrides: Partial<PolymarketTransaction>): PolymarketTransaction {
+  return {
+    id: 'trade',
+    user: '0xwallet',
+    type: 'BUY',
+    conditionId: 'cond1',
+    outcome: 'Yes',
+    amount: 100,
+    size: 100,
+    price: 0.5,
+    timestamp: new Date(1_700_000_000_000).toISOString(),
+    hash: '0xhash',
+    title: 'Test Market',
+    eventSlug: 'test-market',
+    ...overrides,
+  };
+}
+
+function createPosition(overrides: Partial<PositionSnapshot>): PositionSnapshot {
+  return {
+    conditionId: 'cond1',
+    asset: 'asset1',
+    size: 100,
+    avgPrice: 0.5,
+    title: 'Test Market',
+    eventSlug: 'test-market',
+    outcome: 'Yes',
+    timestamp: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('Trade Change Detector', () => {
+  describe('selectNewTrades', () => {
+    it('should return trades newer than the cursor, oldest first', () => {
+      const trades = [
+        createTrade({ id: 't3', timestamp: new Date(3000).toISOString() }),
+        createTrade({ id: 't2', timestamp: new Date(2000).toISOString() }),
+        createTrade({ id: 't1', timestamp: new Date(1000).toISOString() }),
+      ];
+
+      const result = selectNewTrades(trades, { tradeId: 't1', timestamp: 1000 });
+
+      expect(result.cursorFound).toBe(true);
+      expect(result.trades.map(t => t.id)).toEqual(['t2', 't3']);
+    });
+
+    it('should stop at older trades when the cursor trade is missing', () => {
+      const trades = [
+        createTrade({ id: 't3', timestamp: new Date(3000).toISOString() }),
+        createTrade({ id: 't0', timestamp: new Date(500).toISOString() }),
+      ];
+
+      const result = selectNewTrades(trades, { tradeId: 't1', timestamp: 1000 });
+
+      expect(result.cursorFound).toBe(true);
+      expect(result.trades.map(t => t.id)).toEqual(['t3']);
+    });
+
+    it('should report a gap when the page never reaches the cursor', () => {
+      const trades = [
+        createTrade({ id: 't3', timestamp: new Date(3000).toISOString() }),
+        createTrade({ id: 't2', timestamp: new Date(2000).toISOString() }),
+      ];
+
+      const result = selectNewTrades(trades, { tradeId: 't1', timestamp: 1000 });
+
+      expect(result.cursorFound).toBe(false);
+      expect(result.trades).toHaveLength(2);
+    });
+  });
+
+  describe('createChangesFromTrades', () => {
+    it('should emit one change per fill with the fill price', () => {
+      const previous = new Map([['cond1:Yes', createPosition({ size: 100, avgPrice: 0.4 })]]);
+      const current = new Map([['cond1:Yes', createPosition({ size: 300, avgPrice: 0.5 })]]);
+      const trades = [
+        createTrade({ id: 'a', size: 100, amount: 100, price: 0.55 }),
+        createTrade({ id: 'b', size: 100, amount: 100, price: 0.6 }),
+      ];
+
+      const changes = createChangesFromTrades(trades, previous, current);
+
+      expect(changes).toHaveLength(2);
+      expect(changes.map(c => c.type)).toEqual(['BUY', 'BUY']);
+      expect(changes[0].price).toBe(0.55);
+      expect(changes[1].totalValue).toBeCloseTo(60);
+      expect(changes[0].source).toBe('trade');
+      expect(changes[0].tradeId).toBe('a');
+    });
+
+    it('should detect round-trips between polls as NEW then CLOSED', () => {
+      const previous = new Map<string, PositionSnapshot>();
+      const current = new Map<string, PositionSnapshot>();
+      const trades = [
+        createTrade({ id: 'open', type: 'BUY', size: 50, amount: 50, price: 0.3 }),
+        createTrade({ id: 'close', type: 'SELL', size: 50, amount: 50, price: 0.35 }),
+      ];
+
+      const changes = createChangesFromTrades(trades, previous, current);
+
+      expect(changes.map(c => c.type)).toEqual(['NEW', 'CLOSED']);
+      expect(changes[1].price).toBe(0.35);
+    });
+  });
+
+  describe('findUnexplainedChanges', () => {
+    it('should keep only snapshot changes that no fill accounts for', () => {
+      const previous = new Map([
+        ['cond1:Yes', createPosition({ size: 100 })],
+        ['cond2:No', createPosition({ conditionId: 'cond2', outcome: 'No', size: 40 })],
+      ]);
+      const current = new Map([['cond1:Yes', createPosition({ size: 200 })]]);
+      const tradeChanges = createChangesFromTrades(
+        [createTrade({ id: 'a', size: 100, amount: 100 })],
+        previous,
+        current
+      );
+
+      const unexplained = findUnexplainedChanges(tradeChanges, previous, current);
+
+      expect(unexplained).toHaveLength(1);
+      expect(unexplained[0].type).toBe('CLOSED');
+      expect(unexplained[0].conditionId).toBe('cond2');
+      expect(unexplained[0].source).toBe('snapshot');
+    });
+  });
+
+  describe('applyTradesToSnapshot', () => {
+    it('should let streamed fills classify as NEW, BUY and CLOSED in sequence', () => {
+      const empty = new Map<string, PositionSnapshot>();
+      const buy = createTrade({ id: 'a', size: 100, amount: 100, price: 0.4 });
+      const topUp = createTrade({ id: 'b', size: 100, amount: 100, price: 0.6 });
+      const exit = createTrade({ id: 'c', type: 'SELL', size: 200, amount: 200, price: 0.7 });
+
+      const afterBuy = applyTradesToSnapshot(empty, [buy]);
+      const afterTopUp = applyTradesToSnapshot(afterBuy, [topUp]);
+      const afterExit = applyTradesToSnapshot(afterTopUp, [exit]);
+
+      expect(createChangesFromTrades([buy], empty, afterBuy)[0].type).toBe('NEW');
+      expect(createChangesFromTrades([topUp], afterBuy, afterTopUp)[0].type).toBe('BUY');
+      expect(createChangesFromTrades([exit], afterTopUp, afterExit)[0].type).toBe('CLOSED');
+      expect(afterTopUp.get('cond1:Yes')?.avgPrice).toBeCloseTo(0.5);
+      expect(afterExit.size).toBe(0);
+      expect(empty.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import {
+  calculatePercentChange,
+  calculatePriceChange,
+  formatWatchlistSummary,
+  isBigMove,
+} from '@/services/watchlist/watchlist-summary';
+import { PolymarketPricePoint } from '@/types/polymarket';
+
+function points(...prices: number[]): PolymarketPricePoint[] {
+  return prices.map((price, i) => ({ timestamp: new Date(i * 3600000).toISOString(), price, source: 'LAST_TRADE' }));
+}
+
+describe('Watchlist Summary', () => {
+  it('should measure moves as a percent change of the price against the threshold', () => {
+    expect(isBigMove(0.5, 0.525, 5)).toBe(true);
+    expect(isBigMove(0.5, 0.475, 5)).toBe(true);
+    expect(isBigMove(0.5, 0.524, 5)).toBe(false);
+    expect(isBigMove(0.8, 0.83, 5)).toBe(false);
+    expect(isBigMove(0.07, 0.1, 25)).toBe(true);
+    expect(isBigMove(0, 0.1, 5)).toBe(true);
+    expect(isBigMove(0.5, 0.9, 0)).toBe(false);
+    expect(calculatePercentChange(0.4, 0.5)).toBeCloseTo(25);
+  });
+
+  it('should calculate the change over a price history', () => {
+    expect(calculatePriceChange(points(0.4, 0.45, 0.52))).toBeCloseTo(0.12);
+    expect(calculatePriceChange(points(0.4))).toBeUndefined();
+  });
+
+  it('should list price, change, volume and holders per market', () => {
+    const message = formatWatchlistSummary([
+      {
+        conditionId: '0xabc',
+        marketTitle: 'Will *X* win?',
+        price: 0.62,
+        priceChange24h: -0.031,
+        volume24h: 125000,
+        holders: [
+          { address: '0x1', label: 'whale_1', source: 'smart', outcome: 'Yes', value: 5400 },
+          { address: '0x2', label: 'mine', source: 'tracked', outcome: 'No' },
+          { address: '0x3', label: 'c', source: 'smart', outcome: 'Yes' },
+          { address: '0x4', label: 'd', source: 'smart', outcome: 'Yes' },
+        ],
+      },
+      { conditionId: '0xdef', marketTitle: 'Quiet market', holders: [] },
+    ]);
+
+    expect(message).toContain('1. *Will \\*X\\* win?*');
+    expect(message).toContain('YES 62% (-3.1 pts 24h) • 24h vol $125.0K');
+    expect(message).toContain('🧠 whale\\_1 Yes $5.4K, 👤 mine No, 🧠 c Yes +1 more');
+    expect(message).toContain('2. *Quiet market*\n   _No market data_');
+  });
+});
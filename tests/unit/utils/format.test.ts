@@ -0,0 +1,46 @@
+import {
+  escapeMarkdown,
+  formatCents,
+  formatCompact,
+  formatProbability,
+  formatShortAddress,
+  formatSignedUsd,
+  formatUsd,
+} from '@/utils/format';
+
+describe('Message Formatting', () => {
+  it('should format values with K/M suffixes', () => {
+    expect(formatCompact(1500000)).toBe('1.5M');
+    expect(formatCompact(2500)).toBe('2.5K');
+    expect(formatCompact(12.345, 2)).toBe('12.35');
+    expect(formatUsd(125000)).toBe('$125.0K');
+    expect(formatUsd(-320)).toBe('-$320');
+    expect(formatUsd(9.5, 2)).toBe('$9.50');
+  });
+
+  it('should format prices as probabilities', () => {
+    expect(formatProbability(0.425)).toBe('42.5%');
+    expect(formatProbability(0.07)).toBe('7%');
+    expect(formatProbability(1)).toBe('100%');
+  });
+
+  it('should format prices in cents', () => {
+    expect(formatCents(0.425)).toBe('42.5¢');
+    expect(formatCents(0.07)).toBe('7¢');
+    expect(formatCents(0.995)).toBe('99.5¢');
+  });
+
+  it('should shorten addresses', () => {
+    expect(formatShortAddress('0x1234567890abcdef1234567890abcdef12345678')).toBe('0x1234...5678');
+  });
+
+  it('should sign dollar changes', () => {
+    expect(formatSignedUsd(1500)).toBe('+$1.5K');
+    expect(formatSignedUsd(-2000000)).toBe('-$2.0M');
+    expect(formatSignedUsd(0, 2)).toBe('+$0.00');
+  });
+
+  it('should escape Markdown', () => {
+    expect(escapeMarkdown('whale_1 *big* `bet` [x]')).toBe('whale\\_1 \\*big\\* \\`bet\\` \\[x]');
+  });
+});